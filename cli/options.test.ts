@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { CliError, EXIT_CODES, parseStrategyConfig } from './options';
+
+/**
+ * Command Line Options
+ *
+ * Config files the CLI must turn away, each with the path of the bad
+ * field and the invalid-input exit code.
+ */
+
+const rejects = (config: object, path: string) => {
+  let error: unknown;
+  try {
+    parseStrategyConfig(JSON.stringify(config), 'config.json');
+  } catch (err) {
+    error = err;
+  }
+  expect(error).toBeInstanceOf(CliError);
+  expect((error as CliError).message).toContain(path);
+  expect((error as CliError).exitCode).toBe(EXIT_CODES.invalidInput);
+};
+
+describe('parseStrategyConfig', () => {
+  it('fills the defaults around a partial config', () => {
+    const config = parseStrategyConfig('{ "threshold": 0.08, "costs": { "enabled": true } }', 'config.json');
+    expect(config.threshold).toBe(0.08);
+    expect(config.costs.enabled).toBe(true);
+    expect(config.costs.sttPercent).toBe(0.001);
+  });
+
+  it('names the ladder step and field it rejects', () => {
+    rejects({ thresholdLadder: [{ minPositions: 1.5, threshold: 0.1 }] }, 'thresholdLadder[0].minPositions');
+    rejects({ thresholdLadder: [{ minPositions: 3, threshold: 0.1 }, { minPositions: 4, threshold: 1 }] }, 'thresholdLadder[1].threshold');
+    rejects({ maxActionsPerDay: 0 }, 'maxActionsPerDay');
+  });
+
+  it('checks every cost model field', () => {
+    rejects({ costs: { enabled: 'yes' } }, 'costs.enabled');
+    rejects({ costs: { brokerageType: 'tiered' } }, 'costs.brokerageType');
+    rejects({ costs: { sttPercent: -0.001 } }, 'costs.sttPercent');
+    rejects({ costs: { slippageValue: '5' } }, 'costs.slippageValue');
+    rejects({ costs: { slippageType: 'ticks', tickSize: 0 } }, 'costs.tickSize');
+  });
+});
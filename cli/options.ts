@@ -0,0 +1,263 @@
+import { parseArgs } from 'node:util';
+import type { BacktestExport, CostModelConfig, FilterRule, IndicatorRef, StrategyConfig, ThresholdStep } from '../src/types';
+import { DEFAULT_STRATEGY_CONFIG } from '../src/utils/backtestEngineV2';
+import { STRATEGY_IDS } from '../src/utils/strategies';
+import { PATH_MODELS } from '../src/utils/intrabarPath';
+import { GAP_FILL_MODES } from '../src/utils/orderFills';
+import { SIZING_MODES } from '../src/utils/positionSizing';
+import { INDICATOR_IDS, hasPeriod } from '../src/utils/indicators';
+
+/**
+ * Command Line Options
+ *
+ * Argument parsing and the strategy config file, with an exit code for
+ * every way the input can be wrong so scripts can tell a bad file from a
+ * crash.
+ */
+
+export const EXIT_CODES = {
+  ok: 0,
+  failed: 1,       // Unexpected error while running
+  usage: 2,        // Unknown command or flag, missing files
+  invalidInput: 3  // A config or price file that cannot be used
+} as const;
+
+export class CliError extends Error {
+  readonly exitCode: number;
+
+  constructor(message: string, exitCode: number) {
+    super(message);
+    this.name = 'CliError';
+    this.exitCode = exitCode;
+  }
+}
+
+export const USAGE = `Usage: threshold-backtest run <file.csv | directory>... [options]
+
+Backtests every price CSV given (directories are searched for *.csv) and
+prints a summary table. Bhavcopies with many symbols run each symbol.
+
+Options:
+  -c, --config <file>   Strategy settings as JSON: a partial StrategyConfig
+                        or a run exported from the app
+  -o, --out <dir>       Write <SYMBOL>.json, <SYMBOL>-transactions.csv,
+                        <SYMBOL>-positions.csv and summary.csv here
+  -a, --actions <file>  Corporate actions CSV (splits, bonuses, dividends)
+      --strict          Skip files with any import error instead of
+                        running on their valid rows
+  -h, --help            Show this help
+
+Exit codes: 0 ok, 1 run failed, 2 bad usage, 3 invalid input`;
+
+export interface CliOptions {
+  command: 'run' | 'help';
+  inputs: string[];
+  config?: string;
+  out?: string;
+  actions?: string;
+  strict: boolean;
+}
+
+export const parseCliArgs = (argv: string[]): CliOptions => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        config: { type: 'string', short: 'c' },
+        out: { type: 'string', short: 'o' },
+        actions: { type: 'string', short: 'a' },
+        strict: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (err) {
+    throw new CliError(err instanceof Error ? err.message : String(err), EXIT_CODES.usage);
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...inputs] = positionals;
+  if (values.help || command === undefined || command === 'help') {
+    return { command: 'help', inputs: [], strict: false };
+  }
+  if (command !== 'run') throw new CliError(`Unknown command '${command}'`, EXIT_CODES.usage);
+  if (inputs.length === 0) throw new CliError('Give at least one CSV file or directory to run', EXIT_CODES.usage);
+
+  return { command, inputs, config: values.config, out: values.out, actions: values.actions, strict: values.strict };
+};
+
+const fraction = (config: StrategyConfig, key: 'threshold' | 'fallingStockReset' | 'recoveryTrigger') => {
+  const value = config[key];
+  if (typeof value !== 'number' || !(value > 0 && value < 1)) {
+    throw new CliError(`${key} must be a fraction between 0 and 1 (0.05 = 5%)`, EXIT_CODES.invalidInput);
+  }
+};
+
+const indicatorRef = (ref: IndicatorRef | undefined, where: string): IndicatorRef => {
+  if (!ref || !INDICATOR_IDS.includes(ref.indicator)) {
+    throw new CliError(`${where}.indicator must be one of ${INDICATOR_IDS.join(', ')}`, EXIT_CODES.invalidInput);
+  }
+  if (hasPeriod(ref.indicator) && (!Number.isInteger(ref.period) || ref.period < 1)) {
+    throw new CliError(`${where}.period must be a whole number of bars, at least 1`, EXIT_CODES.invalidInput);
+  }
+  return { indicator: ref.indicator, period: ref.period ?? 0 };
+};
+
+/**
+ * Filter rules, with enabled, scope and right left out meaning on, every
+ * buy and a plain level; ids default to F1, F2, ... by position
+ */
+const parseFilters = (filters: unknown): FilterRule[] => {
+  if (!Array.isArray(filters)) {
+    throw new CliError('filters must be a list of { side, left, op, right, value } rules', EXIT_CODES.invalidInput);
+  }
+  return filters.map((rule: Partial<FilterRule>, i): FilterRule => {
+    const where = `filters[${i}]`;
+    if (rule.side !== 'BUY' && rule.side !== 'SELL') throw new CliError(`${where}.side must be BUY or SELL`, EXIT_CODES.invalidInput);
+    if (rule.op !== 'above' && rule.op !== 'below') throw new CliError(`${where}.op must be above or below`, EXIT_CODES.invalidInput);
+    if (rule.scope !== undefined && rule.scope !== 'all' && rule.scope !== 'ladder') {
+      throw new CliError(`${where}.scope must be all or ladder`, EXIT_CODES.invalidInput);
+    }
+    if (typeof rule.value !== 'number' || !Number.isFinite(rule.value)) {
+      throw new CliError(`${where}.value must be a number`, EXIT_CODES.invalidInput);
+    }
+    return {
+      id: rule.id ?? `F${i + 1}`,
+      enabled: rule.enabled ?? true,
+      side: rule.side,
+      scope: rule.scope ?? 'all',
+      left: indicatorRef(rule.left, `${where}.left`),
+      op: rule.op,
+      right: rule.right ? indicatorRef(rule.right, `${where}.right`) : null,
+      value: rule.value
+    };
+  });
+};
+
+/**
+ * Threshold ladder steps, each checked where it sits: thresholdLadder[0].threshold
+ */
+const parseLadder = (ladder: unknown): ThresholdStep[] => {
+  if (!Array.isArray(ladder)) {
+    throw new CliError('thresholdLadder must be a list of { minPositions, threshold }', EXIT_CODES.invalidInput);
+  }
+  return ladder.map((step: Partial<ThresholdStep>, i): ThresholdStep => {
+    const where = `thresholdLadder[${i}]`;
+    if (!step || typeof step !== 'object') {
+      throw new CliError(`${where} must be a { minPositions, threshold } step`, EXIT_CODES.invalidInput);
+    }
+    if (typeof step.minPositions !== 'number' || !Number.isInteger(step.minPositions) || step.minPositions < 0) {
+      throw new CliError(`${where}.minPositions must be a whole number of at least 0`, EXIT_CODES.invalidInput);
+    }
+    if (typeof step.threshold !== 'number' || !(step.threshold > 0 && step.threshold < 1)) {
+      throw new CliError(`${where}.threshold must be a fraction between 0 and 1 (0.05 = 5%)`, EXIT_CODES.invalidInput);
+    }
+    if (step.multiplier !== undefined && !(typeof step.multiplier === 'number' && step.multiplier >= 0)) {
+      throw new CliError(`${where}.multiplier must be a lot multiple of at least 0`, EXIT_CODES.invalidInput);
+    }
+    return step as ThresholdStep;
+  });
+};
+
+// Cost model amounts and rates: ₹ or fractions of turnover, never negative
+const COST_AMOUNTS = [
+  'brokerageFlat', 'brokeragePercent', 'brokerageCap', 'sttPercent', 'exchangeChargesPercent',
+  'sebiFeesPerCrore', 'stampDutyPercent', 'gstPercent', 'dpChargesPerSell', 'slippageValue'
+] as const;
+
+/**
+ * Cost model fields, each checked where it sits: costs.sttPercent
+ */
+const checkCosts = (costs: CostModelConfig) => {
+  if (typeof costs.enabled !== 'boolean') throw new CliError('costs.enabled must be true or false', EXIT_CODES.invalidInput);
+  if (costs.brokerageType !== 'flat' && costs.brokerageType !== 'percent') {
+    throw new CliError('costs.brokerageType must be flat or percent', EXIT_CODES.invalidInput);
+  }
+  if (costs.slippageType !== 'bps' && costs.slippageType !== 'ticks') {
+    throw new CliError('costs.slippageType must be bps or ticks', EXIT_CODES.invalidInput);
+  }
+  for (const key of COST_AMOUNTS) {
+    const value = costs[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new CliError(`costs.${key} must be a number of at least 0 (rates as fractions: 0.001 = 0.1%)`, EXIT_CODES.invalidInput);
+    }
+  }
+  if (typeof costs.tickSize !== 'number' || !(costs.tickSize > 0)) {
+    throw new CliError('costs.tickSize must be a positive amount in ₹', EXIT_CODES.invalidInput);
+  }
+};
+
+/**
+ * Strategy settings from a JSON file's text, on top of the defaults
+ * Accepts a bare (partial) StrategyConfig or a run exported from the app.
+ */
+export const parseStrategyConfig = (text: string, fileName: string): StrategyConfig => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    throw new CliError(`${fileName} is not valid JSON: ${err instanceof Error ? err.message : err}`, EXIT_CODES.invalidInput);
+  }
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new CliError(`${fileName} must hold a JSON object`, EXIT_CODES.invalidInput);
+  }
+
+  const exported = json as Partial<BacktestExport>;
+  const partial = (exported.format === 'stock-backtest-run' ? exported.config : json) as Partial<StrategyConfig>;
+  const config: StrategyConfig = {
+    ...DEFAULT_STRATEGY_CONFIG,
+    ...partial,
+    costs: { ...DEFAULT_STRATEGY_CONFIG.costs, ...partial.costs },
+    exits: { ...DEFAULT_STRATEGY_CONFIG.exits, ...partial.exits },
+    sizing: { ...DEFAULT_STRATEGY_CONFIG.sizing, ...partial.sizing }
+  };
+
+  if (!STRATEGY_IDS.includes(config.strategy)) {
+    throw new CliError(`Unknown strategy '${config.strategy}'; use one of ${STRATEGY_IDS.join(', ')}`, EXIT_CODES.invalidInput);
+  }
+  if (!PATH_MODELS.includes(config.intrabarModel) || config.intrabarModel === 'intraday') {
+    throw new CliError(`intrabarModel must be one of ${PATH_MODELS.filter(m => m !== 'intraday').join(', ')}`, EXIT_CODES.invalidInput);
+  }
+  if (!GAP_FILL_MODES.includes(config.gapFill)) {
+    throw new CliError(`gapFill must be one of ${GAP_FILL_MODES.join(', ')}`, EXIT_CODES.invalidInput);
+  }
+  if (!(config.lotSize > 0)) throw new CliError('lotSize must be a positive amount', EXIT_CODES.invalidInput);
+  if (!Number.isInteger(config.maxPositions) || config.maxPositions < 1) {
+    throw new CliError('maxPositions must be a whole number of at least 1', EXIT_CODES.invalidInput);
+  }
+  if (!Number.isInteger(config.maxActionsPerDay) || config.maxActionsPerDay < 1) {
+    throw new CliError('maxActionsPerDay must be a whole number of at least 1', EXIT_CODES.invalidInput);
+  }
+  fraction(config, 'threshold');
+  fraction(config, 'fallingStockReset');
+  fraction(config, 'recoveryTrigger');
+  checkCosts(config.costs);
+  const { exits } = config;
+  if (!(exits.stopLoss >= 0 && exits.stopLoss < 1) || !(exits.trailingStop >= 0 && exits.trailingStop < 1)) {
+    throw new CliError('exits.stopLoss and exits.trailingStop must be fractions from 0 (off) to 1', EXIT_CODES.invalidInput);
+  }
+  if (!Number.isInteger(exits.maxHoldingDays) || exits.maxHoldingDays < 0) {
+    throw new CliError('exits.maxHoldingDays must be a whole number of trading days (0 = off)', EXIT_CODES.invalidInput);
+  }
+  if (!(exits.drawdownCut >= 0)) throw new CliError('exits.drawdownCut must be an amount in ₹ (0 = off)', EXIT_CODES.invalidInput);
+  const { sizing } = config;
+  if (!SIZING_MODES.includes(sizing.mode)) {
+    throw new CliError(`sizing.mode must be one of ${SIZING_MODES.join(', ')}`, EXIT_CODES.invalidInput);
+  }
+  if (!(sizing.capitalPercent > 0 && sizing.capitalPercent <= 1)) {
+    throw new CliError('sizing.capitalPercent must be a fraction above 0, up to 1 (0.2 = 20%)', EXIT_CODES.invalidInput);
+  }
+  for (const key of ['shares', 'atrPeriod', 'lotMultiple'] as const) {
+    if (!Number.isInteger(sizing[key]) || sizing[key] < 1) {
+      throw new CliError(`sizing.${key} must be a whole number of at least 1`, EXIT_CODES.invalidInput);
+    }
+  }
+  if (!(sizing.capital > 0) || !(sizing.atrRisk > 0)) {
+    throw new CliError('sizing.capital and sizing.atrRisk must be positive amounts', EXIT_CODES.invalidInput);
+  }
+  config.thresholdLadder = parseLadder(config.thresholdLadder);
+  config.filters = parseFilters(config.filters);
+  return config;
+};
+
@@ -0,0 +1,228 @@
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import type { CorporateAction, ImportIssue, PriceBar, StrategyConfig } from '../src/types';
+import { DEFAULT_STRATEGY_CONFIG, runBacktest } from '../src/utils/backtestEngineV2';
+import { createFileImport, readCSV, symbolFromFileName } from '../src/utils/csvParser';
+import { actionsForSymbol, parseCorporateActions } from '../src/utils/corporateActions';
+import { buildRunExport, positionsToCSV, runToJSON, transactionsToCSV } from '../src/utils/exporters';
+import { computeMetrics } from '../src/utils/metrics';
+import { CliError, EXIT_CODES, USAGE, parseCliArgs, parseStrategyConfig } from './options';
+
+/**
+ * Headless Backtest Runner
+ *
+ * Runs the same engine and CSV import as the app over any number of
+ * files, for overnight batches and for diffing outputs between engine
+ * changes. Progress and import problems go to stderr; stdout carries
+ * only the summary table, so it can be redirected and compared.
+ */
+
+interface SummaryRow {
+  symbol: string;
+  file: string;
+  bars: number;
+  startDate: string;
+  endDate: string;
+  trades: number;
+  profit: number;
+  annualizedROI: number;
+  maxDrawdown: number;
+  openLots: number;
+  finalEquity: number;
+  status: string; // 'ok' or why the symbol did not run
+}
+
+const SUMMARY_COLUMNS: [keyof SummaryRow, string][] = [
+  ['symbol', 'Symbol'],
+  ['bars', 'Bars'],
+  ['startDate', 'Start'],
+  ['endDate', 'End'],
+  ['trades', 'Trades'],
+  ['profit', 'Realized P/L'],
+  ['annualizedROI', 'Ann. ROI %'],
+  ['maxDrawdown', 'Max DD'],
+  ['openLots', 'Open Lots'],
+  ['finalEquity', 'Equity (MTM)'],
+  ['status', 'Status']
+];
+
+const log = (message: string) => process.stderr.write(message + '\n');
+
+const formatCell = (value: SummaryRow[keyof SummaryRow]) =>
+  typeof value === 'number' ? (Number.isInteger(value) ? String(value) : value.toFixed(2)) : value;
+
+/**
+ * Plain-text table with right-aligned numbers
+ */
+const formatTable = (rows: SummaryRow[]): string => {
+  const cells = [SUMMARY_COLUMNS.map(([, label]) => label), ...rows.map(row => SUMMARY_COLUMNS.map(([key]) => formatCell(row[key])))];
+  const widths = SUMMARY_COLUMNS.map((_, i) => Math.max(...cells.map(line => line[i].length)));
+  const numeric = SUMMARY_COLUMNS.map(([key]) => typeof rows[0]?.[key] === 'number');
+  return cells
+    .map(line => line.map((cell, i) => (numeric[i] ? cell.padStart(widths[i]) : cell.padEnd(widths[i]))).join('  ').trimEnd())
+    .join('\n');
+};
+
+const summaryToCSV = (rows: SummaryRow[]): string => {
+  const quote = (cell: string) => (/[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+  return [
+    SUMMARY_COLUMNS.map(([, label]) => label).join(','),
+    ...rows.map(row => SUMMARY_COLUMNS.map(([key]) => quote(formatCell(row[key]))).join(','))
+  ].join('\n');
+};
+
+/**
+ * Every CSV named on the command line, directories expanded one level
+ */
+const expandInputs = async (inputs: string[]): Promise<string[]> => {
+  const files: string[] = [];
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    if (!info) throw new CliError(`No such file or directory: ${input}`, EXIT_CODES.usage);
+    if (info.isDirectory()) {
+      const names = (await readdir(input)).filter(name => name.toLowerCase().endsWith('.csv')).sort();
+      files.push(...names.map(name => join(input, name)));
+    } else {
+      files.push(input);
+    }
+  }
+  if (files.length === 0) throw new CliError('No CSV files found', EXIT_CODES.usage);
+  return files;
+};
+
+const readText = (path: string): Promise<string> =>
+  readFile(path, 'utf8').catch(() => {
+    throw new CliError(`Cannot read ${path}`, EXIT_CODES.usage);
+  });
+
+const describeIssue = (file: string, issue: ImportIssue) =>
+  `${file}${issue.row !== null ? `:${issue.row}` : ''}: ${issue.severity}: ${issue.message}`;
+
+const failedRow = (symbol: string, file: string, bars: PriceBar[], status: string): SummaryRow => ({
+  symbol,
+  file,
+  bars: bars.length,
+  startDate: bars[0]?.date ?? '',
+  endDate: bars[bars.length - 1]?.date ?? '',
+  trades: 0,
+  profit: 0,
+  annualizedROI: 0,
+  maxDrawdown: 0,
+  openLots: 0,
+  finalEquity: 0,
+  status
+});
+
+/**
+ * Backtest one symbol and write its files
+ */
+const runSymbol = async (
+  symbol: string,
+  file: string,
+  bars: PriceBar[],
+  config: StrategyConfig,
+  corporateActions: CorporateAction[],
+  out?: string
+): Promise<SummaryRow> => {
+  const actions = actionsForSymbol(corporateActions, symbol);
+  const results = runBacktest(bars, config, { corporateActions: actions });
+  const metrics = computeMetrics(results);
+
+  if (out) {
+    await writeFile(join(out, `${symbol}.json`), runToJSON(buildRunExport(results, config, [symbol], undefined, actions)));
+    await writeFile(join(out, `${symbol}-transactions.csv`), transactionsToCSV(results.transactions));
+    await writeFile(join(out, `${symbol}-positions.csv`), positionsToCSV(results.remainingPositions, results.currentPrice, config.threshold));
+  }
+
+  return {
+    symbol,
+    file,
+    bars: bars.length,
+    startDate: results.startDate ?? bars[0].date,
+    endDate: results.endDate ?? bars[bars.length - 1].date,
+    trades: results.totalTrades,
+    profit: results.totalProfit,
+    annualizedROI: results.annualizedROI ?? 0,
+    maxDrawdown: results.maxDrawdown ?? 0,
+    openLots: results.remainingPositions.length,
+    finalEquity: metrics.finalEquity,
+    status: 'ok'
+  };
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const options = parseCliArgs(argv);
+  if (options.command === 'help') {
+    process.stdout.write(USAGE + '\n');
+    return EXIT_CODES.ok;
+  }
+
+  const files = await expandInputs(options.inputs);
+  const config = options.config
+    ? parseStrategyConfig(await readText(options.config), options.config)
+    : DEFAULT_STRATEGY_CONFIG;
+
+  let corporateActions: CorporateAction[] = [];
+  if (options.actions) {
+    const parsed = parseCorporateActions(await readCSV(await readText(options.actions), basename(options.actions)));
+    parsed.issues.forEach(issue => log(describeIssue(options.actions!, issue)));
+    if (parsed.issues.some(issue => issue.severity === 'error' && issue.row === null)) {
+      throw new CliError(`Could not read corporate actions from ${options.actions}`, EXIT_CODES.invalidInput);
+    }
+    corporateActions = parsed.actions;
+  }
+
+  if (options.out) await mkdir(options.out, { recursive: true });
+
+  const rows: SummaryRow[] = [];
+  let invalid = false;
+  let failed = false;
+
+  for (const file of files) {
+    log(`Running ${file}`);
+    const fileImport = await readFile(file, 'utf8')
+      .then(text => readCSV(text, basename(file)))
+      .then(raw => createFileImport(raw))
+      .catch((err: unknown) => err instanceof Error ? err : new Error(String(err)));
+
+    if (fileImport instanceof Error || !fileImport.mapping) {
+      invalid = true;
+      const reason = fileImport instanceof Error ? fileImport.message : 'Unrecognized columns: need a date and OPEN, HIGH, LOW, CLOSE';
+      log(`${file}: ${reason}`);
+      rows.push(failedRow(symbolFromFileName(basename(file)), file, [], reason));
+      continue;
+    }
+
+    for (const result of fileImport.results) {
+      result.issues.forEach(issue => log(describeIssue(file, issue)));
+      const errors = result.issues.filter(issue => issue.severity === 'error').length;
+      if (result.bars.length < 2 || (options.strict && errors > 0)) {
+        invalid = true;
+        rows.push(failedRow(result.symbol, file, result.bars, result.bars.length < 2 ? 'Fewer than 2 valid bars' : `${errors} import errors`));
+        continue;
+      }
+      try {
+        rows.push(await runSymbol(result.symbol, file, result.bars, config, corporateActions, options.out));
+      } catch (err) {
+        failed = true;
+        const reason = err instanceof Error ? err.message : String(err);
+        log(`${file} (${result.symbol}): ${reason}`);
+        rows.push(failedRow(result.symbol, file, result.bars, reason));
+      }
+    }
+  }
+
+  if (options.out) await writeFile(join(options.out, 'summary.csv'), summaryToCSV(rows));
+  process.stdout.write(formatTable(rows) + '\n');
+
+  if (failed) return EXIT_CODES.failed;
+  return invalid ? EXIT_CODES.invalidInput : EXIT_CODES.ok;
+};
+
+main(process.argv.slice(2))
+  .then(code => { process.exitCode = code; })
+  .catch((err: unknown) => {
+    log(`threshold-backtest: ${err instanceof Error ? err.message : String(err)}`);
+    if (err instanceof CliError && err.exitCode === EXIT_CODES.usage) log('\n' + USAGE);
+    process.exitCode = err instanceof CliError ? err.exitCode : EXIT_CODES.failed;
+  });
@@ -1,78 +1,257 @@
-import React, { useState } from 'react';
-import Papa from 'papaparse';
+import React, { useMemo, useState } from 'react';
 import FileUpload from './components/FileUpload';
 import SummaryCards from './components/SummaryCards';
 import TransactionHistory from './components/TransactionHistory';
 import OpenPositions from './components/OpenPositions';
-//import { runBacktest } from './utils/backtestEngine';
-// Alternative: Stack-based engine (LIFO approach)
-//import { runBacktestStack as runBacktest } from './utils/backtestEngineStack';
-import { runBacktest } from './utils/backtestEngineV2';
-import type { StockData, BacktestResults } from './types';
+import StrategySettings from './components/StrategySettings';
+import OptimizerPanel from './components/OptimizerPanel';
+import PortfolioSettings from './components/PortfolioSettings';
+import PortfolioBreakdown from './components/PortfolioBreakdown';
+import BacktestCharts from './components/BacktestCharts';
+import MetricsPanel from './components/MetricsPanel';
+import TaxReport from './components/TaxReport';
+import ExportMenu from './components/ExportMenu';
+import ReportHeader from './components/ReportHeader';
+import RunLibrary from './components/RunLibrary';
+import ValidationPanel from './components/ValidationPanel';
+import CorporateActions from './components/CorporateActions';
+import PathModelPanel from './components/PathModelPanel';
+import FilterImpactPanel from './components/FilterImpactPanel';
+import DecisionTimeline from './components/DecisionTimeline';
+import BenchmarkPanel from './components/BenchmarkPanel';
+import MonteCarloPanel from './components/MonteCarloPanel';
+import NextSessionPanel from './components/NextSessionPanel';
+import ReconciliationPanel from './components/ReconciliationPanel';
+import { runBacktest, DEFAULT_STRATEGY_CONFIG, ENGINE_VERSION } from './utils/backtestEngineV2';
+import { runPortfolioBacktest, DEFAULT_PORTFOLIO_CONFIG } from './utils/portfolioEngine';
+import { readCSV, createFileImport, isCleanImport } from './utils/csvParser';
+import { computeMetrics } from './utils/metrics';
+import { computeTaxReport } from './utils/taxReport';
+import { computeBenchmarks } from './utils/benchmarks';
+import { buildRunExport } from './utils/exporters';
+import { actionsForSymbol } from './utils/corporateActions';
+import { getLadderThreshold } from './utils/referenceStrategy';
+import { engineVersionOf, savedRunConfig } from './utils/runLibrary';
+import type {
+  BacktestResults,
+  StrategyConfig,
+  SymbolDataset,
+  PortfolioConfig,
+  PortfolioResults,
+  SavedRun,
+  FileImport,
+  ColumnMapping,
+  DateOrder,
+  CorporateAction,
+  IntradayPaths,
+  IndexSeries
+} from './types';
 
 function App() {
   const [results, setResults] = useState<BacktestResults | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [fileName, setFileName] = useState<string>('');
+  const [datasets, setDatasets] = useState<SymbolDataset[] | null>(null);
+  const [imports, setImports] = useState<FileImport[] | null>(null); // Parsed files awaiting or behind the current run
+  const [config, setConfig] = useState<StrategyConfig>(DEFAULT_STRATEGY_CONFIG);
+  const [runConfig, setRunConfig] = useState<StrategyConfig>(DEFAULT_STRATEGY_CONFIG); // Settings behind the results on screen
+  const [portfolioConfig, setPortfolioConfig] = useState<PortfolioConfig>(DEFAULT_PORTFOLIO_CONFIG);
+  const [runPortfolioConfig, setRunPortfolioConfig] = useState<PortfolioConfig>(DEFAULT_PORTFOLIO_CONFIG); // Capital behind the portfolio results on screen
+  const [portfolioResults, setPortfolioResults] = useState<PortfolioResults | null>(null);
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>([]); // Kept across uploads, matched by symbol
+  const [runActions, setRunActions] = useState<CorporateAction[]>([]); // Actions behind the results on screen
+  const [focusEventId, setFocusEventId] = useState<number | null>(null); // Trade explained in the decision timeline
+  const [indexSeries, setIndexSeries] = useState<IndexSeries | null>(null); // Benchmark index, kept across runs
+  const [savedEngine, setSavedEngine] = useState<number | null>(null); // Older engine behind a reopened run's results
 
-  const processCSV = (file: File) => {
+  const isPortfolio = !!datasets && datasets.length > 1;
+  const deepThreshold = getLadderThreshold(runConfig, runConfig.maxPositions - 1); // Dip the run's last lot needed
+  // Derived reports are recomputed only when the run or their inputs change, not on every settings edit
+  const benchmarks = useMemo(
+    () => (results && datasets ? computeBenchmarks(results, datasets, runActions, indexSeries ?? undefined) : null),
+    [results, datasets, runActions, indexSeries]
+  );
+  const metrics = useMemo(() => (results ? computeMetrics(results) : null), [results]);
+  const taxReport = useMemo(() => (results ? computeTaxReport(results) : null), [results]);
+
+  /**
+   * Run the engine on already-parsed data with the current settings
+   * Lets us tweak parameters without uploading the CSV again
+   * One file runs the single-symbol engine, several share a capital pool
+   */
+  const runStrategy = (
+    sets: SymbolDataset[],
+    strategyConfig: StrategyConfig,
+    capital: PortfolioConfig = portfolioConfig
+  ) => {
+    try {
+      setError(null);
+      if (sets.length === 1) {
+        const actions = actionsForSymbol(corporateActions, sets[0].symbol);
+        setResults(runBacktest(sets[0].data, strategyConfig, { corporateActions: actions, intraday: sets[0].intraday }));
+        setPortfolioResults(null);
+        setRunActions(actions);
+      } else {
+        const portfolio = runPortfolioBacktest(sets, strategyConfig, capital, { corporateActions });
+        setPortfolioResults(portfolio);
+        setRunPortfolioConfig(capital);
+        setResults(portfolio.combined);
+        setRunActions(corporateActions);
+      }
+      setRunConfig(strategyConfig);
+      setFocusEventId(null);
+      setSavedEngine(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  /**
+   * Run the backtest on every symbol the imported files produced
+   */
+  const runImports = (list: FileImport[]) => {
+    const sets = list
+      .flatMap(i => i.results)
+      .filter(r => r.bars.length >= 2) // Symbols with too little data are left out
+      .map(r => ({ symbol: r.symbol, data: r.bars }));
+    setDatasets(sets);
+    runStrategy(sets, config);
+  };
+
+  /**
+   * Read and check the uploads; clean files run straight away,
+   * anything with issues or an unknown layout waits in the Data Check panel
+   */
+  const processFiles = async (files: File[]) => {
     setLoading(true);
     setError(null);
     setResults(null);
-    setFileName(file.name);
-
-    Papa.parse<StockData>(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (parseResult) => {
-        try {
-          const data = parseResult.data;
-          
-          if (!data || data.length === 0) {
-            throw new Error('CSV file is empty');
-          }
+    setPortfolioResults(null);
+    setDatasets(null);
+    setImports(null);
+    setSavedEngine(null);
 
-          // Validate required columns
-          const firstRow = data[0];
-          if (!firstRow.OPEN || !firstRow.HIGH || !firstRow.LOW || !firstRow.CLOSE) {
-            throw new Error('CSV must contain OPEN, HIGH, LOW, and CLOSE columns');
+    try {
+      const loaded = await Promise.all(
+        files.map(async (file) => {
+          try {
+            return createFileImport(await readCSV(file));
+          } catch (err) {
+            throw new Error(`${file.name}: ${err instanceof Error ? err.message : 'An error occurred'}`);
           }
+        })
+      );
 
-          const backtestResults = runBacktest(data);
-          setResults(backtestResults);
-        } catch (err) {
-          setError(err instanceof Error ? err.message : 'An error occurred');
-        } finally {
-          setLoading(false);
-        }
-      },
-      error: (err) => {
-        setError('Error parsing CSV: ' + err.message);
-        setLoading(false);
+      setImports(loaded);
+      if (loaded.every(isCleanImport)) {
+        runImports(loaded);
       }
-    });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const remapImport = (index: number, mapping: ColumnMapping, dateOrder: DateOrder) => {
+    if (!imports) return;
+    setImports(imports.map((fileImport, i) => (i === index ? createFileImport(fileImport.raw, mapping, dateOrder) : fileImport)));
+  };
+
+  /**
+   * Put a saved run back on screen exactly as it was saved
+   * Its input rows come back too, so it can be re-run or optimized again;
+   * a run made by an older engine is flagged until it is
+   */
+  const openSavedRun = (saved: SavedRun) => {
+    const { run } = saved;
+    const version = engineVersionOf(run);
+    setError(null);
+    setImports(null);
+    setDatasets(saved.data);
+    setConfig(savedRunConfig(run));
+    setRunConfig(savedRunConfig(run));
+    setSavedEngine(version < ENGINE_VERSION ? version : null);
+    setCorporateActions(run.corporateActions ?? []);
+    setRunActions(run.corporateActions ?? []);
+    if (run.portfolioConfig) {
+      setPortfolioConfig(run.portfolioConfig);
+      setRunPortfolioConfig(run.portfolioConfig);
+    }
+    setResults(run.results);
+    setFocusEventId(null);
+    setPortfolioResults(run.portfolio ? { ...run.portfolio, combined: run.results } : null);
+  };
+
+  const attachIntraday = (bySymbol: Map<string, IntradayPaths>) => {
+    if (!datasets) return;
+    setDatasets(datasets.map(d => (bySymbol.has(d.symbol) ? { ...d, intraday: bySymbol.get(d.symbol) } : d)));
   };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      processCSV(file);
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      processFiles(files);
     }
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-8">
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-8 print:bg-none print:p-0">
       <div className="max-w-6xl mx-auto">
-        <div className="bg-white rounded-2xl shadow-xl p-8">
-          <h1 className="text-4xl font-bold text-gray-800 mb-2">
-            Stock Backtesting Application
-          </h1>
-          <p className="text-gray-600 mb-8">
-            Upload your CSV to analyze buy/sell patterns with 5% threshold strategy
-          </p>
+        <div className="bg-white rounded-2xl shadow-xl p-8 print:shadow-none print:p-0">
+          <div className="print:hidden">
+            <h1 className="text-4xl font-bold text-gray-800 mb-2">
+              Stock Backtesting Application
+            </h1>
+            <p className="text-gray-600 mb-8">
+              Upload your CSV to analyze buy/sell patterns with {(config.threshold * 100).toFixed(1).replace(/\.0$/, '')}% threshold strategy
+            </p>
+
+            <FileUpload onFileUpload={handleFileUpload} multiple />
 
-          <FileUpload onFileUpload={handleFileUpload} />
+            <StrategySettings
+              config={config}
+              defaults={DEFAULT_STRATEGY_CONFIG}
+              onChange={setConfig}
+              onRun={() => datasets && runStrategy(datasets, config)}
+              canRun={!!datasets && !loading}
+            />
+
+            {isPortfolio && (
+              <PortfolioSettings
+                config={portfolioConfig}
+                onChange={setPortfolioConfig}
+                symbolCount={datasets.length}
+              />
+            )}
+
+            {datasets && (
+              <CorporateActions actions={corporateActions} datasets={datasets} onChange={setCorporateActions} />
+            )}
+
+            {datasets && (
+              <PathModelPanel
+                datasets={datasets}
+                config={config}
+                portfolioConfig={portfolioConfig}
+                corporateActions={corporateActions}
+                onIntraday={attachIntraday}
+              />
+            )}
+
+            {datasets && config.filters.length > 0 && (
+              <FilterImpactPanel
+                datasets={datasets}
+                config={config}
+                portfolioConfig={portfolioConfig}
+                corporateActions={corporateActions}
+              />
+            )}
+          </div>
+
+          {imports && (
+            <ValidationPanel imports={imports} onRemap={remapImport} onRun={() => runImports(imports)} />
+          )}
 
           {loading && (
             <div className="text-center py-8">
@@ -87,14 +266,128 @@ function App() {
             </div>
           )}
 
-          {results && (
+          {savedEngine !== null && results && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6 print:hidden">
+              <p className="text-amber-800">
+                This run was saved by engine version {savedEngine}; the current engine is version {ENGINE_VERSION}.
+                The results shown are as saved and may differ on a re-run. Run the strategy again to see them on the current rules.
+              </p>
+            </div>
+          )}
+
+          {results && datasets && (
             <div className="space-y-6">
-              <SummaryCards 
-                results={results} 
-                stockName={fileName.replace(/\.[^/.]+$/, "")} // Remove extension
+              <ReportHeader
+                title={portfolioResults ? datasets.map(d => d.symbol).join(', ') : datasets[0].symbol}
+                config={runConfig}
+                portfolioConfig={portfolioResults ? runPortfolioConfig : undefined}
+              />
+              <ExportMenu
+                results={results}
+                config={runConfig}
+                symbols={datasets.map(d => d.symbol)}
+                portfolio={portfolioResults ? { config: runPortfolioConfig, results: portfolioResults } : undefined}
+                corporateActions={runActions}
+                baseName={portfolioResults ? 'portfolio' : datasets[0].symbol}
+              />
+              <SummaryCards
+                results={results}
+                stockName={portfolioResults ? `Portfolio (${datasets.length} symbols)` : datasets[0].symbol}
+              />
+              {benchmarks && <BenchmarkPanel comparison={benchmarks} index={indexSeries} onIndex={setIndexSeries} />}
+              {metrics && <MetricsPanel metrics={metrics} />}
+              {portfolioResults && <PortfolioBreakdown results={portfolioResults} />}
+              {results.dailySeries && (
+                <BacktestCharts
+                  series={results.dailySeries}
+                  transactions={results.transactions}
+                  showPrice={!portfolioResults}
+                />
+              )}
+              <TransactionHistory
+                transactions={results.transactions}
+                baseThreshold={runConfig.threshold}
+                deepThreshold={deepThreshold}
+                onExplain={results.events ? setFocusEventId : undefined}
+              />
+              {results.events && (
+                <DecisionTimeline events={results.events} focusEventId={focusEventId} onFocus={setFocusEventId} />
+              )}
+              {taxReport && (
+                <TaxReport
+                  report={taxReport}
+                  fileName={`${portfolioResults ? 'portfolio' : datasets[0].symbol}-tax-report.csv`}
+                />
+              )}
+              <ReconciliationPanel
+                runs={portfolioResults ? portfolioResults.symbols : [{ symbol: datasets[0].symbol, results }]}
+                corporateActions={runActions}
+              />
+              {portfolioResults ? (
+                portfolioResults.symbols.map(({ symbol, results: symbolResults }) => (
+                  <OpenPositions
+                    key={symbol}
+                    title={`Open Positions: ${symbol}`}
+                    positions={symbolResults.remainingPositions}
+                    currentPrice={symbolResults.currentPrice}
+                    baseThreshold={runConfig.threshold}
+                    deepThreshold={deepThreshold}
+                  />
+                ))
+              ) : (
+                <>
+                  <OpenPositions
+                    positions={results.remainingPositions}
+                    currentPrice={results.currentPrice}
+                    baseThreshold={runConfig.threshold}
+                    deepThreshold={deepThreshold}
+                  />
+                  <NextSessionPanel
+                    key={datasets[0].symbol}
+                    symbol={datasets[0].symbol}
+                    data={datasets[0].data}
+                    corporateActions={actionsForSymbol(runActions, datasets[0].symbol)}
+                    intraday={datasets[0].intraday}
+                    config={runConfig}
+                  />
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="mt-6">
+            <RunLibrary
+              current={results && datasets ? {
+                run: buildRunExport(
+                  results,
+                  runConfig,
+                  datasets.map(d => d.symbol),
+                  portfolioResults ? { config: runPortfolioConfig, results: portfolioResults } : undefined,
+                  runActions
+                ),
+                datasets
+              } : null}
+              onOpen={openSavedRun}
+            />
+          </div>
+
+          {datasets && !isPortfolio && (
+            <div className="mt-6 print:hidden">
+              <OptimizerPanel
+                data={datasets[0].data}
+                corporateActions={actionsForSymbol(corporateActions, datasets[0].symbol)}
+                intraday={datasets[0].intraday}
+                baseConfig={config}
+                onApplyConfig={(optimizedConfig) => {
+                  setConfig(optimizedConfig);
+                  runStrategy(datasets, optimizedConfig);
+                }}
+              />
+              <MonteCarloPanel
+                data={datasets[0].data}
+                corporateActions={actionsForSymbol(corporateActions, datasets[0].symbol)}
+                config={config}
               />
-              <TransactionHistory transactions={results.transactions} />
-              <OpenPositions positions={results.remainingPositions} currentPrice={results.currentPrice} />
             </div>
           )}
         </div>
@@ -103,4 +396,4 @@ function App() {
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,129 @@
+import React from 'react';
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  AreaChart,
+  Line,
+  Area,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts';
+import type { DailySnapshot, Transaction } from '../types';
+import { computeDrawdowns, computeCapitalUsage, tradeMarkersByDate, formatAxisRupees, formatTooltipRupees } from '../utils/equitySeries';
+
+interface BacktestChartsProps {
+  series: DailySnapshot[];
+  transactions: Transaction[];
+  showPrice?: boolean; // Price chart only makes sense for a single symbol
+}
+
+const BacktestCharts: React.FC<BacktestChartsProps> = ({ series, transactions, showPrice = true }) => {
+  if (series.length === 0) return null;
+
+  const drawdowns = computeDrawdowns(series);
+  const usage = computeCapitalUsage(series);
+  const markers = tradeMarkersByDate(transactions);
+
+  const chartData = series.map((day, idx) => ({
+    ...day,
+    drawdown: drawdowns[idx].drawdown,
+    buy: markers.get(day.date)?.buy,
+    sell: markers.get(day.date)?.sell
+  }));
+
+  const maxDrawdownPoint = drawdowns.reduce((worst, p) => (p.drawdown < worst.drawdown ? p : worst), drawdowns[0]);
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-6 text-left">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">Performance Over Time</h2>
+
+      {/* Capital usage: how much cash was tied up and for how long */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-white rounded-lg p-4 border border-gray-100">
+          <p className="text-gray-600 text-sm">Peak Capital Deployed</p>
+          <p className="text-2xl font-semibold text-gray-800">{formatTooltipRupees(usage.peak)}</p>
+        </div>
+        <div className="bg-white rounded-lg p-4 border border-gray-100">
+          <p className="text-gray-600 text-sm">Average Capital Deployed</p>
+          <p className="text-2xl font-semibold text-gray-800">{formatTooltipRupees(usage.average)}</p>
+          <p className="text-xs text-gray-500 mt-1">{formatTooltipRupees(usage.averageWhenInvested)} on invested days</p>
+        </div>
+        <div className="bg-white rounded-lg p-4 border border-gray-100">
+          <p className="text-gray-600 text-sm">Days With Capital Tied Up</p>
+          <p className="text-2xl font-semibold text-gray-800">{usage.daysInvested} / {usage.totalDays}</p>
+          <p className="text-xs text-gray-500 mt-1">Longest stretch: {usage.longestInvestedStreak} trading days</p>
+        </div>
+        <div className="bg-white rounded-lg p-4 border border-gray-100">
+          <p className="text-gray-600 text-sm">Max Drawdown</p>
+          <p className="text-2xl font-semibold text-red-600">{formatTooltipRupees(maxDrawdownPoint.drawdown)}</p>
+          <p className="text-xs text-gray-500 mt-1">Trough on {maxDrawdownPoint.date}</p>
+        </div>
+      </div>
+
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">Equity Curve & Capital Deployed</h3>
+      <div className="h-72 mb-6">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="date" minTickGap={40} tick={{ fontSize: 11 }} />
+            <YAxis yAxisId="pl" tickFormatter={formatAxisRupees} tick={{ fontSize: 11 }} width={70} />
+            <YAxis yAxisId="capital" orientation="right" tickFormatter={formatAxisRupees} tick={{ fontSize: 11 }} width={70} />
+            <Tooltip formatter={formatTooltipRupees} />
+            <Legend />
+            <Area
+              yAxisId="capital"
+              type="stepAfter"
+              dataKey="capitalDeployed"
+              name="Capital Deployed"
+              stroke="#a5b4fc"
+              fill="#e0e7ff"
+              isAnimationActive={false}
+            />
+            <Line yAxisId="pl" type="monotone" dataKey="equity" name="Equity (MTM P/L)" stroke="#4f46e5" dot={false} strokeWidth={2} isAnimationActive={false} />
+            <Line yAxisId="pl" type="stepAfter" dataKey="cumulativeRealizedPL" name="Realized P/L" stroke="#16a34a" dot={false} isAnimationActive={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">Drawdown</h3>
+      <div className="h-48 mb-6">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="date" minTickGap={40} tick={{ fontSize: 11 }} />
+            <YAxis tickFormatter={formatAxisRupees} tick={{ fontSize: 11 }} width={70} />
+            <Tooltip formatter={formatTooltipRupees} />
+            <Area type="monotone" dataKey="drawdown" name="Drawdown" stroke="#dc2626" fill="#fecaca" isAnimationActive={false} />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      {showPrice && (
+        <>
+          <h3 className="text-lg font-semibold text-gray-800 mb-2">Price, Reference & Trades</h3>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="date" minTickGap={40} tick={{ fontSize: 11 }} />
+                <YAxis domain={['auto', 'auto']} tickFormatter={(v: number) => `₹${v.toFixed(0)}`} tick={{ fontSize: 11 }} width={70} />
+                <Tooltip formatter={formatTooltipRupees} />
+                <Legend />
+                <Line type="monotone" dataKey="close" name="Close" stroke="#374151" dot={false} isAnimationActive={false} />
+                <Line type="stepAfter" dataKey="reference" name="Reference" stroke="#f59e0b" strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+                <Scatter dataKey="buy" name="Buy" fill="#16a34a" shape="triangle" isAnimationActive={false} />
+                <Scatter dataKey="sell" name="Sell" fill="#dc2626" shape="diamond" isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BacktestCharts;
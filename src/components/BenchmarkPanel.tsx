@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Scale, Upload, X } from 'lucide-react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import type { BenchmarkComparison, BenchmarkKind, IndexSeries } from '../types';
+import { parseStockCSV, symbolFromFileName } from '../utils/csvParser';
+import { formatAxisRupees, formatTooltipRupees } from '../utils/equitySeries';
+
+interface BenchmarkPanelProps {
+  comparison: BenchmarkComparison;
+  index: IndexSeries | null;
+  onIndex: (index: IndexSeries | null) => void;
+}
+
+const LINE_COLORS: Record<BenchmarkKind, string> = {
+  'buy-and-hold': '#f59e0b',
+  'sip': '#16a34a',
+  'index': '#6b7280'
+};
+
+const formatRupees = (value: number) =>
+  `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+const signed = (value: number, suffix: string) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}${suffix}`;
+
+const BenchmarkPanel: React.FC<BenchmarkPanelProps> = ({ comparison, index, onIndex }) => {
+  const [error, setError] = useState<string | null>(null);
+  const { capital, benchmarks } = comparison;
+
+  const loadIndex = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow loading the same file again
+    if (!file) return;
+    try {
+      setError(null);
+      onIndex({ name: symbolFromFileName(file.name), bars: await parseStockCSV(file) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read index data');
+    }
+  };
+
+  // One row per date: the strategy plus each benchmark, keyed by kind
+  const chartData = comparison.strategySeries.map((point, idx) => ({
+    date: point.date,
+    strategy: point.equity,
+    ...Object.fromEntries(benchmarks.map(b => [b.kind, b.series[idx].equity]))
+  }));
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-6 border border-gray-200 text-left">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <Scale className="mr-2 text-indigo-600" /> Benchmarks
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        What {formatRupees(capital)}, the strategy's peak capital deployed, would have made left alone over the same dates.
+        Profits here include open lots at the last close; alpha is the strategy's annualized ROI minus the benchmark's.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4 print:hidden">
+        <label className="flex items-center px-4 py-2 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 cursor-pointer transition">
+          <Upload className="w-4 h-4 mr-1" /> Load Index CSV
+          <input type="file" accept=".csv" className="hidden" onChange={loadIndex} />
+        </label>
+        {index && (
+          <span className="flex items-center px-2 text-xs leading-5 rounded-full bg-indigo-100 text-indigo-800">
+            {index.name}: {index.bars.length} days
+            <button type="button" onClick={() => onIndex(null)} className="ml-1 hover:text-indigo-950" aria-label="Remove index">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b-2 border-gray-300">
+              <th className="text-left py-2 px-2 text-gray-700">Benchmark</th>
+              <th className="text-right py-2 px-2 text-gray-700">Profit</th>
+              <th className="text-right py-2 px-2 text-gray-700">Return</th>
+              <th className="text-right py-2 px-2 text-gray-700">Ann. ROI</th>
+              <th className="text-right py-2 px-2 text-gray-700">Max Drawdown</th>
+              <th className="text-right py-2 px-2 text-gray-700">Alpha</th>
+              <th className="text-right py-2 px-2 text-gray-700">Relative Drawdown</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-gray-200 bg-indigo-50 font-semibold">
+              <td className="py-2 px-2 text-gray-800">Strategy</td>
+              <td className={`py-2 px-2 text-right ${comparison.strategyProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {formatRupees(comparison.strategyProfit)}
+              </td>
+              <td className="py-2 px-2 text-right text-gray-800">{((comparison.strategyProfit / capital) * 100).toFixed(2)}%</td>
+              <td className="py-2 px-2 text-right text-gray-800">{comparison.strategyROI.toFixed(2)}%</td>
+              <td className="py-2 px-2 text-right text-gray-800">{formatRupees(-comparison.strategyMaxDrawdown)}</td>
+              <td className="py-2 px-2 text-right text-gray-500">-</td>
+              <td className="py-2 px-2 text-right text-gray-500">-</td>
+            </tr>
+            {benchmarks.map(b => (
+              <tr key={b.kind} className="border-b border-gray-200">
+                <td className="py-2 px-2 text-gray-800">{b.label}</td>
+                <td className={`py-2 px-2 text-right ${b.profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatRupees(b.profit)}</td>
+                <td className="py-2 px-2 text-right text-gray-800">{b.returnPercent.toFixed(2)}%</td>
+                <td className="py-2 px-2 text-right text-gray-800">{b.annualizedROI.toFixed(2)}%</td>
+                <td className="py-2 px-2 text-right text-gray-800">{formatRupees(-b.maxDrawdown)}</td>
+                <td className={`py-2 px-2 text-right font-semibold ${b.alpha >= 0 ? 'text-green-600' : 'text-red-600'}`}>{signed(b.alpha, ' pp')}</td>
+                <td className="py-2 px-2 text-right text-gray-800">{b.relativeDrawdown !== null ? `${b.relativeDrawdown.toFixed(2)}×` : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500 mt-2">
+          Relative drawdown is the strategy's max drawdown over the benchmark's: below 1× means a smoother ride.
+          The SIP puts in {formatRupees(capital)} in equal parts on the first trading day of each month.
+        </p>
+      </div>
+
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">Equity vs Benchmarks</h3>
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="date" minTickGap={40} tick={{ fontSize: 11 }} />
+            <YAxis tickFormatter={formatAxisRupees} tick={{ fontSize: 11 }} width={70} />
+            <Tooltip formatter={formatTooltipRupees} />
+            <Legend />
+            <Line type="monotone" dataKey="strategy" name="Strategy" stroke="#4f46e5" dot={false} strokeWidth={2} isAnimationActive={false} />
+            {benchmarks.map(b => (
+              <Line key={b.kind} type="monotone" dataKey={b.kind} name={b.label} stroke={LINE_COLORS[b.kind]} dot={false} isAnimationActive={false} />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default BenchmarkPanel;
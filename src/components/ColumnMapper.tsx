@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import type { ColumnMapping, DateOrder } from '../types';
+import { REQUIRED_FIELDS } from '../utils/csvFormats';
+
+interface ColumnMapperProps {
+  headers: string[];
+  sampleRow?: Record<string, string>; // First data row, to show what each column holds
+  mapping: ColumnMapping | null;
+  dateOrder: DateOrder;
+  onApply: (mapping: ColumnMapping, dateOrder: DateOrder) => void;
+}
+
+const FIELDS: [keyof ColumnMapping, string][] = [
+  ['date', 'Date'],
+  ['open', 'Open'],
+  ['high', 'High'],
+  ['low', 'Low'],
+  ['close', 'Close'],
+  ['volume', 'Volume (optional)'],
+  ['vwap', 'VWAP (optional)'],
+  ['high52', '52W High (optional)'],
+  ['low52', '52W Low (optional)'],
+  ['symbol', 'Symbol (optional)'],
+  ['series', 'Series (optional)']
+];
+
+const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, sampleRow, mapping, dateOrder, onApply }) => {
+  const [draft, setDraft] = useState<Partial<ColumnMapping>>(mapping ?? {});
+  const [order, setOrder] = useState<DateOrder>(dateOrder);
+
+  const complete = REQUIRED_FIELDS.every(field => !!draft[field]);
+
+  const inputClass = 'w-full mt-1 px-2 py-1 border border-gray-300 rounded text-gray-800 text-sm';
+
+  return (
+    <div className="bg-white rounded-lg p-4 border border-gray-200">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {FIELDS.map(([field, label]) => (
+          <label key={field} className="text-sm text-gray-600">
+            {label}
+            <select
+              value={draft[field] ?? ''}
+              onChange={(e) => setDraft({ ...draft, [field]: e.target.value || undefined })}
+              className={inputClass}
+            >
+              <option value="">—</option>
+              {headers.map(header => (
+                <option key={header} value={header}>
+                  {header}{sampleRow?.[header] ? ` (${sampleRow[header]})` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+        <label className="text-sm text-gray-600">
+          Numeric Dates
+          <select value={order} onChange={(e) => setOrder(e.target.value as DateOrder)} className={inputClass}>
+            <option value="DMY">Day first (15/12/2023)</option>
+            <option value="MDY">Month first (12/15/2023)</option>
+          </select>
+        </label>
+      </div>
+      <div className="flex justify-end mt-3">
+        <button
+          type="button"
+          disabled={!complete}
+          onClick={() => onApply(draft as ColumnMapping, order)}
+          className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed transition"
+        >
+          Apply Mapping
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMapper;
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Split, Upload, Plus, Trash2, AlertTriangle, XCircle } from 'lucide-react';
+import type { CorporateAction, CorporateActionType, ImportIssue, SuspectedSplit, SymbolDataset } from '../types';
+import { readCSV } from '../utils/csvParser';
+import { formatBarDate, parseDate, parseNumber } from '../utils/csvFormats';
+import { describeAction, detectSuspectedSplits, parseCorporateActions, parseRatio, sortActions } from '../utils/corporateActions';
+
+interface CorporateActionsProps {
+  actions: CorporateAction[];
+  datasets: SymbolDataset[];
+  onChange: (actions: CorporateAction[]) => void;
+}
+
+interface Draft {
+  symbol: string; // '' = every symbol
+  exDate: string; // yyyy-mm-dd from the date input
+  type: CorporateActionType;
+  value: string; // Ratio for splits and bonuses, ₹ per share for dividends
+}
+
+const CorporateActions: React.FC<CorporateActionsProps> = ({ actions, datasets, onChange }) => {
+  const symbols = datasets.map(d => d.symbol);
+  const [draft, setDraft] = useState<Draft>({ symbol: symbols.length === 1 ? symbols[0] : '', exDate: '', type: 'split', value: '' });
+  const [issues, setIssues] = useState<ImportIssue[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const suspects: SuspectedSplit[] = datasets.flatMap(d => detectSuspectedSplits(d.symbol, d.data, actions));
+
+  const add = (list: CorporateAction[]) => onChange(sortActions([...actions, ...list]));
+
+  const draftAction = (): CorporateAction | null => {
+    const time = parseDate(draft.exDate);
+    if (time === null) return null;
+    const base = { symbol: draft.symbol || undefined, exDate: formatBarDate(time), time, type: draft.type };
+    if (draft.type === 'dividend') {
+      const amount = parseNumber(draft.value);
+      return amount > 0 ? { ...base, amount } : null;
+    }
+    const ratio = parseRatio(draft.value);
+    return ratio ? { ...base, ratio } : null;
+  };
+  const pending = draftAction();
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow loading the same file again
+    if (!file) return;
+    try {
+      setError(null);
+      const parsed = parseCorporateActions(await readCSV(file));
+      setIssues(parsed.issues);
+      add(parsed.actions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read corporate actions');
+    }
+  };
+
+  const addSuspect = (suspect: SuspectedSplit) => {
+    if (!suspect.likely) return;
+    add([{ symbol: suspect.symbol, exDate: suspect.date, time: suspect.time, ...suspect.likely }]);
+  };
+
+  const inputClass = 'mt-1 px-2 py-1 border border-gray-300 rounded text-gray-800 text-sm';
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-6 border border-gray-200 text-left print:hidden">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <Split className="mr-2 text-indigo-600" /> Corporate Actions
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Splits and bonuses adjust open lots on the ex-date instead of looking like a crash; dividends on open lots are
+        credited as income. Ratios are old:new for splits (1:5) and bonus:held for bonuses (1:1). Run the backtest again to apply changes.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        {symbols.length > 1 && (
+          <label className="text-sm text-gray-600 flex flex-col">
+            Symbol
+            <select value={draft.symbol} onChange={(e) => setDraft({ ...draft, symbol: e.target.value })} className={inputClass}>
+              <option value="">All symbols</option>
+              {symbols.map(symbol => <option key={symbol} value={symbol}>{symbol}</option>)}
+            </select>
+          </label>
+        )}
+        <label className="text-sm text-gray-600 flex flex-col">
+          Ex-Date
+          <input type="date" value={draft.exDate} onChange={(e) => setDraft({ ...draft, exDate: e.target.value })} className={inputClass} />
+        </label>
+        <label className="text-sm text-gray-600 flex flex-col">
+          Type
+          <select value={draft.type} onChange={(e) => setDraft({ ...draft, type: e.target.value as CorporateActionType })} className={inputClass}>
+            <option value="split">Split</option>
+            <option value="bonus">Bonus</option>
+            <option value="dividend">Dividend</option>
+          </select>
+        </label>
+        <label className="text-sm text-gray-600 flex flex-col">
+          {draft.type === 'dividend' ? '₹ per Share' : 'Ratio'}
+          <input
+            type="text"
+            placeholder={draft.type === 'dividend' ? '8.50' : draft.type === 'split' ? '1:5' : '1:1'}
+            value={draft.value}
+            onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+            className={inputClass + ' w-28'}
+          />
+        </label>
+        <button
+          type="button"
+          disabled={!pending}
+          onClick={() => {
+            if (!pending) return;
+            add([pending]);
+            setDraft({ ...draft, exDate: '', value: '' });
+          }}
+          className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed transition"
+        >
+          <Plus className="w-4 h-4 mr-1" /> Add
+        </button>
+        <label className="flex items-center px-4 py-2 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 cursor-pointer transition">
+          <Upload className="w-4 h-4 mr-1" /> Load CSV
+          <input type="file" accept=".csv" className="hidden" onChange={loadFile} />
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <ul className="mb-4 text-xs space-y-1">
+          {issues.map((issue, idx) => (
+            <li key={idx} className="flex items-center text-gray-700">
+              {issue.severity === 'error'
+                ? <XCircle className="w-4 h-4 mr-1 text-red-600" />
+                : <AlertTriangle className="w-4 h-4 mr-1 text-amber-500" />}
+              {issue.row !== null ? `Line ${issue.row}: ` : ''}{issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {actions.length === 0 ? (
+        <p className="text-sm text-gray-400 mb-4">No corporate actions entered.</p>
+      ) : (
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="border-b-2 border-gray-300">
+              <th className="text-left py-2 px-2 text-gray-700">Ex-Date</th>
+              <th className="text-left py-2 px-2 text-gray-700">Symbol</th>
+              <th className="text-left py-2 px-2 text-gray-700">Action</th>
+              <th className="py-2 px-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {actions.map((action, idx) => (
+              <tr key={idx} className="border-b border-gray-200">
+                <td className="py-2 px-2 text-gray-800">{action.exDate}</td>
+                <td className="py-2 px-2 text-gray-800">{action.symbol ?? 'All'}</td>
+                <td className="py-2 px-2 text-gray-800">{describeAction(action)}</td>
+                <td className="py-2 px-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => onChange(actions.filter((_, i) => i !== idx))}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded"
+                    aria-label="Remove action"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {suspects.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <p className="text-sm font-semibold text-amber-800 mb-2 flex items-center">
+            <AlertTriangle className="w-4 h-4 mr-1" /> Overnight gaps that look like unrecorded splits
+          </p>
+          <ul className="space-y-1 text-sm">
+            {suspects.map(suspect => (
+              <li key={suspect.symbol + suspect.time} className="flex flex-wrap items-center gap-2 text-gray-800">
+                <span>
+                  {suspect.symbol} {suspect.date}: opened {Math.abs(suspect.change * 100).toFixed(1)}% below the previous close
+                  (₹{suspect.prevClose.toFixed(2)} → ₹{suspect.open.toFixed(2)})
+                </span>
+                {suspect.likely && (
+                  <button
+                    type="button"
+                    onClick={() => addSuspect(suspect)}
+                    className="px-2 py-0.5 text-xs text-indigo-700 bg-white border border-indigo-200 rounded hover:bg-indigo-50 transition"
+                  >
+                    Add {suspect.likely.type} {suspect.likely.ratio.join(':')}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorporateActions;
@@ -0,0 +1,216 @@
+import React from 'react';
+import type { CostModelConfig } from '../types';
+
+interface CostSettingsProps {
+  costs: CostModelConfig;
+  onChange: (costs: CostModelConfig) => void;
+}
+
+/**
+ * Statutory rates are tiny fractions (0.00297%), so keep more decimals than the strategy form
+ */
+const toPercent = (value: number) => +(value * 100).toFixed(6);
+const fromPercent = (value: string) => (parseFloat(value) || 0) / 100;
+
+const CostSettings: React.FC<CostSettingsProps> = ({ costs, onChange }) => {
+  const update = <K extends keyof CostModelConfig>(key: K, value: CostModelConfig[K]) => {
+    onChange({ ...costs, [key]: value });
+  };
+
+  const inputClass = 'w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-400 disabled:bg-gray-100 disabled:text-gray-400';
+  const disabled = !costs.enabled;
+
+  return (
+    <div className="mt-6 text-left">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold text-gray-800">Transaction Costs</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={costs.enabled}
+            onChange={(e) => update('enabled', e.target.checked)}
+          />
+          Apply fees & slippage
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Defaults follow NSE delivery charges. Slippage moves every fill against you; P/L and ROI are reported net of all fees.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <label className="text-sm text-gray-600">
+          Brokerage
+          <select
+            value={costs.brokerageType}
+            disabled={disabled}
+            onChange={(e) => update('brokerageType', e.target.value as CostModelConfig['brokerageType'])}
+            className={inputClass}
+          >
+            <option value="percent">% of turnover (capped)</option>
+            <option value="flat">Flat per order</option>
+          </select>
+        </label>
+
+        {costs.brokerageType === 'flat' ? (
+          <label className="text-sm text-gray-600">
+            Brokerage per Order (₹)
+            <input
+              type="number"
+              min={0}
+              value={costs.brokerageFlat}
+              disabled={disabled}
+              onChange={(e) => update('brokerageFlat', parseFloat(e.target.value) || 0)}
+              className={inputClass}
+            />
+          </label>
+        ) : (
+          <>
+            <label className="text-sm text-gray-600">
+              Brokerage (%)
+              <input
+                type="number"
+                step={0.01}
+                min={0}
+                value={toPercent(costs.brokeragePercent)}
+                disabled={disabled}
+                onChange={(e) => update('brokeragePercent', fromPercent(e.target.value))}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              Brokerage Cap (₹ per order)
+              <input
+                type="number"
+                min={0}
+                value={costs.brokerageCap}
+                disabled={disabled}
+                onChange={(e) => update('brokerageCap', parseFloat(e.target.value) || 0)}
+                className={inputClass}
+              />
+            </label>
+          </>
+        )}
+
+        <label className="text-sm text-gray-600">
+          STT (% both sides)
+          <input
+            type="number"
+            step={0.01}
+            min={0}
+            value={toPercent(costs.sttPercent)}
+            disabled={disabled}
+            onChange={(e) => update('sttPercent', fromPercent(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-sm text-gray-600">
+          Exchange Charges (%)
+          <input
+            type="number"
+            step={0.0001}
+            min={0}
+            value={toPercent(costs.exchangeChargesPercent)}
+            disabled={disabled}
+            onChange={(e) => update('exchangeChargesPercent', fromPercent(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-sm text-gray-600">
+          SEBI Fees (₹ per crore)
+          <input
+            type="number"
+            min={0}
+            value={costs.sebiFeesPerCrore}
+            disabled={disabled}
+            onChange={(e) => update('sebiFeesPerCrore', parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-sm text-gray-600">
+          Stamp Duty (% on buys)
+          <input
+            type="number"
+            step={0.001}
+            min={0}
+            value={toPercent(costs.stampDutyPercent)}
+            disabled={disabled}
+            onChange={(e) => update('stampDutyPercent', fromPercent(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-sm text-gray-600">
+          GST (%)
+          <input
+            type="number"
+            step={1}
+            min={0}
+            value={toPercent(costs.gstPercent)}
+            disabled={disabled}
+            onChange={(e) => update('gstPercent', fromPercent(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-sm text-gray-600">
+          DP Charges (₹ per sell)
+          <input
+            type="number"
+            step={0.01}
+            min={0}
+            value={costs.dpChargesPerSell}
+            disabled={disabled}
+            onChange={(e) => update('dpChargesPerSell', parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-sm text-gray-600">
+          Slippage Model
+          <select
+            value={costs.slippageType}
+            disabled={disabled}
+            onChange={(e) => update('slippageType', e.target.value as CostModelConfig['slippageType'])}
+            className={inputClass}
+          >
+            <option value="bps">Basis points</option>
+            <option value="ticks">Ticks</option>
+          </select>
+        </label>
+
+        <label className="text-sm text-gray-600">
+          Slippage ({costs.slippageType === 'bps' ? 'bps' : 'ticks'})
+          <input
+            type="number"
+            step={costs.slippageType === 'bps' ? 1 : 0.5}
+            min={0}
+            value={costs.slippageValue}
+            disabled={disabled}
+            onChange={(e) => update('slippageValue', parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </label>
+
+        {costs.slippageType === 'ticks' && (
+          <label className="text-sm text-gray-600">
+            Tick Size (₹)
+            <input
+              type="number"
+              step={0.01}
+              min={0}
+              value={costs.tickSize}
+              disabled={disabled}
+              onChange={(e) => update('tickSize', parseFloat(e.target.value) || 0)}
+              className={inputClass}
+            />
+          </label>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CostSettings;
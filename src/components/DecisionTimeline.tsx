@@ -0,0 +1,183 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { History, X, ArrowDown } from 'lucide-react';
+import type { DecisionEvent, DecisionEventType } from '../types';
+import { DECISION_EVENT_LABELS, DECISION_EVENT_TYPES, decisionChain, isTradeEvent } from '../utils/decisionLog';
+
+interface DecisionTimelineProps {
+  events: DecisionEvent[];
+  focusEventId: number | null; // Trade whose decision chain is shown
+  onFocus: (eventId: number | null) => void;
+}
+
+const PAGE_SIZE = 200;
+
+const TYPE_STYLES: Partial<Record<DecisionEventType, string>> = {
+  'buy': 'bg-green-100 text-green-800',
+  'gap-down-fill': 'bg-emerald-100 text-emerald-800',
+  'sell': 'bg-red-100 text-red-800',
+  'gap-up-fill': 'bg-rose-100 text-rose-800',
+  'stop-loss': 'bg-amber-100 text-amber-800',
+  'trailing-stop': 'bg-amber-100 text-amber-800',
+  'time-stop': 'bg-yellow-100 text-yellow-800',
+  'drawdown-cut': 'bg-red-200 text-red-900',
+  'buy-filtered': 'bg-purple-100 text-purple-800',
+  'sell-filtered': 'bg-purple-100 text-purple-800',
+  'recovery-mode': 'bg-blue-100 text-blue-800',
+  'reference-update': 'bg-blue-50 text-blue-700',
+  'falling-stock-reset': 'bg-orange-100 text-orange-800',
+  'corporate-action': 'bg-indigo-100 text-indigo-800',
+  'loop-guard': 'bg-red-200 text-red-900'
+};
+
+const TypeBadge: React.FC<{ type: DecisionEventType }> = ({ type }) => (
+  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full whitespace-nowrap ${TYPE_STYLES[type] ?? 'bg-gray-200 text-gray-700'}`}>
+    {DECISION_EVENT_LABELS[type]}
+  </span>
+);
+
+const DecisionTimeline: React.FC<DecisionTimelineProps> = ({ events, focusEventId, onFocus }) => {
+  const [hidden, setHidden] = useState<Set<DecisionEventType>>(new Set());
+  const [symbol, setSymbol] = useState('');
+  const [dateFilter, setDateFilter] = useState('');
+  const [shown, setShown] = useState(PAGE_SIZE);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (focusEventId !== null) panelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [focusEventId]);
+
+  const symbols = [...new Set(events.map(e => e.symbol).filter((s): s is string => !!s))];
+  const counts = new Map<DecisionEventType, number>();
+  for (const event of events) counts.set(event.type, (counts.get(event.type) ?? 0) + 1);
+
+  const filtered = events.filter(e =>
+    !hidden.has(e.type) &&
+    (!symbol || e.symbol === symbol) &&
+    (!dateFilter || e.date.includes(dateFilter))
+  );
+  const chain = focusEventId !== null ? decisionChain(events, focusEventId) : [];
+
+  const toggle = (type: DecisionEventType) => {
+    const next = new Set(hidden);
+    if (next.has(type)) next.delete(type);
+    else next.add(type);
+    setHidden(next);
+    setShown(PAGE_SIZE);
+  };
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded text-gray-800 text-sm';
+
+  return (
+    <div ref={panelRef} className="bg-gray-50 rounded-xl p-6 mb-6 border border-gray-200 text-left print:hidden">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <History className="mr-2 text-indigo-600" /> Decision Timeline
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Every decision the engine made, including the ones that did not trade. Click a trade here or in the
+        transaction history to see the chain of decisions behind it.
+      </p>
+
+      {chain.length > 0 && (
+        <div className="bg-white border border-indigo-200 rounded-lg p-4 mb-4">
+          <div className="flex justify-between items-center mb-2">
+            <p className="text-sm font-semibold text-indigo-800">Decisions behind this trade</p>
+            <button
+              type="button"
+              onClick={() => onFocus(null)}
+              className="p-1 text-gray-500 hover:bg-gray-100 rounded"
+              aria-label="Close decision chain"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <ol className="space-y-1 text-sm">
+            {chain.map((event, idx) => (
+              <li key={event.id}>
+                {idx > 0 && <ArrowDown className="w-3 h-3 ml-8 text-gray-400" />}
+                <div className={`flex flex-wrap items-center gap-2 ${event.id === focusEventId ? 'font-semibold' : ''}`}>
+                  <span className="text-gray-500 w-24">{event.date}</span>
+                  {event.symbol && <span className="text-gray-800">{event.symbol}</span>}
+                  <TypeBadge type={event.type} />
+                  <span className="text-gray-800">{event.reason}</span>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {DECISION_EVENT_TYPES.filter(type => counts.has(type)).map(type => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => toggle(type)}
+            className={`px-2 py-0.5 text-xs rounded-full border transition ${
+              hidden.has(type) ? 'bg-white text-gray-400 border-gray-200 line-through' : 'bg-indigo-50 text-indigo-800 border-indigo-200'
+            }`}
+          >
+            {DECISION_EVENT_LABELS[type]} ({counts.get(type)})
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        {symbols.length > 1 && (
+          <select value={symbol} onChange={(e) => { setSymbol(e.target.value); setShown(PAGE_SIZE); }} className={inputClass}>
+            <option value="">All symbols</option>
+            {symbols.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+        )}
+        <input
+          type="text"
+          placeholder="Filter by date, e.g. 2021-03"
+          value={dateFilter}
+          onChange={(e) => { setDateFilter(e.target.value); setShown(PAGE_SIZE); }}
+          className={inputClass}
+        />
+        <span className="text-xs text-gray-500">{filtered.length} of {events.length} events</span>
+      </div>
+
+      <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b-2 border-gray-300">
+              <th className="text-left py-2 px-2 text-gray-700">Date</th>
+              {symbols.length > 0 && <th className="text-left py-2 px-2 text-gray-700">Symbol</th>}
+              <th className="text-left py-2 px-2 text-gray-700">Decision</th>
+              <th className="text-right py-2 px-2 text-gray-700">Price</th>
+              <th className="text-left py-2 px-2 text-gray-700">Reason</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filtered.slice(0, shown).map(event => (
+              <tr
+                key={event.id}
+                onClick={isTradeEvent(event) ? () => onFocus(event.id) : undefined}
+                className={`border-b border-gray-200 ${isTradeEvent(event) ? 'cursor-pointer hover:bg-white' : ''} ${
+                  event.id === focusEventId ? 'bg-indigo-50' : ''
+                }`}
+              >
+                <td className="py-2 px-2 text-gray-800 whitespace-nowrap">{event.date}</td>
+                {symbols.length > 0 && <td className="py-2 px-2 text-gray-800">{event.symbol}</td>}
+                <td className="py-2 px-2"><TypeBadge type={event.type} /></td>
+                <td className="py-2 px-2 text-right text-gray-800">{event.price !== undefined ? `₹${event.price.toFixed(2)}` : '-'}</td>
+                <td className="py-2 px-2 text-gray-700">{event.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {filtered.length > shown && (
+        <button
+          type="button"
+          onClick={() => setShown(shown + PAGE_SIZE)}
+          className="mt-3 px-4 py-2 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 transition"
+        >
+          Show {Math.min(PAGE_SIZE, filtered.length - shown)} more
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DecisionTimeline;
@@ -0,0 +1,99 @@
+import React from 'react';
+import type { ExitRulesConfig } from '../types';
+
+interface ExitSettingsProps {
+  exits: ExitRulesConfig;
+  onChange: (exits: ExitRulesConfig) => void;
+}
+
+const toPercent = (value: number) => +(value * 100).toFixed(2);
+const fromPercent = (value: string) => (parseFloat(value) || 0) / 100;
+
+const ExitSettings: React.FC<ExitSettingsProps> = ({ exits, onChange }) => {
+  const update = <K extends keyof ExitRulesConfig>(key: K, value: ExitRulesConfig[K]) => {
+    onChange({ ...exits, [key]: value });
+  };
+
+  const inputClass = 'w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-400 disabled:bg-gray-100 disabled:text-gray-400';
+  const disabled = !exits.enabled;
+
+  return (
+    <div className="mt-6 text-left">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold text-gray-800">Exit Rules</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={exits.enabled}
+            onChange={(e) => update('enabled', e.target.checked)}
+          />
+          Cut stuck positions
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Sells a lot before its target is reached. Stops rest under the price and are checked before the strategy trades each day; 0 turns a rule off.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <label className="text-sm text-gray-600">
+          Stop-loss (% under buy)
+          <input
+            type="number"
+            step={1}
+            min={0}
+            max={99}
+            value={toPercent(exits.stopLoss)}
+            disabled={disabled}
+            onChange={(e) => update('stopLoss', fromPercent(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-sm text-gray-600">
+          Trailing Stop (% under best close)
+          <input
+            type="number"
+            step={1}
+            min={0}
+            max={99}
+            value={toPercent(exits.trailingStop)}
+            disabled={disabled}
+            onChange={(e) => update('trailingStop', fromPercent(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-sm text-gray-600">
+          Max Holding (trading days)
+          <input
+            type="number"
+            step={1}
+            min={0}
+            value={exits.maxHoldingDays}
+            disabled={disabled}
+            onChange={(e) => update('maxHoldingDays', parseInt(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-sm text-gray-600">
+          Drawdown Cut (₹ from peak)
+          <input
+            type="number"
+            step={1000}
+            min={0}
+            value={exits.drawdownCut}
+            disabled={disabled}
+            onChange={(e) => update('drawdownCut', parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        The trailing stop only starts once a lot has closed above its buy price. The drawdown cut sells every lot at the CLOSE; in a portfolio it watches the whole basket.
+      </p>
+    </div>
+  );
+};
+
+export default ExitSettings;
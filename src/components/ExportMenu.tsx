@@ -0,0 +1,65 @@
+import React from 'react';
+import { FileDown, FileJson, Printer } from 'lucide-react';
+import type { BacktestResults, CorporateAction, PortfolioConfig, PortfolioResults, StrategyConfig } from '../types';
+import {
+  transactionsToCSV,
+  positionsToCSV,
+  buildRunExport,
+  runToJSON,
+  downloadFile
+} from '../utils/exporters';
+
+interface ExportMenuProps {
+  results: BacktestResults;
+  config: StrategyConfig; // Settings the results were produced with
+  symbols: string[];
+  portfolio?: { config: PortfolioConfig; results: PortfolioResults };
+  corporateActions?: CorporateAction[];
+  baseName: string; // File name prefix, e.g. the symbol
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ results, config, symbols, portfolio, corporateActions, baseName }) => {
+  const exportPositions = () => {
+    // Portfolio lots are marked at their own symbol's last close
+    const lastClose = new Map(portfolio?.results.symbols.map(s => [s.symbol, s.results.currentPrice]));
+    const csv = positionsToCSV(
+      results.remainingPositions,
+      portfolio ? (p) => lastClose.get(p.symbol ?? '') ?? 0 : results.currentPrice,
+      config.threshold
+    );
+    downloadFile(csv, `${baseName}-open-positions.csv`, 'text/csv');
+  };
+
+  const buttonClass = 'flex items-center px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-100 transition';
+
+  return (
+    <div className="flex flex-wrap justify-end gap-2 print:hidden">
+      <button
+        type="button"
+        onClick={() => downloadFile(transactionsToCSV(results.transactions), `${baseName}-transactions.csv`, 'text/csv')}
+        className={buttonClass}
+      >
+        <FileDown className="w-4 h-4 mr-1" /> Transactions CSV
+      </button>
+      <button type="button" onClick={exportPositions} className={buttonClass}>
+        <FileDown className="w-4 h-4 mr-1" /> Open Positions CSV
+      </button>
+      <button
+        type="button"
+        onClick={() => downloadFile(runToJSON(buildRunExport(results, config, symbols, portfolio, corporateActions)), `${baseName}-backtest.json`, 'application/json')}
+        className={buttonClass}
+      >
+        <FileJson className="w-4 h-4 mr-1" /> Full Results JSON
+      </button>
+      <button
+        type="button"
+        onClick={() => window.print()}
+        className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition"
+      >
+        <Printer className="w-4 h-4 mr-1" /> Print / Save as PDF
+      </button>
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -3,9 +3,10 @@ import { Upload } from 'lucide-react';
 
 interface FileUploadProps {
   onFileUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  multiple?: boolean;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, multiple = false }) => {
   return (
     <div className="mb-8">
       <label className="flex flex-col items-center justify-center w-full h-48 border-2 border-dashed border-indigo-300 rounded-xl cursor-pointer bg-indigo-50 hover:bg-indigo-100 transition">
@@ -14,12 +15,15 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload }) => {
           <p className="mb-2 text-sm text-gray-700">
             <span className="font-semibold">Click to upload</span> or drag and drop
           </p>
-          <p className="text-xs text-gray-500">CSV file with stock data</p>
+          <p className="text-xs text-gray-500">
+            {multiple ? 'One CSV per symbol — select several files for a portfolio backtest' : 'CSV file with stock data'}
+          </p>
         </div>
         <input
           type="file"
           className="hidden"
           accept=".csv"
+          multiple={multiple}
           onChange={onFileUpload}
         />
       </label>
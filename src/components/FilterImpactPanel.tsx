@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Filter, GitCompare } from 'lucide-react';
+import type { CorporateAction, FilterImpact, PortfolioConfig, StrategyConfig, SymbolDataset } from '../types';
+import { compareFilters } from '../utils/filterImpact';
+
+interface FilterImpactPanelProps {
+  datasets: SymbolDataset[];
+  config: StrategyConfig;
+  portfolioConfig: PortfolioConfig;
+  corporateActions: CorporateAction[];
+}
+
+const formatRupees = (value: number) =>
+  `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+const FilterImpactPanel: React.FC<FilterImpactPanelProps> = ({ datasets, config, portfolioConfig, corporateActions }) => {
+  const [rows, setRows] = useState<FilterImpact[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const compare = () => {
+    try {
+      setError(null);
+      setRows(compareFilters(datasets, config, portfolioConfig, { corporateActions }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Comparison failed');
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-6 border border-gray-200 text-left print:hidden">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <Filter className="mr-2 text-indigo-600" /> Filter Impact
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Re-runs the current settings with each signal filter turned off in turn, to show what it cost or saved.
+        The held signals themselves are in the decision timeline.
+      </p>
+
+      <button
+        type="button"
+        onClick={compare}
+        className="flex items-center px-4 py-2 mb-4 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition"
+      >
+        <GitCompare className="w-4 h-4 mr-1" /> Compare Filters
+      </button>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {rows && rows.length === 0 && (
+        <p className="text-sm text-gray-500">No filter rules are enabled.</p>
+      )}
+
+      {rows && rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b-2 border-gray-300">
+                <th className="text-left py-2 px-2 text-gray-700">Turned Off</th>
+                <th className="text-right py-2 px-2 text-gray-700">Signals Held</th>
+                <th className="text-right py-2 px-2 text-gray-700">Profit Without</th>
+                <th className="text-right py-2 px-2 text-gray-700">Filter Added</th>
+                <th className="text-right py-2 px-2 text-gray-700">Trades (with / without)</th>
+                <th className="text-right py-2 px-2 text-gray-700">Max Drawdown (with / without)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => {
+                const added = row.totalProfit - row.profitWithout;
+                return (
+                  <tr key={row.ruleId ?? 'all'} className={`border-b border-gray-200 ${row.ruleId === null ? 'font-semibold' : ''}`}>
+                    <td className="py-2 px-2 text-gray-800">{row.label}</td>
+                    <td className="py-2 px-2 text-right text-gray-800">{row.blocked}</td>
+                    <td className="py-2 px-2 text-right text-gray-800">{formatRupees(row.profitWithout)}</td>
+                    <td className={`py-2 px-2 text-right ${added >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {added >= 0 ? '+' : ''}{formatRupees(added)}
+                    </td>
+                    <td className="py-2 px-2 text-right text-gray-800">{row.totalTrades} / {row.tradesWithout}</td>
+                    <td className="py-2 px-2 text-right text-gray-800">{formatRupees(-row.maxDrawdown)} / {formatRupees(-row.maxDrawdownWithout)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">
+            Profit with every filter on: {formatRupees(rows[0].totalProfit)}. Rules interact, so the single-rule rows need not add up to the last one.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilterImpactPanel;
@@ -0,0 +1,166 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import type { FilterRule, IndicatorId, IndicatorRef } from '../types';
+import { DEFAULT_PERIODS, INDICATOR_IDS, INDICATOR_LABELS, hasPeriod } from '../utils/indicators';
+import { FILTER_OP_LABELS, FILTER_PRESETS, describeRule, nextFilterId } from '../utils/signalFilters';
+
+interface FilterSettingsProps {
+  filters: FilterRule[];
+  onChange: (filters: FilterRule[]) => void;
+}
+
+const FIXED = 'fixed'; // Right-hand select value for a plain level
+
+const refFor = (indicator: IndicatorId): IndicatorRef => ({ indicator, period: DEFAULT_PERIODS[indicator] ?? 0 });
+
+const FilterSettings: React.FC<FilterSettingsProps> = ({ filters, onChange }) => {
+  const updateRule = (idx: number, rule: FilterRule) => {
+    onChange(filters.map((r, i) => (i === idx ? rule : r)));
+  };
+
+  const addRule = (preset: Omit<FilterRule, 'id'>) => {
+    onChange([...filters, { ...preset, id: nextFilterId(filters) }]);
+  };
+
+  const removeRule = (idx: number) => {
+    onChange(filters.filter((_, i) => i !== idx));
+  };
+
+  const inputClass = 'w-full mt-1 px-2 py-2 border border-gray-300 rounded-lg text-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-400';
+  const buttonClass = 'flex items-center px-3 py-1 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 transition';
+
+  const periodInput = (ref: IndicatorRef, onPeriod: (period: number) => void) => hasPeriod(ref.indicator) && (
+    <label className="text-sm text-gray-600 w-20">
+      Bars
+      <input
+        type="number"
+        min={1}
+        value={ref.period}
+        onChange={(e) => onPeriod(parseInt(e.target.value, 10) || 1)}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  return (
+    <div className="mt-6 text-left">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+        <h3 className="text-lg font-semibold text-gray-800">Signal Filters</h3>
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={() => addRule(FILTER_PRESETS.trend)} className={buttonClass}>
+            <Plus className="w-4 h-4 mr-1" /> Above 200-DMA
+          </button>
+          <button type="button" onClick={() => addRule(FILTER_PRESETS.volume)} className={buttonClass}>
+            <Plus className="w-4 h-4 mr-1" /> Volume ≥ ½ Avg
+          </button>
+          <button type="button" onClick={() => addRule({ ...FILTER_PRESETS.trend, scope: 'all' })} className={buttonClass}>
+            <Plus className="w-4 h-4 mr-1" /> Add Rule
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        A buy or target sell only goes through while every rule for it holds, read at the previous CLOSE. Held signals are logged, and indicators still warming up let them through. Stops and other exits are never held.
+      </p>
+
+      {filters.length === 0 ? (
+        <p className="text-sm text-gray-400">No filters: every signal trades.</p>
+      ) : (
+        <div className="space-y-3">
+          {filters.map((rule, idx) => (
+            <div key={rule.id} className={`border border-gray-200 rounded-lg p-3 ${rule.enabled ? '' : 'opacity-60'}`}>
+              <div className="flex flex-wrap items-end gap-3">
+                <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-2">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRule(idx, { ...rule, enabled: e.target.checked })}
+                  />
+                  {rule.id}
+                </label>
+
+                <label className="text-sm text-gray-600">
+                  Signal
+                  <select
+                    value={rule.side === 'SELL' ? 'SELL' : rule.scope}
+                    onChange={(e) => updateRule(idx, e.target.value === 'SELL'
+                      ? { ...rule, side: 'SELL', scope: 'all' }
+                      : { ...rule, side: 'BUY', scope: e.target.value as FilterRule['scope'] })}
+                    className={inputClass}
+                  >
+                    <option value="all">Every buy</option>
+                    <option value="ladder">Ladder buys</option>
+                    <option value="SELL">Target sells</option>
+                  </select>
+                </label>
+
+                <label className="text-sm text-gray-600">
+                  When
+                  <select
+                    value={rule.left.indicator}
+                    onChange={(e) => updateRule(idx, { ...rule, left: refFor(e.target.value as IndicatorId) })}
+                    className={inputClass}
+                  >
+                    {INDICATOR_IDS.map(id => <option key={id} value={id}>{INDICATOR_LABELS[id]}</option>)}
+                  </select>
+                </label>
+                {periodInput(rule.left, (period) => updateRule(idx, { ...rule, left: { ...rule.left, period } }))}
+
+                <label className="text-sm text-gray-600">
+                  Is
+                  <select
+                    value={rule.op}
+                    onChange={(e) => updateRule(idx, { ...rule, op: e.target.value as FilterRule['op'] })}
+                    className={inputClass}
+                  >
+                    {(['above', 'below'] as const).map(op => <option key={op} value={op}>{FILTER_OP_LABELS[op]}</option>)}
+                  </select>
+                </label>
+
+                <label className="text-sm text-gray-600 w-24">
+                  {rule.right ? 'Times (×)' : 'Level'}
+                  <input
+                    type="number"
+                    step={rule.right ? 0.05 : 'any'}
+                    value={rule.value}
+                    onChange={(e) => updateRule(idx, { ...rule, value: parseFloat(e.target.value) || 0 })}
+                    className={inputClass}
+                  />
+                </label>
+
+                <label className="text-sm text-gray-600">
+                  Of
+                  <select
+                    value={rule.right?.indicator ?? FIXED}
+                    onChange={(e) => updateRule(idx, e.target.value === FIXED
+                      ? { ...rule, right: null }
+                      : { ...rule, right: refFor(e.target.value as IndicatorId), value: rule.right ? rule.value : 1 })}
+                    className={inputClass}
+                  >
+                    <option value={FIXED}>Fixed level</option>
+                    {INDICATOR_IDS.map(id => <option key={id} value={id}>{INDICATOR_LABELS[id]}</option>)}
+                  </select>
+                </label>
+                {rule.right && periodInput(rule.right, (period) => updateRule(idx, { ...rule, right: { ...rule.right!, period } }))}
+
+                <button
+                  type="button"
+                  onClick={() => removeRule(idx)}
+                  className="p-2 mb-1 text-red-600 hover:bg-red-50 rounded-lg transition"
+                  aria-label="Remove filter rule"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">{describeRule(rule)}</p>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-500 mt-2">
+        Fixed levels are in the indicator's own unit: ₹ for prices, 0–100 for RSI, 0–1 for the 52-week range position (0 at the low) and a multiple of the average for volume.
+      </p>
+    </div>
+  );
+};
+
+export default FilterSettings;
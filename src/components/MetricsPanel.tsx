@@ -0,0 +1,86 @@
+import React from 'react';
+import { Activity } from 'lucide-react';
+import type { PerformanceMetrics } from '../types';
+
+interface MetricsPanelProps {
+  metrics: PerformanceMetrics;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+const formatRupees = (value: number) =>
+  `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+interface MetricProps {
+  label: string;
+  value: string;
+  note?: string;
+  tone?: 'good' | 'bad' | 'neutral';
+}
+
+const Metric: React.FC<MetricProps> = ({ label, value, note, tone = 'neutral' }) => (
+  <div className="bg-white rounded-lg p-4 border border-gray-100">
+    <p className="text-gray-600 text-sm">{label}</p>
+    <p className={`text-2xl font-semibold ${tone === 'good' ? 'text-green-600' : tone === 'bad' ? 'text-red-600' : 'text-gray-800'}`}>
+      {value}
+    </p>
+    {note && <p className="text-xs text-gray-500 mt-1">{note}</p>}
+  </div>
+);
+
+const signTone = (value: number): 'good' | 'bad' => (value >= 0 ? 'good' : 'bad');
+
+const MetricsPanel: React.FC<MetricsPanelProps> = ({ metrics }) => {
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-6 text-left">
+      <h2 className="text-2xl font-bold text-gray-800 mb-1 flex items-center">
+        <Activity className="mr-2 text-indigo-600" /> Risk & Performance
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Returns are measured on peak capital deployed ({formatRupees(metrics.capitalBase)}) and include unrealized P/L on open lots.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+        <Metric
+          label="CAGR"
+          value={formatPercent(metrics.cagr)}
+          note={`Final equity ${formatRupees(metrics.finalEquity)}`}
+          tone={signTone(metrics.cagr)}
+        />
+        <Metric
+          label="XIRR"
+          value={metrics.xirr === null ? 'n/a' : formatPercent(metrics.xirr)}
+          note="On actual buy/sell cash flows"
+          tone={metrics.xirr === null ? 'neutral' : signTone(metrics.xirr)}
+        />
+        <Metric
+          label="Sharpe Ratio"
+          value={metrics.sharpe.toFixed(2)}
+          note={`Risk-free ${formatPercent(metrics.riskFreeRate)}`}
+        />
+        <Metric label="Sortino Ratio" value={metrics.sortino.toFixed(2)} note="Downside deviation only" />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Metric
+          label="Max Drawdown"
+          value={formatRupees(-metrics.maxDrawdown)}
+          note={`${formatPercent(metrics.maxDrawdownPercent)} of capital + peak equity`}
+          tone={metrics.maxDrawdown > 0 ? 'bad' : 'neutral'}
+        />
+        <Metric
+          label="Longest Drawdown"
+          value={`${metrics.maxDrawdownDays} days`}
+          note={metrics.drawdownStart ? `${metrics.drawdownStart} → ${metrics.drawdownEnd}` : 'Never under water'}
+        />
+        <Metric
+          label="Win Rate"
+          value={formatPercent(metrics.winRate)}
+          note={`${metrics.closedLots} closed lots, avg hold ${metrics.avgHoldingDays.toFixed(1)} days`}
+        />
+        <Metric label="Exposure Time" value={formatPercent(metrics.exposure)} note="Trading days with an open lot" />
+      </div>
+    </div>
+  );
+};
+
+export default MetricsPanel;
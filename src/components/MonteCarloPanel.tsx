@@ -0,0 +1,294 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Dices, Play, Square } from 'lucide-react';
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  BarChart,
+  Area,
+  Line,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts';
+import type {
+  CorporateAction,
+  MonteCarloConfig,
+  MonteCarloMetric,
+  MonteCarloResult,
+  MonteCarloWorkerMessage,
+  PriceBar,
+  StrategyConfig
+} from '../types';
+import { DEFAULT_MONTE_CARLO, MONTE_CARLO_METRIC_LABELS } from '../utils/monteCarlo';
+import { formatAxisRupees, formatTooltipRupees } from '../utils/equitySeries';
+
+interface MonteCarloPanelProps {
+  data: PriceBar[];
+  corporateActions?: CorporateAction[];
+  config: StrategyConfig;
+}
+
+const HISTOGRAM_BINS = 20;
+
+const METRICS = Object.keys(MONTE_CARLO_METRIC_LABELS) as MonteCarloMetric[];
+
+const formatMetric = (metric: MonteCarloMetric, value: number) =>
+  metric === 'openPositions' ? value.toFixed(1) : `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+/**
+ * Equal-width bins over the paths' values of one metric
+ */
+const histogram = (values: number[]) => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = (max - min) / HISTOGRAM_BINS || 1;
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+  for (const value of values) counts[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))]++;
+  return counts.map((count, i) => ({ from: min + i * width, count }));
+};
+
+const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ data, corporateActions, config }) => {
+  const [settings, setSettings] = useState<MonteCarloConfig>(DEFAULT_MONTE_CARLO);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [metric, setMetric] = useState<MonteCarloMetric>('finalEquity');
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  // Stop any running simulation when the panel unmounts
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setRunning(false);
+  };
+
+  const start = () => {
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    setError(null);
+    setResult(null);
+    setRunning(true);
+    setProgress({ completed: 0, total: 0 });
+
+    worker.onmessage = (e: MessageEvent<MonteCarloWorkerMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        setProgress({ completed: message.completed, total: message.total });
+        return;
+      }
+
+      if (message.type === 'done') {
+        setResult(message.result);
+      } else {
+        setError(message.message);
+      }
+      stop();
+    };
+
+    worker.onerror = (e) => {
+      setError('Monte Carlo worker failed: ' + e.message);
+      stop();
+    };
+
+    worker.postMessage({ data, request: { ...settings, config, corporateActions } });
+  };
+
+  const update = (patch: Partial<MonteCarloConfig>) => setSettings({ ...settings, ...patch });
+  const inputClass = 'w-full mt-1 px-2 py-1 border border-gray-300 rounded text-gray-800';
+
+  const bands = result?.equityBands.map(band => ({
+    bar: band.bar,
+    outer: [band.p5, band.p95],
+    inner: [band.p25, band.p75],
+    median: band.p50
+  }));
+  const bins = result ? histogram(result.paths.map(p => p[metric])) : [];
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-6 border border-gray-200 text-left">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <Dices className="mr-2 text-indigo-600" /> Monte Carlo Robustness
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Runs the current settings on synthetic price histories resampled from the loaded data in blocks of consecutive days.
+        The same seed always gives the same paths.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-4 text-sm text-gray-600">
+        <label>
+          Paths
+          <input type="number" min={1} value={settings.paths} onChange={(e) => update({ paths: parseInt(e.target.value, 10) || 1 })} className={inputClass} />
+        </label>
+        <label>
+          Block Size (days)
+          <input type="number" min={1} value={settings.blockSize} onChange={(e) => update({ blockSize: parseInt(e.target.value, 10) || 1 })} className={inputClass} />
+        </label>
+        <label>
+          Path Length (days)
+          <input
+            type="number"
+            min={0}
+            value={settings.pathBars || data.length}
+            onChange={(e) => update({ pathBars: parseInt(e.target.value, 10) || 0 })}
+            className={inputClass}
+          />
+        </label>
+        <label>
+          OHLC Noise (%)
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={+(settings.noise * 100).toFixed(4)}
+            onChange={(e) => update({ noise: (parseFloat(e.target.value) || 0) / 100 })}
+            className={inputClass}
+          />
+        </label>
+        <label>
+          Seed
+          <input type="number" value={settings.seed} onChange={(e) => update({ seed: parseInt(e.target.value, 10) || 0 })} className={inputClass} />
+        </label>
+        <label className="flex items-center gap-2 mt-6">
+          <input type="checkbox" checked={settings.randomStart} onChange={(e) => update({ randomStart: e.target.checked })} />
+          Random start dates
+        </label>
+      </div>
+
+      <div className="flex items-center gap-4 mb-4">
+        {running ? (
+          <button
+            type="button"
+            onClick={stop}
+            className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-red-600 rounded-lg hover:bg-red-700 transition"
+          >
+            <Square className="w-4 h-4 mr-1" /> Stop
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={start}
+            className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition"
+          >
+            <Play className="w-4 h-4 mr-1" /> Run Simulation
+          </button>
+        )}
+        {running && progress.total > 0 && (
+          <div className="flex-1">
+            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-2 bg-indigo-600 transition-all" style={{ width: `${(progress.completed / progress.total) * 100}%` }} />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">{progress.completed} / {progress.total} paths</p>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="bg-white rounded-lg p-4 border border-gray-100">
+              <p className="text-gray-600 text-sm">Paths Ending Below Zero</p>
+              <p className="text-2xl font-semibold text-red-600">{(result.lossProbability * 100).toFixed(1)}%</p>
+              <p className="text-xs text-gray-500 mt-1">Mark-to-market equity at the last close</p>
+            </div>
+            <div className="bg-white rounded-lg p-4 border border-gray-100">
+              <p className="text-gray-600 text-sm">Paths Ending Fully Stuck</p>
+              <p className="text-2xl font-semibold text-gray-800">{(result.stuckProbability * 100).toFixed(1)}%</p>
+              <p className="text-xs text-gray-500 mt-1">All {result.request.config.maxPositions} lots still open</p>
+            </div>
+            <div className="bg-white rounded-lg p-4 border border-gray-100">
+              <p className="text-gray-600 text-sm">Median Final Equity</p>
+              <p className="text-2xl font-semibold text-gray-800">{formatMetric('finalEquity', result.summary.finalEquity.p50)}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                5th–95th percentile: {formatMetric('finalEquity', result.summary.finalEquity.p5)} to {formatMetric('finalEquity', result.summary.finalEquity.p95)}
+              </p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b-2 border-gray-300">
+                  <th className="text-left py-2 px-2 text-gray-700">Metric</th>
+                  {['5th', '25th', 'Median', '75th', '95th', 'Mean'].map(label => (
+                    <th key={label} className="text-right py-2 px-2 text-gray-700">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {METRICS.map(key => {
+                  const s = result.summary[key];
+                  return (
+                    <tr key={key} className="border-b border-gray-200">
+                      <td className="py-2 px-2 text-gray-800">{MONTE_CARLO_METRIC_LABELS[key]}</td>
+                      {[s.p5, s.p25, s.p50, s.p75, s.p95, s.mean].map((value, i) => (
+                        <td key={i} className="py-2 px-2 text-right text-gray-800">{formatMetric(key, value)}</td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">Equity Percentile Bands</h3>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={bands}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="bar" tick={{ fontSize: 11 }} label={{ value: 'Trading day', position: 'insideBottomRight', offset: -5, fontSize: 11 }} />
+                  <YAxis tickFormatter={formatAxisRupees} tick={{ fontSize: 11 }} width={70} />
+                  <Tooltip formatter={formatTooltipRupees} />
+                  <Legend />
+                  <Area dataKey="outer" name="5th–95th" stroke="none" fill="#e0e7ff" isAnimationActive={false} />
+                  <Area dataKey="inner" name="25th–75th" stroke="none" fill="#a5b4fc" isAnimationActive={false} />
+                  <Line dataKey="median" name="Median" stroke="#4f46e5" dot={false} strokeWidth={2} isAnimationActive={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-semibold text-gray-800">Distribution</h3>
+              <select value={metric} onChange={(e) => setMetric(e.target.value as MonteCarloMetric)} className="px-2 py-1 border border-gray-300 rounded text-gray-800 text-sm">
+                {METRICS.map(key => <option key={key} value={key}>{MONTE_CARLO_METRIC_LABELS[key]}</option>)}
+              </select>
+            </div>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={bins}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis
+                    dataKey="from"
+                    tickFormatter={(value: number) => (metric === 'openPositions' ? value.toFixed(1) : formatAxisRupees(value))}
+                    tick={{ fontSize: 11 }}
+                  />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 11 }} width={40} />
+                  <Tooltip labelFormatter={(value) => `From ${typeof value === 'number' ? formatMetric(metric, value) : value}`} />
+                  <Bar dataKey="count" name="Paths" fill="#6366f1" isAnimationActive={false} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MonteCarloPanel;
@@ -0,0 +1,292 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarClock, Plus, Trash2, Undo2 } from 'lucide-react';
+import type { CorporateAction, IntradayPaths, ManualFill, ManualSession, PendingOrder, PriceBar, StrategyConfig } from '../types';
+import { loadManualSessions, rollForward, saveManualSessions } from '../utils/liveSignals';
+import { formatBarDate } from '../utils/csvFormats';
+import { EXIT_TYPE_LABELS } from '../utils/exitRules';
+
+interface NextSessionPanelProps {
+  symbol: string;
+  data: PriceBar[];
+  corporateActions?: CorporateAction[];
+  intraday?: IntradayPaths;
+  config: StrategyConfig;
+}
+
+const formatPrice = (value: number) => `₹${value.toFixed(2)}`;
+const formatRupees = (value: number) =>
+  `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+const emptyDraft = { date: '', close: '', reference: '', fills: [] as ManualFill[] };
+
+const NextSessionPanel: React.FC<NextSessionPanelProps> = ({ symbol, data, corporateActions, intraday, config }) => {
+  // Each symbol keeps its own journal; mount with key={symbol} to switch
+  const [sessions, setSessions] = useState<ManualSession[]>(() => loadManualSessions(symbol));
+  const [draft, setDraft] = useState(emptyDraft);
+  const [error, setError] = useState<string | null>(null);
+
+  const live = useMemo(() => {
+    try {
+      return { ...rollForward(data, config, sessions, { corporateActions, intraday }), failure: null };
+    } catch (e) {
+      return { state: null, plan: null, failure: e instanceof Error ? e.message : 'Could not plan the next session' };
+    }
+  }, [data, config, sessions, corporateActions, intraday]);
+
+  const updateSessions = (next: ManualSession[]) => {
+    setSessions(next);
+    saveManualSessions(symbol, next);
+  };
+
+  const addFill = (fill: ManualFill) => setDraft({ ...draft, fills: [...draft.fills, fill] });
+  const updateFill = (index: number, patch: Partial<ManualFill>) =>
+    setDraft({ ...draft, fills: draft.fills.map((fill, i) => (i === index ? { ...fill, ...patch } : fill)) });
+
+  const fillFromOrder = (order: PendingOrder) => addFill({
+    side: order.side,
+    price: +order.price.toFixed(2),
+    shares: order.shares,
+    threshold: order.side === 'BUY' ? order.threshold : undefined,
+    lotIndex: order.lot && live.state ? live.state.positions.indexOf(order.lot) : undefined
+  });
+
+  const addSession = () => {
+    const time = Date.parse(draft.date); // yyyy-mm-dd parses as UTC midnight, like imported bars
+    const close = parseFloat(draft.close);
+    if (Number.isNaN(time) || !(close > 0)) {
+      setError('Enter the session date and its closing price');
+      return;
+    }
+    const session: ManualSession = {
+      date: formatBarDate(time),
+      time,
+      close,
+      fills: draft.fills,
+      reference: draft.reference ? parseFloat(draft.reference) : undefined
+    };
+    const next = [...sessions, session];
+    try {
+      rollForward(data, config, next, { corporateActions, intraday });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not apply the session');
+      return;
+    }
+    setError(null);
+    updateSessions(next);
+    setDraft(emptyDraft);
+  };
+
+  const { state, plan } = live;
+  const inputClass = 'w-full mt-1 px-2 py-1 border border-gray-300 rounded text-gray-800';
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 border border-gray-200 text-left">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <CalendarClock className="mr-2 text-indigo-600" /> Next Session: {symbol}
+      </h2>
+
+      {live.failure && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <p className="text-red-800">{live.failure}</p>
+        </div>
+      )}
+
+      {plan && state && (
+        <>
+          <p className="text-sm text-gray-600 mb-4">
+            Orders to place after {plan.asOf}: last close {formatPrice(plan.lastClose)}
+            {plan.reference ? `, reference ${formatPrice(plan.reference)}` : ''}, {plan.openLots} of {plan.maxPositions} lots open.
+            Quantities are before fees; buys are lot size ÷ trigger.
+          </p>
+
+          {plan.orders.length > 0 ? (
+            <div className="overflow-x-auto mb-4">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b-2 border-gray-300">
+                    <th className="text-left py-2 px-2 text-gray-700">#</th>
+                    <th className="text-left py-2 px-2 text-gray-700">Order</th>
+                    <th className="text-right py-2 px-2 text-gray-700">Price</th>
+                    <th className="text-right py-2 px-2 text-gray-700">Quantity</th>
+                    <th className="text-right py-2 px-2 text-gray-700">Value</th>
+                    <th className="text-left py-2 px-2 text-gray-700">Detail</th>
+                    <th className="text-left py-2 px-2 text-gray-700">On a Gap</th>
+                    <th className="py-2 px-2 print:hidden"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.orders.map((order, i) => (
+                    <tr key={i} className="border-b border-gray-200">
+                      <td className="py-2 px-2 text-gray-800">{i + 1}</td>
+                      <td className={`py-2 px-2 font-semibold ${order.side === 'BUY' ? 'text-green-700' : 'text-red-700'}`}>
+                        {order.exit ? EXIT_TYPE_LABELS[order.exit] : order.side === 'BUY' ? 'Buy trigger' : 'Sell limit'}
+                      </td>
+                      <td className="py-2 px-2 text-right text-gray-800">{formatPrice(order.price)}</td>
+                      <td className="py-2 px-2 text-right text-gray-800">{order.shares}</td>
+                      <td className="py-2 px-2 text-right text-gray-800">{formatRupees(order.price * order.shares)}</td>
+                      <td className="py-2 px-2 text-gray-600">
+                        {order.lot
+                          ? `Lot bought at ${formatPrice(order.lot.buyPrice)} on ${order.lot.buyDate}${order.exit ? '' : `, ${(order.threshold * 100).toFixed(0)}% target`}`
+                          : `${(order.threshold * 100).toFixed(0)}% target, sells at ${formatPrice(order.price * (1 + order.threshold))}`}
+                        {order.after !== undefined && <span className="block text-xs text-gray-500">Only after #{order.after + 1} fills</span>}
+                      </td>
+                      <td className="py-2 px-2 text-gray-600">{order.note}</td>
+                      <td className="py-2 px-2 text-right print:hidden">
+                        <button
+                          type="button"
+                          onClick={() => fillFromOrder(order)}
+                          className="px-2 py-1 text-xs text-indigo-700 bg-indigo-50 rounded hover:bg-indigo-100 transition whitespace-nowrap"
+                        >
+                          Filled
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600 mb-4">No orders to place.</p>
+          )}
+
+          {plan.notes.length > 0 && (
+            <ul className="list-disc list-inside text-sm text-gray-600 mb-6">
+              {plan.notes.map(note => <li key={note}>{note}</li>)}
+            </ul>
+          )}
+
+          <div className="print:hidden">
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">Enter a Session</h3>
+            <p className="text-sm text-gray-600 mb-3">
+              Record what actually filled to roll the state forward. Only the fills entered trade; the strategy's closing rules
+              do not run, so set the reference by hand if a note above applied.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-3 text-sm text-gray-600">
+              <label>
+                Date
+                <input type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} className={inputClass} />
+              </label>
+              <label>
+                Close (₹)
+                <input type="number" min={0} step={0.05} value={draft.close} onChange={(e) => setDraft({ ...draft, close: e.target.value })} className={inputClass} />
+              </label>
+              <label>
+                New Reference (₹, optional)
+                <input type="number" min={0} step={0.05} value={draft.reference} onChange={(e) => setDraft({ ...draft, reference: e.target.value })} className={inputClass} />
+              </label>
+            </div>
+
+            {draft.fills.map((fill, i) => (
+              <div key={i} className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-2 text-sm items-center">
+                <select
+                  value={fill.side}
+                  onChange={(e) => updateFill(i, { side: e.target.value as ManualFill['side'], lotIndex: e.target.value === 'SELL' ? 0 : undefined })}
+                  className="px-2 py-1 border border-gray-300 rounded text-gray-800"
+                >
+                  <option value="BUY">Buy</option>
+                  <option value="SELL">Sell</option>
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.05}
+                  value={fill.price}
+                  onChange={(e) => updateFill(i, { price: parseFloat(e.target.value) || 0 })}
+                  className="px-2 py-1 border border-gray-300 rounded text-gray-800"
+                  aria-label="Fill price"
+                />
+                {fill.side === 'BUY' ? (
+                  <input
+                    type="number"
+                    min={1}
+                    value={fill.shares}
+                    onChange={(e) => updateFill(i, { shares: parseInt(e.target.value, 10) || 0 })}
+                    className="px-2 py-1 border border-gray-300 rounded text-gray-800"
+                    aria-label="Shares"
+                  />
+                ) : (
+                  <select
+                    value={fill.lotIndex ?? 0}
+                    onChange={(e) => updateFill(i, { lotIndex: parseInt(e.target.value, 10) })}
+                    className="px-2 py-1 border border-gray-300 rounded text-gray-800 md:col-span-1"
+                  >
+                    {state.positions.map((pos, index) => (
+                      <option key={index} value={index}>{pos.shares} bought at {formatPrice(pos.buyPrice)} on {pos.buyDate}</option>
+                    ))}
+                  </select>
+                )}
+                <span className="text-gray-600">{fill.side === 'BUY' ? formatRupees(fill.price * fill.shares) : 'Whole lot'}</span>
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, fills: draft.fills.filter((_, j) => j !== i) })}
+                  className="justify-self-start p-1 text-gray-500 hover:text-red-600"
+                  aria-label="Remove fill"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+              <button
+                type="button"
+                onClick={() => addFill({ side: 'BUY', price: 0, shares: 0 })}
+                className="flex items-center px-3 py-1 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 transition"
+              >
+                <Plus className="w-4 h-4 mr-1" /> Add Fill
+              </button>
+              <button
+                type="button"
+                onClick={addSession}
+                className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition"
+              >
+                Save Session
+              </button>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+                <p className="text-red-800">{error}</p>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {sessions.length > 0 && (
+        <div className="print:hidden">
+          <h3 className="text-lg font-semibold text-gray-800 mb-2">Sessions Entered ({sessions.length})</h3>
+          <ul className="text-sm text-gray-700 mb-3 space-y-1">
+            {sessions.map(session => (
+              <li key={session.time}>
+                {session.date}: close {formatPrice(session.close)},{' '}
+                {session.fills.length > 0
+                  ? session.fills.map(fill => `${fill.side === 'BUY' ? `bought ${fill.shares}` : 'sold a lot'} at ${formatPrice(fill.price)}`).join(', ')
+                  : 'no fills'}
+                {session.reference !== undefined && `, reference set to ${formatPrice(session.reference)}`}
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => updateSessions(sessions.slice(0, -1))}
+              className="flex items-center px-3 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-100 transition"
+            >
+              <Undo2 className="w-4 h-4 mr-1" /> Undo Last Session
+            </button>
+            <button
+              type="button"
+              onClick={() => updateSessions([])}
+              className="flex items-center px-3 py-1 text-sm text-red-700 bg-white border border-red-200 rounded-lg hover:bg-red-50 transition"
+            >
+              <Trash2 className="w-4 h-4 mr-1" /> Clear All
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NextSessionPanel;
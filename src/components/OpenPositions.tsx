@@ -1,17 +1,22 @@
 import React from 'react';
 import type { Position } from '../types';
+import { lotCost } from '../utils/costModel';
+import { SIZING_MODE_LABELS } from '../utils/positionSizing';
 
 interface OpenPositionsProps {
   positions: Position[];
   currentPrice: number;
+  baseThreshold?: number; // Lots bought above this threshold are tagged as ladder dips
+  deepThreshold?: number; // Ladder's last step: lots from this dip on get the deep-dip colour
+  title?: string;
 }
 
-const OpenPositions: React.FC<OpenPositionsProps> = ({ positions, currentPrice }) => {
+const OpenPositions: React.FC<OpenPositionsProps> = ({ positions, currentPrice, baseThreshold = 0.05, deepThreshold = Infinity, title = 'Open Positions (Unsold Lots)' }) => {
   if (positions.length === 0) return null;
 
   return (
     <div className="bg-amber-50 rounded-xl p-6 border border-amber-200">
-      <h2 className="text-2xl font-bold text-gray-800 mb-4">Open Positions (Unsold Lots)</h2>
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">{title}</h2>
       <p className="text-sm text-gray-600 mb-4">
         These positions remain unsold at the end of the backtest period. Current price: ₹{currentPrice.toFixed(2)}
       </p>
@@ -30,10 +35,10 @@ const OpenPositions: React.FC<OpenPositionsProps> = ({ positions, currentPrice }
           </thead>
           <tbody>
             {positions.map((pos, idx) => {
-              const invested = pos.shares * pos.buyPrice;
+              const invested = lotCost(pos); // Includes buy-side fees when costs are on
               const currentValue = pos.shares * currentPrice;
               const unrealizedPL = currentValue - invested;
-              const targetSellPrice = pos.buyPrice * 1.05;
+              const targetSellPrice = pos.buyPrice * (1 + (pos.threshold || baseThreshold));
               
               return (
                 <tr key={idx} className="border-b border-amber-200">
@@ -41,20 +46,25 @@ const OpenPositions: React.FC<OpenPositionsProps> = ({ positions, currentPrice }
                   <td className="py-3 px-4 text-right text-gray-800">
                     <div className="flex items-center justify-end gap-2">
                       ₹{pos.buyPrice.toFixed(2)}
-                      {pos.threshold && pos.threshold > 0.05 && pos.threshold < 0.15 && (
+                      {pos.threshold && pos.threshold > baseThreshold && pos.threshold < deepThreshold && (
                         <span className="px-2 py-0.5 text-xs font-medium bg-blue-100 text-blue-800 rounded-full">
-                          10% Dip
+                          {(pos.threshold * 100).toFixed(0)}% Dip
                         </span>
                       )}
-                      {pos.threshold && pos.threshold >= 0.15 && (
+                      {pos.threshold && pos.threshold > baseThreshold && pos.threshold >= deepThreshold && (
                         <span className="px-2 py-0.5 text-xs font-medium bg-purple-100 text-purple-800 rounded-full">
-                          20% Dip
+                          {(pos.threshold * 100).toFixed(0)}% Dip
                         </span>
                       )}
                     </div>
                   </td>
                   <td className="py-3 px-4 text-right text-blue-600 font-semibold">₹{targetSellPrice.toFixed(2)}</td>
-                  <td className="py-3 px-4 text-right text-gray-800">{pos.shares}</td>
+                  <td className="py-3 px-4 text-right text-gray-800">
+                    {pos.shares}
+                    {pos.sizingRule && pos.sizingRule !== 'fixed-amount' && (
+                      <span className="block text-xs text-gray-500">{SIZING_MODE_LABELS[pos.sizingRule]}</span>
+                    )}
+                  </td>
                   <td className="py-3 px-4 text-right text-gray-800">₹{invested.toFixed(2)}</td>
                   <td className="py-3 px-4 text-right text-gray-800">₹{currentValue.toFixed(2)}</td>
                   <td className={`py-3 px-4 text-right font-semibold ${unrealizedPL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
@@ -73,7 +83,7 @@ const OpenPositions: React.FC<OpenPositionsProps> = ({ positions, currentPrice }
             <div className="text-right">
               <p className="text-sm text-gray-500">Total Invested</p>
               <p className="text-lg font-semibold text-gray-800">
-                ₹{positions.reduce((sum, p) => sum + (p.shares * p.buyPrice), 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                ₹{positions.reduce((sum, p) => sum + lotCost(p), 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
               </p>
             </div>
             <div className="text-right">
@@ -85,11 +95,11 @@ const OpenPositions: React.FC<OpenPositionsProps> = ({ positions, currentPrice }
             <div className="text-right">
               <p className="text-sm text-gray-500">Unrealized P/L</p>
               <p className={`text-lg font-bold ${
-                positions.reduce((sum, p) => sum + (p.shares * currentPrice) - (p.shares * p.buyPrice), 0) >= 0 
+                positions.reduce((sum, p) => sum + (p.shares * currentPrice) - lotCost(p), 0) >= 0 
                   ? 'text-green-600' 
                   : 'text-red-600'
               }`}>
-                ₹{positions.reduce((sum, p) => sum + (p.shares * currentPrice) - (p.shares * p.buyPrice), 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                ₹{positions.reduce((sum, p) => sum + (p.shares * currentPrice) - lotCost(p), 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
               </p>
             </div>
           </div>
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import type { OptimizerResult, OptimizerParam, OptimizerObjective } from '../types';
+import { PARAM_LABELS, OBJECTIVE_LABELS, formatParamValue } from '../utils/optimizer';
+
+interface OptimizerHeatmapProps {
+  results: OptimizerResult[];
+  params: OptimizerParam[];
+  objective: OptimizerObjective;
+}
+
+/**
+ * Colour from red (worst) through amber to green (best)
+ */
+const cellColor = (ratio: number): string => {
+  const hue = Math.round(ratio * 120);
+  return `hsl(${hue}, 70%, 80%)`;
+};
+
+const formatScore = (objective: OptimizerObjective, score: number): string => {
+  switch (objective) {
+    case 'annualizedROI':
+      return `${score.toFixed(1)}%`;
+    case 'profitPerPeakCapital':
+      return score.toFixed(3);
+    case 'maxDrawdown':
+      // Score is the negated drawdown
+      return `₹${(-score / 1000).toFixed(1)}k`;
+    default:
+      return `₹${(score / 1000).toFixed(1)}k`;
+  }
+};
+
+/**
+ * 2-D view of the sweep for any two swept parameters
+ * Each cell shows the best objective across the other parameters
+ */
+const OptimizerHeatmap: React.FC<OptimizerHeatmapProps> = ({ results, params, objective }) => {
+  const [xParam, setXParam] = useState<OptimizerParam>(params[0]);
+  const [yParam, setYParam] = useState<OptimizerParam>(params[1] ?? params[0]);
+
+  if (params.length < 2) {
+    return <p className="text-sm text-gray-500">Sweep at least two parameters to see a heatmap.</p>;
+  }
+
+  const x = params.includes(xParam) ? xParam : params[0];
+  const y = params.includes(yParam) ? yParam : params[1];
+
+  const xValues = [...new Set(results.map(r => r.params[x] as number))].sort((a, b) => a - b);
+  const yValues = [...new Set(results.map(r => r.params[y] as number))].sort((a, b) => b - a);
+
+  // Best score per cell
+  const cells = new Map<string, number>();
+  for (const result of results) {
+    const key = `${result.params[x]}|${result.params[y]}`;
+    const existing = cells.get(key);
+    if (existing === undefined || result.score > existing) {
+      cells.set(key, result.score);
+    }
+  }
+
+  const scores = [...cells.values()];
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+
+  const selectClass = 'ml-2 px-2 py-1 border border-gray-300 rounded text-gray-800';
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-4 mb-4 text-sm text-gray-600">
+        <label>
+          X axis
+          <select value={x} onChange={(e) => setXParam(e.target.value as OptimizerParam)} className={selectClass}>
+            {params.map(p => <option key={p} value={p}>{PARAM_LABELS[p]}</option>)}
+          </select>
+        </label>
+        <label>
+          Y axis
+          <select value={y} onChange={(e) => setYParam(e.target.value as OptimizerParam)} className={selectClass}>
+            {params.map(p => <option key={p} value={p}>{PARAM_LABELS[p]}</option>)}
+          </select>
+        </label>
+        <span className="self-center text-xs text-gray-500">Cell = best {OBJECTIVE_LABELS[objective]}</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="text-xs border-collapse">
+          <thead>
+            <tr>
+              <th className="p-2 text-gray-500 text-right">{PARAM_LABELS[y]} ↓ / {PARAM_LABELS[x]} →</th>
+              {xValues.map(xv => (
+                <th key={xv} className="p-2 text-gray-700 font-semibold">{formatParamValue(x, xv)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {yValues.map(yv => (
+              <tr key={yv}>
+                <th className="p-2 text-gray-700 font-semibold text-right">{formatParamValue(y, yv)}</th>
+                {xValues.map(xv => {
+                  const score = cells.get(`${xv}|${yv}`);
+                  if (score === undefined) {
+                    return <td key={xv} className="p-2 border border-white bg-gray-100 text-gray-400 text-center">-</td>;
+                  }
+                  const ratio = max > min ? (score - min) / (max - min) : 1;
+                  return (
+                    <td
+                      key={xv}
+                      className="p-2 border border-white text-center text-gray-800 font-medium"
+                      style={{ backgroundColor: cellColor(ratio) }}
+                      title={`${PARAM_LABELS[x]} ${formatParamValue(x, xv)}, ${PARAM_LABELS[y]} ${formatParamValue(y, yv)}`}
+                    >
+                      {formatScore(objective, score)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default OptimizerHeatmap;
@@ -0,0 +1,381 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Grid3x3, Play, Square } from 'lucide-react';
+import type {
+  PriceBar,
+  CorporateAction,
+  IntradayPaths,
+  StrategyConfig,
+  OptimizerParam,
+  OptimizerObjective,
+  OptimizerRequest,
+  OptimizerResult,
+  OptimizerWorkerMessage,
+  ParameterRange,
+  WalkForwardConfig,
+  WalkForwardMode,
+  WalkForwardResult,
+  WalkForwardWorkerMessage
+} from '../types';
+import {
+  PARAM_LABELS,
+  OBJECTIVE_LABELS,
+  PERCENT_PARAMS,
+  MAX_GRID_COMBINATIONS,
+  countCombinations
+} from '../utils/optimizer';
+import { DEFAULT_WALK_FORWARD, WALK_FORWARD_MODE_LABELS, planWindows } from '../utils/walkForward';
+import OptimizerResultsTable from './OptimizerResultsTable';
+import OptimizerHeatmap from './OptimizerHeatmap';
+import WalkForwardResults from './WalkForwardResults';
+
+interface OptimizerPanelProps {
+  data: PriceBar[];
+  corporateActions?: CorporateAction[];
+  intraday?: IntradayPaths;
+  baseConfig: StrategyConfig;
+  onApplyConfig: (config: StrategyConfig) => void;
+}
+
+interface RangeInput extends ParameterRange {
+  enabled: boolean;
+}
+
+/**
+ * Ranges as shown in the form: percentage params are entered as whole numbers (5 = 5%)
+ */
+const DEFAULT_RANGES: RangeInput[] = [
+  { param: 'threshold', min: 3, max: 8, step: 1, enabled: true },
+  { param: 'ladderStep1', min: 8, max: 12, step: 2, enabled: false },
+  { param: 'ladderStep2', min: 15, max: 25, step: 5, enabled: false },
+  { param: 'maxPositions', min: 3, max: 7, step: 1, enabled: true },
+  { param: 'lotSize', min: 50000, max: 150000, step: 50000, enabled: false },
+  { param: 'fallingStockReset', min: 15, max: 25, step: 5, enabled: false }
+];
+
+const toRequestRange = (range: RangeInput): ParameterRange => {
+  const scale = PERCENT_PARAMS.includes(range.param) ? 0.01 : 1;
+  return {
+    param: range.param,
+    min: range.min * scale,
+    max: range.max * scale,
+    step: range.step * scale
+  };
+};
+
+const OptimizerPanel: React.FC<OptimizerPanelProps> = ({ data, corporateActions, intraday, baseConfig, onApplyConfig }) => {
+  const [ranges, setRanges] = useState<RangeInput[]>(DEFAULT_RANGES);
+  const [mode, setMode] = useState<'grid' | 'random'>('grid');
+  const [samples, setSamples] = useState(200);
+  const [seed, setSeed] = useState(42);
+  const [objective, setObjective] = useState<OptimizerObjective>('totalProfit');
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [results, setResults] = useState<OptimizerResult[] | null>(null);
+  const [sweptParams, setSweptParams] = useState<OptimizerParam[]>([]);
+  const [resultObjective, setResultObjective] = useState<OptimizerObjective>('totalProfit');
+  const [error, setError] = useState<string | null>(null);
+  const [validation, setValidation] = useState<'in-sample' | 'walk-forward'>('in-sample');
+  const [walkForward, setWalkForward] = useState<WalkForwardConfig>(DEFAULT_WALK_FORWARD);
+  const [walkResult, setWalkResult] = useState<WalkForwardResult | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  // Stop any running sweep when the panel unmounts
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  // Ladder params only make sense when the base config has that ladder step
+  const isUnavailable = (param: OptimizerParam) => {
+    const ladderIndex = param === 'ladderStep1' ? 0 : param === 'ladderStep2' ? 1 : -1;
+    return ladderIndex >= 0 && !baseConfig.thresholdLadder[ladderIndex];
+  };
+
+  const enabledRanges = ranges.filter(r => r.enabled && !isUnavailable(r.param));
+  const totalCombinations = countCombinations(enabledRanges.map(toRequestRange));
+
+  // Number of walk-forward windows, or the reason the split does not fit the data
+  let windowCount: number | string = 0;
+  try {
+    windowCount = planWindows(data.length, walkForward).length;
+  } catch (err) {
+    windowCount = err instanceof Error ? err.message : 'Invalid windows';
+  }
+
+  const updateRange = (index: number, patch: Partial<RangeInput>) => {
+    setRanges(ranges.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setRunning(false);
+  };
+
+  const start = () => {
+    if (enabledRanges.length === 0) {
+      setError('Enable at least one parameter to sweep');
+      return;
+    }
+
+    const request: OptimizerRequest = {
+      baseConfig,
+      ranges: enabledRanges.map(toRequestRange),
+      mode,
+      samples,
+      seed,
+      objective,
+      corporateActions,
+      intraday
+    };
+
+    workerRef.current?.terminate();
+    setError(null);
+    setResults(null);
+    setWalkResult(null);
+    setRunning(true);
+    setProgress({ completed: 0, total: 0 });
+
+    const worker = validation === 'walk-forward'
+      ? new Worker(new URL('../workers/walkForward.worker.ts', import.meta.url), { type: 'module' })
+      : new Worker(new URL('../workers/optimizer.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    worker.onmessage = (e: MessageEvent<OptimizerWorkerMessage | WalkForwardWorkerMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        setProgress({ completed: message.completed, total: message.total });
+        return;
+      }
+
+      if (message.type === 'error') {
+        setError(message.message);
+      } else if ('result' in message) {
+        setWalkResult(message.result);
+      } else {
+        setResults(message.results);
+        setSweptParams(request.ranges.map(r => r.param));
+        setResultObjective(request.objective);
+      }
+      stop();
+    };
+
+    worker.onerror = (e) => {
+      setError('Optimizer worker failed: ' + e.message);
+      stop();
+    };
+
+    worker.postMessage(validation === 'walk-forward' ? { data, request: { ...walkForward, optimizer: request } } : { data, request });
+  };
+
+  const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-gray-800 disabled:bg-gray-100 disabled:text-gray-400';
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-6 border border-gray-200 text-left">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <Grid3x3 className="mr-2 text-indigo-600" /> Parameter Optimizer
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Sweeps the selected parameters over the loaded data. Parameters left unchecked keep their values from Strategy Settings.
+        Walk-forward re-runs the sweep on rolling windows and trades each winner on the bars that follow, which it never saw.
+      </p>
+
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b-2 border-gray-300">
+              <th className="text-left py-2 px-2 text-gray-700">Sweep</th>
+              <th className="text-left py-2 px-2 text-gray-700">Parameter</th>
+              <th className="text-right py-2 px-2 text-gray-700">Min</th>
+              <th className="text-right py-2 px-2 text-gray-700">Max</th>
+              <th className="text-right py-2 px-2 text-gray-700">Step</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranges.map((range, idx) => {
+              const unavailable = isUnavailable(range.param);
+              return (
+                <tr key={range.param} className="border-b border-gray-200">
+                  <td className="py-2 px-2">
+                    <input
+                      type="checkbox"
+                      checked={range.enabled && !unavailable}
+                      disabled={unavailable}
+                      onChange={(e) => updateRange(idx, { enabled: e.target.checked })}
+                    />
+                  </td>
+                  <td className="py-2 px-2 text-gray-800">
+                    {PARAM_LABELS[range.param]}
+                    {unavailable && <span className="ml-2 text-xs text-gray-400">(no such ladder step)</span>}
+                  </td>
+                  {(['min', 'max', 'step'] as const).map(field => (
+                    <td key={field} className="py-2 px-2 w-28">
+                      <input
+                        type="number"
+                        value={range[field]}
+                        disabled={!range.enabled || unavailable}
+                        onChange={(e) => updateRange(idx, { [field]: parseFloat(e.target.value) || 0 })}
+                        className={inputClass}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4 text-sm text-gray-600">
+        <label>
+          Search Mode
+          <select value={mode} onChange={(e) => setMode(e.target.value as 'grid' | 'random')} className={inputClass + ' mt-1'}>
+            <option value="grid">Full grid</option>
+            <option value="random">Random sample</option>
+          </select>
+        </label>
+        <label>
+          Samples
+          <input
+            type="number"
+            min={1}
+            value={samples}
+            disabled={mode !== 'random'}
+            onChange={(e) => setSamples(parseInt(e.target.value, 10) || 1)}
+            className={inputClass + ' mt-1'}
+          />
+        </label>
+        <label>
+          Seed
+          <input
+            type="number"
+            value={seed}
+            disabled={mode !== 'random'}
+            onChange={(e) => setSeed(parseInt(e.target.value, 10) || 0)}
+            className={inputClass + ' mt-1'}
+          />
+        </label>
+        <label>
+          Rank By
+          <select value={objective} onChange={(e) => setObjective(e.target.value as OptimizerObjective)} className={inputClass + ' mt-1'}>
+            {(Object.keys(OBJECTIVE_LABELS) as OptimizerObjective[]).map(key => (
+              <option key={key} value={key}>{OBJECTIVE_LABELS[key]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4 text-sm text-gray-600">
+        <label>
+          Validation
+          <select
+            value={validation}
+            onChange={(e) => setValidation(e.target.value as 'in-sample' | 'walk-forward')}
+            className={inputClass + ' mt-1'}
+          >
+            <option value="in-sample">In-sample (all data)</option>
+            <option value="walk-forward">Walk-forward</option>
+          </select>
+        </label>
+        <label>
+          Windows
+          <select
+            value={walkForward.mode}
+            disabled={validation !== 'walk-forward'}
+            onChange={(e) => setWalkForward({ ...walkForward, mode: e.target.value as WalkForwardMode })}
+            className={inputClass + ' mt-1'}
+          >
+            {(Object.keys(WALK_FORWARD_MODE_LABELS) as WalkForwardMode[]).map(key => (
+              <option key={key} value={key}>{WALK_FORWARD_MODE_LABELS[key]}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          In-Sample Bars
+          <input
+            type="number"
+            min={2}
+            value={walkForward.inSampleBars}
+            disabled={validation !== 'walk-forward'}
+            onChange={(e) => setWalkForward({ ...walkForward, inSampleBars: parseInt(e.target.value, 10) || 0 })}
+            className={inputClass + ' mt-1'}
+          />
+        </label>
+        <label>
+          Out-of-Sample Bars
+          <input
+            type="number"
+            min={1}
+            value={walkForward.outOfSampleBars}
+            disabled={validation !== 'walk-forward'}
+            onChange={(e) => setWalkForward({ ...walkForward, outOfSampleBars: parseInt(e.target.value, 10) || 0 })}
+            className={inputClass + ' mt-1'}
+          />
+        </label>
+      </div>
+
+      <div className="flex items-center gap-4 mb-4">
+        {running ? (
+          <button
+            type="button"
+            onClick={stop}
+            className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-red-600 rounded-lg hover:bg-red-700 transition"
+          >
+            <Square className="w-4 h-4 mr-1" /> Stop
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={start}
+            className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition"
+          >
+            <Play className="w-4 h-4 mr-1" /> Run Optimizer
+          </button>
+        )}
+        <span className={`text-sm ${mode === 'grid' && totalCombinations > MAX_GRID_COMBINATIONS ? 'text-red-600' : 'text-gray-500'}`}>
+          {mode === 'grid'
+            ? `${totalCombinations.toLocaleString('en-IN')} combinations`
+            : `${Math.min(samples, totalCombinations).toLocaleString('en-IN')} of ${totalCombinations.toLocaleString('en-IN')} combinations`}
+        </span>
+        {validation === 'walk-forward' && (
+          <span className={`text-sm ${typeof windowCount === 'string' ? 'text-red-600' : 'text-gray-500'}`}>
+            {typeof windowCount === 'string' ? windowCount : `× ${windowCount} windows of ${data.length} bars`}
+          </span>
+        )}
+        {running && progress.total > 0 && (
+          <div className="flex-1">
+            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-2 bg-indigo-600 transition-all"
+                style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">{progress.completed} / {progress.total}</p>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {walkResult && <WalkForwardResults result={walkResult} onApply={onApplyConfig} />}
+
+      {results && results.length > 0 && (
+        <div className="space-y-6">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">Heatmap</h3>
+            <OptimizerHeatmap results={results} params={sweptParams} objective={resultObjective} />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">
+              Ranked Results <span className="text-sm font-normal text-gray-500">by {OBJECTIVE_LABELS[resultObjective]}</span>
+            </h3>
+            <OptimizerResultsTable results={results} params={sweptParams} onApply={onApplyConfig} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OptimizerPanel;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import type { OptimizerResult, OptimizerParam, StrategyConfig } from '../types';
+import { PARAM_LABELS, formatParamValue } from '../utils/optimizer';
+
+interface OptimizerResultsTableProps {
+  results: OptimizerResult[];
+  params: OptimizerParam[];
+  onApply: (config: StrategyConfig) => void;
+  maxRows?: number;
+}
+
+type SortKey = OptimizerParam | 'score' | 'totalProfit' | 'annualizedROI' | 'maxDrawdown' | 'profitPerPeakCapital' | 'peakCapitalDeployed' | 'totalTrades' | 'openPositions';
+
+const METRIC_COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'totalProfit', label: 'Realized Profit' },
+  { key: 'annualizedROI', label: 'Ann. ROI' },
+  { key: 'maxDrawdown', label: 'Max DD' },
+  { key: 'peakCapitalDeployed', label: 'Peak Capital' },
+  { key: 'profitPerPeakCapital', label: 'Profit / ₹ Peak' },
+  { key: 'totalTrades', label: 'Trades' },
+  { key: 'openPositions', label: 'Open Lots' }
+];
+
+const formatMetric = (key: SortKey, result: OptimizerResult): string => {
+  switch (key) {
+    case 'annualizedROI':
+      return `${result.annualizedROI.toFixed(2)}%`;
+    case 'profitPerPeakCapital':
+      return result.profitPerPeakCapital.toFixed(3);
+    case 'score':
+      return result.score.toFixed(2);
+    case 'totalTrades':
+    case 'openPositions':
+      return String(result[key]);
+    case 'totalProfit':
+    case 'maxDrawdown':
+    case 'peakCapitalDeployed':
+      return `₹${result[key].toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+    default:
+      return formatParamValue(key, result.params[key]);
+  }
+};
+
+const sortValue = (key: SortKey, result: OptimizerResult): number => {
+  if (key in result.params) return result.params[key as OptimizerParam] ?? 0;
+  return (result[key as keyof OptimizerResult] as number) ?? 0;
+};
+
+const OptimizerResultsTable: React.FC<OptimizerResultsTableProps> = ({ results, params, onApply, maxRows = 100 }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('score');
+  const [ascending, setAscending] = useState(false);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(false);
+    }
+  };
+
+  const sorted = [...results].sort((a, b) => {
+    const diff = sortValue(sortKey, a) - sortValue(sortKey, b);
+    return ascending ? diff : -diff;
+  });
+
+  const header = (key: SortKey, label: string) => (
+    <th
+      key={key}
+      onClick={() => handleSort(key)}
+      className="text-right py-3 px-3 text-gray-700 cursor-pointer select-none hover:text-indigo-700 whitespace-nowrap"
+    >
+      <span className="inline-flex items-center gap-1">
+        {label}
+        {sortKey === key && (ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+      </span>
+    </th>
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b-2 border-gray-300">
+            <th className="text-left py-3 px-3 text-gray-700">#</th>
+            {params.map(param => header(param, PARAM_LABELS[param]))}
+            {METRIC_COLUMNS.map(col => header(col.key, col.label))}
+            <th className="py-3 px-3"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.slice(0, maxRows).map((result, idx) => (
+            <tr key={idx} className="border-b border-gray-200 hover:bg-white transition">
+              <td className="py-2 px-3 text-left text-gray-500">{idx + 1}</td>
+              {params.map(param => (
+                <td key={param} className="py-2 px-3 text-right text-gray-800 font-medium">
+                  {formatParamValue(param, result.params[param])}
+                </td>
+              ))}
+              {METRIC_COLUMNS.map(col => (
+                <td
+                  key={col.key}
+                  className={`py-2 px-3 text-right ${
+                    col.key === 'totalProfit' ? (result.totalProfit >= 0 ? 'text-green-600 font-semibold' : 'text-red-600 font-semibold') : 'text-gray-800'
+                  }`}
+                >
+                  {formatMetric(col.key, result)}
+                </td>
+              ))}
+              <td className="py-2 px-3 text-right">
+                <button
+                  type="button"
+                  onClick={() => onApply(result.config)}
+                  className="px-2 py-1 text-xs font-semibold text-indigo-700 bg-indigo-50 rounded hover:bg-indigo-100 transition"
+                >
+                  Apply
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {results.length > maxRows && (
+        <p className="text-xs text-gray-500 mt-2">Showing top {maxRows} of {results.length} runs for the current sort.</p>
+      )}
+    </div>
+  );
+};
+
+export default OptimizerResultsTable;
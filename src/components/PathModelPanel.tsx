@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Route, Upload, GitCompare, AlertTriangle } from 'lucide-react';
+import type { CorporateAction, ImportIssue, IntrabarModel, IntradayPaths, PathModelResult, PortfolioConfig, StrategyConfig, SymbolDataset } from '../types';
+import { readCSV } from '../utils/csvParser';
+import { INTRABAR_MODEL_LABELS, parseIntradayCSV } from '../utils/intrabarPath';
+import { comparePathModels } from '../utils/pathSensitivity';
+
+interface PathModelPanelProps {
+  datasets: SymbolDataset[];
+  config: StrategyConfig;
+  portfolioConfig: PortfolioConfig;
+  corporateActions: CorporateAction[];
+  onIntraday: (bySymbol: Map<string, IntradayPaths>) => void;
+}
+
+const formatRupees = (value: number) =>
+  `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+const PathModelPanel: React.FC<PathModelPanelProps> = ({ datasets, config, portfolioConfig, corporateActions, onIntraday }) => {
+  const [comparison, setComparison] = useState<{ model: IntrabarModel; rows: PathModelResult[] } | null>(null);
+  const [issues, setIssues] = useState<ImportIssue[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow loading the same file again
+    if (!file) return;
+    try {
+      setError(null);
+      const { paths, issues: found } = parseIntradayCSV(await readCSV(file));
+      const matched = new Map<string, IntradayPaths>();
+      const unmatched: ImportIssue[] = [];
+      for (const [symbol, symbolPaths] of paths) {
+        // A file without a symbol column goes to the only symbol, whatever it is called
+        const target = datasets.find(d => d.symbol.toUpperCase() === symbol.toUpperCase()) ?? (datasets.length === 1 ? datasets[0] : undefined);
+        if (target) {
+          matched.set(target.symbol, symbolPaths);
+        } else {
+          unmatched.push({ row: null, severity: 'warning', message: `No daily data loaded for ${symbol}; its minute data was ignored` });
+        }
+      }
+      if (matched.size > 0) onIntraday(matched);
+      setIssues([...unmatched, ...found]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read intraday data');
+    }
+  };
+
+  const compare = () => {
+    try {
+      setError(null);
+      setComparison({ model: config.intrabarModel, rows: comparePathModels(datasets, config, portfolioConfig, { corporateActions }) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Comparison failed');
+    }
+  };
+
+  const profits = comparison?.rows.map(r => r.totalProfit) ?? [];
+  const spread = profits.length > 0 ? Math.max(...profits) - Math.min(...profits) : 0;
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-6 border border-gray-200 text-left print:hidden">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <Route className="mr-2 text-indigo-600" /> Intrabar Path
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Daily bars do not say whether the LOW or the HIGH came first, which decides the order of same-day trades.
+        Compare how the current settings fare under each assumption, or load minute data to replay the real path.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <button
+          type="button"
+          onClick={compare}
+          className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition"
+        >
+          <GitCompare className="w-4 h-4 mr-1" /> Compare Path Models
+        </button>
+        <label className="flex items-center px-4 py-2 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 cursor-pointer transition">
+          <Upload className="w-4 h-4 mr-1" /> Load Intraday CSV
+          <input type="file" accept=".csv" className="hidden" onChange={loadFile} />
+        </label>
+        {datasets.map(d => d.intraday && (
+          <span key={d.symbol} className="px-2 text-xs leading-5 rounded-full bg-indigo-100 text-indigo-800">
+            {d.symbol}: {d.intraday.size} intraday days
+          </span>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <ul className="mb-4 text-xs space-y-1">
+          {issues.slice(0, 10).map((issue, idx) => (
+            <li key={idx} className="flex items-center text-gray-700">
+              <AlertTriangle className={`w-4 h-4 mr-1 ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-500'}`} />
+              {issue.row !== null ? `Line ${issue.row}: ` : ''}{issue.message}
+            </li>
+          ))}
+          {issues.length > 10 && <li className="text-gray-500">…and {issues.length - 10} more</li>}
+        </ul>
+      )}
+
+      {comparison && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b-2 border-gray-300">
+                <th className="text-left py-2 px-2 text-gray-700">Path Model</th>
+                <th className="text-right py-2 px-2 text-gray-700">Profit</th>
+                <th className="text-right py-2 px-2 text-gray-700">Ann. ROI</th>
+                <th className="text-right py-2 px-2 text-gray-700">Max Drawdown</th>
+                <th className="text-right py-2 px-2 text-gray-700">Trades</th>
+                <th className="text-right py-2 px-2 text-gray-700">Open Lots</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.rows.map(row => (
+                <tr key={row.model} className={`border-b border-gray-200 ${row.model === comparison.model ? 'bg-indigo-50 font-semibold' : ''}`}>
+                  <td className="py-2 px-2 text-gray-800">{INTRABAR_MODEL_LABELS[row.model]}</td>
+                  <td className={`py-2 px-2 text-right ${row.totalProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatRupees(row.totalProfit)}</td>
+                  <td className="py-2 px-2 text-right text-gray-800">{row.annualizedROI.toFixed(2)}%</td>
+                  <td className="py-2 px-2 text-right text-gray-800">{formatRupees(-row.maxDrawdown)}</td>
+                  <td className="py-2 px-2 text-right text-gray-800">{row.totalTrades}</td>
+                  <td className="py-2 px-2 text-right text-gray-800">{row.openPositions}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">
+            Profit spread across models: {formatRupees(spread)}
+            {profits.length > 0 && Math.min(...profits) > 0 && ` (${((spread / Math.min(...profits)) * 100).toFixed(1)}% of the lowest)`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PathModelPanel;
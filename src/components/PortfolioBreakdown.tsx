@@ -0,0 +1,86 @@
+import React from 'react';
+import type { PortfolioResults } from '../types';
+import { lotCost } from '../utils/costModel';
+
+interface PortfolioBreakdownProps {
+  results: PortfolioResults;
+}
+
+const formatRupees = (value: number) =>
+  `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const PortfolioBreakdown: React.FC<PortfolioBreakdownProps> = ({ results }) => {
+  const { combined, symbols } = results;
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">Capital & Per-Symbol Breakdown</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-white rounded-lg p-4 border border-gray-100">
+          <p className="text-gray-600 text-sm">Starting Capital</p>
+          <p className="text-2xl font-semibold text-gray-800">{formatRupees(results.initialCapital)}</p>
+        </div>
+        <div className="bg-white rounded-lg p-4 border border-gray-100">
+          <p className="text-gray-600 text-sm">Final Cash</p>
+          <p className="text-2xl font-semibold text-gray-800">{formatRupees(results.finalCash)}</p>
+          <p className="text-xs text-gray-500 mt-1">Lowest: {formatRupees(results.minCash)}</p>
+        </div>
+        <div className="bg-white rounded-lg p-4 border border-gray-100">
+          <p className="text-gray-600 text-sm">Peak Capital Deployed</p>
+          <p className="text-2xl font-semibold text-gray-800">{formatRupees(combined.peakCapitalDeployed ?? 0)}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {results.initialCapital > 0 ? (((combined.peakCapitalDeployed ?? 0) / results.initialCapital) * 100).toFixed(1) : '0.0'}% of capital
+          </p>
+        </div>
+        <div className="bg-white rounded-lg p-4 border border-gray-100">
+          <p className="text-gray-600 text-sm">Buys Rejected (No Cash)</p>
+          <p className={`text-2xl font-semibold ${results.rejectedBuys > 0 ? 'text-red-600' : 'text-gray-800'}`}>{results.rejectedBuys}</p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b-2 border-gray-300">
+              <th className="text-left py-3 px-4 text-gray-700">Symbol</th>
+              <th className="text-right py-3 px-4 text-gray-700">Buys</th>
+              <th className="text-right py-3 px-4 text-gray-700">Sells</th>
+              <th className="text-right py-3 px-4 text-gray-700">Rejected</th>
+              <th className="text-right py-3 px-4 text-gray-700">Peak Capital</th>
+              <th className="text-right py-3 px-4 text-gray-700">Realized Profit</th>
+              <th className="text-right py-3 px-4 text-gray-700">Open Lots</th>
+              <th className="text-right py-3 px-4 text-gray-700">Holdings Value</th>
+              <th className="text-right py-3 px-4 text-gray-700">Unrealized P/L</th>
+            </tr>
+          </thead>
+          <tbody>
+            {symbols.map(({ symbol, results: r, rejectedBuys }) => {
+              const openCost = r.remainingPositions.reduce((sum, p) => sum + lotCost(p), 0);
+              const unrealized = r.currentValue - openCost;
+              return (
+                <tr key={symbol} className="border-b border-gray-200 hover:bg-white transition">
+                  <td className="py-3 px-4 text-gray-800 font-semibold">{symbol}</td>
+                  <td className="py-3 px-4 text-right text-gray-800">{r.transactions.filter(t => t.type === 'BUY').length}</td>
+                  <td className="py-3 px-4 text-right text-gray-800">{r.transactions.filter(t => t.type === 'SELL').length}</td>
+                  <td className={`py-3 px-4 text-right ${rejectedBuys > 0 ? 'text-red-600' : 'text-gray-800'}`}>{rejectedBuys}</td>
+                  <td className="py-3 px-4 text-right text-gray-800">{formatRupees(r.peakCapitalDeployed ?? 0)}</td>
+                  <td className={`py-3 px-4 text-right font-semibold ${r.totalProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatRupees(r.totalProfit)}
+                  </td>
+                  <td className="py-3 px-4 text-right text-gray-800">{r.remainingPositions.length}</td>
+                  <td className="py-3 px-4 text-right text-gray-800">{formatRupees(r.currentValue)}</td>
+                  <td className={`py-3 px-4 text-right ${unrealized >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatRupees(unrealized)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioBreakdown;
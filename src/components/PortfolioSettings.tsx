@@ -0,0 +1,59 @@
+import React from 'react';
+import { Wallet } from 'lucide-react';
+import type { PortfolioConfig } from '../types';
+
+interface PortfolioSettingsProps {
+  config: PortfolioConfig;
+  onChange: (config: PortfolioConfig) => void;
+  symbolCount: number;
+}
+
+const PortfolioSettings: React.FC<PortfolioSettingsProps> = ({ config, onChange, symbolCount }) => {
+  const inputClass = 'w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-400';
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-6 border border-gray-200 text-left">
+      <h2 className="text-2xl font-bold text-gray-800 mb-1 flex items-center">
+        <Wallet className="mr-2 text-indigo-600" /> Portfolio Capital
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        {symbolCount} symbols share one cash pool. A buy goes through only if the full lot can be paid for.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="text-sm text-gray-600">
+          Total Capital (₹)
+          <input
+            type="number"
+            min={0}
+            value={config.initialCapital}
+            onChange={(e) => onChange({ ...config, initialCapital: parseFloat(e.target.value) || 0 })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          Max Positions per Symbol
+          <input
+            type="number"
+            min={1}
+            value={config.maxPositionsPerSymbol}
+            onChange={(e) => onChange({ ...config, maxPositionsPerSymbol: parseInt(e.target.value, 10) || 1 })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          When Cash Runs Out
+          <select
+            value={config.cashShortfall}
+            onChange={(e) => onChange({ ...config, cashShortfall: e.target.value as PortfolioConfig['cashShortfall'] })}
+            className={inputClass}
+          >
+            <option value="reject">Reject the buy</option>
+            <option value="queue">Queue: waiting symbols get freed cash first</option>
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioSettings;
@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import { GitCompare, Upload, XCircle, AlertTriangle } from 'lucide-react';
+import type { BrokerTrade, CorporateAction, ImportIssue, ReconciliationConfig, ReconciliationStatus, SymbolBreakdown } from '../types';
+import { readCSV } from '../utils/csvParser';
+import { actionsForSymbol } from '../utils/corporateActions';
+import { DEFAULT_RECONCILIATION, normalizeSymbol, parseTradebook, reconcileTrades } from '../utils/reconciliation';
+
+interface ReconciliationPanelProps {
+  runs: Pick<SymbolBreakdown, 'symbol' | 'results'>[]; // One per symbol backtested
+  corporateActions?: CorporateAction[];
+}
+
+const formatRupees = (value: number) =>
+  `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+const formatPrice = (value: number) => `₹${value.toFixed(2)}`;
+const profitClass = (value: number) => (value >= 0 ? 'text-green-600' : 'text-red-600');
+
+const STATUS_STYLES: Record<ReconciliationStatus, { label: string; className: string }> = {
+  matched: { label: 'Matched', className: 'bg-green-100 text-green-800' },
+  missed: { label: 'Missed signal', className: 'bg-amber-100 text-amber-800' },
+  extra: { label: 'Extra trade', className: 'bg-purple-100 text-purple-800' }
+};
+
+const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({ runs, corporateActions = [] }) => {
+  const [trades, setTrades] = useState<BrokerTrade[]>([]);
+  const [issues, setIssues] = useState<ImportIssue[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [symbol, setSymbol] = useState(runs[0]?.symbol ?? '');
+  const [tradebookSymbol, setTradebookSymbol] = useState('');
+  const [settings, setSettings] = useState<ReconciliationConfig>(DEFAULT_RECONCILIATION);
+
+  const tradebookSymbols = [...new Set(trades.map(trade => trade.symbol))].sort();
+  const run = runs.find(r => r.symbol === symbol) ?? runs[0];
+  // Same name as the backtest unless picked by hand; a one-symbol tradebook needs no picking
+  const matchedSymbol = tradebookSymbol
+    || tradebookSymbols.find(s => s === normalizeSymbol(run?.symbol ?? ''))
+    || (tradebookSymbols.length === 1 ? tradebookSymbols[0] : '');
+
+  const reconcile = () => {
+    if (!run || !matchedSymbol) return null;
+    try {
+      const symbolTrades = trades.filter(trade => trade.symbol === matchedSymbol);
+      return { report: reconcileTrades(run.symbol, run.results, symbolTrades, actionsForSymbol(corporateActions, run.symbol), settings) };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : 'Could not reconcile the tradebook' };
+    }
+  };
+  const outcome = reconcile();
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow loading the same file again
+    if (!file) return;
+    try {
+      setFileError(null);
+      const parsed = parseTradebook(await readCSV(file));
+      setTrades(parsed.trades);
+      setIssues(parsed.issues);
+      setTradebookSymbol('');
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : 'Could not read the tradebook');
+    }
+  };
+
+  const report = outcome?.report;
+  const inputClass = 'mt-1 px-2 py-1 border border-gray-300 rounded text-gray-800 text-sm';
+
+  // The biggest deviation, by how much P/L it cost or made
+  const sources = report ? [
+    { label: 'fill prices', value: report.priceImpact },
+    { label: 'quantities', value: report.sizeImpact },
+    { label: 'missed signals', value: report.missedImpact },
+    { label: 'extra trades', value: report.extraImpact }
+  ] : [];
+  const largest = [...sources].sort((a, b) => Math.abs(b.value) - Math.abs(a.value))[0];
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 border border-gray-200 text-left">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <GitCompare className="mr-2 text-indigo-600" /> Tradebook Reconciliation
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Load the tradebook exported from your broker (Zerodha, Upstox or any CSV with date, symbol, side, quantity and price)
+        to compare what was actually traded with what the strategy did from your first trade to the end of the backtest.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4 print:hidden">
+        <label className="flex items-center px-4 py-2 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 cursor-pointer transition">
+          <Upload className="w-4 h-4 mr-1" /> Load Tradebook CSV
+          <input type="file" accept=".csv" onChange={loadFile} className="hidden" />
+        </label>
+        {runs.length > 1 && (
+          <label className="text-sm text-gray-600 flex flex-col">
+            Backtest Symbol
+            <select value={run?.symbol} onChange={(e) => { setSymbol(e.target.value); setTradebookSymbol(''); }} className={inputClass}>
+              {runs.map(r => <option key={r.symbol} value={r.symbol}>{r.symbol}</option>)}
+            </select>
+          </label>
+        )}
+        {tradebookSymbols.length > 0 && (
+          <label className="text-sm text-gray-600 flex flex-col">
+            Tradebook Symbol
+            <select value={matchedSymbol} onChange={(e) => setTradebookSymbol(e.target.value)} className={inputClass}>
+              <option value="">Choose…</option>
+              {tradebookSymbols.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </label>
+        )}
+        <label className="text-sm text-gray-600 flex flex-col">
+          Match Within (days)
+          <input
+            type="number"
+            min={0}
+            value={settings.dayWindow}
+            onChange={(e) => setSettings({ ...settings, dayWindow: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            className={inputClass + ' w-24'}
+          />
+        </label>
+        <label className="text-sm text-gray-600 flex flex-col">
+          Price Tolerance (%)
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={+(settings.priceTolerance * 100).toFixed(4)}
+            onChange={(e) => setSettings({ ...settings, priceTolerance: Math.max(0, parseFloat(e.target.value) || 0) / 100 })}
+            className={inputClass + ' w-24'}
+          />
+        </label>
+      </div>
+
+      {fileError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <p className="text-red-800">{fileError}</p>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <ul className="text-sm mb-4 space-y-1">
+          {issues.slice(0, 10).map((issue, i) => (
+            <li key={i} className="flex items-center text-gray-700">
+              {issue.severity === 'error'
+                ? <XCircle className="w-4 h-4 mr-2 text-red-600" />
+                : <AlertTriangle className="w-4 h-4 mr-2 text-amber-600" />}
+              {issue.row !== null && `Line ${issue.row}: `}{issue.message}
+            </li>
+          ))}
+          {issues.length > 10 && <li className="text-gray-500">…and {issues.length - 10} more</li>}
+        </ul>
+      )}
+
+      {trades.length > 0 && !matchedSymbol && (
+        <p className="text-sm text-gray-600">Choose which tradebook symbol is {run?.symbol}.</p>
+      )}
+
+      {outcome?.error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <p className="text-red-800">{outcome.error}</p>
+        </div>
+      )}
+
+      {report && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="bg-white rounded-lg p-4 border border-gray-100">
+              <p className="text-gray-600 text-sm">Strategy P/L</p>
+              <p className={`text-2xl font-semibold ${profitClass(report.simulatedPL)}`}>{formatRupees(report.simulatedPL)}</p>
+              <p className="text-xs text-gray-500 mt-1">{report.startDate} to {report.endDate}, open shares at {formatPrice(report.markPrice)}</p>
+            </div>
+            <div className="bg-white rounded-lg p-4 border border-gray-100">
+              <p className="text-gray-600 text-sm">Actual P/L</p>
+              <p className={`text-2xl font-semibold ${profitClass(report.actualPL)}`}>{formatRupees(report.actualPL)}</p>
+              <p className="text-xs text-gray-500 mt-1">Same period and valuation, before fees</p>
+            </div>
+            <div className="bg-white rounded-lg p-4 border border-gray-100">
+              <p className="text-gray-600 text-sm">Difference</p>
+              <p className={`text-2xl font-semibold ${profitClass(report.actualPL - report.simulatedPL)}`}>
+                {formatRupees(report.actualPL - report.simulatedPL)}
+              </p>
+              {largest && largest.value !== 0 && (
+                <p className="text-xs text-gray-500 mt-1">Largest source: {largest.label}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Fill Prices', value: report.priceImpact, note: `${report.matched} matched trades` },
+              { label: 'Quantities', value: report.sizeImpact, note: 'Matched trades, different size' },
+              { label: 'Missed Signals', value: report.missedImpact, note: `${report.missed} strategy trades not taken` },
+              { label: 'Extra Trades', value: report.extraImpact, note: `${report.extra} trades the strategy did not make` }
+            ].map(card => (
+              <div key={card.label} className="bg-white rounded-lg p-4 border border-gray-100">
+                <p className="text-gray-600 text-sm">{card.label}</p>
+                <p className={`text-xl font-semibold ${profitClass(card.value)}`}>{formatRupees(card.value)}</p>
+                <p className="text-xs text-gray-500 mt-1">{card.note}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-gray-50">
+                <tr className="border-b-2 border-gray-300">
+                  <th className="text-left py-2 px-2 text-gray-700">Date</th>
+                  <th className="text-left py-2 px-2 text-gray-700">Status</th>
+                  <th className="text-left py-2 px-2 text-gray-700">Side</th>
+                  <th className="text-right py-2 px-2 text-gray-700">Strategy</th>
+                  <th className="text-right py-2 px-2 text-gray-700">Actual</th>
+                  <th className="text-right py-2 px-2 text-gray-700">Lag (days)</th>
+                  <th className="text-right py-2 px-2 text-gray-700">Price Diff</th>
+                  <th className="text-right py-2 px-2 text-gray-700">P/L Impact</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.trades.map((row, i) => (
+                  <tr key={i} className="border-b border-gray-200">
+                    <td className="py-2 px-2 text-gray-800 whitespace-nowrap">{row.date}</td>
+                    <td className="py-2 px-2">
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[row.status].className}`}>
+                        {STATUS_STYLES[row.status].label}
+                      </span>
+                    </td>
+                    <td className={`py-2 px-2 font-semibold ${row.side === 'BUY' ? 'text-green-700' : 'text-red-700'}`}>{row.side}</td>
+                    <td className="py-2 px-2 text-right text-gray-800 whitespace-nowrap">
+                      {row.simulated ? `${row.simulated.shares} @ ${formatPrice(row.simulated.price)}` : '-'}
+                    </td>
+                    <td className="py-2 px-2 text-right text-gray-800 whitespace-nowrap">
+                      {row.actual ? `${row.actual.shares} @ ${formatPrice(row.actual.price)}` : '-'}
+                    </td>
+                    <td className="py-2 px-2 text-right text-gray-800">{row.dayLag ?? '-'}</td>
+                    <td className="py-2 px-2 text-right text-gray-800">
+                      {row.priceDifference !== undefined ? formatPrice(row.priceDifference) : '-'}
+                    </td>
+                    <td className={`py-2 px-2 text-right ${profitClass(row.impact)}`}>{formatRupees(row.impact)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500">
+            Impacts value every trade as its cash flow plus the shares still held at the last close, so they add up to the difference.
+            A positive impact means the actual trading did better than the strategy.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReconciliationPanel;
@@ -0,0 +1,66 @@
+import React from 'react';
+import type { PortfolioConfig, StrategyConfig } from '../types';
+import { INTRABAR_MODEL_LABELS } from '../utils/intrabarPath';
+import { GAP_FILL_LABELS } from '../utils/orderFills';
+import { describeExitRules } from '../utils/exitRules';
+import { describeSizing } from '../utils/positionSizing';
+import { describeFilters } from '../utils/signalFilters';
+import { STRATEGY_LABELS } from '../utils/strategies';
+
+interface ReportHeaderProps {
+  title: string;
+  config: StrategyConfig;
+  portfolioConfig?: PortfolioConfig;
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(2).replace(/\.?0+$/, '')}%`;
+
+/**
+ * Printed reports lose the settings form, so restate the parameters at the top
+ * Hidden on screen
+ */
+const ReportHeader: React.FC<ReportHeaderProps> = ({ title, config, portfolioConfig }) => {
+  const rows: [string, string][] = [
+    ['Strategy', STRATEGY_LABELS[config.strategy]],
+    ['Lot size', `₹${config.lotSize.toLocaleString('en-IN')}`],
+    ['Sizing', describeSizing(config)],
+    ['Threshold', pct(config.threshold)],
+    ['Max positions', String(config.maxPositions)],
+    ['Ladder', config.thresholdLadder.length > 0
+      ? config.thresholdLadder.map(step => `≥${step.minPositions}: ${pct(step.threshold)}`).join(', ')
+      : 'none'],
+    ['Falling stock reset', pct(config.fallingStockReset)],
+    ['Recovery trigger', pct(config.recoveryTrigger)],
+    ['Transaction costs', config.costs.enabled ? 'on' : 'off'],
+    ['Intrabar path', INTRABAR_MODEL_LABELS[config.intrabarModel]],
+    ['Gap fills', GAP_FILL_LABELS[config.gapFill]],
+    ['Exit rules', describeExitRules(config.exits)],
+    ['Signal filters', describeFilters(config.filters)]
+  ];
+  if (portfolioConfig) {
+    rows.push(
+      ['Initial capital', `₹${portfolioConfig.initialCapital.toLocaleString('en-IN')}`],
+      ['Per-symbol positions', String(portfolioConfig.maxPositionsPerSymbol)],
+      ['Cash shortfall', portfolioConfig.cashShortfall]
+    );
+  }
+
+  return (
+    <div className="hidden print:block mb-6 text-left">
+      <h1 className="text-2xl font-bold text-gray-900">Backtest Report: {title}</h1>
+      <p className="text-sm text-gray-600 mb-3">Generated {new Date().toLocaleString('en-IN')}</p>
+      <table className="text-sm">
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label}>
+              <td className="pr-6 text-gray-600">{label}</td>
+              <td className="text-gray-900 font-semibold">{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ReportHeader;
@@ -0,0 +1,143 @@
+import React from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import type { SavedRun, StrategyConfig } from '../types';
+import { computeMetrics } from '../utils/metrics';
+import { sameDatasets } from '../utils/runLibrary';
+import { INTRABAR_MODEL_LABELS } from '../utils/intrabarPath';
+import { GAP_FILL_LABELS } from '../utils/orderFills';
+import { describeExitRules } from '../utils/exitRules';
+import { describeSizing } from '../utils/positionSizing';
+import { describeFilters } from '../utils/signalFilters';
+import { STRATEGY_LABELS } from '../utils/strategies';
+
+interface RunComparisonProps {
+  runs: SavedRun[];
+}
+
+const COLORS = ['#4f46e5', '#16a34a', '#dc2626', '#f59e0b', '#0891b2', '#9333ea'];
+
+const formatRupees = (value: number) =>
+  `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+const formatAxisRupees = (value: number) => `₹${(value / 1e5).toFixed(1)}L`;
+
+const CONFIG_ROWS: [string, (c: StrategyConfig) => string][] = [
+  ['Strategy', c => STRATEGY_LABELS[c.strategy ?? 'reference-v2']], // Runs saved before strategies were selectable
+  ['Lot Size', c => `₹${c.lotSize.toLocaleString('en-IN')}`],
+  ['Sizing', c => describeSizing(c)],
+  ['Threshold', c => formatPercent(c.threshold)],
+  ['Max Positions', c => String(c.maxPositions)],
+  ['Ladder', c => c.thresholdLadder.map(s => `≥${s.minPositions}: ${formatPercent(s.threshold)}`).join(', ') || 'none'],
+  ['Falling Stock Reset', c => formatPercent(c.fallingStockReset)],
+  ['Recovery Trigger', c => formatPercent(c.recoveryTrigger)],
+  ['Transaction Costs', c => (c.costs.enabled ? 'on' : 'off')],
+  ['Intrabar Path', c => INTRABAR_MODEL_LABELS[c.intrabarModel ?? 'range']], // Runs saved before path models used range
+  ['Gap Fills', c => (c.gapFill ? GAP_FILL_LABELS[c.gapFill] : 'Legacy: gap-down buys at the CLOSE')], // Runs saved before gap fills were configurable
+  ['Exit Rules', c => describeExitRules(c.exits)],
+  ['Signal Filters', c => describeFilters(c.filters)]
+];
+
+const RunComparison: React.FC<RunComparisonProps> = ({ runs }) => {
+  const metrics = runs.map(saved => computeMetrics(saved.run.results));
+  const comparable = runs.every(saved => sameDatasets(saved, runs[0]));
+
+  const metricRows: [string, (idx: number) => string][] = [
+    ['Total Profit', i => formatRupees(runs[i].run.results.totalProfit)],
+    ['Annualized ROI', i => `${(runs[i].run.results.annualizedROI ?? 0).toFixed(2)}%`],
+    ['CAGR', i => formatPercent(metrics[i].cagr)],
+    ['XIRR', i => (metrics[i].xirr === null ? 'n/a' : formatPercent(metrics[i].xirr!))],
+    ['Sharpe', i => metrics[i].sharpe.toFixed(2)],
+    ['Max Drawdown', i => formatRupees(-metrics[i].maxDrawdown)],
+    ['Peak Capital', i => formatRupees(metrics[i].capitalBase)],
+    ['Win Rate', i => formatPercent(metrics[i].winRate)],
+    ['Trades', i => String(runs[i].run.results.totalTrades)],
+    ['Open Lots', i => String(runs[i].run.results.remainingPositions.length)]
+  ];
+
+  // Overlay equity curves on the union of dates, in calendar order
+  const byDate = new Map<string, Record<string, number | string>>();
+  runs.forEach((saved, idx) => {
+    for (const day of saved.run.results.dailySeries ?? []) {
+      const point = byDate.get(day.date) ?? { date: day.date };
+      point[`run${idx}`] = day.equity;
+      byDate.set(day.date, point);
+    }
+  });
+  const chartData = [...byDate.values()].sort(
+    (a, b) => new Date(a.date as string).getTime() - new Date(b.date as string).getTime()
+  );
+
+  return (
+    <div className="mt-4">
+      {!comparable && (
+        <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+          These runs used different input data, so differences are not only down to the settings.
+        </p>
+      )}
+
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b-2 border-gray-300">
+              <th className="text-left py-2 px-3 text-gray-700"></th>
+              {runs.map((saved, idx) => (
+                <th key={saved.id} className="text-right py-2 px-3" style={{ color: COLORS[idx % COLORS.length] }}>
+                  {saved.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {metricRows.map(([label, value]) => (
+              <tr key={label} className="border-b border-gray-200">
+                <td className="py-2 px-3 text-gray-600">{label}</td>
+                {runs.map((saved, idx) => (
+                  <td key={saved.id} className="py-2 px-3 text-right text-gray-800 font-semibold">{value(idx)}</td>
+                ))}
+              </tr>
+            ))}
+            {CONFIG_ROWS.map(([label, value]) => {
+              const values = runs.map(saved => value(saved.run.config));
+              const differs = values.some(v => v !== values[0]);
+              return (
+                <tr key={label} className={`border-b border-gray-200 ${differs ? 'bg-yellow-50' : ''}`}>
+                  <td className="py-2 px-3 text-gray-600">{label}</td>
+                  {values.map((v, idx) => (
+                    <td key={runs[idx].id} className={`py-2 px-3 text-right ${differs ? 'text-gray-900 font-semibold' : 'text-gray-500'}`}>{v}</td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">Equity Curves</h3>
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="date" minTickGap={40} tick={{ fontSize: 11 }} />
+            <YAxis tickFormatter={formatAxisRupees} tick={{ fontSize: 11 }} width={70} />
+            <Tooltip formatter={(v: unknown) => (typeof v === 'number' ? formatRupees(v) : String(v))} />
+            <Legend />
+            {runs.map((saved, idx) => (
+              <Line
+                key={saved.id}
+                type="monotone"
+                dataKey={`run${idx}`}
+                name={saved.name}
+                stroke={COLORS[idx % COLORS.length]}
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default RunComparison;
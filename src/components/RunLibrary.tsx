@@ -0,0 +1,245 @@
+import React, { useEffect, useState } from 'react';
+import { Library, Save, FolderOpen, Trash2, Pencil, Check, X, GitCompare } from 'lucide-react';
+import type { BacktestExport, SavedRun, SymbolDataset } from '../types';
+import { listRuns, saveRun, updateRun, deleteRun, parseTags } from '../utils/runLibrary';
+import RunComparison from './RunComparison';
+
+interface RunLibraryProps {
+  current: { run: BacktestExport; datasets: SymbolDataset[] } | null; // Run on screen, if any
+  onOpen: (saved: SavedRun) => void;
+}
+
+const RunLibrary: React.FC<RunLibraryProps> = ({ current, onOpen }) => {
+  const [runs, setRuns] = useState<SavedRun[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: string } | null>(null);
+  const [tagFilter, setTagFilter] = useState('');
+
+  const refresh = async () => {
+    try {
+      setRuns(await listRuns());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load saved runs');
+    }
+  };
+
+  useEffect(() => {
+    listRuns()
+      .then(setRuns)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load saved runs'));
+  }, []);
+
+  const handle = async (action: () => Promise<unknown>) => {
+    try {
+      setError(null);
+      await action();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Run library request failed');
+    }
+  };
+
+  const save = () => {
+    if (!current) return;
+    const defaultName = `${current.run.symbols.join(', ')} @ ${(current.run.config.threshold * 100).toFixed(1)}%`;
+    handle(async () => {
+      await saveRun(current.run, current.datasets, name.trim() || defaultName, parseTags(tags));
+      setName('');
+      setTags('');
+    });
+  };
+
+  const remove = (id: string) => {
+    if (!window.confirm('Delete this saved run?')) return;
+    setSelected(selected.filter(s => s !== id));
+    handle(() => deleteRun(id));
+  };
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const { id, name: newName, tags: newTags } = editing;
+    setEditing(null);
+    handle(() => updateRun(id, { name: newName.trim() || 'Untitled run', tags: parseTags(newTags) }));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+  };
+
+  const allTags = [...new Set(runs.flatMap(r => r.tags))].sort();
+  const visibleRuns = tagFilter ? runs.filter(r => r.tags.includes(tagFilter)) : runs;
+  const selectedRuns = runs.filter(r => selected.includes(r.id));
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg text-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-400';
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-6 border border-gray-200 text-left print:hidden">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <Library className="mr-2 text-indigo-600" /> Run Library
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Saved runs stay in this browser. Select two or more to compare them side by side.
+      </p>
+
+      {current && (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <input
+            type="text"
+            placeholder="Name this run"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={inputClass + ' flex-1 min-w-48'}
+          />
+          <input
+            type="text"
+            placeholder="Tags, comma separated"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            className={inputClass + ' flex-1 min-w-48'}
+          />
+          <button
+            type="button"
+            onClick={save}
+            className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition"
+          >
+            <Save className="w-4 h-4 mr-1" /> Save Current Run
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {runs.length === 0 ? (
+        <p className="text-sm text-gray-400">No saved runs yet.</p>
+      ) : (
+        <>
+          <div className="flex items-center gap-4 mb-2">
+            {allTags.length > 0 && (
+              <label className="text-sm text-gray-600">
+                Tag
+                <select value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} className={inputClass + ' ml-2 py-1'}>
+                  <option value="">All</option>
+                  {allTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                </select>
+              </label>
+            )}
+            <button
+              type="button"
+              onClick={() => setComparing(!comparing)}
+              disabled={selectedRuns.length < 2}
+              className="flex items-center px-3 py-1 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:text-gray-400 disabled:bg-gray-100 disabled:cursor-not-allowed transition"
+            >
+              <GitCompare className="w-4 h-4 mr-1" /> {comparing ? 'Hide Comparison' : `Compare (${selectedRuns.length})`}
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b-2 border-gray-300">
+                  <th className="py-2 px-2"></th>
+                  <th className="text-left py-2 px-2 text-gray-700">Name</th>
+                  <th className="text-left py-2 px-2 text-gray-700">Symbols</th>
+                  <th className="text-left py-2 px-2 text-gray-700">Saved</th>
+                  <th className="text-right py-2 px-2 text-gray-700">Profit</th>
+                  <th className="text-right py-2 px-2 text-gray-700">Ann. ROI</th>
+                  <th className="py-2 px-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRuns.map(saved => {
+                  const isEditing = editing?.id === saved.id;
+                  const results = saved.run.results;
+                  return (
+                    <tr key={saved.id} className="border-b border-gray-200 hover:bg-white transition">
+                      <td className="py-2 px-2">
+                        <input type="checkbox" checked={selected.includes(saved.id)} onChange={() => toggleSelected(saved.id)} />
+                      </td>
+                      <td className="py-2 px-2">
+                        {isEditing ? (
+                          <div className="flex flex-col gap-1">
+                            <input
+                              type="text"
+                              value={editing.name}
+                              onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                              className={inputClass + ' py-1'}
+                            />
+                            <input
+                              type="text"
+                              value={editing.tags}
+                              placeholder="Tags, comma separated"
+                              onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                              className={inputClass + ' py-1'}
+                            />
+                          </div>
+                        ) : (
+                          <>
+                            <div className="text-gray-800 font-semibold">{saved.name}</div>
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {saved.tags.map(tag => (
+                                <span key={tag} className="px-2 text-xs leading-5 rounded-full bg-indigo-100 text-indigo-800">{tag}</span>
+                              ))}
+                            </div>
+                          </>
+                        )}
+                      </td>
+                      <td className="py-2 px-2 text-gray-800">{saved.run.symbols.join(', ')}</td>
+                      <td className="py-2 px-2 text-gray-600">{new Date(saved.savedAt).toLocaleString('en-IN')}</td>
+                      <td className={`py-2 px-2 text-right font-semibold ${results.totalProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        ₹{results.totalProfit.toLocaleString('en-IN', { maximumFractionDigits: 0 })}
+                      </td>
+                      <td className="py-2 px-2 text-right text-gray-800">{(results.annualizedROI ?? 0).toFixed(2)}%</td>
+                      <td className="py-2 px-2">
+                        <div className="flex justify-end gap-1">
+                          {isEditing ? (
+                            <>
+                              <button type="button" onClick={commitEdit} className="p-1 text-green-600 hover:bg-green-50 rounded" aria-label="Save changes">
+                                <Check className="w-4 h-4" />
+                              </button>
+                              <button type="button" onClick={() => setEditing(null)} className="p-1 text-gray-600 hover:bg-gray-100 rounded" aria-label="Cancel">
+                                <X className="w-4 h-4" />
+                              </button>
+                            </>
+                          ) : (
+                            <>
+                              <button type="button" onClick={() => onOpen(saved)} className="p-1 text-indigo-600 hover:bg-indigo-50 rounded" aria-label="Open run">
+                                <FolderOpen className="w-4 h-4" />
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => setEditing({ id: saved.id, name: saved.name, tags: saved.tags.join(', ') })}
+                                className="p-1 text-gray-600 hover:bg-gray-100 rounded"
+                                aria-label="Rename or tag run"
+                              >
+                                <Pencil className="w-4 h-4" />
+                              </button>
+                              <button type="button" onClick={() => remove(saved.id)} className="p-1 text-red-600 hover:bg-red-50 rounded" aria-label="Delete run">
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {comparing && selectedRuns.length >= 2 && <RunComparison runs={selectedRuns} />}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RunLibrary;
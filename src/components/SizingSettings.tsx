@@ -0,0 +1,125 @@
+import React from 'react';
+import type { SizingConfig, SizingMode } from '../types';
+import { SIZING_MODES, SIZING_MODE_LABELS } from '../utils/positionSizing';
+
+interface SizingSettingsProps {
+  sizing: SizingConfig;
+  onChange: (sizing: SizingConfig) => void;
+}
+
+const SIZING_HINTS: Record<SizingMode, string> = {
+  'fixed-amount': 'Every buy invests the lot size above.',
+  'fixed-shares': 'Every buy is the same number of shares, whatever the price.',
+  'capital-percent': 'Every buy invests a share of the capital not tied up in open lots. A portfolio uses its cash pool instead of the starting capital here.',
+  'ladder': 'Every buy invests the lot size times the multiplier of the ladder step it was bought at; below the first step the multiplier is 1.',
+  'atr': 'Every buy is sized so a one-ATR move makes or loses the risk amount. Until the ATR has enough bars, buys use the lot size.'
+};
+
+const SizingSettings: React.FC<SizingSettingsProps> = ({ sizing, onChange }) => {
+  const update = <K extends keyof SizingConfig>(key: K, value: SizingConfig[K]) => {
+    onChange({ ...sizing, [key]: value });
+  };
+
+  const inputClass = 'w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-400';
+
+  return (
+    <div className="mt-6 text-left">
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">Position Sizing</h3>
+      <p className="text-xs text-gray-500 mb-3">{SIZING_HINTS[sizing.mode]}</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <label className="text-sm text-gray-600 md:col-span-2">
+          Sizing Mode
+          <select
+            value={sizing.mode}
+            onChange={(e) => update('mode', e.target.value as SizingMode)}
+            className={inputClass}
+          >
+            {SIZING_MODES.map(mode => (
+              <option key={mode} value={mode}>{SIZING_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </label>
+
+        {sizing.mode === 'fixed-shares' && (
+          <label className="text-sm text-gray-600">
+            Shares per Buy
+            <input
+              type="number"
+              min={1}
+              value={sizing.shares}
+              onChange={(e) => update('shares', parseInt(e.target.value, 10) || 0)}
+              className={inputClass}
+            />
+          </label>
+        )}
+
+        {sizing.mode === 'capital-percent' && (
+          <>
+            <label className="text-sm text-gray-600">
+              % of Available Capital
+              <input
+                type="number"
+                step={1}
+                min={0}
+                max={100}
+                value={+(sizing.capitalPercent * 100).toFixed(2)}
+                onChange={(e) => update('capitalPercent', (parseFloat(e.target.value) || 0) / 100)}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              Starting Capital (₹)
+              <input
+                type="number"
+                min={1}
+                value={sizing.capital}
+                onChange={(e) => update('capital', parseFloat(e.target.value) || 0)}
+                className={inputClass}
+              />
+            </label>
+          </>
+        )}
+
+        {sizing.mode === 'atr' && (
+          <>
+            <label className="text-sm text-gray-600">
+              ATR Period (bars)
+              <input
+                type="number"
+                min={1}
+                value={sizing.atrPeriod}
+                onChange={(e) => update('atrPeriod', parseInt(e.target.value, 10) || 0)}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              Risk per ATR (₹)
+              <input
+                type="number"
+                step={500}
+                min={1}
+                value={sizing.atrRisk}
+                onChange={(e) => update('atrRisk', parseFloat(e.target.value) || 0)}
+                className={inputClass}
+              />
+            </label>
+          </>
+        )}
+
+        <label className="text-sm text-gray-600">
+          Market Lot (shares)
+          <input
+            type="number"
+            min={1}
+            value={sizing.lotMultiple}
+            onChange={(e) => update('lotMultiple', parseInt(e.target.value, 10) || 1)}
+            className={inputClass}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default SizingSettings;
@@ -0,0 +1,273 @@
+import React from 'react';
+import { Settings, Plus, Trash2, RotateCcw, Play } from 'lucide-react';
+import type { GapFillMode, IntrabarModel, StrategyConfig, StrategyId, ThresholdStep } from '../types';
+import { INTRABAR_MODEL_LABELS, PATH_MODELS } from '../utils/intrabarPath';
+import { GAP_FILL_LABELS, GAP_FILL_MODES } from '../utils/orderFills';
+import { STRATEGY_DESCRIPTIONS, STRATEGY_IDS, STRATEGY_LABELS } from '../utils/strategies';
+import CostSettings from './CostSettings';
+import ExitSettings from './ExitSettings';
+import FilterSettings from './FilterSettings';
+import SizingSettings from './SizingSettings';
+
+interface StrategySettingsProps {
+  config: StrategyConfig;
+  defaults: StrategyConfig;
+  onChange: (config: StrategyConfig) => void;
+  onRun?: () => void;
+  canRun: boolean;
+}
+
+// Number inputs only hint their min; clamp so an empty field or 0 never reaches the engine
+const atLeast = (value: number, min: number) => (Number.isFinite(value) && value >= min ? value : min);
+
+/**
+ * Percent inputs are shown as whole numbers (5 = 5%) but stored as fractions (0.05)
+ * Empty or invalid input falls back to the field's minimum, never to 0: a
+ * 0% threshold would never move the reference or the fixed grid.
+ */
+const MIN_PERCENT = 0.1;
+const toPercent = (value: number) => +(value * 100).toFixed(4);
+const fromPercent = (value: string) => atLeast(parseFloat(value), MIN_PERCENT) / 100;
+
+const StrategySettings: React.FC<StrategySettingsProps> = ({ config, defaults, onChange, onRun, canRun }) => {
+  const update = <K extends keyof StrategyConfig>(key: K, value: StrategyConfig[K]) => {
+    onChange({ ...config, [key]: value });
+  };
+
+  const updateStep = (index: number, step: ThresholdStep) => {
+    const ladder = config.thresholdLadder.map((s, i) => (i === index ? step : s));
+    update('thresholdLadder', ladder);
+  };
+
+  const addStep = () => {
+    const last = config.thresholdLadder[config.thresholdLadder.length - 1];
+    update('thresholdLadder', [
+      ...config.thresholdLadder,
+      { minPositions: last ? last.minPositions + 1 : 1, threshold: last ? last.threshold : config.threshold }
+    ]);
+  };
+
+  const removeStep = (index: number) => {
+    update('thresholdLadder', config.thresholdLadder.filter((_, i) => i !== index));
+  };
+
+  const inputClass = 'w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-400';
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-6 border border-gray-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center">
+          <Settings className="mr-2 text-indigo-600" /> Strategy Settings
+        </h2>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => onChange(defaults)}
+            className="flex items-center px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-100 transition"
+          >
+            <RotateCcw className="w-4 h-4 mr-1" /> Reset
+          </button>
+          {onRun && (
+            <button
+              type="button"
+              onClick={onRun}
+              disabled={!canRun}
+              className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed transition"
+            >
+              <Play className="w-4 h-4 mr-1" /> Re-run Backtest
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-left">
+        <label className="text-sm text-gray-600 md:col-span-3">
+          Strategy
+          <select
+            value={config.strategy}
+            onChange={(e) => update('strategy', e.target.value as StrategyId)}
+            className={inputClass}
+          >
+            {STRATEGY_IDS.map(id => (
+              <option key={id} value={id}>{STRATEGY_LABELS[id]}</option>
+            ))}
+          </select>
+          <span className="block mt-1 text-xs text-gray-500">
+            {STRATEGY_DESCRIPTIONS[config.strategy]}
+            {config.strategy !== 'reference-v2' && ' Walks the intrabar path; the range setting walks the nearest extreme first.'}
+          </span>
+        </label>
+
+        <label className="text-sm text-gray-600">
+          Lot Size (₹ per buy)
+          <input
+            type="number"
+            min={1}
+            value={config.lotSize}
+            onChange={(e) => update('lotSize', atLeast(parseFloat(e.target.value), 1))}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-sm text-gray-600">
+          Buy/Sell Threshold (%)
+          <input
+            type="number"
+            step={0.5}
+            min={MIN_PERCENT}
+            value={toPercent(config.threshold)}
+            onChange={(e) => update('threshold', fromPercent(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-sm text-gray-600">
+          Max Open Positions
+          <input
+            type="number"
+            min={1}
+            value={config.maxPositions}
+            onChange={(e) => update('maxPositions', atLeast(parseInt(e.target.value, 10), 1))}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-sm text-gray-600">
+          Falling Stock Reset (% below reference)
+          <input
+            type="number"
+            step={1}
+            min={MIN_PERCENT}
+            value={toPercent(config.fallingStockReset)}
+            onChange={(e) => update('fallingStockReset', fromPercent(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-sm text-gray-600">
+          Recovery Mode Trigger (% above last sell)
+          <input
+            type="number"
+            step={0.5}
+            min={MIN_PERCENT}
+            value={toPercent(config.recoveryTrigger)}
+            onChange={(e) => update('recoveryTrigger', fromPercent(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-sm text-gray-600">
+          Max Actions per Day (loop guard)
+          <input
+            type="number"
+            min={1}
+            value={config.maxActionsPerDay}
+            onChange={(e) => update('maxActionsPerDay', atLeast(parseInt(e.target.value, 10), 1))}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-sm text-gray-600 md:col-span-2">
+          Intrabar Price Path
+          <select
+            value={config.intrabarModel}
+            onChange={(e) => update('intrabarModel', e.target.value as IntrabarModel)}
+            className={inputClass}
+          >
+            {PATH_MODELS.map(model => (
+              <option key={model} value={model}>{INTRABAR_MODEL_LABELS[model]}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="text-sm text-gray-600 md:col-span-2">
+          Gap Fills (orders the OPEN is already through)
+          <select
+            value={config.gapFill}
+            onChange={(e) => update('gapFill', e.target.value as GapFillMode)}
+            className={inputClass}
+          >
+            {GAP_FILL_MODES.map(mode => (
+              <option key={mode} value={mode}>{GAP_FILL_LABELS[mode]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="mt-6 text-left">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-lg font-semibold text-gray-800">Threshold Ladder</h3>
+          <button
+            type="button"
+            onClick={addStep}
+            className="flex items-center px-3 py-1 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 transition"
+          >
+            <Plus className="w-4 h-4 mr-1" /> Add Step
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mb-3">
+          Below the first step every buy uses the base threshold. Once the number of open positions reaches a step, the next buy needs that deeper dip{config.sizing.mode === 'ladder' && ' and is that many lots in size'}.
+        </p>
+        {config.thresholdLadder.length === 0 ? (
+          <p className="text-sm text-gray-400">No ladder steps: every buy uses the base threshold.</p>
+        ) : (
+          <div className="space-y-2">
+            {config.thresholdLadder.map((step, idx) => (
+              <div key={idx} className="flex items-end gap-4">
+                <label className="text-sm text-gray-600 flex-1">
+                  Open positions ≥
+                  <input
+                    type="number"
+                    min={0}
+                    value={step.minPositions}
+                    onChange={(e) => updateStep(idx, { ...step, minPositions: atLeast(parseInt(e.target.value, 10), 0) })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="text-sm text-gray-600 flex-1">
+                  Threshold (%)
+                  <input
+                    type="number"
+                    step={0.5}
+                    min={MIN_PERCENT}
+                    value={toPercent(step.threshold)}
+                    onChange={(e) => updateStep(idx, { ...step, threshold: fromPercent(e.target.value) })}
+                    className={inputClass}
+                  />
+                </label>
+                {config.sizing.mode === 'ladder' && (
+                  <label className="text-sm text-gray-600 flex-1">
+                    Lot Multiplier (×)
+                    <input
+                      type="number"
+                      step={0.25}
+                      min={0.25}
+                      value={step.multiplier ?? 1}
+                      onChange={(e) => updateStep(idx, { ...step, multiplier: atLeast(parseFloat(e.target.value), 0.25) })}
+                      className={inputClass}
+                    />
+                  </label>
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeStep(idx)}
+                  className="p-2 mb-1 text-red-600 hover:bg-red-50 rounded-lg transition"
+                  aria-label="Remove ladder step"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <SizingSettings sizing={config.sizing} onChange={(sizing) => update('sizing', sizing)} />
+      <ExitSettings exits={config.exits} onChange={(exits) => update('exits', exits)} />
+      <FilterSettings filters={config.filters} onChange={(filters) => update('filters', filters)} />
+      <CostSettings costs={config.costs} onChange={(costs) => update('costs', costs)} />
+    </div>
+  );
+};
+
+export default StrategySettings;
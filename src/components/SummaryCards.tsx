@@ -1,6 +1,7 @@
 import React from 'react';
 import { TrendingUp, TrendingDown } from 'lucide-react';
 import type { BacktestResults } from '../types';
+import { EXIT_TYPES, EXIT_TYPE_LABELS, countExits } from '../utils/exitRules';
 
 interface SummaryCardsProps {
   results: BacktestResults;
@@ -17,6 +18,11 @@ const SummaryCards: React.FC<SummaryCardsProps> = ({ results, stockName }) => {
     return `${day}/${month}/${year}`;
   };
 
+  // Sells by what closed the lot, shown once anything but targets did
+  const exits = countExits(results.transactions);
+  const exitBreakdown = EXIT_TYPES.filter(type => exits[type] > 0).map(type => `${exits[type]} ${EXIT_TYPE_LABELS[type].toLowerCase()}`);
+  const showExits = EXIT_TYPES.some(type => type !== 'target' && exits[type] > 0);
+
   return (
     <>
       <div className="mb-6 flex justify-between items-center bg-white p-4 rounded-xl shadow-sm border border-gray-100">
@@ -45,6 +51,9 @@ const SummaryCards: React.FC<SummaryCardsProps> = ({ results, stockName }) => {
             {results.totalProfit >= 0 ? <TrendingUp className="mr-2" /> : <TrendingDown className="mr-2" />}
             ₹{results.totalProfit.toFixed(2)}
           </p>
+          {(results.dividendIncome ?? 0) > 0 && (
+            <p className="text-xs text-white/80 mt-1">Incl. ₹{results.dividendIncome!.toFixed(2)} dividends</p>
+          )}
         </div>
 
         <div className={`bg-gradient-to-br ${results.profitPercentage >= 0 ? 'from-emerald-500 to-emerald-600' : 'from-orange-500 to-orange-600'} rounded-xl p-6 text-white`}>
@@ -55,7 +64,7 @@ const SummaryCards: React.FC<SummaryCardsProps> = ({ results, stockName }) => {
         <div className="bg-gradient-to-br from-purple-500 to-purple-600 rounded-xl p-6 text-white">
           <p className="text-white/80 text-sm mb-1">Annualized ROI</p>
           <p className="text-3xl font-bold">{results.annualizedROI ? results.annualizedROI.toFixed(2) : '0.00'}%</p>
-          <p className="text-xs text-purple-200 mt-1">Base: ₹35,000</p>
+          <p className="text-xs text-purple-200 mt-1">Base: ₹{(results.roiBase ?? 0).toLocaleString('en-IN', { maximumFractionDigits: 0 })}</p>
         </div>
       </div>
 
@@ -67,6 +76,7 @@ const SummaryCards: React.FC<SummaryCardsProps> = ({ results, stockName }) => {
           <p className="text-xs text-gray-500 mt-1">
              {results.transactions.filter(t => t.type === 'SELL').length} sells
           </p>
+          {showExits && <p className="text-xs text-gray-500">{exitBreakdown.join(', ')}</p>}
         </div>
         
         <div className="bg-gray-50 rounded-lg p-4">
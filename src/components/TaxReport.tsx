@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Landmark, Download, ChevronDown, ChevronRight } from 'lucide-react';
+import type { TaxReport as TaxReportData } from '../types';
+import { taxReportToCSV } from '../utils/taxReport';
+import { downloadFile } from '../utils/exporters';
+
+interface TaxReportProps {
+  report: TaxReportData;
+  fileName?: string;
+}
+
+const formatRupees = (value: number) =>
+  `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const TaxReport: React.FC<TaxReportProps> = ({ report, fileName = 'tax-report.csv' }) => {
+  const [showLots, setShowLots] = useState(false);
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-6 text-left">
+      <div className="flex justify-between items-center mb-1">
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center">
+          <Landmark className="mr-2 text-indigo-600" /> Capital Gains Tax
+        </h2>
+        <button
+          type="button"
+          onClick={() => downloadFile(taxReportToCSV(report), fileName, 'text/csv')}
+          disabled={report.lots.length === 0}
+          className="flex items-center px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed transition print:hidden"
+        >
+          <Download className="w-4 h-4 mr-1" /> Export CSV
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Estimate for listed equity: lots held more than 12 months are LTCG. Includes loss set-off, the annual LTCG exemption and 4% cess; excludes surcharge and grandfathering. Dividends are taxed at your slab rate, so the post-tax figures are for trading gains only.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-white rounded-lg p-4 border border-gray-100">
+          <p className="text-gray-600 text-sm">Realized Profit</p>
+          <p className={`text-2xl font-semibold ${report.realizedProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {formatRupees(report.realizedProfit)}
+          </p>
+        </div>
+        <div className="bg-white rounded-lg p-4 border border-gray-100">
+          <p className="text-gray-600 text-sm">Estimated Tax</p>
+          <p className="text-2xl font-semibold text-red-600">{formatRupees(report.totalTax)}</p>
+        </div>
+        <div className="bg-white rounded-lg p-4 border border-gray-100">
+          <p className="text-gray-600 text-sm">Post-Tax Trading Profit</p>
+          <p className={`text-2xl font-semibold ${report.postTaxProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {formatRupees(report.postTaxProfit)}
+          </p>
+        </div>
+        <div className="bg-white rounded-lg p-4 border border-gray-100">
+          <p className="text-gray-600 text-sm">Post-Tax Trading ROI (Annualized)</p>
+          <p className={`text-2xl font-semibold ${report.postTaxAnnualizedROI >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {report.postTaxAnnualizedROI.toFixed(2)}%
+          </p>
+        </div>
+      </div>
+
+      {report.years.length === 0 ? (
+        <p className="text-sm text-gray-400">No closed lots yet: nothing to report.</p>
+      ) : (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b-2 border-gray-300">
+                <th className="text-left py-3 px-3 text-gray-700">Financial Year</th>
+                <th className="text-right py-3 px-3 text-gray-700">Lots</th>
+                <th className="text-right py-3 px-3 text-gray-700">STCG</th>
+                <th className="text-right py-3 px-3 text-gray-700">LTCG</th>
+                <th className="text-right py-3 px-3 text-gray-700">Losses Set Off</th>
+                <th className="text-right py-3 px-3 text-gray-700">LTCG Exemption</th>
+                <th className="text-right py-3 px-3 text-gray-700">Tax + Cess</th>
+                <th className="text-right py-3 px-3 text-gray-700">Loss c/f</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.years.map(y => {
+                const setOff = y.stcgGains + y.ltcgGains - y.netStcg - y.netLtcg;
+                const carried = y.lossesCarriedForward.shortTerm + y.lossesCarriedForward.longTerm;
+                return (
+                  <tr key={y.financialYear} className="border-b border-gray-200 hover:bg-white transition">
+                    <td className="py-3 px-3 text-gray-800 font-semibold">{y.financialYear}</td>
+                    <td className="py-3 px-3 text-right text-gray-800">{y.lots}</td>
+                    <td className="py-3 px-3 text-right text-gray-800">{formatRupees(y.netStcg)}</td>
+                    <td className="py-3 px-3 text-right text-gray-800">{formatRupees(y.netLtcg)}</td>
+                    <td className="py-3 px-3 text-right text-gray-600">{setOff > 0 ? formatRupees(setOff) : '-'}</td>
+                    <td className="py-3 px-3 text-right text-gray-600">{y.ltcgExemption > 0 ? formatRupees(y.ltcgExemption) : '-'}</td>
+                    <td className="py-3 px-3 text-right text-red-600 font-semibold">{formatRupees(y.totalTax)}</td>
+                    <td className="py-3 px-3 text-right text-gray-600">{carried > 0 ? formatRupees(carried) : '-'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {report.lots.length > 0 && (
+        <div>
+          <button
+            type="button"
+            onClick={() => setShowLots(!showLots)}
+            className="flex items-center text-sm text-indigo-700 hover:text-indigo-900"
+          >
+            {showLots ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+            {report.lots.length} closed lots
+          </button>
+          {showLots && (
+            <div className="overflow-x-auto mt-2">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b-2 border-gray-300">
+                    <th className="text-left py-2 px-3 text-gray-700">FY</th>
+                    {report.lots.some(lot => lot.symbol) && <th className="text-left py-2 px-3 text-gray-700">Symbol</th>}
+                    <th className="text-left py-2 px-3 text-gray-700">Bought</th>
+                    <th className="text-left py-2 px-3 text-gray-700">Sold</th>
+                    <th className="text-right py-2 px-3 text-gray-700">Days Held</th>
+                    <th className="text-left py-2 px-3 text-gray-700">Term</th>
+                    <th className="text-right py-2 px-3 text-gray-700">Taxable Gain</th>
+                    <th className="text-right py-2 px-3 text-gray-700">Rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.lots.map((lot, idx) => (
+                    <tr key={idx} className="border-b border-gray-200">
+                      <td className="py-2 px-3 text-gray-600">{lot.financialYear}</td>
+                      {report.lots.some(l => l.symbol) && <td className="py-2 px-3 text-gray-800 font-semibold">{lot.symbol}</td>}
+                      <td className="py-2 px-3 text-gray-800">{lot.buyDate}</td>
+                      <td className="py-2 px-3 text-gray-800">{lot.sellDate}</td>
+                      <td className="py-2 px-3 text-right text-gray-800">{lot.holdingDays}</td>
+                      <td className="py-2 px-3">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          lot.term === 'LTCG' ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800'
+                        }`}>
+                          {lot.term}
+                        </span>
+                      </td>
+                      <td className={`py-2 px-3 text-right font-semibold ${lot.taxableGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatRupees(lot.taxableGain)}
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-600">{(lot.rate * 100).toFixed(1)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaxReport;
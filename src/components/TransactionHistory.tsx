@@ -1,11 +1,71 @@
 import React from 'react';
-import type { Transaction } from '../types';
+import { ListTree } from 'lucide-react';
+import type { Transaction, FeeBreakdown, FillReason } from '../types';
+import { FILL_REASON_LABELS } from '../utils/orderFills';
+import { EXIT_TYPE_LABELS } from '../utils/exitRules';
 
 interface TransactionHistoryProps {
   transactions: Transaction[];
+  baseThreshold?: number; // Trades above this threshold are tagged as ladder dips
+  deepThreshold?: number; // Ladder's last step: trades from this dip on get the deep-dip colour
+  onExplain?: (eventId: number) => void; // Show the decisions behind a trade
 }
 
-const TransactionHistory: React.FC<TransactionHistoryProps> = ({ transactions }) => {
+const FEE_LABELS: [keyof FeeBreakdown, string][] = [
+  ['brokerage', 'Brokerage'],
+  ['stt', 'STT'],
+  ['exchangeCharges', 'Exchange'],
+  ['sebiFees', 'SEBI'],
+  ['stampDuty', 'Stamp duty'],
+  ['gst', 'GST'],
+  ['dpCharges', 'DP charges']
+];
+
+/**
+ * Hover text for the fees cell: one line per charge, plus slippage (already in the fill price)
+ */
+const feeTooltip = (txn: Transaction) => {
+  if (!txn.fees) return undefined;
+  const lines = FEE_LABELS
+    .filter(([key]) => txn.fees![key] > 0)
+    .map(([key, label]) => `${label}: ₹${txn.fees![key].toFixed(2)}`);
+  if (txn.fees.slippage > 0) {
+    lines.push(`Slippage: ₹${txn.fees.slippage.toFixed(2)} (trigger ₹${(txn.triggerPrice ?? txn.price).toFixed(2)})`);
+  }
+  return lines.join('\n');
+};
+
+const FILL_STYLES: Partial<Record<FillReason, string>> = {
+  'gap-open': 'bg-amber-100 text-amber-800',
+  'gap-close': 'bg-orange-100 text-orange-800',
+  'manual': 'bg-indigo-100 text-indigo-800'
+};
+
+const FILL_HINTS: Record<FillReason, string> = {
+  'trigger': 'Filled at the strategy level: the day traded through it',
+  'gap-open': 'The day opened through the level: filled at the OPEN',
+  'gap-close': 'The day opened through the level and never came back: filled at the CLOSE',
+  'open': 'Market order at the OPEN',
+  'close': 'Market order at the CLOSE',
+  'manual': 'Entered by hand'
+};
+
+const formatRupees = (value: number) =>
+  `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const TransactionHistory: React.FC<TransactionHistoryProps> = ({ transactions, baseThreshold = 0.05, deepThreshold = Infinity, onExplain }) => {
+  // Portfolio runs tag every trade with its symbol
+  const showSymbol = transactions.some(t => t.symbol);
+  // Fees column only when the run had the cost model switched on
+  const showFees = transactions.some(t => t.fees && (t.fees.total > 0 || t.fees.slippage > 0));
+  // Runs saved before fill reasons were recorded have none
+  const showFill = transactions.some(t => t.fillReason);
+
+  const grossBuys = transactions.filter(t => t.type === 'BUY').reduce((sum, t) => sum + t.amount, 0);
+  const grossSells = transactions.filter(t => t.type === 'SELL').reduce((sum, t) => sum + t.amount, 0);
+  const totalFees = transactions.reduce((sum, t) => sum + (t.fees?.total ?? 0), 0);
+  const netProfit = transactions.reduce((sum, t) => sum + (t.profit ?? 0), 0);
+
   return (
     <div className="bg-gray-50 rounded-xl p-6 mb-6">
       <h2 className="text-2xl font-bold text-gray-800 mb-4">Transaction History</h2>
@@ -14,10 +74,13 @@ const TransactionHistory: React.FC<TransactionHistoryProps> = ({ transactions })
           <thead>
             <tr className="border-b-2 border-gray-300">
               <th className="text-left py-3 px-4 text-gray-700">Date</th>
+              {showSymbol && <th className="text-left py-3 px-4 text-gray-700">Symbol</th>}
               <th className="text-left py-3 px-4 text-gray-700">Type</th>
               <th className="text-right py-3 px-4 text-gray-700">Price</th>
+              {showFill && <th className="text-left py-3 px-4 text-gray-700">Fill</th>}
               <th className="text-right py-3 px-4 text-gray-700">Shares</th>
               <th className="text-right py-3 px-4 text-gray-700">Amount</th>
+              {showFees && <th className="text-right py-3 px-4 text-gray-700">Fees</th>}
               <th className="text-left py-3 px-4 text-gray-700">Bought At</th>
               <th className="text-right py-3 px-4 text-gray-700">Profit</th>
             </tr>
@@ -25,37 +88,75 @@ const TransactionHistory: React.FC<TransactionHistoryProps> = ({ transactions })
           <tbody>
             {transactions.map((txn, idx) => (
               <tr key={idx} className="border-b border-gray-200 hover:bg-white transition">
-                <td className="py-3 px-4 text-gray-800">{txn.date}</td>
+                <td className="py-3 px-4 text-gray-800 whitespace-nowrap">
+                  {txn.date}
+                  {onExplain && txn.eventId !== undefined && (
+                    <button
+                      type="button"
+                      onClick={() => onExplain(txn.eventId!)}
+                      className="ml-2 p-1 align-middle text-indigo-600 hover:bg-indigo-50 rounded print:hidden"
+                      title="Why was this trade made?"
+                      aria-label="Show decisions behind this trade"
+                    >
+                      <ListTree className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+                {showSymbol && <td className="py-3 px-4 text-gray-800 font-semibold">{txn.symbol}</td>}
                 <td className="px-6 py-4 whitespace-nowrap">
                   <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
                     txn.type === 'BUY' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
                   }`}>
                     {txn.type}
                   </span>
-                  {txn.type === 'BUY' && txn.threshold && txn.threshold > 0.05 && txn.threshold < 0.15 && (
+                  {txn.type === 'BUY' && txn.threshold && txn.threshold > baseThreshold && txn.threshold < deepThreshold && (
                     <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
-                      10% Dip
+                      {(txn.threshold * 100).toFixed(0)}% Dip
                     </span>
                   )}
-                  {txn.type === 'BUY' && txn.threshold && txn.threshold >= 0.15 && (
+                  {txn.type === 'BUY' && txn.threshold && txn.threshold > baseThreshold && txn.threshold >= deepThreshold && (
                     <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-purple-100 text-purple-800">
-                      20% Dip
+                      {(txn.threshold * 100).toFixed(0)}% Dip
                     </span>
                   )}
-                  {txn.type === 'SELL' && txn.threshold && txn.threshold > 0.05 && txn.threshold < 0.15 && (
+                  {txn.type === 'SELL' && txn.threshold && txn.threshold > baseThreshold && txn.threshold < deepThreshold && (
                     <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
-                      10% Profit
+                      {(txn.threshold * 100).toFixed(0)}% Profit
                     </span>
                   )}
-                  {txn.type === 'SELL' && txn.threshold && txn.threshold >= 0.15 && (
+                  {txn.type === 'SELL' && txn.threshold && txn.threshold > baseThreshold && txn.threshold >= deepThreshold && (
                     <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-teal-100 text-teal-800">
-                      20% Profit
+                      {(txn.threshold * 100).toFixed(0)}% Profit
+                    </span>
+                  )}
+                  {txn.type === 'SELL' && txn.exitType && txn.exitType !== 'target' && (
+                    <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800">
+                      {EXIT_TYPE_LABELS[txn.exitType]}
                     </span>
                   )}
                 </td>
                 <td className="py-3 px-4 text-right text-gray-800">₹{txn.price.toFixed(2)}</td>
+                {showFill && (
+                  <td className="py-3 px-4 whitespace-nowrap">
+                    {txn.fillReason ? (
+                      <span
+                        className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full cursor-help ${FILL_STYLES[txn.fillReason] ?? 'bg-gray-100 text-gray-700'}`}
+                        title={FILL_HINTS[txn.fillReason]}
+                      >
+                        {FILL_REASON_LABELS[txn.fillReason]}
+                      </span>
+                    ) : (
+                      <span className="text-gray-400">-</span>
+                    )}
+                  </td>
+                )}
                 <td className="py-3 px-4 text-right text-gray-800">{txn.shares}</td>
                 <td className="py-3 px-4 text-right text-gray-800">₹{txn.amount.toFixed(2)}</td>
+                {showFees && (
+                  <td className="py-3 px-4 text-right text-gray-600 cursor-help" title={feeTooltip(txn)}>
+                    {txn.fees ? `₹${txn.fees.total.toFixed(2)}` : '-'}
+                  </td>
+                )}
                 <td className="py-3 px-4 text-left">
                   {txn.type === 'SELL' && txn.boughtAt && txn.buyDate ? (
                     <div className="text-sm">
@@ -78,6 +179,20 @@ const TransactionHistory: React.FC<TransactionHistoryProps> = ({ transactions })
               </tr>
             ))}
           </tbody>
+          <tfoot>
+            <tr className="border-t-2 border-gray-300 text-sm">
+              <td colSpan={5 + (showSymbol ? 1 : 0) + (showFill ? 1 : 0)} className="py-3 px-4 text-gray-700">
+                <span className="font-semibold">Totals</span>
+                <span className="ml-4">Gross buys {formatRupees(grossBuys)}</span>
+                <span className="ml-4">Gross sells {formatRupees(grossSells)}</span>
+              </td>
+              {showFees && <td className="py-3 px-4 text-right font-semibold text-gray-800">{formatRupees(totalFees)}</td>}
+              <td className="py-3 px-4 text-left text-gray-700">Net profit</td>
+              <td className={`py-3 px-4 text-right font-bold ${netProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {formatRupees(netProfit)}
+              </td>
+            </tr>
+          </tfoot>
         </table>
       </div>
     </div>
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { ClipboardCheck, AlertTriangle, XCircle, Columns, Play } from 'lucide-react';
+import type { ColumnMapping, DateOrder, FileImport, ImportResult } from '../types';
+import { CSV_FORMAT_LABELS } from '../utils/csvFormats';
+import ColumnMapper from './ColumnMapper';
+
+interface ValidationPanelProps {
+  imports: FileImport[];
+  onRemap: (index: number, mapping: ColumnMapping, dateOrder: DateOrder) => void;
+  onRun: () => void;
+}
+
+const ISSUE_PREVIEW = 20;
+
+const IssueList: React.FC<{ result: ImportResult }> = ({ result }) => {
+  const [showAll, setShowAll] = useState(false);
+  const issues = showAll ? result.issues : result.issues.slice(0, ISSUE_PREVIEW);
+
+  return (
+    <div className="mt-2">
+      <table className="w-full text-xs">
+        <tbody>
+          {issues.map((issue, idx) => (
+            <tr key={idx} className="border-b border-gray-100">
+              <td className="py-1 pr-2 w-5">
+                {issue.severity === 'error'
+                  ? <XCircle className="w-4 h-4 text-red-600" />
+                  : <AlertTriangle className="w-4 h-4 text-amber-500" />}
+              </td>
+              <td className="py-1 pr-2 text-gray-500 whitespace-nowrap">{issue.row !== null ? `Line ${issue.row}` : 'File'}</td>
+              <td className="py-1 pr-2 text-gray-500 whitespace-nowrap">{issue.date ?? ''}</td>
+              <td className="py-1 text-gray-800">{issue.message}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {result.issues.length > ISSUE_PREVIEW && (
+        <button type="button" onClick={() => setShowAll(!showAll)} className="mt-1 text-xs text-indigo-700 hover:text-indigo-900">
+          {showAll ? 'Show fewer' : `Show all ${result.issues.length} issues`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ imports, onRemap, onRun }) => {
+  const [mapping, setMapping] = useState<number | null>(null); // File whose mapping editor is open
+
+  const results = imports.flatMap(i => i.results);
+  const unmapped = imports.some(i => !i.mapping);
+  const runnable = !unmapped && results.some(r => r.bars.length >= 2); // Unusable symbols are skipped
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 mb-6 border border-gray-200 text-left print:hidden">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center">
+          <ClipboardCheck className="mr-2 text-indigo-600" /> Data Check
+        </h2>
+        <button
+          type="button"
+          onClick={onRun}
+          disabled={!runnable}
+          className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed transition"
+        >
+          <Play className="w-4 h-4 mr-1" /> Run Backtest
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Rows with errors are left out of the backtest; warnings are kept. Bars are sorted by date whatever the file order.
+      </p>
+
+      <div className="space-y-4">
+        {imports.map((fileImport, index) => {
+          const editing = mapping === index || !fileImport.mapping;
+          return (
+            <div key={fileImport.raw.fileName + index} className="bg-white rounded-lg p-4 border border-gray-100">
+              <div className="flex justify-between items-center">
+                <div>
+                  <p className="font-semibold text-gray-800">{fileImport.raw.fileName}</p>
+                  <p className="text-xs text-gray-500">
+                    {fileImport.mapping ? CSV_FORMAT_LABELS[fileImport.format] : 'Unrecognized layout: map the columns below'}
+                    {' · '}{fileImport.raw.rows.length} rows
+                  </p>
+                </div>
+                {fileImport.mapping && (
+                  <button
+                    type="button"
+                    onClick={() => setMapping(mapping === index ? null : index)}
+                    className="flex items-center px-3 py-1 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 transition"
+                  >
+                    <Columns className="w-4 h-4 mr-1" /> {mapping === index ? 'Close Mapping' : 'Edit Mapping'}
+                  </button>
+                )}
+              </div>
+
+              {editing && (
+                <div className="mt-3">
+                  <ColumnMapper
+                    headers={fileImport.raw.headers}
+                    sampleRow={fileImport.raw.rows[0]}
+                    mapping={fileImport.mapping}
+                    dateOrder={fileImport.dateOrder}
+                    onApply={(newMapping, dateOrder) => {
+                      setMapping(null);
+                      onRemap(index, newMapping, dateOrder);
+                    }}
+                  />
+                </div>
+              )}
+
+              {fileImport.results.map(result => {
+                const errors = result.issues.filter(i => i.severity === 'error').length;
+                const warnings = result.issues.length - errors;
+                const first = result.bars[0];
+                const last = result.bars[result.bars.length - 1];
+                return (
+                  <div key={result.symbol} className="mt-3 border-t border-gray-100 pt-3">
+                    <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+                      <span className="font-semibold text-gray-800">{result.symbol}</span>
+                      <span className="text-gray-600">{result.bars.length} trading days</span>
+                      {first && last && <span className="text-gray-600">{first.date} → {last.date}</span>}
+                      <span className={errors > 0 ? 'text-red-600' : 'text-gray-400'}>{errors} errors ({result.skippedRows} rows skipped)</span>
+                      <span className={warnings > 0 ? 'text-amber-600' : 'text-gray-400'}>{warnings} warnings</span>
+                    </div>
+                    {result.issues.length > 0 && <IssueList result={result} />}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ValidationPanel;
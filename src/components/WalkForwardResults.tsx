@@ -0,0 +1,133 @@
+import React from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine } from 'recharts';
+import type { StrategyConfig, WalkForwardResult } from '../types';
+import { PARAM_LABELS, formatParamValue } from '../utils/optimizer';
+import { computeMetrics } from '../utils/metrics';
+import { formatAxisRupees, formatTooltipRupees } from '../utils/equitySeries';
+
+interface WalkForwardResultsProps {
+  result: WalkForwardResult;
+  onApply: (config: StrategyConfig) => void;
+}
+
+const formatRupees = (value: number) =>
+  `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+const profitClass = (value: number) => (value >= 0 ? 'text-green-600' : 'text-red-600');
+
+const Card: React.FC<{ label: string; value: string; note?: string; className?: string }> = ({ label, value, note, className = 'text-gray-800' }) => (
+  <div className="bg-white rounded-lg p-4 border border-gray-100">
+    <p className="text-gray-600 text-sm">{label}</p>
+    <p className={`text-2xl font-semibold ${className}`}>{value}</p>
+    {note && <p className="text-xs text-gray-500 mt-1">{note}</p>}
+  </div>
+);
+
+const WalkForwardResults: React.FC<WalkForwardResultsProps> = ({ result, onApply }) => {
+  const { windows, results, inSampleROI, outOfSampleROI, efficiency } = result;
+  const metrics = computeMetrics(results);
+  const params = result.request.optimizer.ranges.map(r => r.param);
+  const latest = windows[windows.length - 1];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card label="In-Sample Ann. ROI" value={`${inSampleROI.toFixed(2)}%`} note={`Mean of ${windows.length} optimized windows`} />
+        <Card
+          label="Out-of-Sample Ann. ROI"
+          value={`${outOfSampleROI.toFixed(2)}%`}
+          note={`${results.startDate} to ${results.endDate}`}
+          className={profitClass(outOfSampleROI)}
+        />
+        <Card
+          label="Walk-Forward Efficiency"
+          value={efficiency !== null ? `${(efficiency * 100).toFixed(0)}%` : '-'}
+          note="Out-of-sample ROI as a share of in-sample"
+          className={efficiency !== null && efficiency < 0.5 ? 'text-red-600' : 'text-gray-800'}
+        />
+        <Card
+          label="Out-of-Sample Profit"
+          value={formatRupees(results.totalProfit)}
+          note={`${results.totalTrades} trades, ${results.remainingPositions.length} lots still open`}
+          className={profitClass(results.totalProfit)}
+        />
+        <Card label="Out-of-Sample Equity" value={formatRupees(metrics.finalEquity)} note="Incl. open lots at the last close" className={profitClass(metrics.finalEquity)} />
+        <Card label="CAGR" value={`${(metrics.cagr * 100).toFixed(2)}%`} note="On peak capital deployed" />
+        <Card label="Max Drawdown" value={formatRupees(-metrics.maxDrawdown)} note={`${(metrics.maxDrawdownPercent * 100).toFixed(2)}% of capital + peak`} />
+        <Card label="Sharpe / Win Rate" value={`${metrics.sharpe.toFixed(2)} / ${(metrics.winRate * 100).toFixed(0)}%`} />
+      </div>
+
+      {results.dailySeries && results.dailySeries.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800 mb-2">Stitched Out-of-Sample Equity</h3>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={results.dailySeries}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="date" minTickGap={40} tick={{ fontSize: 11 }} />
+                <YAxis tickFormatter={formatAxisRupees} tick={{ fontSize: 11 }} width={70} />
+                <Tooltip formatter={formatTooltipRupees} />
+                {windows.slice(1).map(w => (
+                  <ReferenceLine key={w.index} x={w.outOfSampleStart} stroke="#a5b4fc" strokeDasharray="4 4" />
+                ))}
+                <Line type="monotone" dataKey="equity" name="Equity (MTM P/L)" stroke="#4f46e5" dot={false} strokeWidth={2} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">Dashed lines mark where re-optimized parameters took over.</p>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-lg font-semibold text-gray-800 mb-2">Windows</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b-2 border-gray-300">
+                <th className="text-left py-2 px-2 text-gray-700">#</th>
+                <th className="text-left py-2 px-2 text-gray-700">In-Sample</th>
+                <th className="text-left py-2 px-2 text-gray-700">Out-of-Sample</th>
+                {params.map(param => (
+                  <th key={param} className="text-right py-2 px-2 text-gray-700">{PARAM_LABELS[param]}</th>
+                ))}
+                <th className="text-right py-2 px-2 text-gray-700">IS Profit</th>
+                <th className="text-right py-2 px-2 text-gray-700">IS Ann. ROI</th>
+                <th className="text-right py-2 px-2 text-gray-700">OOS Realized</th>
+                <th className="text-right py-2 px-2 text-gray-700">OOS Equity Δ</th>
+                <th className="text-right py-2 px-2 text-gray-700">OOS Ann. ROI</th>
+                <th className="text-right py-2 px-2 text-gray-700">OOS Trades</th>
+              </tr>
+            </thead>
+            <tbody>
+              {windows.map(w => (
+                <tr key={w.index} className="border-b border-gray-200">
+                  <td className="py-2 px-2 text-gray-800">{w.index + 1}</td>
+                  <td className="py-2 px-2 text-gray-800 whitespace-nowrap">{w.inSampleStart} – {w.inSampleEnd}</td>
+                  <td className="py-2 px-2 text-gray-800 whitespace-nowrap">{w.outOfSampleStart} – {w.outOfSampleEnd}</td>
+                  {params.map(param => (
+                    <td key={param} className="py-2 px-2 text-right text-gray-800">{formatParamValue(param, w.params[param])}</td>
+                  ))}
+                  <td className={`py-2 px-2 text-right ${profitClass(w.inSample.totalProfit)}`}>{formatRupees(w.inSample.totalProfit)}</td>
+                  <td className="py-2 px-2 text-right text-gray-800">{w.inSample.annualizedROI.toFixed(2)}%</td>
+                  <td className={`py-2 px-2 text-right ${profitClass(w.outOfSampleProfit)}`}>{formatRupees(w.outOfSampleProfit)}</td>
+                  <td className={`py-2 px-2 text-right ${profitClass(w.outOfSampleEquityChange)}`}>{formatRupees(w.outOfSampleEquityChange)}</td>
+                  <td className="py-2 px-2 text-right text-gray-800">{w.outOfSampleROI.toFixed(2)}%</td>
+                  <td className="py-2 px-2 text-right text-gray-800">{w.outOfSampleTrades}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <button
+          type="button"
+          onClick={() => onApply(latest.config)}
+          className="mt-3 px-4 py-2 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 transition"
+        >
+          Apply latest window's parameters
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WalkForwardResults;
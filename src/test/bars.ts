@@ -0,0 +1,54 @@
+import type { PriceBar, StrategyConfig } from '../types';
+import { DEFAULT_STRATEGY_CONFIG, runBacktest } from '../utils/backtestEngineV2';
+import { DEFAULT_COST_MODEL } from '../utils/costModel';
+import { formatBarDate } from '../utils/csvFormats';
+
+/**
+ * Hand-written Price Bars
+ *
+ * Builds consecutive daily bars from [open, high, low, close] tuples,
+ * starting on 1 Jan 2024, so each test can spell out the prices a rule
+ * needs and nothing else. The engine suites run them through testConfig:
+ * the range model without costs, so fills are the strategy's own levels.
+ */
+
+export type Ohlc = [open: number, high: number, low: number, close: number];
+
+const FIRST_DAY = Date.UTC(2024, 0, 1);
+const DAY_MS = 1000 * 3600 * 24;
+
+export const bars = (...days: Ohlc[]): PriceBar[] =>
+  days.map(([open, high, low, close], idx) => {
+    const time = FIRST_DAY + idx * DAY_MS;
+    return { date: formatBarDate(time), time, open, high, low, close };
+  });
+
+/**
+ * Label of the nth bar built by bars(), counting from 0
+ */
+export const day = (idx: number): string => formatBarDate(FIRST_DAY + idx * DAY_MS);
+
+export const testConfig = (overrides: Partial<StrategyConfig> = {}): StrategyConfig => ({
+  ...DEFAULT_STRATEGY_CONFIG,
+  intrabarModel: 'range',
+  costs: { ...DEFAULT_COST_MODEL, enabled: false },
+  ...overrides
+});
+
+export const paise = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Run one symbol over hand-written bars
+ * trades are [date, type, price] to the paisa; reference is where the last day left it
+ */
+export const runDays = (config: StrategyConfig, ...days: Ohlc[]) => {
+  const results = runBacktest(bars(...days), config);
+  return {
+    results,
+    trades: results.transactions.map(t => [t.date, t.type, paise(t.price)]),
+    events: results.events ?? [],
+    reference: results.dailySeries?.at(-1)?.reference
+  };
+};
+
+export default bars;
@@ -1,18 +1,18 @@
-export interface StockData {
-  DATE: string;
-  SERIES: string;
-  OPEN: string;
-  HIGH: string;
-  LOW: string;
-  'PREV. CLOSE': string;
-  LTP: string;
-  CLOSE: string;
-  VWAP: string;
-  '52W H': string;
-  '52W L': string;
-  VOLUME: string;
-  VALUE: string;
-  'NO. OF  TRADES': string;
+/**
+ * One trading day after import, whatever the source file looked like
+ * Prices are numbers; date is normalized to NSE style (15-Dec-2023)
+ */
+export interface PriceBar {
+  date: string;
+  time: number; // UTC midnight of the trading day, for sorting and matching across files
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+  vwap?: number;
+  high52?: number; // 52-week high as printed by the exchange, when the export has it
+  low52?: number;
 }
 
 export interface Position {
@@ -21,8 +21,43 @@ export interface Position {
   date: string;
   buyDate?: string; // Track when this specific lot was bought
   threshold?: number; // Track if bought at 5% or 10%
+  symbol?: string; // Set in multi-symbol portfolio runs
+  costBasis?: number; // Net ₹ paid for the lot incl. fees and slippage (defaults to shares × buyPrice)
+  splitFactor?: number; // Share multiplier from splits and bonuses since the buy (shares and buyPrice are adjusted)
+  buyEventId?: number; // DecisionEvent that opened the lot
+  daysHeld?: number; // Trading-day closes since the buy, counting the buy day
+  peakClose?: number; // Highest CLOSE since the buy, for the trailing stop
+  sizingRule?: SizingMode; // Rule that set the share count
+}
+
+export interface FeeBreakdown {
+  brokerage: number;
+  stt: number;
+  exchangeCharges: number;
+  sebiFees: number;
+  stampDuty: number;
+  gst: number;
+  dpCharges: number;
+  total: number; // Sum of the charges above
+  slippage: number; // ₹ lost to slippage, already inside the fill price (not part of total)
 }
 
+/**
+ * How a fill price was reached
+ * trigger: the order's own level, which the day traded through
+ * gap-open / gap-close: the day opened through the level; filled at the OPEN or the CLOSE (see GapFillMode)
+ * open / close: market order at the OPEN or the CLOSE (opening lots, benchmark exits)
+ * manual: entered by hand
+ */
+export type FillReason = 'trigger' | 'gap-open' | 'gap-close' | 'open' | 'close' | 'manual';
+
+/**
+ * Why a lot was sold
+ * target: the strategy's own profit target; the others are ExitRulesConfig
+ * rules, the benchmark's final sale and fills entered by hand
+ */
+export type ExitType = 'target' | 'stop-loss' | 'time-stop' | 'trailing-stop' | 'drawdown-cut' | 'end-of-data' | 'manual';
+
 export interface Transaction {
   date: string;
   type: 'BUY' | 'SELL';
@@ -34,6 +69,26 @@ export interface Transaction {
   buyDate?: string; // For SELL transactions, when was it bought
   boughtAt?: number; // Alias for buyPrice (legacy support)
   threshold?: number; // Track if bought at 5% or 10%
+  symbol?: string; // Set in multi-symbol portfolio runs
+  triggerPrice?: number; // Strategy level before slippage, when it differs from price
+  grossAmount?: number; // shares × fill price
+  fees?: FeeBreakdown;
+  netAmount?: number; // BUY: gross + fees paid, SELL: gross - fees received
+  splitFactor?: number; // For SELL transactions, splits and bonuses between the buy and the sell
+  eventId?: number; // DecisionEvent that produced this trade
+  fillReason?: FillReason; // Runs saved before fill reasons leave it out
+  exitType?: ExitType; // For SELL transactions, which rule closed the lot
+  sizingRule?: SizingMode; // For BUY transactions, the rule that set the share count
+}
+
+export interface DailySnapshot {
+  date: string;
+  close: number;
+  reference: number; // Reference price after the day's actions
+  openPositions: number;
+  capitalDeployed: number; // Cost basis of open lots at the close
+  cumulativeRealizedPL: number;
+  equity: number; // Mark-to-market: realized P/L + dividends + unrealized P/L at CLOSE
 }
 
 export interface BacktestResults {
@@ -48,6 +103,818 @@ export interface BacktestResults {
   totalTrades: number;
   currentPrice: number;
   annualizedROI?: number;
+  roiBase?: number; // Capital annualizedROI is measured on
+  peakCapitalDeployed?: number; // Highest ₹ held in open positions at any day's close
+  maxDrawdown?: number; // Largest ₹ fall in realized + unrealized P/L from its peak
+  dailySeries?: DailySnapshot[]; // One entry per processed trading day
+  dividendIncome?: number; // ₹ dividends credited on open lots, included in totalProfit
+  corporateActions?: CorporateActionEvent[]; // Splits, bonuses and dividends applied during the run
+  events?: DecisionEvent[]; // Why the engine did what it did, in order
   startDate?: string;
   endDate?: string;
-}
\ No newline at end of file
+}
+
+export interface ThresholdStep {
+  minPositions: number; // Step applies once this many positions are open
+  threshold: number; // Buy dip required for the next lot (0.10 = 10%)
+  multiplier?: number; // Lot size multiple for the next lot in ladder sizing (default 1)
+}
+
+/**
+ * How a strategy buy's share count is chosen
+ * fixed-amount: lotSize ₹; fixed-shares: a set count; capital-percent: a
+ * share of the capital not tied up in lots; ladder: lotSize × the ladder
+ * step's multiplier; atr: lots where one average true range is atrRisk ₹
+ */
+export type SizingMode = 'fixed-amount' | 'fixed-shares' | 'capital-percent' | 'ladder' | 'atr';
+
+export interface SizingConfig {
+  mode: SizingMode;
+  shares: number; // fixed-shares: shares per buy
+  capitalPercent: number; // capital-percent: share of available capital per buy (0.2 = 20%)
+  capital: number; // capital-percent on one symbol: starting ₹; a portfolio uses its cash pool instead
+  atrPeriod: number; // atr: bars averaged
+  atrRisk: number; // atr: ₹ a one-ATR move makes or loses on a lot
+  lotMultiple: number; // Exchange market lot: share counts round down to a multiple of it (1 = any count)
+}
+
+/**
+ * Optional exits on top of the strategy's targets, each off at 0
+ */
+export interface ExitRulesConfig {
+  enabled: boolean;
+  stopLoss: number; // Sell a lot this far below its buy price (0.15 = 15%)
+  maxHoldingDays: number; // Sell a lot at the OPEN after this many trading days
+  trailingStop: number; // Once a lot has closed above its buy price, sell this far below its highest CLOSE
+  drawdownCut: number; // Sell every lot at the CLOSE once P/L (realized + unrealized) is this many ₹ below its peak
+}
+
+/**
+ * Indicators a filter rule can read, see utils/indicators.ts
+ * Price levels are in ₹; rsi is 0–100, range-52w 0–1 (LOW to HIGH) and
+ * volume-ratio the day's volume over its average
+ */
+export type IndicatorId =
+  | 'close'
+  | 'sma'
+  | 'ema'
+  | 'rsi'
+  | 'atr'
+  | 'bollinger-upper'
+  | 'bollinger-lower'
+  | 'range-52w'
+  | 'volume-ratio'
+  | 'vwap';
+
+export interface IndicatorRef {
+  indicator: IndicatorId;
+  period: number; // Bars looked back over; ignored by close, vwap and range-52w
+}
+
+export type IndicatorValues = Record<string, number>; // indicatorKey ("sma:200") → value at the previous CLOSE
+
+/**
+ * Condition a strategy's buy or target sell must meet to go through
+ * Reads "left op value × right", or "left op value" without a right side:
+ * close above 1 × sma(200), volume-ratio above 0.5
+ */
+export interface FilterRule {
+  id: string;
+  enabled: boolean;
+  side: 'BUY' | 'SELL';
+  scope: 'all' | 'ladder'; // ladder: every buy but the opening lot; sells ignore it
+  left: IndicatorRef;
+  op: 'above' | 'below';
+  right: IndicatorRef | null;
+  value: number; // Multiple of the right side, or the level itself without one
+}
+
+export interface CostModelConfig {
+  enabled: boolean;
+  brokerageType: 'flat' | 'percent';
+  brokerageFlat: number; // ₹ per order
+  brokeragePercent: number; // Fraction of turnover (0.0003 = 0.03%)
+  brokerageCap: number; // Max ₹ per order for percentage brokerage (0 = no cap)
+  sttPercent: number; // Securities Transaction Tax, both sides on delivery
+  exchangeChargesPercent: number; // NSE/BSE transaction charges
+  sebiFeesPerCrore: number; // ₹ per crore of turnover
+  stampDutyPercent: number; // Buy side only
+  gstPercent: number; // On brokerage + exchange charges + SEBI fees
+  dpChargesPerSell: number; // Depository charge per sell order
+  slippageType: 'bps' | 'ticks';
+  slippageValue: number; // Basis points or number of ticks against us
+  tickSize: number; // ₹ per tick
+}
+
+/**
+ * How prices moved inside a daily bar, which decides same-day trade order
+ * range: the original assumption, any level between LOW and HIGH trades
+ * olhc / ohlc: open, then one extreme, the other extreme, close
+ * nearest: whichever extreme is closer to the open is visited first
+ * intraday: minute data where supplied, nearest on other days
+ */
+export type IntrabarModel = 'range' | 'olhc' | 'ohlc' | 'nearest' | 'intraday';
+
+/**
+ * Where an order the day gaps through fills
+ * open: at the OPEN, as a limit order resting before the open would
+ * close: at its level if the day trades back to it, otherwise at the CLOSE
+ */
+export type GapFillMode = 'open' | 'close';
+
+export type IntradayPaths = Map<number, number[]>; // Trading day (UTC midnight) → prices in time order, open to close
+
+/**
+ * Trading rules the simulation core can run, see utils/strategies.ts
+ */
+export type StrategyId = 'reference-v2' | 'lifo-stack' | 'fixed-grid' | 'buy-and-hold';
+
+export interface StrategyConfig {
+  strategy: StrategyId; // Rules that decide the trades; the settings below are shared
+  lotSize: number; // Investment per trade in ₹ (fixed-amount and ladder sizing)
+  threshold: number; // Base buy/sell threshold (0.05 = 5%)
+  maxPositions: number; // Maximum lots held at once
+  thresholdLadder: ThresholdStep[]; // Deeper dips required as positions pile up
+  fallingStockReset: number; // Reset reference to CLOSE when price falls this far below it
+  recoveryTrigger: number; // With no positions, chase the HIGH once CLOSE rises this far above last sell
+  maxActionsPerDay: number; // Loop guard for the continuous action loop
+  costs: CostModelConfig; // Charges and slippage applied to every fill
+  intrabarModel: IntrabarModel; // Price path assumed inside each daily bar
+  gapFill: GapFillMode; // Fill for orders the OPEN is already through
+  exits: ExitRulesConfig; // Stops and time limits for lots the strategy would hold on to
+  sizing: SizingConfig; // Share count of each strategy buy
+  filters: FilterRule[]; // Indicator conditions buys and target sells must meet
+}
+
+export type DecisionEventType =
+  | 'buy'
+  | 'sell'
+  | 'gap-down-fill' // Buy filled away from its trigger because the day opened or traded below it
+  | 'gap-up-fill' // Sell filled above its target because the day opened above it
+  | 'reference-update'
+  | 'recovery-mode'
+  | 'falling-stock-reset'
+  | 'buy-skipped-max-positions'
+  | 'buy-rejected-cash'
+  | 'buy-skipped-size'
+  | 'buy-filtered' // Held by a filter rule, see DecisionEvent.ruleId
+  | 'sell-filtered'
+  | 'sell-blocked-same-day'
+  | 'stop-loss'
+  | 'time-stop'
+  | 'trailing-stop'
+  | 'drawdown-cut'
+  | 'corporate-action'
+  | 'loop-guard';
+
+/**
+ * One decision in the engine's trace
+ * causeId points at the event whose reference price or lot this one acted on,
+ * so following it backwards gives the chain of decisions behind a trade.
+ */
+export interface DecisionEvent {
+  id: number; // Unique within a run (portfolio runs renumber across symbols)
+  date: string;
+  type: DecisionEventType;
+  reason: string;
+  price?: number; // Level the decision was about: trigger, fill or target
+  reference?: number; // Reference price after the event
+  causeId?: number;
+  symbol?: string;
+  ruleId?: string; // Filter rule that held a buy or sell
+}
+
+export interface EngineLogger {
+  log: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+export interface BacktestOptions {
+  logger?: EngineLogger; // Echoes each decision event as a line of text; silent when left out
+  corporateActions?: CorporateAction[]; // Applied on their ex-dates; portfolio runs match them by symbol
+  intraday?: IntradayPaths; // Single-symbol runs; portfolio runs take it from each SymbolDataset
+  state?: EngineState; // Carry on from an earlier run: open lots, P/L and the strategy's reference (updated in place)
+  from?: number; // Time of the first bar to process; earlier bars are skipped
+  to?: number; // Time of the last bar to process
+}
+
+export type CorporateActionType = 'split' | 'bonus' | 'dividend';
+
+/**
+ * A split, bonus or dividend as announced
+ * ratio is old:new shares for a split (1:5 = one ₹10 share becomes five ₹2 shares)
+ * and bonus:held for a bonus (1:2 = one free share for every two held)
+ */
+export interface CorporateAction {
+  symbol?: string; // Blank applies to every symbol in the run
+  exDate: string; // NSE style, like PriceBar.date
+  time: number; // UTC midnight of the ex-date
+  type: CorporateActionType;
+  ratio?: [number, number]; // Splits and bonuses
+  amount?: number; // Dividends: ₹ per share
+}
+
+export interface CorporateActionEvent {
+  date: string; // Trading day it took effect: the ex-date, or the next bar if the ex-date has none
+  symbol?: string;
+  type: CorporateActionType;
+  factor?: number; // Share multiplier for splits and bonuses
+  dividend?: number; // ₹ credited for a dividend
+  sharesBefore: number; // Across all open lots
+  sharesAfter: number;
+}
+
+export interface SuspectedSplit {
+  symbol: string;
+  date: string; // Day that opened with the gap
+  time: number;
+  prevClose: number;
+  open: number;
+  change: number; // open / prevClose - 1
+  likely?: { type: 'split' | 'bonus'; ratio: [number, number] }; // Nearest common ratio, when one fits
+}
+
+export type OptimizerParam =
+  | 'threshold'
+  | 'ladderStep1'
+  | 'ladderStep2'
+  | 'maxPositions'
+  | 'lotSize'
+  | 'fallingStockReset';
+
+export type OptimizerObjective = 'totalProfit' | 'annualizedROI' | 'maxDrawdown' | 'profitPerPeakCapital';
+
+export interface ParameterRange {
+  param: OptimizerParam;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface OptimizerRequest {
+  baseConfig: StrategyConfig; // Parameters not being swept come from here
+  ranges: ParameterRange[];
+  mode: 'grid' | 'random';
+  samples: number; // Number of combinations to try in random mode
+  seed: number; // Makes random mode reproducible
+  objective: OptimizerObjective;
+  corporateActions?: CorporateAction[]; // Applied in every combination
+  intraday?: IntradayPaths;
+}
+
+export interface OptimizerResult {
+  params: Partial<Record<OptimizerParam, number>>;
+  config: StrategyConfig;
+  totalProfit: number;
+  annualizedROI: number;
+  maxDrawdown: number;
+  peakCapitalDeployed: number;
+  profitPerPeakCapital: number; // ₹ of realized profit per ₹ of peak capital deployed
+  totalTrades: number;
+  openPositions: number;
+  score: number; // Objective value oriented so that higher is always better
+}
+
+export interface OptimizerWorkerRequest {
+  data: PriceBar[];
+  request: OptimizerRequest;
+}
+
+export type OptimizerWorkerMessage =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'done'; results: OptimizerResult[] }
+  | { type: 'error'; message: string };
+
+// Walk-forward validation types
+export type WalkForwardMode = 'rolling' | 'anchored'; // Rolling keeps the in-sample length, anchored grows it from the first bar
+
+export interface WalkForwardConfig {
+  mode: WalkForwardMode;
+  inSampleBars: number; // Trading days the parameters are optimized on
+  outOfSampleBars: number; // Trading days they are then traded on, unseen
+}
+
+export interface WalkForwardRequest extends WalkForwardConfig {
+  optimizer: OptimizerRequest; // Sweep run on every in-sample window
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  inSampleStart: string;
+  inSampleEnd: string;
+  outOfSampleStart: string;
+  outOfSampleEnd: string;
+  params: Partial<Record<OptimizerParam, number>>; // Best in-sample combination
+  config: StrategyConfig;
+  inSample: OptimizerResult; // Its in-sample run, traded from a flat start
+  outOfSampleProfit: number; // Realized P/L and dividends booked in the window
+  outOfSampleEquityChange: number; // Change in mark-to-market equity over the window
+  outOfSampleROI: number; // outOfSampleProfit annualized on the peak capital so far
+  outOfSampleTrades: number;
+}
+
+export interface WalkForwardResult {
+  request: WalkForwardRequest;
+  windows: WalkForwardWindow[];
+  results: BacktestResults; // Out-of-sample windows stitched into one run, lots carried across
+  inSampleROI: number; // Mean annualized ROI of the winning in-sample runs
+  outOfSampleROI: number; // Annualized ROI of the stitched run
+  efficiency: number | null; // outOfSampleROI / inSampleROI; null when in-sample ROI is not positive
+}
+
+export interface WalkForwardWorkerRequest {
+  data: PriceBar[];
+  request: WalkForwardRequest;
+}
+
+export type WalkForwardWorkerMessage =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'done'; result: WalkForwardResult }
+  | { type: 'error'; message: string };
+
+// Monte Carlo robustness types
+export interface MonteCarloConfig {
+  paths: number; // Synthetic price histories to run
+  blockSize: number; // Consecutive days resampled together, keeps volatility clusters
+  pathBars: number; // Trading days per path
+  randomStart: boolean; // Start each path from a random day of the history instead of the first
+  noise: number; // Std dev of random jitter applied to each OHLC ratio (0.002 = 0.2%)
+  seed: number; // Same seed, same paths
+}
+
+export interface MonteCarloRequest extends MonteCarloConfig {
+  config: StrategyConfig;
+  corporateActions?: CorporateAction[]; // Used to take split and bonus gaps out of the sampled returns
+}
+
+export interface MonteCarloPathResult {
+  index: number;
+  startDate: string; // Real day the path started from
+  totalProfit: number; // Realized, as in BacktestResults
+  finalEquity: number; // Including open lots at the last close
+  annualizedROI: number;
+  maxDrawdown: number;
+  peakCapitalDeployed: number;
+  openPositions: number; // Lots still open at the end: stuck capital
+  finalPrice: number; // Last close relative to the first open
+}
+
+export type MonteCarloMetric = 'totalProfit' | 'finalEquity' | 'maxDrawdown' | 'peakCapitalDeployed' | 'openPositions';
+
+export interface PercentileSummary {
+  mean: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  min: number;
+  max: number;
+}
+
+export interface EquityBand {
+  bar: number; // Trading day since the path started
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloResult {
+  request: MonteCarloRequest;
+  paths: MonteCarloPathResult[];
+  summary: Record<MonteCarloMetric, PercentileSummary>;
+  lossProbability: number; // Share of paths whose final equity is below zero
+  stuckProbability: number; // Share of paths ending with maxPositions lots open
+  equityBands: EquityBand[]; // Mark-to-market equity percentiles by day
+}
+
+export interface MonteCarloWorkerRequest {
+  data: PriceBar[];
+  request: MonteCarloRequest;
+}
+
+export type MonteCarloWorkerMessage =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'done'; result: MonteCarloResult }
+  | { type: 'error'; message: string };
+
+export interface EngineState {
+  strategy: Strategy;
+  positions: Position[];
+  transactions: Transaction[];
+  totalInvested: number;
+  totalRealized: number;
+  realizedProfit: number;
+  peakCapitalDeployed: number;
+  peakEquity: number;
+  maxDrawdown: number;
+  dailySeries: DailySnapshot[];
+  lastClose: number; // CLOSE of the last processed day
+  started: boolean; // First lot has been bought
+  rejectedBuys: number; // Buys refused by EngineDayContext.canBuy
+  dividendIncome: number; // ₹ dividends credited so far
+  corporateActions: CorporateActionEvent[];
+  events: DecisionEvent[];
+  cutPeakEquity: number; // Peak equity since the last drawdown cut (or the start)
+  atr: number; // Average true range up to the last processed day, 0 until atrPeriod bars are in
+  atrBars: number; // Bars seen by the ATR so far
+}
+
+export interface EngineDayContext {
+  logger?: EngineLogger;
+  canBuy?: (amount: number) => boolean; // Cash check for shared capital pools
+  cash?: () => number; // Cash left in a shared pool, for capital-percent sizing
+  actions?: CorporateAction[]; // Corporate actions taking effect before today's open
+  path?: number[]; // Intraday prices for today, used by the intraday model
+  lastBar?: boolean; // Final bar of the symbol's data
+  indicators?: IndicatorValues; // Values the filter rules read, as of the previous CLOSE
+}
+
+export interface BuyOrder {
+  threshold: number; // Profit target recorded on the lot
+  reason: string;
+  type?: 'buy' | 'gap-down-fill';
+  fill?: FillReason; // Defaults to 'trigger'
+  amount?: number; // ₹ to invest; without it (or shares) StrategyConfig.sizing decides
+  shares?: number; // Exact share count, for fills entered by hand; overrides amount
+  opening?: boolean; // The strategy's first lot, which ladder-scoped filters let through
+}
+
+export interface SellOrder {
+  reason: string;
+  fill?: FillReason; // Defaults to 'trigger'
+  exit?: ExitType; // Defaults to 'target'
+}
+
+/**
+ * Shares config.sizing would buy at price with openPositions lots open
+ */
+export type LotShares = (price: number, openPositions: number) => number;
+
+/**
+ * What the simulation core hands a strategy for one bar
+ * buy and sell do the fills, fees, accounting and decision log; the
+ * strategy only decides when and at what price.
+ */
+export interface StrategyContext {
+  positions: Position[]; // Open lots; strategies may reorder but not edit them
+  path?: number[]; // Intraday prices for the day, when loaded
+  lastBar: boolean;
+  buy: (price: number, order: BuyOrder) => Position | null; // null when the cash pool refused it
+  sell: (position: Position, price: number, order: SellOrder) => Transaction | null; // null when a filter rule held a target sell
+  record: (event: Omit<DecisionEvent, 'id' | 'date'>) => number; // Decisions that do not trade
+}
+
+export interface StrategySnapshot {
+  reference?: number; // Price level the strategy measures its next trades from
+  referenceEventId?: number; // Decision that set it
+}
+
+export interface Strategy {
+  id: StrategyId;
+  onBar: (bar: PriceBar, ctx: StrategyContext) => void;
+  onFill?: (transaction: Transaction) => void; // After every buy and sell, before the next decision
+  onCorporateAction?: (factor: number, eventId: number) => void; // Scale price levels by a split or bonus
+  getState: () => StrategySnapshot;
+  planSession?: (positions: Position[], lastClose: number, lotShares: LotShares) => SessionOrders; // Orders to place for the next session
+}
+
+// Next-session signal types
+export interface PendingOrder {
+  side: 'BUY' | 'SELL';
+  price: number; // Limit for a sell, trigger for a buy
+  shares: number; // Before slippage; buys are lotSize ÷ price
+  threshold: number; // Sell: the lot's target; buy: the target the new lot gets
+  lot?: Position; // Open lot a sell closes
+  after?: number; // Index of the order that must fill first
+  exit?: ExitType; // Sell placed by an exit rule: a stop under the price, or a sell at the OPEN
+  note: string; // What happens when the market gaps through the price
+}
+
+export interface SessionOrders {
+  orders: PendingOrder[];
+  notes: string[]; // Closing conditions that move the reference for the session after
+}
+
+export interface SessionPlan extends SessionOrders {
+  asOf: string; // Date of the last bar or session entered
+  lastClose: number;
+  reference?: number;
+  openLots: number;
+  maxPositions: number;
+}
+
+export interface ManualFill {
+  side: 'BUY' | 'SELL';
+  price: number;
+  shares: number; // BUY only; a SELL closes the whole lot
+  threshold?: number; // BUY: profit target for the new lot, defaults to the ladder's
+  lotIndex?: number; // SELL: index of the lot in EngineState.positions when the session starts
+}
+
+/**
+ * A trading day entered by hand after the loaded history
+ * OHLC defaults to the close; only the fills trade.
+ */
+export interface ManualSession {
+  date: string; // NSE style, like PriceBar.date
+  time: number;
+  close: number;
+  fills: ManualFill[];
+  reference?: number; // Set the reference by hand, e.g. after a falling-stock reset the plan warned of
+}
+
+export interface SymbolDataset {
+  symbol: string;
+  data: PriceBar[]; // Imported bars, oldest first
+  intraday?: IntradayPaths; // Minute data for the intraday path model
+}
+
+export interface PortfolioConfig {
+  initialCapital: number; // Shared cash pool across all symbols
+  maxPositionsPerSymbol: number; // Caps StrategyConfig.maxPositions for each symbol
+  cashShortfall: 'reject' | 'queue'; // Queue gives starved symbols first call on freed cash
+}
+
+export interface SymbolBreakdown {
+  symbol: string;
+  results: BacktestResults;
+  rejectedBuys: number;
+}
+
+export interface PortfolioResults {
+  combined: BacktestResults; // All symbols together, ROI measured on initialCapital
+  symbols: SymbolBreakdown[];
+  initialCapital: number;
+  finalCash: number;
+  minCash: number; // Lowest cash balance at any day's close
+  rejectedBuys: number;
+}
+
+export interface PathModelResult {
+  model: IntrabarModel;
+  totalProfit: number;
+  annualizedROI: number;
+  maxDrawdown: number;
+  totalTrades: number;
+  openPositions: number;
+}
+
+/**
+ * One filter rule's effect: the run as configured against the same run
+ * without the rule (ruleId null: without any filter)
+ */
+export interface FilterImpact {
+  ruleId: string | null;
+  label: string;
+  blocked: number; // Buys and sells the rule held
+  totalProfit: number;
+  profitWithout: number;
+  totalTrades: number;
+  tradesWithout: number;
+  maxDrawdown: number;
+  maxDrawdownWithout: number;
+}
+
+export interface PerformanceMetrics {
+  capitalBase: number; // Peak capital deployed, the denominator for returns
+  finalEquity: number; // Realized + unrealized P/L at the last close
+  cagr: number; // Compound annual growth of (capitalBase + equity) on capitalBase
+  xirr: number | null; // Money-weighted return of actual trade cash flows; null if it does not converge
+  maxDrawdown: number; // ₹ below the equity peak
+  maxDrawdownPercent: number; // maxDrawdown as a share of capitalBase + peak equity
+  maxDrawdownDays: number; // Longest peak-to-recovery stretch in trading days
+  drawdownStart?: string;
+  drawdownEnd?: string; // Recovery date, or last date if still under water
+  sharpe: number; // Annualized, from daily returns on capitalBase + equity
+  sortino: number;
+  winRate: number; // Share of closed lots sold at a profit
+  closedLots: number;
+  avgHoldingDays: number; // Calendar days per closed lot
+  exposure: number; // Share of trading days with at least one open lot
+  riskFreeRate: number;
+}
+
+// Benchmark comparison types
+export type BenchmarkKind = 'buy-and-hold' | 'sip' | 'index';
+
+export interface BenchmarkPoint {
+  date: string;
+  equity: number; // Value minus money put in so far, comparable to DailySnapshot.equity
+}
+
+export interface BenchmarkResult {
+  kind: BenchmarkKind;
+  label: string;
+  invested: number; // ₹ put in by the last date
+  profit: number; // Final equity
+  returnPercent: number; // profit as a share of the comparison capital
+  annualizedROI: number;
+  maxDrawdown: number; // ₹ below the equity peak
+  alpha: number; // Strategy annualized ROI minus this one, in percentage points
+  relativeDrawdown: number | null; // Strategy max drawdown ÷ this one; null when this one never fell
+  series: BenchmarkPoint[];
+}
+
+export interface BenchmarkComparison {
+  capital: number; // Peak capital deployed by the strategy, given to every benchmark
+  startDate: string;
+  endDate: string;
+  strategyProfit: number; // Final mark-to-market equity, open lots included
+  strategyROI: number; // Annualized on capital, from strategyProfit
+  strategyMaxDrawdown: number;
+  strategySeries: BenchmarkPoint[]; // Strategy equity on the benchmarks' dates
+  benchmarks: BenchmarkResult[];
+}
+
+export interface IndexSeries {
+  name: string; // e.g. 'NIFTY 50', from the file name
+  bars: PriceBar[];
+}
+
+// Capital gains tax report types
+export type GainTerm = 'STCG' | 'LTCG';
+
+export interface TaxLot {
+  financialYear: string; // e.g. 'FY 2023-24', from the sell date
+  sellDate: string;
+  buyDate: string;
+  symbol?: string;
+  shares: number;
+  buyPrice: number;
+  sellPrice: number;
+  holdingDays: number;
+  term: GainTerm; // LTCG when held more than 12 months
+  profit: number; // Net P/L as reported by the engine
+  sttAddBack: number; // STT on both legs is not a deductible expense
+  taxableGain: number; // profit + sttAddBack
+  rate: number; // Rate in force on the sell date for this term
+}
+
+export interface LossCarryForward {
+  shortTerm: number;
+  longTerm: number;
+}
+
+export interface TaxYearSummary {
+  financialYear: string;
+  lots: number;
+  stcgGains: number;
+  stcgLosses: number; // Positive numbers
+  ltcgGains: number;
+  ltcgLosses: number;
+  lossesBroughtForward: LossCarryForward;
+  netStcg: number; // After set-off
+  netLtcg: number; // After set-off, before the exemption
+  ltcgExemption: number; // Exemption used this year
+  taxableLtcg: number;
+  stcgTax: number;
+  ltcgTax: number;
+  cess: number;
+  totalTax: number;
+  lossesCarriedForward: LossCarryForward;
+}
+
+export interface TaxReport {
+  lots: TaxLot[];
+  years: TaxYearSummary[];
+  realizedProfit: number;
+  totalTax: number;
+  postTaxProfit: number; // Trading gains after tax; dividends, taxed at the slab rate, are left out
+  postTaxAnnualizedROI: number; // Of postTaxProfit, same base as BacktestResults.annualizedROI
+}
+
+// Broker tradebook reconciliation types
+export interface BrokerTrade {
+  row: number; // First line of the tradebook it came from
+  date: string; // NSE style, like PriceBar.date
+  time: number;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  shares: number;
+  price: number; // Volume-weighted over the order's partial fills
+  orderId?: string;
+}
+
+export interface ReconciliationConfig {
+  dayWindow: number; // Calendar days an actual trade may lag or lead its signal and still match
+  priceTolerance: number; // Fraction the actual price may differ from the simulated one and still match
+}
+
+export type ReconciliationStatus = 'matched' | 'missed' | 'extra';
+
+export interface ReconciledTrade {
+  status: ReconciliationStatus; // missed = simulated only, extra = actual only
+  side: 'BUY' | 'SELL';
+  date: string; // Of the actual trade when there is one
+  simulated?: Transaction;
+  actual?: BrokerTrade;
+  dayLag?: number; // Calendar days from the signal to the actual trade
+  priceDifference?: number; // ₹ per share, actual − simulated
+  shareDifference?: number; // Actual − simulated
+  priceImpact: number; // ₹ P/L from the price difference alone
+  impact: number; // ₹ P/L of actual vs simulated, open shares marked at the period's last close
+}
+
+export interface ReconciliationReport {
+  symbol: string;
+  startDate: string;
+  endDate: string;
+  markPrice: number; // Close that open shares are valued at
+  trades: ReconciledTrade[]; // Chronological
+  matched: number;
+  missed: number;
+  extra: number;
+  simulatedPL: number; // Trading P/L of the period's trades before fees, marked at markPrice
+  actualPL: number;
+  priceImpact: number; // Matched trades: worse or better fills
+  sizeImpact: number; // Matched trades: different quantities
+  missedImpact: number; // Signals not taken
+  extraImpact: number; // Discretionary trades the strategy did not make
+}
+
+// Versioned JSON export of a run: enough to reopen or audit it without the app
+export interface BacktestExport {
+  format: 'stock-backtest-run';
+  version: number; // Bumped when the shape of this object changes
+  engine: string; // Engine that produced the results
+  engineVersion?: number; // Its ENGINE_VERSION; missing on runs exported before it was recorded
+  exportedAt: string; // ISO timestamp
+  symbols: string[];
+  config: StrategyConfig;
+  portfolioConfig?: PortfolioConfig; // Only for multi-symbol runs
+  corporateActions?: CorporateAction[]; // Actions the run was adjusted for
+  results: BacktestResults;
+  portfolio?: Omit<PortfolioResults, 'combined'>;
+}
+
+// Run library (IndexedDB)
+export interface DatasetFingerprint {
+  symbol: string;
+  hash: string; // SHA-256 of the parsed rows, to tell whether two runs saw the same data
+  rows: number;
+}
+
+export interface SavedRun {
+  id: string;
+  name: string;
+  tags: string[];
+  savedAt: string; // ISO timestamp
+  datasets: DatasetFingerprint[];
+  data: SymbolDataset[]; // Input rows, so a reopened run can be re-run or optimized
+  run: BacktestExport; // Config, engine and results
+}
+
+// CSV import
+export type CsvFormatId = 'nse-historical' | 'nse-bhavcopy' | 'nse-bhavcopy-full' | 'bse' | 'yahoo' | 'generic' | 'custom';
+
+export type DateOrder = 'DMY' | 'MDY'; // How to read ambiguous numeric dates like 05/06/2023
+
+export interface ColumnMapping {
+  date: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume?: string;
+  vwap?: string;
+  high52?: string;
+  low52?: string;
+  symbol?: string; // Multi-symbol files (bhavcopy) are split into one dataset per symbol
+  series?: string; // Only EQ rows are kept when present
+}
+
+export interface RawCsv {
+  fileName: string;
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ImportIssue {
+  row: number | null; // Line in the file (header is line 1); null for file-level issues
+  date?: string;
+  severity: 'error' | 'warning'; // Rows with errors are dropped, warnings are kept
+  message: string;
+}
+
+export interface ImportResult {
+  fileName: string;
+  symbol: string;
+  format: CsvFormatId;
+  mapping: ColumnMapping;
+  dateOrder: DateOrder;
+  bars: PriceBar[]; // Valid rows, oldest first, one per date
+  issues: ImportIssue[];
+  totalRows: number;
+  skippedRows: number;
+}
+
+export interface FileImport {
+  raw: RawCsv;
+  format: CsvFormatId;
+  mapping: ColumnMapping | null; // null until the user maps an unrecognized file
+  dateOrder: DateOrder;
+  results: ImportResult[]; // One per symbol in the file
+}
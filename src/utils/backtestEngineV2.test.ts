@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { BacktestResults, PriceBar } from '../types';
+import { DEFAULT_STRATEGY_CONFIG, createEngineState, runBacktest } from './backtestEngineV2';
+import { parseStockCSV } from './csvParser';
+import sample from '../test/fixtures/nse-sample.csv?raw';
+
+/**
+ * Engine Regression
+ *
+ * Runs the default strategy over a year of NSE-format prices and compares
+ * every trade with the checked-in golden file. An intended change to the
+ * rules shows up as a diff there: review it, then update the file with
+ * `npx vitest run -u`.
+ */
+
+const loadSample = (): Promise<PriceBar[]> => parseStockCSV(sample, 'SAMPLE.csv');
+
+const round = (value: number | undefined) => (value === undefined ? undefined : Math.round(value * 100) / 100);
+
+const golden = (results: BacktestResults) => ({
+  startDate: results.startDate,
+  endDate: results.endDate,
+  totalTrades: results.totalTrades,
+  totalProfit: round(results.totalProfit),
+  annualizedROI: round(results.annualizedROI),
+  maxDrawdown: round(results.maxDrawdown),
+  peakCapitalDeployed: round(results.peakCapitalDeployed),
+  transactions: results.transactions.map(t =>
+    [t.date, t.type, round(t.price), t.shares, round(t.profit), t.threshold, t.fillReason].filter(cell => cell !== undefined).join(' ')
+  ),
+  remainingPositions: results.remainingPositions.map(p => `${p.buyDate} ${round(p.buyPrice)} ${p.shares}`)
+});
+
+describe('backtest engine', () => {
+  it('matches the golden run on the NSE sample', async () => {
+    const results = runBacktest(await loadSample(), DEFAULT_STRATEGY_CONFIG);
+    await expect(JSON.stringify(golden(results), null, 2) + '\n').toMatchFileSnapshot('../test/golden/nse-sample.json');
+  });
+
+  it('gives the same results for the same input', async () => {
+    const data = await loadSample();
+    expect(runBacktest(data, DEFAULT_STRATEGY_CONFIG)).toEqual(runBacktest(data, DEFAULT_STRATEGY_CONFIG));
+  });
+
+  it('leaves the input bars untouched', async () => {
+    const data = await loadSample();
+    const copy = structuredClone(data);
+    runBacktest([...data].reverse(), DEFAULT_STRATEGY_CONFIG);
+    expect(data).toEqual(copy);
+  });
+
+  it('only writes through the injected logger', async () => {
+    const data = await loadSample();
+    const consoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const lines: unknown[][] = [];
+    try {
+      const results = runBacktest(data, DEFAULT_STRATEGY_CONFIG);
+      expect(consoleLog).not.toHaveBeenCalled();
+
+      runBacktest(data, DEFAULT_STRATEGY_CONFIG, { logger: { log: (...args) => lines.push(args), error: () => {} } });
+      expect(consoleLog).not.toHaveBeenCalled();
+      expect(lines.length).toBe(results.events?.length);
+    } finally {
+      consoleLog.mockRestore();
+    }
+  });
+
+  it('continues a split run exactly where it stopped', async () => {
+    const data = await loadSample();
+    const whole = runBacktest(data, DEFAULT_STRATEGY_CONFIG);
+
+    const middle = data[Math.floor(data.length / 2)].time;
+    const state = createEngineState(DEFAULT_STRATEGY_CONFIG);
+    runBacktest(data, DEFAULT_STRATEGY_CONFIG, { state, to: middle });
+    const continued = runBacktest(data, DEFAULT_STRATEGY_CONFIG, { state, from: middle + 1 });
+
+    expect(golden(continued)).toEqual(golden(whole));
+  });
+});
@@ -1,532 +1,534 @@
-import type { StockData, BacktestResults, Position, Transaction } from '../types';
+import type {
+  PriceBar,
+  BacktestResults,
+  StrategyConfig,
+  BacktestOptions,
+  BuyOrder,
+  EngineState,
+  EngineDayContext,
+  CorporateAction,
+  DecisionEvent,
+  ExitType,
+  Position,
+  SellOrder,
+  Transaction
+} from '../types';
+import { DEFAULT_COST_MODEL, costFill, lotCost } from './costModel';
+import { actionsByBar, describeAction, shareFactor } from './corporateActions';
+import { DEFAULT_EXIT_RULES, dueExits, trackLots } from './exitRules';
+import { DEFAULT_SIZING, roundToLot, sizeLot, updateAtr } from './positionSizing';
+import { describeRule, heldBy, indicatorsByBar } from './signalFilters';
+import { createStrategy } from './strategies';
+import { rupees } from './decisionLog';
 
+/**
+ * Engine version, stored with every exported or saved run
+ * Bumped whenever fills or rules change what the same settings trade:
+ * 2 gap fills at the OPEN or CLOSE, 3 exit rules, 4 position sizing
+ * modes, 5 signal filters
+ */
+export const ENGINE_VERSION = 5;
 
 /**
- * Reference-Based Backtesting Engine
- * 
- * Strategy: Dynamic Reference Trading with 5% Threshold
- * 
- * Core Concept:
- * - Maintain a "reference price" which is the last action taken (buy or sell)
- * - Buy trigger: 5% below reference
- * - Sell trigger: Each position sells at 5% above its buy price
- * - After each action, update the reference
- * - Multiple actions possible per day as reference updates
- * 
- * Key Rules:
- * 1. Reference starts as the first buy price
- * 2. When we buy: new buy price becomes reference
- * 3. When we sell: sell price becomes reference
- * 4. When we sell multiple: highest sell becomes reference
- * 5. After selling, if positions remain: highest position becomes reference
- * 6. We continuously check for new actions after each reference update
- * 
- * Example Flow:
- * Day 1: Buy ₹100 → ref = ₹100
- * Day 2: HIGH = ₹108
- *   - Sell ₹100 at ₹105 → ref = ₹105
- *   - Check buy: 5% below ₹105 = ₹99.75, if LOW ≤ ₹99.75 → buy
- * Day 3: Positions [₹95, ₹100], ref = ₹95, HIGH = ₹108
- *   - Sell ₹95 at ₹99.75 → ref = ₹100 (highest remaining position)
- *   - Sell ₹100 at ₹105 → ref = ₹105
- *   - Check buy: 5% below ₹105 = ₹99.75, if LOW ≤ ₹99.75 → buy
+ * Default strategy parameters
+ * These reproduce the original hard-coded behaviour of the engine, except
+ * that orders the day gaps through fill at the OPEN
  */
-export const runBacktest = (data: StockData[]): BacktestResults => {
-  console.log('🚀 Reference-Based Engine V2 Started');
+export const DEFAULT_STRATEGY_CONFIG: StrategyConfig = {
+  strategy: 'reference-v2',
+  lotSize: 100000,          // ₹1,00,000 per trade
+  threshold: 0.05,          // 5% buy/sell threshold
+  maxPositions: 5,
+  thresholdLadder: [
+    { minPositions: 3, threshold: 0.10 }, // 4th buy needs a 10% drop
+    { minPositions: 4, threshold: 0.20 }  // 5th buy needs a 20% drop
+  ],
+  fallingStockReset: 0.20,  // Reset reference after a 20% fall
+  recoveryTrigger: 0.05,    // Recovery mode once CLOSE is 5% above last sell
+  maxActionsPerDay: 20,
+  costs: DEFAULT_COST_MODEL,
+  intrabarModel: 'range',   // Original HIGH/LOW assumption
+  gapFill: 'open',          // Gaps fill at the OPEN, like resting limit orders
+  exits: DEFAULT_EXIT_RULES, // Off: lots wait for their target
+  sizing: DEFAULT_SIZING,   // lotSize ₹ per buy
+  filters: []               // Every signal trades
+};
 
-  // Trading parameters
-  const LOT_SIZE = 100000; // Fixed investment amount per trade: ₹1,00,000
-  const THRESHOLD = 0.05; // 5% threshold for buy/sell triggers
+/**
+ * Fresh engine state before the first trading day
+ * Each symbol gets its own strategy instance, built from the config
+ */
+export const createEngineState = (config: StrategyConfig = DEFAULT_STRATEGY_CONFIG): EngineState => ({
+  strategy: createStrategy(config), // Decides what to trade, see strategies.ts
+  positions: [],          // Array of currently held positions
+  transactions: [],       // History of all buy/sell transactions
+  totalInvested: 0,       // Total money spent on purchases
+  totalRealized: 0,       // Total money received from sales
+  realizedProfit: 0,      // Running realized P/L, used for the daily equity mark
+  peakCapitalDeployed: 0, // Most money tied up in open positions on any day
+  peakEquity: 0,          // Highest realized + unrealized P/L seen so far
+  maxDrawdown: 0,         // Largest fall from peakEquity in ₹
+  dailySeries: [],        // End-of-day snapshot for charts
+  lastClose: 0,
+  started: false,
+  rejectedBuys: 0,
+  dividendIncome: 0,      // Cash from dividends on open lots
+  corporateActions: [],   // Splits, bonuses and dividends applied so far
+  events: [],             // Decision trace, see recordEvent
+  cutPeakEquity: 0,       // Equity peak the drawdown cut measures from
+  atr: 0,                 // Average true range for atr sizing, see updateAtr
+  atrBars: 0
+});
 
-  /**
-   * Helper function to parse Indian number format with commas
-   * Converts "1,150.00" to 1150
-   */
-  const parsePrice = (price: string): number => {
-    return parseFloat(price.replace(/,/g, ''));
+
+/**
+ * Append a decision to the run's trace
+ * Returns its id so trades and later decisions can point back at it.
+ * An injected logger gets each event as a line of text.
+ */
+const recordEvent = (state: EngineState, context: EngineDayContext, event: Omit<DecisionEvent, 'id'>): number => {
+  const id = state.events.length;
+  state.events.push({ id, ...event });
+  if (context.logger) {
+    const line = `${event.date}: [${event.type}] ${event.reason}`;
+    if (event.type === 'loop-guard') context.logger.error(line);
+    else context.logger.log(line);
+  }
+  return id;
+};
+
+
+// The strategy sees every fill before its next decision; the event then
+// carries the reference the fill left behind
+const afterFill = (state: EngineState, transaction: Transaction) => {
+  state.strategy.onFill?.(transaction);
+  state.events[transaction.eventId!].reference = state.strategy.getState().reference;
+};
+
+// Decision event for a sell: exit rules log under their own type
+const SELL_EVENTS: Partial<Record<ExitType, DecisionEvent['type']>> = {
+  'stop-loss': 'stop-loss',
+  'time-stop': 'time-stop',
+  'trailing-stop': 'trailing-stop',
+  'drawdown-cut': 'drawdown-cut'
+};
+
+/**
+ * SELL
+ * The whole lot at price; profit is net of fees on both legs
+ */
+const sellLot = (
+  state: EngineState,
+  config: StrategyConfig,
+  context: EngineDayContext,
+  date: string,
+  position: Position,
+  price: number,
+  order: SellOrder
+): Transaction => {
+  const fillReason = order.fill ?? 'trigger';
+  const exitType = order.exit ?? 'target';
+  const fill = costFill('SELL', price, position.shares, config.costs);
+  const profit = fill.netAmount - lotCost(position);
+  state.totalRealized += fill.netAmount;
+  state.realizedProfit += profit;
+
+  const gap = fillReason === 'gap-open' || fillReason === 'gap-close';
+  const type = SELL_EVENTS[exitType] ?? (gap ? 'gap-up-fill' : 'sell');
+  const eventId = recordEvent(state, context, { date, type, price, causeId: position.buyEventId, reason: order.reason });
+  const transaction: Transaction = {
+    date: date,
+    type: 'SELL',
+    price: fill.price,
+    shares: position.shares,
+    amount: fill.grossAmount,
+    boughtAt: position.buyPrice,
+    buyDate: position.buyDate,
+    profit,
+    threshold: position.threshold, // Track threshold used for sell
+    triggerPrice: fill.price !== price ? price : undefined,
+    grossAmount: fill.grossAmount,
+    fees: fill.fees,
+    netAmount: fill.netAmount,
+    splitFactor: position.splitFactor,
+    eventId,
+    fillReason,
+    exitType
   };
+  state.transactions.push(transaction);
+  state.positions.splice(state.positions.indexOf(position), 1);
+  afterFill(state, transaction);
+  return transaction;
+};
 
-  /**
-   * Reverse the data array to process chronologically
-   * CSV is sorted newest-to-oldest, we need oldest-to-newest
-   */
-  const sortedData = [...data].reverse();
+/**
+ * DRAWDOWN CUT
+ * Sell every open lot at price after the day's mark, then bring the
+ * day's snapshot up to date. The portfolio engine cuts the whole basket
+ * with this, one symbol at a time.
+ */
+export const cutAllLots = (
+  state: EngineState,
+  config: StrategyConfig,
+  context: EngineDayContext,
+  date: string,
+  price: number,
+  reason: string
+) => {
+  for (const position of [...state.positions]) {
+    sellLot(state, config, context, date, position, price, { reason, fill: 'close', exit: 'drawdown-cut' });
+  }
+
+  const equity = state.realizedProfit + state.dividendIncome;
+  state.maxDrawdown = Math.max(state.maxDrawdown, state.peakEquity - equity);
+  state.cutPeakEquity = equity;
+  const today = state.dailySeries[state.dailySeries.length - 1];
+  if (today?.date === date) {
+    Object.assign(today, {
+      reference: state.strategy.getState().reference ?? 0,
+      openPositions: 0,
+      capitalDeployed: 0,
+      cumulativeRealizedPL: state.realizedProfit,
+      equity
+    });
+  }
+};
+
+/**
+ * Apply one split, bonus or dividend before the ex-date's open
+ *
+ * Price files are raw, so on the ex-date the price drops by the split
+ * factor overnight. Multiplying the shares and dividing every price level
+ * (lots, the strategy's reference levels) by the same factor keeps the
+ * strategy where it was instead of reading the drop as a crash. What was
+ * paid for each lot does not change. Fractional bonus entitlements are
+ * dropped; companies settle them in cash and the amounts are negligible.
+ */
+const applyCorporateAction = (state: EngineState, action: CorporateAction, date: string, context: EngineDayContext) => {
+  const { positions, strategy } = state;
+  const sharesBefore = positions.reduce((sum, pos) => sum + pos.shares, 0);
+
+  if (action.type === 'dividend') {
+    const dividend = sharesBefore * (action.amount ?? 0);
+    state.dividendIncome += dividend;
+    state.corporateActions.push({ date, symbol: action.symbol, type: action.type, dividend, sharesBefore, sharesAfter: sharesBefore });
+    recordEvent(state, context, {
+      date,
+      type: 'corporate-action',
+      reason: `${describeAction(action)} on ${sharesBefore} shares = ${rupees(dividend)}`
+    });
+    return;
+  }
 
-  // State variables
-  let positions: Position[] = [];        // Array of currently held positions
-  let transactions: Transaction[] = [];  // History of all buy/sell transactions
-  let totalInvested = 0;                // Total money spent on purchases
-  let totalRealized = 0;                // Total money received from sales
-  let reference = 0;                    // Current reference price for buy/sell triggers
-  let sellHistory: number[] = [];       // Track ALL sell prices for future buy opportunities
+  const factor = shareFactor(action);
+  for (const pos of positions) {
+    pos.costBasis = lotCost(pos);
+    pos.shares = Math.floor(pos.shares * factor + 1e-9);
+    pos.buyPrice = pos.buyPrice / factor;
+    if (pos.peakClose !== undefined) pos.peakClose = pos.peakClose / factor;
+    pos.splitFactor = (pos.splitFactor ?? 1) * factor;
+  }
+  state.lastClose = state.lastClose / factor;
+  state.atr = state.atr / factor;
+
+  const sharesAfter = positions.reduce((sum, pos) => sum + pos.shares, 0);
+  state.corporateActions.push({ date, symbol: action.symbol, type: action.type, factor, sharesBefore, sharesAfter });
+  const eventId = recordEvent(state, context, {
+    date,
+    type: 'corporate-action',
+    causeId: strategy.getState().referenceEventId,
+    reason: `${describeAction(action)}: ${sharesBefore} shares became ${sharesAfter}, price levels divided by ${+factor.toFixed(4)}`
+  });
+  strategy.onCorporateAction?.(factor, eventId);
+  state.events[eventId].reference = strategy.getState().reference;
+};
 
+/**
+ * Process a single trading day
+ *
+ * The simulation core shared by every strategy. Mutates the engine state
+ * in place; days must be fed chronologically. The strategy decides what
+ * to trade through the buy and sell it is handed, which do the fills,
+ * fees, accounting and decision log. The context carries the day's
+ * corporate actions and intraday path and, in portfolio mode, decides
+ * whether there is cash for a buy.
+ */
+export const processDay = (
+  state: EngineState,
+  bar: PriceBar,
+  config: StrategyConfig,
+  context: EngineDayContext
+): void => {
+  const { positions, transactions, strategy } = state;
+  const { close, date } = bar;
 
   /**
-   * INITIAL BUY
-   * Always buy at the OPEN price of the first day
-   * This becomes our initial reference
+   * CORPORATE ACTIONS
+   * Splits, bonuses and dividends going ex today, before the open
+   * Nothing to adjust until the first lot has been bought
    */
-  const firstPrice = parsePrice(sortedData[0].OPEN);
-  const firstShares = Math.floor(LOT_SIZE / firstPrice);
-
-  positions.push({
-    buyPrice: firstPrice,
-    shares: firstShares,
-    date: sortedData[0].DATE, // Fix: Add date
-    buyDate: sortedData[0].DATE,
-    threshold: THRESHOLD // Initial buy is always at standard threshold
-  });
-  totalInvested += firstShares * firstPrice;
-  reference = firstPrice; // Set initial reference
-
-  transactions.push({
-    date: sortedData[0].DATE,
-    type: 'BUY',
-    price: firstPrice,
-    shares: firstShares,
-    amount: firstShares * firstPrice
-  });
+  if (state.started) {
+    for (const action of context.actions ?? []) {
+      applyCorporateAction(state, action, date, context);
+    }
+  }
 
+  const record = (event: Omit<DecisionEvent, 'id' | 'date'>) => recordEvent(state, context, { date, ...event });
 
   /**
-   * MAIN PROCESSING LOOP
-   * Process each day in the dataset chronologically
+   * BUY
+   * One lot at price, fees and slippage on top. config.sizing sets the
+   * share count unless the order names an amount (rounded to the market
+   * lot) or, for fills entered by hand, the exact shares
    */
-  for (let i = 0; i < sortedData.length; i++) {
-    const row = sortedData[i];
-    const high = parsePrice(row.HIGH);
-    const low = parsePrice(row.LOW);
-    const close = parsePrice(row.CLOSE);
-    const date = row.DATE;
-
-    // ============================================================================
-    // 🆕 ADDED: DIAGNOSTIC LOGGING
-    // Shows buy/sell triggers and why conditions pass/fail
-    // Remove or comment out after debugging
-    // ============================================================================
-    const refBuyPrice = reference * (1 - THRESHOLD);
-    const shouldLog = i < 10 || i > sortedData.length - 10 || positions.length === 0; // First and last 10 days, or when no positions
-
-    if (shouldLog) {
-      console.log(`\n${date}: HIGH=${high.toFixed(2)}, LOW=${low.toFixed(2)}, CLOSE=${close.toFixed(2)}`);
-      console.log(`  Reference=${reference.toFixed(2)}, BuyTrigger=${refBuyPrice.toFixed(2)}`);
-      if (positions.length > 0) {
-        console.log(`  SellTrigger=${(positions[0].buyPrice * 1.05).toFixed(2)}`);
-      }
-      console.log(`  BuyCondition: ${low.toFixed(2)} <= ${refBuyPrice.toFixed(2)} <= ${high.toFixed(2)} = ${low <= refBuyPrice && refBuyPrice <= high}`);
-      console.log(`  Positions: ${positions.length}, Reference vs Close: ${((close/reference - 1) * 100).toFixed(1)}%`);
+  const buy = (price: number, order: BuyOrder): Position | null => {
+    const held = context.indicators && heldBy(config.filters, 'BUY', context.indicators, order.opening);
+    if (held) {
+      const { reference, referenceEventId } = strategy.getState();
+      record({
+        type: 'buy-filtered',
+        price,
+        reference,
+        causeId: referenceEventId,
+        ruleId: held.rule.id,
+        reason: `Buy at ${rupees(price)} held by ${held.rule.id} (${describeRule(held.rule)}): ${held.detail}`
+      });
+      return null;
     }
-    // ============================================================================
-
-
-    /**
-     * RECOVERY MODE
-     * 
-     * When we have no positions (sold everything) and price has risen 10% above last sell:
-     * - Switch to using daily HIGH as reference
-     * - Each day, if CLOSE > previous reference, update reference to today's HIGH
-     * - Buy at 5% below the HIGH
-     * - This allows re-entry during bull markets
-     * 
-     * Example:
-     * - Sold at ₹100, positions = 0
-     * - Day 1: CLOSE = ₹112 (>10% above ₹100) → ref = HIGH
-     * - Day 2: CLOSE > ref → update ref to today's HIGH
-     * - Continue until we buy, then resume normal algorithm
-     */
-    if (positions.length === 0) {
-      // We have no positions
-      // Check if we need to enter recovery mode or update reference
-
-      // Get the last sell price (which is current reference)
-      const lastSellPrice = reference;
-
-      // Check if price has risen 5% above last sell
-      if (close > lastSellPrice * 1.05) {
-        // Enter/continue recovery mode: use HIGH as reference
-        if (close > reference) {
-          // Update reference to today's HIGH
-          const oldRef = reference;
-          reference = high;
-          console.log(`${date}: Recovery mode - CLOSE (${close.toFixed(2)}) > ref (${oldRef.toFixed(2)}). New reference = HIGH (${high.toFixed(2)})`);
-        }
-      }
+
+    const sized = order.shares === undefined && order.amount === undefined ? sizeLot(state, config, context) : undefined;
+    const shares = order.shares
+      ?? sized?.shares
+      ?? ((fillPrice: number) => roundToLot(Math.floor(order.amount! / fillPrice), config.sizing.lotMultiple));
+    const fill = costFill('BUY', price, shares, config.costs);
+    const sizingRule = sized?.rule ?? (order.shares === undefined ? 'fixed-amount' : undefined);
+    const { reference, referenceEventId } = strategy.getState();
+
+    if (fill.shares < 1) {
+      record({
+        type: 'buy-skipped-size',
+        price,
+        reference,
+        causeId: referenceEventId,
+        reason: `Buy at ${rupees(price)} skipped: ${sized ? sized.basis : 'the amount'} comes to less than one market lot`
+      });
+      return null;
     }
 
-    // ============================================================================
-    // 🆕 ADDED: FALLING STOCK ADJUSTMENT
-    // If we have positions and stock has fallen 20% below reference,
-    // adjust reference to current CLOSE to allow re-entry at lower levels
-    // ============================================================================
-    if (positions.length > 0 && close < reference * 0.80) {
-      const oldRef = reference;
-      reference = close;
-      console.log(`${date}: ⚠️ FALLING STOCK DETECTED - Price fell 20%+ below reference.`);
-      console.log(`  Old reference: ₹${oldRef.toFixed(2)} → New reference: ₹${reference.toFixed(2)}`);
-      console.log(`  New buy trigger will be: ₹${(reference * 0.95).toFixed(2)}`);
+    // Shared capital pool (portfolio mode) may refuse the buy
+    if (context.canBuy && !context.canBuy(fill.netAmount)) {
+      state.rejectedBuys++;
+      record({
+        type: 'buy-rejected-cash',
+        price,
+        reference,
+        causeId: referenceEventId,
+        reason: `Buy at ${rupees(price)} rejected: not enough cash in the pool`
+      });
+      return null;
     }
-    // ============================================================================
-
-
-    /**
-     * CONTINUOUS ACTION LOOP
-     * Keep checking for actions until no more actions are possible
-     * This allows multiple buys/sells on the same day as reference updates
-     */
-    let actionTaken = true;
-    let loopCount = 0;
-    let lastSellPriceToday = 0; // Track highest sell price today to prevent buy-sell loops
-    let buyPricesToday = new Set<number>(); // Track all buy prices executed today
-
-    while (actionTaken) {
-      actionTaken = false;
-      loopCount++;
-
-      if (loopCount > 20) {
-        console.error('Infinite loop detected on', date);
-        break;
-      }
-
-
-      /**
-       * STEP 1: CHECK FOR SELL TRIGGERS
-       * 
-       * Check all positions (sorted by buy price, lowest first)
-       * Sell positions one by one, updating reference after each sell
-       * 
-       * Important: After each sell, we update reference and continue checking
-       * This allows cascading sells on the same day
-       */
-      if (positions.length > 0) {
-        // Sort positions by buy price (lowest first)
-        positions.sort((a, b) => a.buyPrice - b.buyPrice);
-
-        // Check the lowest position first
-        const pos = positions[0];
-        
-        // Prevent selling on the same day it was bought
-        if (pos.buyDate === date) {
-           // If the lowest position was bought today, we can't sell it.
-           // Since positions are sorted by price, checking the next one might be valid,
-           // but usually we sell lowest price first. 
-           // If we strictly follow FIFO/Lowest Price logic, we should stop here or check next.
-           // If that candidate is "locked" because it was bought today, should we sell a higher priced one?
-           // Usually NO, because we want to maximize profit/stick to the plan.
-           // So we just skip selling for this loop iteration if the best candidate is locked.
-           
-           // However, let's see if we can sell OTHER positions.
-           // We need to find the first position that is NOT bought today AND meets sell criteria.
-           
-           const sellablePosIndex = positions.findIndex(p => p.buyDate !== date);
-           
-           if (sellablePosIndex === -1) {
-             // All positions were bought today, can't sell anything
-             break; // Exit sell loop
-           }
-           
-           // We found a position we can sell
-           const sellablePos = positions[sellablePosIndex];
-           // Use the position's specific threshold for sell target
-           // If bought at 10% dip, sell at 10% profit. If 5%, sell at 5%.
-           const sellThreshold = sellablePos.threshold || THRESHOLD;
-           const sellPrice = sellablePos.buyPrice * (1 + sellThreshold);
-           
-           if (high >= sellPrice) {
-              // SELL this position
-              const sellAmount = sellablePos.shares * sellPrice;
-              totalRealized += sellAmount; // Accumulate gross sales
-              
-              transactions.push({
-                date: date,
-                type: 'SELL',
-                price: sellPrice,
-                shares: sellablePos.shares,
-                amount: sellAmount,
-                boughtAt: sellablePos.buyPrice, // Changed from buyPrice to boughtAt for consistency
-                buyDate: sellablePos.buyDate,
-                profit: sellAmount - (sellablePos.shares * sellablePos.buyPrice),
-                threshold: sellThreshold // Track threshold used for sell
-              });
-              
-              // Remove this position
-              positions.splice(sellablePosIndex, 1);
-              
-              // Update reference
-              if (positions.length > 0) {
-                // Actually, logic says reference should be the sell price we just executed
-                reference = sellPrice;
-              } else {
-                // If no positions left, reference is the sell price
-                reference = sellPrice;
-                console.log(`${date}: After sell, no positions. Reference = ${reference.toFixed(2)}`);
-              }
-              
-              // Track highest sell price today
-              lastSellPriceToday = Math.max(lastSellPriceToday, sellPrice);
-              
-              // Track sell history
-              sellHistory.push(sellPrice);
-              if (sellHistory.length > 3) {
-                sellHistory.shift();
-              }
-              
-              actionTaken = true;
-              continue;
-           }
-        } else {
-            // Normal sell logic for position NOT bought today
-            // Use the position's specific threshold for sell target
-            const sellThreshold = pos.threshold || THRESHOLD;
-            const sellPrice = pos.buyPrice * (1 + sellThreshold);
-            
-            if (high >= sellPrice) {
-              // SELL this position
-              const sellAmount = pos.shares * sellPrice;
-              totalRealized += sellAmount; // Accumulate gross sales
-              
-              transactions.push({
-                date: date,
-                type: 'SELL',
-                price: sellPrice,
-                shares: pos.shares,
-                amount: sellAmount,
-                boughtAt: pos.buyPrice, // Changed from buyPrice to boughtAt for consistency
-                buyDate: pos.buyDate,
-                profit: sellAmount - (pos.shares * pos.buyPrice),
-                threshold: sellThreshold // Track threshold used for sell
-              });
-              
-              // Remove this position
-              positions.shift(); // Remove first element
-              
-              // Update reference
-              if (positions.length > 0) {
-                reference = sellPrice;
-              } else {
-                reference = sellPrice;
-                console.log(`${date}: After sell, no positions. Reference = ${reference.toFixed(2)}`);
-              }
-              
-              lastSellPriceToday = Math.max(lastSellPriceToday, sellPrice);
-              
-              sellHistory.push(sellPrice);
-              if (sellHistory.length > 3) {
-                sellHistory.shift();
-              }
-              
-              actionTaken = true;
-              continue;
-            }
-        }
-      }
-
-
-      /**
-       * STEP 2: CHECK FOR BUY TRIGGERS
-       * 
-       * Two sources of buy triggers:
-       * 1. Reference-based: 5% below current reference (last action) - ALWAYS checked
-       * 2. Sell history: 5% below ANY previous sell price - ONLY on first action of day
-       * 
-       * If we've already traded today, only use reference to avoid buying at similar prices
-       */
-      const potentialBuys: number[] = [];
-      //const hasTradestoday = buyPricesToday.size > 0 || lastSellPriceToday > 0;
-      const MAX_POSITIONS = 5;
-
-      // Determine dynamic threshold based on number of positions
-      // 0-2 positions: 5% drop
-      // 3 positions: 10% drop (for the 4th buy)
-      // 4 positions: 20% drop (for the 5th buy)
-      let currentThreshold = THRESHOLD; // Default 5%
-      
-      if (positions.length === 3) {
-        currentThreshold = 0.10;
-      } else if (positions.length >= 4) {
-        currentThreshold = 0.20;
-      }
-
-      // Check if we have reached the maximum number of positions
-      if (positions.length >= MAX_POSITIONS) {
-        // Skip buy logic if we are at capacity
-        // We still continue the loop to check for sells (which we already did in Step 1)
-        // So we just break the loop if no action was taken in Step 1
-        if (!actionTaken) break;
-      } else {
-        // 1. Check reference-based buy
-        const refBuyPrice = reference * (1 - currentThreshold);
-        
-        // Check if reference buy price is reachable (LOW <= BuyPrice)
-        if (low <= refBuyPrice) {
-          // Check for GAP DOWN (Target > HIGH)
-          if (refBuyPrice > high) {
-            // GAP DOWN DETECTED
-            // Buy at CLOSE price
-            const executionPrice = parsePrice(row.CLOSE);
-            console.log(`${date}: GAP DOWN! Target ${refBuyPrice.toFixed(2)} > High ${high.toFixed(2)}. Buying at CLOSE ${executionPrice.toFixed(2)}`);
-            
-            if (!lastSellPriceToday && !buyPricesToday.has(executionPrice)) {
-               potentialBuys.push(executionPrice);
-            }
-          } else {
-            // Normal Buy (Price reached target within range)
-            if (!lastSellPriceToday && !buyPricesToday.has(refBuyPrice)) {
-              // Check if we already have a position at this exact price
-              if (!potentialBuys.some(p => Math.abs(p - refBuyPrice) < 0.01)) {
-                 potentialBuys.push(refBuyPrice);
-              }
-            }
-          }
-        }
-      }
-      
-      /* 
-      // 2. Check sell history ONLY if no trades today yet
-      // DISABLED: User requested to disable this to simplify logic and rely only on Reference.
-      if (!hasTradestoday) {
-        for (const sellPrice of sellHistory) {
-          // Use the same dynamic threshold for sell history buys too
-          const targetBuyPrice = sellPrice * (1 - currentThreshold);
-          
-          // Check if this buy price is reachable
-          if (low <= targetBuyPrice) {
-            // Check for GAP DOWN (Target > HIGH)
-            let executionPrice = targetBuyPrice;
-            
-            if (targetBuyPrice > high) {
-               // GAP DOWN for Sell History
-               // Buy at CLOSE price
-               executionPrice = parsePrice(row.CLOSE);
-               console.log(`${date}: GAP DOWN (History)! Target ${targetBuyPrice.toFixed(2)} > High ${high.toFixed(2)}. Buying at CLOSE ${executionPrice.toFixed(2)}`);
-            }
-            
-            // Prevent buy-sell loops: Don't buy on same day after selling everything
-            // AND don't buy higher than we sold today
-            if (lastSellPriceToday > 0) {
-              if (executionPrice >= lastSellPriceToday) {
-                continue;
-              }
-              
-              // We sold everything today, don't buy again today
-              // This prevents infinite cascading loops
-              if (positions.length === 0) {
-                continue;
-              }
-            }
-            
-            // IMPORTANT: Only buy LOWER than reference (we buy on dips, not rallies)
-            if (executionPrice >= reference) {
-              continue; // Skip this buy
-            }
-            
-            // Check minimum gap from last buy (reference)
-            // If we are in 10% mode, we should ensure the new buy is significantly lower than the last buy
-            // We use currentThreshold - 1% as the minimum gap to allow for slight variations
-            // e.g. if threshold is 10%, we want at least 9% gap from last buy
-            const minGap = currentThreshold - 0.01;
-            const gapFromLastBuy = Math.abs(reference - executionPrice) / reference;
-            
-            if (gapFromLastBuy >= minGap) {
-              // Check if we haven't already added this price
-              if (!potentialBuys.some(p => Math.abs(p - executionPrice) < 0.01)) {
-                potentialBuys.push(executionPrice);
-              }
-            }
-          }
-        }
-        
-        // If we have multiple potential buys from sell history, only take the LOWEST
-        // This prevents buying at very similar prices (e.g., ₹994.91 and ₹997.40)
-        if (potentialBuys.length > 1) {
-          potentialBuys.sort((a, b) => a - b);
-          // Keep only the lowest one
-          const lowest = potentialBuys[0];
-          potentialBuys.length = 0;
-          potentialBuys.push(lowest);
-        }
-      }
-      */
-
-      // Execute all potential buys (sorted lowest to highest)
-      if (potentialBuys.length > 0) {
-        potentialBuys.sort((a, b) => a - b);
-
-        for (const buyPrice of potentialBuys) {
-          // Check if we already have a position at this price
-          const existingAtLevel = positions.find(p => 
-            Math.abs(p.buyPrice - buyPrice) < 0.01
-          );
-
-          // Check if we already bought at this price today (even if we sold it)
-          const boughtTodayAtLevel = buyPricesToday.has(buyPrice);
-
-          if (!existingAtLevel && !boughtTodayAtLevel) {
-            // BUY at this price
-            const shares = Math.floor(LOT_SIZE / buyPrice);
-            
-            positions.push({
-              buyPrice: buyPrice,
-              shares: shares,
-              date: date, // Fix: Add date property
-              buyDate: date,
-              threshold: currentThreshold // Track threshold
-            });
-            totalInvested += shares * buyPrice;
-            
-            transactions.push({
-              date: date,
-              type: 'BUY',
-              price: buyPrice,
-              shares: shares,
-              amount: shares * buyPrice,
-              threshold: currentThreshold // Track threshold
-            });
-            
-            // Track that we bought at this price today
-            buyPricesToday.add(buyPrice);
-            
-            // Update reference to the new buy price
-            reference = buyPrice;
-            
-            console.log(`${date}: BOUGHT at ${buyPrice.toFixed(2)} (Threshold: ${(currentThreshold*100).toFixed(0)}%), new reference = ${reference.toFixed(2)}`);
-            
-            actionTaken = true; // We took an action, continue loop
-          }
-        }
-
-        // If we executed any buys, continue the loop
-        if (actionTaken) {
-          continue;
-        }
-      }
-
-      // If we reach here, no action was taken, exit the while loop
+
+    const reason = sized && config.sizing.mode !== 'fixed-amount' ? `${order.reason} (${fill.shares} shares: ${sized.basis})` : order.reason;
+    const eventId = record({ type: order.type ?? 'buy', price, causeId: referenceEventId, reason });
+    const position: Position = {
+      buyPrice: price,
+      shares: fill.shares,
+      date: date,
+      buyDate: date,
+      threshold: order.threshold,
+      costBasis: fill.netAmount,
+      buyEventId: eventId,
+      sizingRule
+    };
+    positions.push(position);
+    state.totalInvested += fill.netAmount;
+    state.started = true;
+
+    const transaction: Transaction = {
+      date: date,
+      type: 'BUY',
+      price: fill.price,
+      shares: fill.shares,
+      amount: fill.grossAmount,
+      threshold: order.threshold,
+      triggerPrice: fill.price !== price ? price : undefined,
+      grossAmount: fill.grossAmount,
+      fees: fill.fees,
+      netAmount: fill.netAmount,
+      eventId,
+      fillReason: order.fill ?? 'trigger',
+      sizingRule
+    };
+    transactions.push(transaction);
+    afterFill(state, transaction);
+    return position;
+  };
+
+  /**
+   * SELL
+   * Filter rules only hold a lot at its target; stops and the other
+   * exits always go through
+   */
+  const sell = (position: Position, price: number, order: SellOrder): Transaction | null => {
+    const held = (order.exit ?? 'target') === 'target' && context.indicators && heldBy(config.filters, 'SELL', context.indicators);
+    if (held) {
+      record({
+        type: 'sell-filtered',
+        price,
+        causeId: position.buyEventId,
+        ruleId: held.rule.id,
+        reason: `Sell at ${rupees(price)} of the lot bought at ${rupees(position.buyPrice)} on ${position.buyDate} held by ${held.rule.id} (${describeRule(held.rule)}): ${held.detail}`
+      });
+      return null;
     }
+    return sellLot(state, config, context, date, position, price, order);
+  };
+
+  /**
+   * EXIT RULES
+   * Stops and time limits go before the strategy trades, so a lot stopped
+   * out today is not also sold at its target
+   */
+  for (const exit of dueExits(positions, bar, config.exits, config.gapFill)) {
+    sell(exit.position, exit.fill.price, { reason: exit.reason, fill: exit.fill.reason, exit: exit.type });
   }
 
+  strategy.onBar(bar, {
+    positions,
+    path: context.path,
+    lastBar: !!context.lastBar,
+    buy,
+    sell,
+    record
+  });
 
-  console.log('\n=== BACKTEST SUMMARY ===');
-  console.log('Total transactions:', transactions.length);
-  console.log('Final reference:', reference.toFixed(2));
-  console.log('Final positions:', positions.length);
-  console.log('Last 5 days of data:');
-  for (let i = Math.max(0, sortedData.length - 5); i < sortedData.length; i++) {
-    const row = sortedData[i];
-    console.log(`  ${row.DATE}: HIGH=${parsePrice(row.HIGH).toFixed(2)}, LOW=${parsePrice(row.LOW).toFixed(2)}`);
+  /**
+   * END OF DAY MARK
+   * Track the capital tied up in open lots and the drawdown of
+   * realized + unrealized P/L at today's CLOSE (lots carry their buy fees)
+   * Days before the first lot was bought are not marked
+   */
+  updateAtr(state, bar, config.sizing.atrPeriod);
+  state.lastClose = close;
+  if (!state.started) return;
+  trackLots(positions, close);
+
+  let capitalDeployed = 0;
+  let unrealizedProfit = 0;
+  for (const pos of positions) {
+    capitalDeployed += lotCost(pos);
+    unrealizedProfit += pos.shares * close - lotCost(pos);
+  }
+  const equity = state.realizedProfit + state.dividendIncome + unrealizedProfit;
+  state.peakCapitalDeployed = Math.max(state.peakCapitalDeployed, capitalDeployed);
+  state.peakEquity = Math.max(state.peakEquity, equity);
+  state.maxDrawdown = Math.max(state.maxDrawdown, state.peakEquity - equity);
+
+  state.dailySeries.push({
+    date,
+    close,
+    reference: strategy.getState().reference ?? 0,
+    openPositions: positions.length,
+    capitalDeployed,
+    cumulativeRealizedPL: state.realizedProfit,
+    equity
+  });
+
+  state.cutPeakEquity = Math.max(state.cutPeakEquity, equity);
+  const { drawdownCut } = config.exits;
+  if (config.exits.enabled && drawdownCut > 0 && positions.length > 0 && state.cutPeakEquity - equity > drawdownCut) {
+    cutAllLots(state, config, context, date, close,
+      `P/L ${rupees(equity)} is ${rupees(state.cutPeakEquity - equity)} under its peak ${rupees(state.cutPeakEquity)} (cut at ${rupees(drawdownCut)}): sold at the CLOSE`);
   }
-  console.log('Buy trigger would be:', (reference * 0.95).toFixed(2));
+};
 
+/**
+ * Run a strategy over one symbol's daily bars
+ * Which strategy is config.strategy; the reference-based V2 rules by default
+ */
+export const runBacktest = (
+  data: PriceBar[],
+  config: StrategyConfig = DEFAULT_STRATEGY_CONFIG,
+  options: BacktestOptions = {}
+): BacktestResults => {
+  /**
+   * Sort by date to process chronologically
+   * Imports are already oldest first; sorting keeps hand-built arrays safe too
+   */
+  const sortedData = [...data].sort((a, b) => a.time - b.time);
+  const actions = actionsByBar(sortedData, options.corporateActions ?? []);
+  const indicators = indicatorsByBar(sortedData, config.filters, actions); // Computed once, over the whole dataset
 
   /**
-   * CALCULATE FINAL RESULTS
-   * 
-   * After processing all days:
-   * 1. Calculate current value of remaining positions using last CLOSE price
-   * 2. Total value = realized (from sells) + current (from holdings)
-   * 3. Total profit = total value - total invested
-   * 4. Profit percentage = (profit / invested) × 100
+   * CARRIED-OVER STATE
+   * A run can pick up where an earlier one stopped, with new settings:
+   * open lots and P/L stay, and the strategy is rebuilt for this config
+   * from the reference the old one left behind.
    */
-  const lastClose = parsePrice(sortedData[sortedData.length - 1].CLOSE);
+  const state = options.state ?? createEngineState(config);
+  if (options.state) state.strategy = createStrategy(config, state.strategy.getState());
+
+  const first = options.from !== undefined ? sortedData.findIndex(bar => bar.time >= options.from!) : 0;
+  let last = sortedData.length - 1;
+  while (options.to !== undefined && last >= 0 && sortedData[last].time > options.to) last--;
+  if (first < 0 || last < first) {
+    throw new Error('No price data in the selected date range');
+  }
+
+
+  /**
+   * MAIN PROCESSING LOOP
+   * Process each day in the dataset chronologically
+   */
+  for (let i = first; i <= last; i++) {
+    processDay(state, sortedData[i], config, {
+      logger: options.logger,
+      actions: actions.get(sortedData[i].time),
+      path: options.intraday?.get(sortedData[i].time),
+      lastBar: i === sortedData.length - 1,
+      indicators: indicators.get(sortedData[i].time)
+    });
+  }
+
+
+  // A continued run reports from the first day the carried state traded
+  const startDate = options.state?.dailySeries[0]?.date ?? sortedData[first].date;
+  return buildResults(state, startDate, sortedData[last].date);
+};
+
+
+/**
+ * Annualized ROI based on user formula
+ * (total_days/365)) = days_in_year (actually years elapsed)
+ * avg_profit = profit_loss/days_in_year (annualized profit)
+ * result = (avg_profit*100)/base
+ *
+ * base is the capital the strategy actually needed: peak capital deployed
+ * for a single symbol, the shared pool for a portfolio
+ */
+export const annualizeROI = (profit: number, startDate: string, endDate: string, base: number): number => {
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+  const timeDiff = Math.abs(end.getTime() - start.getTime());
+  const totalDays = Math.ceil(timeDiff / (1000 * 3600 * 24));
+
+  const yearsElapsed = totalDays / 365;
+  const annualizedProfit = yearsElapsed > 0 ? profit / yearsElapsed : 0;
+  return (annualizedProfit * 100) / base;
+};
+
+
+/**
+ * CALCULATE FINAL RESULTS
+ * 
+ * After processing all days:
+ * 1. Calculate current value of remaining positions using last CLOSE price
+ * 2. Total value = realized (from sells) + current (from holdings) + dividends
+ * 3. Total profit = realized profit from sells + dividends
+ * 4. Profit percentage = (profit / invested) × 100
+ */
+export const buildResults = (state: EngineState, startDate: string, endDate: string): BacktestResults => {
+  const { positions, transactions, totalInvested, totalRealized, lastClose, dividendIncome } = state;
   let currentValue = 0;
 
   for (const pos of positions) {
@@ -536,26 +538,16 @@ export const runBacktest = (data: StockData[]): BacktestResults => {
   // Calculate Realized Profit Only (Sum of profits from SELL transactions)
   const realizedProfitOnly = transactions.reduce((sum, t) => sum + (t.profit || 0), 0);
 
-  const totalValue = totalRealized + currentValue;
+  const totalValue = totalRealized + currentValue + dividendIncome;
   
   // User requested to EXCLUDE unrealized profit/loss from total profit
-  const totalProfit = realizedProfitOnly;
+  // Dividends are cash received, so they count
+  const totalProfit = realizedProfitOnly + dividendIncome;
   
   const profitPercentage = totalInvested > 0 ? (totalProfit / totalInvested) * 100 : 0;
 
-  // Calculate Annualized ROI based on user formula
-  // (total_days/365)) = days_in_year (actually years elapsed)
-  // avg_profit = profit_loss/days_in_year (annualized profit)
-  // result = (avg_profit*100)/35000
-  
-  const startDate = new Date(sortedData[0].DATE);
-  const endDate = new Date(sortedData[sortedData.length - 1].DATE);
-  const timeDiff = Math.abs(endDate.getTime() - startDate.getTime());
-  const totalDays = Math.ceil(timeDiff / (1000 * 3600 * 24)); 
-  
-  const yearsElapsed = totalDays / 365;
-  const annualizedProfit = yearsElapsed > 0 ? totalProfit / yearsElapsed : 0;
-  const annualizedROI = (annualizedProfit * 100) / 350000;
+  const roiBase = state.peakCapitalDeployed;
+  const annualizedROI = roiBase > 0 ? annualizeROI(totalProfit, startDate, endDate, roiBase) : 0;
 
   /**
    * RETURN RESULTS
@@ -572,10 +564,17 @@ export const runBacktest = (data: StockData[]): BacktestResults => {
     totalTrades: transactions.length,
     currentPrice: lastClose,
     annualizedROI, // Add this to the return object
-    startDate: sortedData[0].DATE,
-    endDate: sortedData[sortedData.length - 1].DATE
+    roiBase,
+    peakCapitalDeployed: state.peakCapitalDeployed,
+    maxDrawdown: state.maxDrawdown,
+    dailySeries: state.dailySeries,
+    dividendIncome,
+    corporateActions: state.corporateActions,
+    events: state.events,
+    startDate,
+    endDate
   };
 };
 
 
-export default runBacktest;
\ No newline at end of file
+export default runBacktest;
@@ -0,0 +1,218 @@
+import type {
+  BacktestResults,
+  BenchmarkComparison,
+  BenchmarkKind,
+  BenchmarkPoint,
+  BenchmarkResult,
+  CorporateAction,
+  IndexSeries,
+  PriceBar,
+  SymbolDataset
+} from '../types';
+import { annualizeROI } from './backtestEngineV2';
+import { actionsByBar, actionsForSymbol, shareFactor } from './corporateActions';
+
+/**
+ * Benchmarks
+ *
+ * Passive alternatives to the strategy over the same dates, each given the
+ * strategy's peak capital deployed:
+ * - Buy-and-hold: the whole amount at the first open, split evenly across symbols
+ * - SIP: the same amount in equal monthly instalments on each month's first trading day
+ * - Index: the whole amount in an uploaded index file, e.g. NIFTY 50
+ *
+ * Benchmarks buy fractional units with no fees, take dividends as cash and
+ * follow splits and bonuses, so they are the best a passive investor could do.
+ * Equity is value minus money put in so far, the same measure as
+ * DailySnapshot.equity, and ROI is annualized on the full capital for all.
+ */
+
+interface Holding {
+  bars: PriceBar[];
+  actions: Map<number, CorporateAction[]>;
+  next: number; // Index of the first bar not yet processed
+  shares: number;
+  cash: number; // Dividends received plus money waiting for the next open
+  pending: number; // Part of cash to invest at the next open
+  lastClose: number;
+}
+
+const createHolding = (bars: PriceBar[], actions: CorporateAction[] = []): Holding => ({
+  bars,
+  actions: actionsByBar(bars, actions),
+  next: 0,
+  shares: 0,
+  cash: 0,
+  pending: 0,
+  lastClose: 0
+});
+
+/**
+ * Process a holding's bars up to and including `time`
+ * Files need not share dates: a bar between two timeline days is caught
+ * up on the later one, and a day with no bar carries the last close.
+ */
+const advance = (holding: Holding, time: number) => {
+  while (holding.next < holding.bars.length && holding.bars[holding.next].time <= time) {
+    const bar = holding.bars[holding.next++];
+    for (const action of holding.actions.get(bar.time) ?? []) {
+      if (action.type === 'dividend') holding.cash += holding.shares * (action.amount ?? 0);
+      else holding.shares *= shareFactor(action);
+    }
+    if (holding.pending > 0 && bar.open > 0) {
+      holding.shares += holding.pending / bar.open;
+      holding.cash -= holding.pending;
+      holding.pending = 0;
+    }
+    holding.lastClose = bar.close;
+  }
+};
+
+/**
+ * Run a passive plan: `contributions` maps a timeline time to the ₹ added
+ * that day, shared evenly across the holdings and bought at their next open
+ */
+const simulatePassive = (
+  timeline: PriceBar[],
+  holdings: Holding[],
+  contributions: Map<number, number>
+): { series: BenchmarkPoint[]; invested: number } => {
+  const series: BenchmarkPoint[] = [];
+  let invested = 0;
+
+  for (const day of timeline) {
+    const amount = contributions.get(day.time) ?? 0;
+    if (amount > 0) {
+      invested += amount;
+      for (const holding of holdings) {
+        holding.cash += amount / holdings.length;
+        holding.pending += amount / holdings.length;
+      }
+    }
+
+    let value = 0;
+    for (const holding of holdings) {
+      advance(holding, day.time);
+      value += holding.shares * holding.lastClose + holding.cash;
+    }
+    series.push({ date: day.date, equity: value - invested });
+  }
+
+  return { series, invested };
+};
+
+/**
+ * Largest ₹ fall from the equity peak, the peak starting at zero as the engine's does
+ */
+const maxDrawdownOf = (equities: number[]): number => {
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const equity of equities) {
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+  }
+  return maxDrawdown;
+};
+
+/**
+ * First trading day of each calendar month in the timeline
+ */
+const monthStarts = (timeline: PriceBar[]): PriceBar[] => {
+  const seen = new Set<string>();
+  return timeline.filter(day => {
+    const date = new Date(day.time);
+    const month = `${date.getUTCFullYear()}-${date.getUTCMonth()}`;
+    if (seen.has(month)) return false;
+    seen.add(month);
+    return true;
+  });
+};
+
+/**
+ * Compare the strategy with buy-and-hold, a monthly SIP and, when given, an index
+ * null when the run never deployed capital or has no daily series
+ */
+export const computeBenchmarks = (
+  results: BacktestResults,
+  datasets: SymbolDataset[],
+  corporateActions: CorporateAction[] = [],
+  index?: IndexSeries
+): BenchmarkComparison | null => {
+  const dailySeries = results.dailySeries ?? [];
+  const capital = results.peakCapitalDeployed || results.roiBase || 0;
+  if (dailySeries.length === 0 || capital <= 0 || datasets.length === 0) return null;
+
+  // Every trading day of any symbol, oldest first
+  const byTime = new Map<number, PriceBar>();
+  for (const { data } of datasets) {
+    for (const bar of data) if (!byTime.has(bar.time)) byTime.set(bar.time, bar);
+  }
+  const timeline = [...byTime.values()].sort((a, b) => a.time - b.time);
+  const startDate = timeline[0].date;
+  const endDate = timeline[timeline.length - 1].date;
+
+  // Strategy equity on each timeline day, zero before its first trade
+  const strategyByDate = new Map(dailySeries.map(day => [day.date, day.equity]));
+  let carried = 0;
+  const strategyEquity = timeline.map(day => (carried = strategyByDate.get(day.date) ?? carried));
+  const strategyProfit = strategyEquity[strategyEquity.length - 1];
+  const strategyROI = annualizeROI(strategyProfit, startDate, endDate, capital);
+  const strategyMaxDrawdown = maxDrawdownOf(strategyEquity);
+
+  const symbolHoldings = () =>
+    datasets.map(({ symbol, data }) => createHolding(
+      [...data].sort((a, b) => a.time - b.time),
+      actionsForSymbol(corporateActions, symbol)
+    ));
+
+  const build = (kind: BenchmarkKind, label: string, run: { series: BenchmarkPoint[]; invested: number }): BenchmarkResult => {
+    const profit = run.series[run.series.length - 1].equity;
+    const annualizedROI = annualizeROI(profit, startDate, endDate, capital);
+    const maxDrawdown = maxDrawdownOf(run.series.map(point => point.equity));
+    return {
+      kind,
+      label,
+      invested: run.invested,
+      profit,
+      returnPercent: (profit / capital) * 100,
+      annualizedROI,
+      maxDrawdown,
+      alpha: strategyROI - annualizedROI,
+      relativeDrawdown: maxDrawdown > 0 ? strategyMaxDrawdown / maxDrawdown : null,
+      series: run.series
+    };
+  };
+
+  const months = monthStarts(timeline);
+  const benchmarks = [
+    build('buy-and-hold', 'Buy & Hold', simulatePassive(timeline, symbolHoldings(), new Map([[timeline[0].time, capital]]))),
+    build('sip', 'Monthly SIP', simulatePassive(
+      timeline,
+      symbolHoldings(),
+      new Map(months.map(day => [day.time, capital / months.length]))
+    ))
+  ];
+
+  if (index) {
+    // Bars before the run would buy the index at an older price
+    const indexBars = index.bars.filter(bar => bar.time >= timeline[0].time).sort((a, b) => a.time - b.time);
+    benchmarks.push(build('index', index.name, simulatePassive(
+      timeline,
+      [createHolding(indexBars)],
+      new Map([[timeline[0].time, capital]])
+    )));
+  }
+
+  return {
+    capital,
+    startDate,
+    endDate,
+    strategyProfit,
+    strategyROI,
+    strategyMaxDrawdown,
+    strategySeries: timeline.map((day, idx) => ({ date: day.date, equity: strategyEquity[idx] })),
+    benchmarks
+  };
+};
+
+export default computeBenchmarks;
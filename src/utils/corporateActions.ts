@@ -0,0 +1,243 @@
+import type { CorporateAction, CorporateActionType, DateOrder, ImportIssue, PriceBar, RawCsv, SuspectedSplit } from '../types';
+import { detectDateOrder, formatBarDate, normalizeHeader, parseDate, parseNumber } from './csvFormats';
+
+/**
+ * Corporate Actions
+ *
+ * Splits, bonuses and dividends entered by hand or read from a CSV.
+ * Price files are raw (unadjusted), so the engine adjusts the open lots
+ * on each ex-date instead of rewriting history; see processDay.
+ */
+
+export const SUSPECT_GAP = 0.3; // Overnight fall that looks more like a split than a sell-off
+const RATIO_TOLERANCE = 0.08; // How far the gap may be from an exact ratio and still suggest it
+
+/**
+ * Common Indian ratios, by the price factor they produce
+ */
+const COMMON_RATIOS: { factor: number; type: 'split' | 'bonus'; ratio: [number, number] }[] = [
+  { factor: 1.5, type: 'bonus', ratio: [1, 2] },
+  { factor: 2, type: 'split', ratio: [1, 2] },
+  { factor: 3, type: 'bonus', ratio: [2, 1] },
+  { factor: 4, type: 'split', ratio: [1, 4] },
+  { factor: 5, type: 'split', ratio: [1, 5] },
+  { factor: 10, type: 'split', ratio: [1, 10] }
+];
+
+/**
+ * Shares held after the action for every share held before
+ * Split 1:5 → 5; bonus 1:2 → 1.5; dividends leave the count alone
+ */
+export const shareFactor = (action: CorporateAction): number => {
+  if (!action.ratio) return 1;
+  const [first, second] = action.ratio;
+  if (first <= 0 || second <= 0) return 1;
+  return action.type === 'split' ? second / first : action.type === 'bonus' ? (first + second) / second : 1;
+};
+
+/**
+ * Short label for tables: "Split 1:5", "Bonus 1:1", "Dividend ₹8.00/share"
+ */
+export const describeAction = (action: CorporateAction): string => {
+  if (action.type === 'dividend') return `Dividend ₹${(action.amount ?? 0).toFixed(2)}/share`;
+  const ratio = action.ratio ? `${action.ratio[0]}:${action.ratio[1]}` : '?';
+  return `${action.type === 'split' ? 'Split' : 'Bonus'} ${ratio}`;
+};
+
+/**
+ * "1:5", "1 : 5", "1/5"; a lone number n is read as 1:n
+ */
+export const parseRatio = (text: string | undefined): [number, number] | null => {
+  if (!text) return null;
+  const match = /^\s*([\d.]+)\s*[:/]\s*([\d.]+)\s*$/.exec(text);
+  const pair: [number, number] = match ? [+match[1], +match[2]] : [1, parseNumber(text)];
+  return pair.every(n => Number.isFinite(n) && n > 0) ? pair : null;
+};
+
+const RUPEES = String.raw`(?:rs\.?|re\.?|inr|₹)\s*([\d.]+)`;
+
+/**
+ * Read the PURPOSE text of an NSE corporate actions export
+ * "Bonus 1:1", "Face Value Split (Sub-Division) - From Rs 10/- Per Share To Rs 2/- Per Share",
+ * "Interim Dividend - Rs 8 Per Share". One purpose can hold several actions.
+ */
+export const parsePurpose = (purpose: string): Pick<CorporateAction, 'type' | 'ratio' | 'amount'>[] => {
+  const found: Pick<CorporateAction, 'type' | 'ratio' | 'amount'>[] = [];
+
+  const bonus = /bonus\s*(\d+)\s*:\s*(\d+)/i.exec(purpose);
+  if (bonus) found.push({ type: 'bonus', ratio: [+bonus[1], +bonus[2]] });
+
+  if (/split|sub-?division/i.test(purpose)) {
+    const faceValues = new RegExp(`from\\s*${RUPEES}.*?to\\s*${RUPEES}`, 'i').exec(purpose);
+    if (faceValues && +faceValues[1] > 0 && +faceValues[2] > 0) {
+      found.push({ type: 'split', ratio: [1, +faceValues[1] / +faceValues[2]] });
+    }
+  }
+
+  if (/dividend/i.test(purpose)) {
+    const amounts = [...purpose.matchAll(new RegExp(`${RUPEES}\\s*(?:/-\\s*)?per\\s*share`, 'gi'))];
+    const amount = amounts.reduce((sum, m) => sum + +m[1], 0);
+    if (amount > 0) found.push({ type: 'dividend', amount });
+  }
+  return found;
+};
+
+const ACTION_TYPES: Record<string, CorporateActionType> = {
+  SPLIT: 'split',
+  'SUB-DIVISION': 'split',
+  SUBDIVISION: 'split',
+  BONUS: 'bonus',
+  DIVIDEND: 'dividend'
+};
+
+const findColumn = (headers: string[], accepted: string[]): string | undefined =>
+  headers.find(h => accepted.includes(normalizeHeader(h)));
+
+/**
+ * Corporate actions from a CSV
+ *
+ * Two layouts are understood:
+ * - NSE corporate actions export: SYMBOL, PURPOSE, EX-DATE
+ * - a plain sheet: Symbol (optional), Ex Date, Type, Ratio, Amount
+ *
+ * Rows that cannot be read are reported and skipped.
+ */
+export const parseCorporateActions = (
+  raw: RawCsv,
+  dateOrder?: DateOrder
+): { actions: CorporateAction[]; issues: ImportIssue[] } => {
+  const { headers, rows } = raw;
+  const dateColumn = findColumn(headers, ['EX-DATE', 'EX DATE', 'EXDATE', 'DATE']);
+  const symbolColumn = findColumn(headers, ['SYMBOL', 'TICKER']);
+  const purposeColumn = findColumn(headers, ['PURPOSE', 'SUBJECT']);
+  const typeColumn = findColumn(headers, ['TYPE', 'ACTION']);
+  const ratioColumn = findColumn(headers, ['RATIO']);
+  const amountColumn = findColumn(headers, ['AMOUNT', 'DIVIDEND']);
+
+  const actions: CorporateAction[] = [];
+  const issues: ImportIssue[] = [];
+
+  if (!dateColumn || (!purposeColumn && !typeColumn)) {
+    issues.push({ row: null, severity: 'error', message: 'Need an ex-date column and either PURPOSE or Type' });
+    return { actions, issues };
+  }
+
+  const order = dateOrder ?? detectDateOrder(rows.map(row => row[dateColumn] ?? ''));
+
+  rows.forEach((row, idx) => {
+    const line = idx + 2; // Header is line 1
+    const dateText = row[dateColumn] ?? '';
+    const time = parseDate(dateText, order);
+    if (time === null) {
+      issues.push({ row: line, severity: 'error', message: `Unrecognized ex-date '${dateText}'` });
+      return;
+    }
+    const exDate = formatBarDate(time);
+    const symbol = (symbolColumn && row[symbolColumn]?.trim()) || undefined;
+
+    if (purposeColumn) {
+      const parts = parsePurpose(row[purposeColumn] ?? '');
+      if (parts.length === 0) {
+        issues.push({ row: line, date: exDate, severity: 'warning', message: `No split, bonus or dividend in '${row[purposeColumn] ?? ''}'` });
+      }
+      parts.forEach(part => actions.push({ symbol, exDate, time, ...part }));
+      return;
+    }
+
+    const typeText = row[typeColumn!]?.trim() ?? '';
+    const type = ACTION_TYPES[typeText.toUpperCase()];
+    if (!type) {
+      issues.push({ row: line, date: exDate, severity: 'error', message: `Unknown action type '${typeText}'` });
+      return;
+    }
+
+    if (type === 'dividend') {
+      const amount = parseNumber(amountColumn ? row[amountColumn] : undefined);
+      if (!Number.isFinite(amount) || amount <= 0) {
+        issues.push({ row: line, date: exDate, severity: 'error', message: 'Dividend needs a positive amount per share' });
+        return;
+      }
+      actions.push({ symbol, exDate, time, type, amount });
+      return;
+    }
+
+    const ratio = parseRatio(ratioColumn ? row[ratioColumn] : undefined);
+    if (!ratio) {
+      issues.push({ row: line, date: exDate, severity: 'error', message: `${typeText} needs a ratio like 1:2` });
+      return;
+    }
+    actions.push({ symbol, exDate, time, type, ratio });
+  });
+
+  return { actions: sortActions(actions), issues };
+};
+
+/**
+ * Chronological, splits and bonuses before dividends on the same day
+ * (a dividend declared with a bonus is paid on the enlarged holding)
+ */
+export const sortActions = (actions: CorporateAction[]): CorporateAction[] =>
+  [...actions].sort((a, b) => a.time - b.time || Number(a.type === 'dividend') - Number(b.type === 'dividend'));
+
+/**
+ * Actions that apply to one symbol: its own, plus those with no symbol
+ */
+export const actionsForSymbol = (actions: CorporateAction[], symbol: string): CorporateAction[] =>
+  actions.filter(a => !a.symbol || a.symbol.toUpperCase() === symbol.toUpperCase());
+
+/**
+ * Group actions by the bar they take effect on
+ * That is the first bar on or after the ex-date; actions before the
+ * first bar are already in the prices and actions after the last are dropped.
+ */
+export const actionsByBar = (bars: PriceBar[], actions: CorporateAction[]): Map<number, CorporateAction[]> => {
+  const byBar = new Map<number, CorporateAction[]>();
+  if (bars.length === 0) return byBar;
+
+  for (const action of sortActions(actions)) {
+    if (action.time <= bars[0].time) continue;
+    const bar = bars.find(b => b.time >= action.time);
+    if (!bar) continue;
+    byBar.set(bar.time, [...(byBar.get(bar.time) ?? []), action]);
+  }
+  return byBar;
+};
+
+/**
+ * Overnight falls of SUSPECT_GAP or more with no split or bonus recorded
+ * between the two bars. Each comes with the nearest common ratio when the
+ * size of the gap matches one, which is usually the unrecorded action.
+ */
+export const detectSuspectedSplits = (
+  symbol: string,
+  bars: PriceBar[],
+  actions: CorporateAction[]
+): SuspectedSplit[] => {
+  const adjusting = actionsForSymbol(actions, symbol).filter(a => a.type !== 'dividend');
+  const suspects: SuspectedSplit[] = [];
+
+  for (let i = 1; i < bars.length; i++) {
+    const prev = bars[i - 1];
+    const bar = bars[i];
+    const change = bar.open / prev.close - 1;
+    if (change > -SUSPECT_GAP) continue;
+    if (adjusting.some(a => a.time > prev.time && a.time <= bar.time)) continue;
+
+    const factor = prev.close / bar.open;
+    const nearest = COMMON_RATIOS.reduce((best, r) =>
+      Math.abs(factor / r.factor - 1) < Math.abs(factor / best.factor - 1) ? r : best
+    );
+    suspects.push({
+      symbol,
+      date: bar.date,
+      time: bar.time,
+      prevClose: prev.close,
+      open: bar.open,
+      change,
+      likely: Math.abs(factor / nearest.factor - 1) <= RATIO_TOLERANCE
+        ? { type: nearest.type, ratio: nearest.ratio }
+        : undefined
+    });
+  }
+  return suspects;
+};
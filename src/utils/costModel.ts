@@ -0,0 +1,136 @@
+import type { CostModelConfig, FeeBreakdown, Position } from '../types';
+
+/**
+ * Transaction Cost Model for Indian Equities (delivery)
+ *
+ * Applied to every fill the engine makes:
+ * - Slippage moves the fill price against us (buys higher, sells lower)
+ * - Brokerage: flat ₹ per order, or a percentage of turnover with a cap
+ * - STT on both sides, exchange transaction charges, SEBI turnover fees
+ * - Stamp duty on buys only, DP charges on sells only
+ * - GST on brokerage + exchange charges + SEBI fees
+ *
+ * Rates default to NSE delivery charges; disabled by default so existing
+ * results are unchanged until costs are switched on.
+ */
+export const DEFAULT_COST_MODEL: CostModelConfig = {
+  enabled: false,
+  brokerageType: 'percent',
+  brokerageFlat: 20,
+  brokeragePercent: 0.0003,       // 0.03%
+  brokerageCap: 20,               // ₹20 per order
+  sttPercent: 0.001,              // 0.1%
+  exchangeChargesPercent: 0.0000297, // NSE 0.00297%
+  sebiFeesPerCrore: 10,
+  stampDutyPercent: 0.00015,      // 0.015%
+  gstPercent: 0.18,
+  dpChargesPerSell: 15.93,
+  slippageType: 'bps',
+  slippageValue: 5,
+  tickSize: 0.05
+};
+
+export interface CostedFill {
+  price: number; // Fill price after slippage
+  grossAmount: number;
+  fees: FeeBreakdown;
+  netAmount: number;
+}
+
+const ZERO_FEES: FeeBreakdown = {
+  brokerage: 0,
+  stt: 0,
+  exchangeCharges: 0,
+  sebiFees: 0,
+  stampDuty: 0,
+  gst: 0,
+  dpCharges: 0,
+  total: 0,
+  slippage: 0
+};
+
+/**
+ * Fill price after slippage against the order
+ */
+export const applySlippage = (side: 'BUY' | 'SELL', price: number, costs: CostModelConfig): number => {
+  if (!costs.enabled || costs.slippageValue === 0) return price;
+
+  const offset = costs.slippageType === 'bps'
+    ? price * (costs.slippageValue / 10000)
+    : costs.slippageValue * costs.tickSize;
+
+  return side === 'BUY' ? price + offset : Math.max(0, price - offset);
+};
+
+/**
+ * Charges on a fill of `shares` at the already-slipped `price`
+ */
+export const computeFees = (
+  side: 'BUY' | 'SELL',
+  price: number,
+  shares: number,
+  costs: CostModelConfig
+): FeeBreakdown => {
+  if (!costs.enabled) return { ...ZERO_FEES };
+
+  const turnover = price * shares;
+
+  let brokerage = costs.brokerageType === 'flat'
+    ? costs.brokerageFlat
+    : turnover * costs.brokeragePercent;
+  if (costs.brokerageType === 'percent' && costs.brokerageCap > 0) {
+    brokerage = Math.min(brokerage, costs.brokerageCap);
+  }
+  if (shares === 0) brokerage = 0;
+
+  const stt = turnover * costs.sttPercent;
+  const exchangeCharges = turnover * costs.exchangeChargesPercent;
+  const sebiFees = (turnover / 1e7) * costs.sebiFeesPerCrore;
+  const stampDuty = side === 'BUY' ? turnover * costs.stampDutyPercent : 0;
+  const gst = (brokerage + exchangeCharges + sebiFees) * costs.gstPercent;
+  const dpCharges = side === 'SELL' && shares > 0 ? costs.dpChargesPerSell : 0;
+
+  return {
+    brokerage,
+    stt,
+    exchangeCharges,
+    sebiFees,
+    stampDuty,
+    gst,
+    dpCharges,
+    total: brokerage + stt + exchangeCharges + sebiFees + stampDuty + gst + dpCharges,
+    slippage: 0
+  };
+};
+
+/**
+ * Full costing of one fill at a strategy trigger price
+ * `sharesFor` lets the caller size the order off the slipped price
+ */
+export const costFill = (
+  side: 'BUY' | 'SELL',
+  triggerPrice: number,
+  sharesFor: number | ((fillPrice: number) => number),
+  costs: CostModelConfig
+): CostedFill & { shares: number } => {
+  const price = applySlippage(side, triggerPrice, costs);
+  const shares = typeof sharesFor === 'function' ? sharesFor(price) : sharesFor;
+  const grossAmount = shares * price;
+  const fees = computeFees(side, price, shares, costs);
+  fees.slippage = Math.abs(price - triggerPrice) * shares;
+
+  return {
+    price,
+    shares,
+    grossAmount,
+    fees,
+    netAmount: side === 'BUY' ? grossAmount + fees.total : grossAmount - fees.total
+  };
+};
+
+/**
+ * Money actually paid for an open lot
+ */
+export const lotCost = (pos: Position): number => pos.costBasis ?? pos.shares * pos.buyPrice;
+
+export default costFill;
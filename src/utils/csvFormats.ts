@@ -0,0 +1,254 @@
+import type { ColumnMapping, CsvFormatId, DateOrder } from '../types';
+
+/**
+ * CSV Formats, Dates and Numbers
+ *
+ * Everything needed to turn one text cell into a value: which known
+ * export a header row belongs to, how its columns map to OHLCV, and
+ * how to read the many date and number spellings those exports use.
+ */
+
+type MappedField = keyof ColumnMapping;
+
+interface CsvFormatSpec {
+  id: CsvFormatId;
+  label: string;
+  columns: Partial<Record<MappedField, string[]>>; // Accepted header names per field, normalized
+  signature?: string[]; // Extra headers that must all be present to claim the file
+}
+
+export const CSV_FORMAT_LABELS: Record<CsvFormatId, string> = {
+  'nse-historical': 'NSE historical data',
+  'nse-bhavcopy': 'NSE bhavcopy',
+  'nse-bhavcopy-full': 'NSE full bhavcopy (security-wise)',
+  bse: 'BSE historical data',
+  yahoo: 'Yahoo Finance',
+  generic: 'Generic OHLCV',
+  custom: 'Custom mapping'
+};
+
+export const REQUIRED_FIELDS: MappedField[] = ['date', 'open', 'high', 'low', 'close'];
+
+/**
+ * Most specific first: a bhavcopy also has OPEN/HIGH/LOW/CLOSE, so it must be tried before the generic layouts
+ */
+const FORMATS: CsvFormatSpec[] = [
+  {
+    id: 'nse-bhavcopy-full',
+    label: CSV_FORMAT_LABELS['nse-bhavcopy-full'],
+    columns: {
+      date: ['DATE1'],
+      open: ['OPEN_PRICE'],
+      high: ['HIGH_PRICE'],
+      low: ['LOW_PRICE'],
+      close: ['CLOSE_PRICE'],
+      volume: ['TTL_TRD_QNTY'],
+      symbol: ['SYMBOL'],
+      series: ['SERIES']
+    }
+  },
+  {
+    id: 'nse-bhavcopy',
+    label: CSV_FORMAT_LABELS['nse-bhavcopy'],
+    columns: {
+      date: ['TIMESTAMP', 'TRADDT'],
+      open: ['OPEN', 'OPNPRIC'],
+      high: ['HIGH', 'HGHPRIC'],
+      low: ['LOW', 'LWPRIC'],
+      close: ['CLOSE', 'CLSPRIC'],
+      volume: ['TOTTRDQTY', 'TTLTRADGVOL'],
+      symbol: ['SYMBOL', 'TCKRSYMB'],
+      series: ['SERIES', 'SCTYSRS']
+    }
+  },
+  {
+    id: 'nse-historical',
+    label: CSV_FORMAT_LABELS['nse-historical'],
+    columns: {
+      date: ['DATE'],
+      open: ['OPEN'],
+      high: ['HIGH'],
+      low: ['LOW'],
+      close: ['CLOSE'],
+      volume: ['VOLUME'],
+      vwap: ['VWAP'],
+      high52: ['52W H'],
+      low52: ['52W L'],
+      series: ['SERIES']
+    },
+    signature: ['PREV. CLOSE']
+  },
+  {
+    id: 'bse',
+    label: CSV_FORMAT_LABELS.bse,
+    columns: {
+      date: ['DATE'],
+      open: ['OPEN PRICE'],
+      high: ['HIGH PRICE'],
+      low: ['LOW PRICE'],
+      close: ['CLOSE PRICE'],
+      volume: ['NO.OF SHARES', 'NO. OF SHARES']
+    }
+  },
+  {
+    id: 'yahoo',
+    label: CSV_FORMAT_LABELS.yahoo,
+    columns: {
+      date: ['DATE'],
+      open: ['OPEN'],
+      high: ['HIGH'],
+      low: ['LOW'],
+      close: ['CLOSE'],
+      volume: ['VOLUME']
+    },
+    signature: ['ADJ CLOSE']
+  }
+];
+
+/**
+ * Loose header names for files that match no known export
+ * Exact names win over "contains", so CLOSE beats PREV. CLOSE
+ */
+const GENERIC_COLUMNS: Partial<Record<MappedField, { exact: string[]; contains?: string }>> = {
+  date: { exact: ['DATE', 'TIMESTAMP', 'TRADE DATE', 'DAY', 'TIME'], contains: 'DATE' },
+  open: { exact: ['OPEN', 'O', 'OPEN PRICE'], contains: 'OPEN' },
+  high: { exact: ['HIGH', 'H', 'HIGH PRICE'], contains: 'HIGH' },
+  low: { exact: ['LOW', 'L', 'LOW PRICE'], contains: 'LOW' },
+  close: { exact: ['CLOSE', 'C', 'LAST', 'CLOSE PRICE'], contains: 'CLOSE' },
+  volume: { exact: ['VOLUME', 'VOL', 'V', 'QTY', 'QUANTITY'], contains: 'VOLUME' },
+  vwap: { exact: ['VWAP', 'AVG PRICE', 'AVERAGE PRICE'] },
+  high52: { exact: ['52W H', '52 WEEK HIGH', '52WK HIGH'] },
+  low52: { exact: ['52W L', '52 WEEK LOW', '52WK LOW'] },
+  symbol: { exact: ['SYMBOL', 'TICKER'] },
+  series: { exact: ['SERIES'] }
+};
+
+/**
+ * Exports disagree on case, stray spaces and double spaces ("No of  trades ")
+ */
+export const normalizeHeader = (header: string): string =>
+  header.replace(/^\uFEFF/, '').trim().replace(/\s+/g, ' ').toUpperCase();
+
+const findHeader = (headers: string[], accepted: string[]): string | undefined =>
+  headers.find(h => accepted.includes(normalizeHeader(h)));
+
+const hasRequired = (mapping: Partial<ColumnMapping>): mapping is ColumnMapping =>
+  REQUIRED_FIELDS.every(field => !!mapping[field]);
+
+/**
+ * Identify a known export from its header row
+ * Returns null when even the generic patterns cannot find OHLC and a date,
+ * in which case the user has to map the columns by hand.
+ */
+export const detectFormat = (headers: string[]): { format: CsvFormatId; mapping: ColumnMapping } | null => {
+  const normalized = headers.map(normalizeHeader);
+
+  for (const spec of FORMATS) {
+    if (spec.signature && !spec.signature.every(sig => normalized.includes(sig))) continue;
+
+    const mapping: Partial<ColumnMapping> = {};
+    for (const [field, accepted] of Object.entries(spec.columns) as [MappedField, string[]][]) {
+      const header = findHeader(headers, accepted);
+      if (header) mapping[field] = header;
+    }
+    if (hasRequired(mapping)) return { format: spec.id, mapping };
+  }
+
+  const mapping: Partial<ColumnMapping> = {};
+  const used = new Set<string>();
+  for (const [field, { exact, contains }] of Object.entries(GENERIC_COLUMNS) as [MappedField, { exact: string[]; contains?: string }][]) {
+    const free = headers.filter(h => !used.has(h)); // Never map one column twice
+    const header =
+      findHeader(free, exact) ??
+      (contains ? free.find(h => normalizeHeader(h).includes(contains)) : undefined);
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+  return hasRequired(mapping) ? { format: 'generic', mapping } : null;
+};
+
+/**
+ * Parse a number as written in Indian exports: "1,150.00", "₹ 98.5", " 1150 "
+ * Returns NaN for blanks and placeholders like "-" or "null"
+ */
+export const parseNumber = (text: string | undefined): number => {
+  if (text === undefined) return NaN;
+  const cleaned = text.replace(/[₹,\s]/g, '');
+  if (cleaned === '' || cleaned === '-' || /^null$/i.test(cleaned)) return NaN;
+  return Number(cleaned);
+};
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const monthFromName = (name: string): number => MONTHS.indexOf(name.slice(0, 3).toUpperCase());
+
+const fullYear = (year: string): number => {
+  const y = parseInt(year, 10);
+  if (year.length > 2) return y;
+  return y < 70 ? 2000 + y : 1900 + y;
+};
+
+/**
+ * UTC midnight for a calendar date, or null if the day does not exist (31-Feb)
+ */
+const utcDate = (year: number, month: number, day: number): number | null => {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+  const time = Date.UTC(year, month, day);
+  return new Date(time).getUTCDate() === day ? time : null;
+};
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/;
+const DAY_MONTH_NAME = /^(\d{1,2})[-\s/]([A-Za-z]{3,9})[-\s/,]+(\d{2}|\d{4})$/; // 15-Dec-2023, 15 December 2023
+const MONTH_NAME_DAY = /^([A-Za-z]{3,9})[-\s](\d{1,2}),?[-\s](\d{4})$/; // Dec 15, 2023
+const NUMERIC_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/; // 15/12/2023, 12-15-2023
+
+/**
+ * Parse the date spellings found in NSE, BSE and Yahoo exports
+ * Numeric day/month dates are ambiguous; dateOrder says which comes first.
+ * Returns UTC midnight of that day, or null when the text is not a date.
+ */
+export const parseDate = (text: string, dateOrder: DateOrder = 'DMY'): number | null => {
+  const value = text.trim();
+  let match = ISO_DATE.exec(value);
+  if (match) return utcDate(+match[1], +match[2] - 1, +match[3]);
+
+  match = DAY_MONTH_NAME.exec(value);
+  if (match) return utcDate(fullYear(match[3]), monthFromName(match[2]), +match[1]);
+
+  match = MONTH_NAME_DAY.exec(value);
+  if (match) return utcDate(+match[3], monthFromName(match[1]), +match[2]);
+
+  match = NUMERIC_DATE.exec(value);
+  if (match) {
+    const [first, second] = [+match[1], +match[2]];
+    const [day, month] = dateOrder === 'DMY' ? [first, second] : [second, first];
+    return utcDate(fullYear(match[3]), month - 1, day);
+  }
+  return null;
+};
+
+/**
+ * Guess the order of numeric dates from the values themselves
+ * A first part above 12 can only be a day; a second part above 12 can only be a day.
+ * Indian exports are day-first, so that is the default when nothing gives it away.
+ */
+export const detectDateOrder = (values: string[]): DateOrder => {
+  for (const value of values) {
+    const match = NUMERIC_DATE.exec(value.trim());
+    if (!match) continue;
+    if (+match[1] > 12) return 'DMY';
+    if (+match[2] > 12) return 'MDY';
+  }
+  return 'DMY';
+};
+
+/**
+ * Display label used everywhere downstream, in NSE style: 05-Jan-2024
+ */
+export const formatBarDate = (time: number): string => {
+  const date = new Date(time);
+  return `${String(date.getUTCDate()).padStart(2, '0')}-${MONTH_LABELS[date.getUTCMonth()]}-${date.getUTCFullYear()}`;
+};
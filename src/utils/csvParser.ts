@@ -0,0 +1,254 @@
+import Papa from 'papaparse';
+import type { ColumnMapping, CsvFormatId, DateOrder, FileImport, ImportIssue, ImportResult, PriceBar, RawCsv } from '../types';
+import { detectFormat, detectDateOrder, formatBarDate, parseDate, parseNumber } from './csvFormats';
+
+const DAY_MS = 1000 * 3600 * 24;
+export const GAP_WARNING_DAYS = 7; // Longer than any weekend + exchange holiday run
+
+/**
+ * Read a CSV into header names and string rows
+ * Accepts a browser File or the raw CSV text. Rejects when the file has no rows.
+ */
+export const readCSV = (input: File | string, fileName = typeof input === 'string' ? 'data.csv' : input.name): Promise<RawCsv> => {
+  return new Promise((resolve, reject) => {
+    const complete = (parseResult: Papa.ParseResult<Record<string, string>>) => {
+      const rows = parseResult.data;
+      const headers = parseResult.meta.fields ?? [];
+
+      if (!rows || rows.length === 0 || headers.length === 0) {
+        reject(new Error('CSV file is empty'));
+        return;
+      }
+      resolve({ fileName, headers, rows });
+    };
+
+    const error = (err: Error) => reject(new Error('Error parsing CSV: ' + err.message));
+    const config = { header: true, skipEmptyLines: 'greedy' as const, complete, error };
+
+    if (typeof input === 'string') {
+      Papa.parse<Record<string, string>>(input, config);
+    } else {
+      Papa.parse<Record<string, string>>(input, config);
+    }
+  });
+};
+
+/**
+ * Symbol name from an uploaded file name ("RELIANCE.csv" → "RELIANCE")
+ */
+export const symbolFromFileName = (fileName: string): string => fileName.replace(/\.[^/.]+$/, '');
+
+interface ParsedRow {
+  line: number;
+  bar: PriceBar;
+  symbol: string;
+}
+
+/**
+ * Turn raw rows into validated, date-sorted bars using a column mapping
+ *
+ * Row-level checks:
+ * - unreadable dates and non-numeric or non-positive prices drop the row (error)
+ * - HIGH below LOW drops the row (error)
+ * - OPEN or CLOSE outside the day's HIGH–LOW range is kept (warning)
+ * - a repeated date keeps the first row; identical repeats are a warning,
+ *   conflicting ones an error
+ * - calendar gaps longer than GAP_WARNING_DAYS are reported (warning)
+ *
+ * Files with a symbol column (bhavcopies) come back as one result per symbol.
+ * Rows from a non-EQ series are left out when the file has a series column.
+ */
+export const importCsv = (
+  raw: RawCsv,
+  mapping: ColumnMapping,
+  format: CsvFormatId,
+  dateOrder: DateOrder = detectDateOrder(raw.rows.slice(0, 200).map(row => row[mapping.date] ?? ''))
+): ImportResult[] => {
+  const fileIssues: ImportIssue[] = [];
+  const rowIssues = new Map<string, ImportIssue[]>(); // By symbol
+  const parsed: ParsedRow[] = [];
+  const fallbackSymbol = symbolFromFileName(raw.fileName);
+  let otherSeries = 0;
+
+  const report = (symbol: string, issue: ImportIssue) => {
+    const list = rowIssues.get(symbol) ?? [];
+    list.push(issue);
+    rowIssues.set(symbol, list);
+  };
+
+  raw.rows.forEach((row, idx) => {
+    const line = idx + 2; // Header is line 1
+    const symbol = (mapping.symbol && row[mapping.symbol]?.trim()) || fallbackSymbol;
+
+    if (mapping.series) {
+      const series = row[mapping.series]?.trim().toUpperCase();
+      if (series && series !== 'EQ') {
+        otherSeries++;
+        return;
+      }
+    }
+
+    const dateText = row[mapping.date] ?? '';
+    const time = parseDate(dateText, dateOrder);
+    if (time === null) {
+      report(symbol, { row: line, severity: 'error', message: `Unrecognized date '${dateText}'` });
+      return;
+    }
+    const date = formatBarDate(time);
+
+    const prices = { open: 0, high: 0, low: 0, close: 0 };
+    for (const field of ['open', 'high', 'low', 'close'] as const) {
+      const text = row[mapping[field]];
+      const value = parseNumber(text);
+      if (!Number.isFinite(value) || value <= 0) {
+        report(symbol, {
+          row: line,
+          date,
+          severity: 'error',
+          message: `${field.toUpperCase()} is not a positive number ('${text ?? ''}')`
+        });
+        return;
+      }
+      prices[field] = value;
+    }
+
+    if (prices.high < prices.low) {
+      report(symbol, { row: line, date, severity: 'error', message: `HIGH ${prices.high} is below LOW ${prices.low}` });
+      return;
+    }
+    for (const field of ['open', 'close'] as const) {
+      if (prices[field] > prices.high || prices[field] < prices.low) {
+        report(symbol, {
+          row: line,
+          date,
+          severity: 'warning',
+          message: `${field.toUpperCase()} ${prices[field]} is outside the day's range ${prices.low}–${prices.high}`
+        });
+      }
+    }
+
+    const optional = (column: string | undefined) => {
+      const value = column ? parseNumber(row[column]) : NaN;
+      return Number.isFinite(value) ? value : undefined;
+    };
+    parsed.push({
+      line,
+      symbol,
+      bar: {
+        date,
+        time,
+        ...prices,
+        volume: optional(mapping.volume),
+        vwap: optional(mapping.vwap),
+        high52: optional(mapping.high52),
+        low52: optional(mapping.low52)
+      }
+    });
+  });
+
+  if (otherSeries > 0) {
+    fileIssues.push({ row: null, severity: 'warning', message: `Ignored ${otherSeries} rows from series other than EQ` });
+  }
+
+  const symbols = [...new Set([...parsed.map(p => p.symbol), ...rowIssues.keys()])];
+  if (symbols.length === 0) symbols.push(fallbackSymbol);
+
+  return symbols.map(symbol => {
+    const issues = [...fileIssues, ...(rowIssues.get(symbol) ?? [])];
+    const rows = parsed
+      .filter(p => p.symbol === symbol)
+      .sort((a, b) => a.bar.time - b.bar.time || a.line - b.line); // Stable: first row wins on a repeated date
+
+    const bars: PriceBar[] = [];
+    let kept: ParsedRow | undefined;
+    for (const row of rows) {
+      if (kept && kept.bar.time === row.bar.time) {
+        const same = (['open', 'high', 'low', 'close'] as const).every(f => kept!.bar[f] === row.bar[f]);
+        issues.push({
+          row: row.line,
+          date: row.bar.date,
+          severity: same ? 'warning' : 'error',
+          message: same
+            ? `Duplicate of line ${kept.line}; ignored`
+            : `Same date as line ${kept.line} with different prices; kept line ${kept.line}`
+        });
+        continue;
+      }
+      if (kept) {
+        const gapDays = Math.round((row.bar.time - kept.bar.time) / DAY_MS);
+        if (gapDays > GAP_WARNING_DAYS) {
+          issues.push({
+            row: row.line,
+            date: row.bar.date,
+            severity: 'warning',
+            message: `No data for ${gapDays} days since ${kept.bar.date}`
+          });
+        }
+      }
+      bars.push(row.bar);
+      kept = row;
+    }
+
+    if (bars.length < 2) {
+      issues.push({ row: null, severity: 'error', message: 'Need at least two valid trading days to run a backtest' });
+    }
+
+    const rowCount = rows.length + (rowIssues.get(symbol) ?? []).filter(i => i.severity === 'error').length;
+    return {
+      fileName: raw.fileName,
+      symbol,
+      format,
+      mapping,
+      dateOrder,
+      bars,
+      issues: issues.sort((a, b) => (a.row ?? 0) - (b.row ?? 0)),
+      totalRows: rowCount,
+      skippedRows: rowCount - bars.length
+    };
+  });
+};
+
+/**
+ * Import a file with a user-chosen mapping, or the detected one when none is given
+ * An unrecognized layout comes back with no mapping and no results.
+ */
+export const createFileImport = (raw: RawCsv, mapping?: ColumnMapping, dateOrder?: DateOrder): FileImport => {
+  const detected = mapping ? { format: 'custom' as const, mapping } : detectFormat(raw.headers);
+  if (!detected) {
+    return { raw, format: 'custom', mapping: null, dateOrder: dateOrder ?? 'DMY', results: [] };
+  }
+  const results = importCsv(raw, detected.mapping, detected.format, dateOrder);
+  return {
+    raw,
+    format: detected.format,
+    mapping: detected.mapping,
+    dateOrder: results[0].dateOrder,
+    results
+  };
+};
+
+/**
+ * True when a file imported without a single issue and can run unattended
+ */
+export const isCleanImport = (fileImport: FileImport): boolean =>
+  !!fileImport.mapping && fileImport.results.every(r => r.issues.length === 0 && r.bars.length >= 2);
+
+/**
+ * Read, detect and import in one go, for callers without a mapping UI
+ * Rejects when the layout is unknown or the file yields no usable bars.
+ * Multi-symbol files return the first symbol.
+ */
+export const parseStockCSV = async (input: File | string, fileName?: string): Promise<PriceBar[]> => {
+  const raw = await readCSV(input, fileName);
+  const detected = detectFormat(raw.headers);
+  if (!detected) {
+    throw new Error('CSV must contain date, OPEN, HIGH, LOW, and CLOSE columns');
+  }
+  const [result] = importCsv(raw, detected.mapping, detected.format);
+  if (result.bars.length < 2) {
+    throw new Error(result.issues.find(i => i.severity === 'error')?.message ?? 'No valid rows in CSV');
+  }
+  return result.bars;
+};
+
+export default parseStockCSV;
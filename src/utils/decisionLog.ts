@@ -0,0 +1,63 @@
+import type { DecisionEvent, DecisionEventType } from '../types';
+
+/**
+ * Decision Log
+ *
+ * Helpers for reading the engine's event trace (BacktestResults.events).
+ */
+
+export const DECISION_EVENT_LABELS: Record<DecisionEventType, string> = {
+  'buy': 'Buy',
+  'sell': 'Sell',
+  'gap-down-fill': 'Gap-down fill',
+  'gap-up-fill': 'Gap-up fill',
+  'reference-update': 'Reference update',
+  'recovery-mode': 'Recovery mode',
+  'falling-stock-reset': 'Falling-stock reset',
+  'buy-skipped-max-positions': 'Buy skipped: max positions',
+  'buy-rejected-cash': 'Buy rejected: cash',
+  'buy-skipped-size': 'Buy skipped: below one lot',
+  'buy-filtered': 'Buy held: filter',
+  'sell-filtered': 'Sell held: filter',
+  'sell-blocked-same-day': 'Sell blocked: bought today',
+  'stop-loss': 'Stop-loss',
+  'time-stop': 'Time stop',
+  'trailing-stop': 'Trailing stop',
+  'drawdown-cut': 'Drawdown cut',
+  'corporate-action': 'Corporate action',
+  'loop-guard': 'Loop guard'
+};
+
+export const DECISION_EVENT_TYPES = Object.keys(DECISION_EVENT_LABELS) as DecisionEventType[];
+
+// Formatting shared by the reasons the engine and strategies write
+export const rupees = (value: number) => `₹${value.toFixed(2)}`;
+export const percent = (threshold: number) => `${(threshold * 100).toFixed(0)}%`;
+
+/**
+ * Events that produced a trade
+ */
+const TRADE_EVENTS = new Set<DecisionEventType>([
+  'buy', 'sell', 'gap-down-fill', 'gap-up-fill', 'stop-loss', 'time-stop', 'trailing-stop', 'drawdown-cut'
+]);
+
+export const isTradeEvent = (event: DecisionEvent): boolean => TRADE_EVENTS.has(event.type);
+
+/**
+ * The decisions behind one event, oldest first
+ *
+ * Follows causeId back through the lots and reference prices each
+ * decision acted on: a sell leads to the buy of its lot, a buy to the
+ * trade or reset that set its reference, and so on to the first buy.
+ * Stops at `limit` steps so very long runs stay readable.
+ */
+export const decisionChain = (events: DecisionEvent[], eventId: number, limit = 25): DecisionEvent[] => {
+  const byId = new Map(events.map(event => [event.id, event]));
+  const chain: DecisionEvent[] = [];
+  let current = byId.get(eventId);
+  while (current && chain.length < limit) {
+    chain.unshift(current);
+    current = current.causeId !== undefined ? byId.get(current.causeId) : undefined;
+  }
+  return chain;
+};
@@ -0,0 +1,106 @@
+import type { DailySnapshot, Transaction } from '../types';
+
+export interface DrawdownPoint {
+  date: string;
+  equity: number;
+  peak: number; // Highest equity up to this day
+  drawdown: number; // ₹ below the peak (0 or negative)
+}
+
+export interface CapitalUsage {
+  peak: number; // Most capital tied up at any close
+  average: number; // Average over all days, idle days count as zero
+  averageWhenInvested: number; // Average over days with at least one open lot
+  daysInvested: number;
+  totalDays: number;
+  longestInvestedStreak: number; // Consecutive trading days with capital deployed
+  rupeeDays: number; // Sum of capital deployed per day (₹·days)
+}
+
+/**
+ * Running peak and drawdown of the mark-to-market equity curve
+ */
+export const computeDrawdowns = (series: DailySnapshot[]): DrawdownPoint[] => {
+  let peak = 0;
+  return series.map(({ date, equity }) => {
+    peak = Math.max(peak, equity);
+    return { date, equity, peak, drawdown: equity - peak };
+  });
+};
+
+/**
+ * How much cash was tied up in open lots and for how long
+ */
+export const computeCapitalUsage = (series: DailySnapshot[]): CapitalUsage => {
+  let peak = 0;
+  let rupeeDays = 0;
+  let daysInvested = 0;
+  let streak = 0;
+  let longestInvestedStreak = 0;
+
+  for (const day of series) {
+    peak = Math.max(peak, day.capitalDeployed);
+    rupeeDays += day.capitalDeployed;
+
+    if (day.capitalDeployed > 0) {
+      daysInvested++;
+      streak++;
+      longestInvestedStreak = Math.max(longestInvestedStreak, streak);
+    } else {
+      streak = 0;
+    }
+  }
+
+  return {
+    peak,
+    average: series.length > 0 ? rupeeDays / series.length : 0,
+    averageWhenInvested: daysInvested > 0 ? rupeeDays / daysInvested : 0,
+    daysInvested,
+    totalDays: series.length,
+    longestInvestedStreak,
+    rupeeDays
+  };
+};
+
+/**
+ * Average fill price of buys and sells per date, for chart markers
+ */
+export const tradeMarkersByDate = (transactions: Transaction[]): Map<string, { buy?: number; sell?: number }> => {
+  const totals = new Map<string, { buyValue: number; buyShares: number; sellValue: number; sellShares: number }>();
+
+  for (const t of transactions) {
+    const entry = totals.get(t.date) ?? { buyValue: 0, buyShares: 0, sellValue: 0, sellShares: 0 };
+    if (t.type === 'BUY') {
+      entry.buyValue += t.price * t.shares;
+      entry.buyShares += t.shares;
+    } else {
+      entry.sellValue += t.price * t.shares;
+      entry.sellShares += t.shares;
+    }
+    totals.set(t.date, entry);
+  }
+
+  const markers = new Map<string, { buy?: number; sell?: number }>();
+  for (const [date, entry] of totals) {
+    markers.set(date, {
+      buy: entry.buyShares > 0 ? entry.buyValue / entry.buyShares : undefined,
+      sell: entry.sellShares > 0 ? entry.sellValue / entry.sellShares : undefined
+    });
+  }
+  return markers;
+};
+
+/**
+ * Compact Indian notation for axis ticks: ₹45k, ₹3.2L, ₹1.1Cr
+ */
+export const formatAxisRupees = (value: number): string => {
+  const abs = Math.abs(value);
+  const sign = value < 0 ? '-' : '';
+  if (abs >= 1e7) return `${sign}₹${(abs / 1e7).toFixed(1)}Cr`;
+  if (abs >= 1e5) return `${sign}₹${(abs / 1e5).toFixed(1)}L`;
+  if (abs >= 1e3) return `${sign}₹${(abs / 1e3).toFixed(0)}k`;
+  return `${sign}₹${abs.toFixed(0)}`;
+};
+
+export const formatTooltipRupees = (value: unknown) =>
+  typeof value === 'number' ? `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}` : String(value);
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import type { ExitRulesConfig, StrategyConfig } from '../types';
+import { DEFAULT_EXIT_RULES, countExits } from './exitRules';
+import { runPortfolioBacktest } from './portfolioEngine';
+import { bars, day, paise, runDays, testConfig } from '../test/bars';
+
+/**
+ * Exit Rules
+ *
+ * Each rule on its own over a hand-written price sequence, without costs.
+ * Buy and hold never sells before the last bar, so any earlier sell is
+ * the rule's; the reference strategy shows a stop beating its target.
+ */
+
+const OFF: ExitRulesConfig = { ...DEFAULT_EXIT_RULES, enabled: true, stopLoss: 0, trailingStop: 0, maxHoldingDays: 0 };
+
+const config = (strategy: StrategyConfig['strategy'], exits: Partial<ExitRulesConfig>): StrategyConfig => testConfig({
+  strategy,
+  maxPositions: 1, // Buy and hold: one ₹1,00,000 lot, 1000 shares at 100
+  exits: { ...OFF, ...exits }
+});
+
+const sells = (strategyConfig: StrategyConfig, ...days: Parameters<typeof bars>) => {
+  const { results } = runDays(strategyConfig, ...days);
+  const sold = results.transactions.filter(t => t.type === 'SELL');
+  return {
+    results,
+    sells: sold.map(t => [t.date, paise(t.price), t.exitType, t.fillReason])
+  };
+};
+
+describe('exit rules', () => {
+  it('sells at the stop-loss before the strategy trades', () => {
+    const { sells: made, results } = sells(
+      config('reference-v2', { stopLoss: 0.25 }),
+      [100, 101, 99, 100],
+      [90, 106, 74, 100] // Reaches the 105 target and the 75 stop: stopped out
+    );
+
+    expect(made).toEqual([[day(1), 75, 'stop-loss', 'trigger']]);
+    expect(results.events?.find(e => e.type === 'stop-loss')?.causeId).toBe(results.transactions[0].eventId);
+  });
+
+  it('fills a stop the market opens under at the OPEN', () => {
+    const { sells: made } = sells(
+      config('buy-and-hold', { stopLoss: 0.25 }),
+      [100, 101, 99, 100],
+      [70, 72, 68, 71],
+      [71, 72, 70, 71]
+    );
+
+    expect(made[0]).toEqual([day(1), 70, 'stop-loss', 'gap-open']);
+  });
+
+  it('never stops out a lot on the day it was bought', () => {
+    const { sells: made } = sells(
+      config('buy-and-hold', { stopLoss: 0.25 }),
+      [100, 101, 70, 90],
+      [90, 91, 80, 85]
+    );
+
+    expect(made).toEqual([[day(1), 85, 'end-of-data', 'close']]);
+  });
+
+  it('trails the best CLOSE once the lot is in profit', () => {
+    const { sells: made } = sells(
+      config('buy-and-hold', { stopLoss: 0.25, trailingStop: 0.10 }),
+      [100, 101, 99, 100],
+      [95, 96, 90, 95],     // Below the buy price: no trailing stop yet
+      [100, 121, 100, 120], // Best CLOSE 120: trailing stop 108 above the 75 stop-loss
+      [119, 119, 107, 110],
+      [110, 111, 109, 110]
+    );
+
+    expect(made[0]).toEqual([day(3), 108, 'trailing-stop', 'trigger']);
+  });
+
+  it('sells at the OPEN once the holding period runs out', () => {
+    const { sells: made } = sells(
+      config('buy-and-hold', { maxHoldingDays: 2 }),
+      [100, 101, 99, 100],
+      [101, 102, 100, 101],
+      [102, 104, 101, 103],
+      [103, 104, 102, 103]
+    );
+
+    expect(made[0]).toEqual([day(2), 102, 'time-stop', 'open']);
+  });
+
+  it('cuts every lot at the CLOSE after a drawdown', () => {
+    const { sells: made, results } = sells(
+      config('buy-and-hold', { drawdownCut: 5000 }),
+      [100, 101, 99, 100],
+      [101, 103, 100, 102], // Peak P/L ₹2,000
+      [101, 101, 96, 97],   // ₹5,000 under the peak: not more than the cut
+      [97, 97, 95, 96],     // ₹6,000 under: cut
+      [96, 97, 95, 96]
+    );
+
+    expect(made).toEqual([[day(3), 96, 'drawdown-cut', 'close']]);
+    expect(results.dailySeries?.[3]).toMatchObject({ openPositions: 0, capitalDeployed: 0, equity: -4000 });
+    expect(results.maxDrawdown).toBe(6000);
+  });
+
+  it('counts sells by exit type', () => {
+    const { results } = sells(
+      config('reference-v2', { stopLoss: 0.25 }),
+      [100, 101, 99, 100],
+      [90, 91, 74, 76],   // Stopped out at 75, the new reference
+      [76, 76, 71, 72],   // Buys again at 71.25
+      [72, 76, 72, 75]    // Target 74.81
+    );
+
+    expect(countExits(results.transactions)).toMatchObject({ 'target': 1, 'stop-loss': 1, 'time-stop': 0 });
+  });
+
+  it('cuts the whole basket on the basket drawdown', () => {
+    const basket = runPortfolioBacktest(
+      [
+        { symbol: 'AAA', data: bars([100, 101, 99, 100], [100, 100, 96, 97], [97, 98, 96, 97]) },
+        { symbol: 'BBB', data: bars([100, 101, 99, 100], [100, 100, 96, 97], [97, 98, 96, 97]) }
+      ],
+      config('buy-and-hold', { drawdownCut: 5000 }) // Each symbol alone is ₹3,000 down
+    );
+
+    const cut = basket.combined.transactions.filter(t => t.exitType === 'drawdown-cut');
+    expect(cut.map(t => [t.symbol, t.date, t.price])).toEqual([
+      ['AAA', day(1), 97],
+      ['BBB', day(1), 97]
+    ]);
+    expect(basket.combined.dailySeries?.[1]).toMatchObject({ openPositions: 0, equity: -6000 });
+  });
+});
@@ -0,0 +1,152 @@
+import type { ExitRulesConfig, ExitType, GapFillMode, Position, PriceBar, Transaction } from '../types';
+import { type Fill, rangeBuyFill } from './orderFills';
+import { percent, rupees } from './decisionLog';
+
+/**
+ * Exit Rules
+ *
+ * Ways out of a lot other than the strategy's own target, for the lots a
+ * long fall would otherwise leave stuck at max positions. The engine core
+ * checks the per-lot rules for every strategy before the strategy trades,
+ * on the whole daily bar: a day that reached both a lot's stop and its
+ * target counts as stopped out, the cautious reading. A lot is never
+ * stopped out on the day it was bought.
+ *
+ * - stop-loss: a resting sell stop under the buy price
+ * - trailing-stop: once the lot has closed above its buy price, a stop
+ *   under its highest CLOSE; the higher of the two stops is the one used
+ * - time-stop: a lot held for maxHoldingDays sells at the next OPEN
+ * - drawdown-cut: every lot sells at the CLOSE once P/L has fallen
+ *   drawdownCut ₹ from its peak; the peak restarts from there
+ */
+
+export const DEFAULT_EXIT_RULES: ExitRulesConfig = {
+  enabled: false,
+  stopLoss: 0.25,       // Sell 25% under the buy price
+  maxHoldingDays: 250,  // About a year of sessions
+  trailingStop: 0.15,   // Sell 15% under the best CLOSE once in profit
+  drawdownCut: 0        // Off: sizes depend on the lot size and basket
+};
+
+export const EXIT_TYPE_LABELS: Record<ExitType, string> = {
+  'target': 'Target',
+  'stop-loss': 'Stop-loss',
+  'time-stop': 'Time stop',
+  'trailing-stop': 'Trailing stop',
+  'drawdown-cut': 'Drawdown cut',
+  'end-of-data': 'End of data',
+  'manual': 'Manual'
+};
+
+export const EXIT_TYPES = Object.keys(EXIT_TYPE_LABELS) as ExitType[];
+
+export interface StopLevel {
+  price: number;
+  type: 'stop-loss' | 'trailing-stop';
+}
+
+export interface DueExit {
+  position: Position;
+  type: 'stop-loss' | 'time-stop' | 'trailing-stop';
+  fill: Fill;
+  reason: string;
+}
+
+/**
+ * The stop resting under a lot, null when no stop rule applies to it
+ */
+export const stopLevel = (position: Position, rules: ExitRulesConfig): StopLevel | null => {
+  if (!rules.enabled) return null;
+  const stops: StopLevel[] = [];
+  if (rules.stopLoss > 0) {
+    stops.push({ price: position.buyPrice * (1 - rules.stopLoss), type: 'stop-loss' });
+  }
+  if (rules.trailingStop > 0 && position.peakClose !== undefined && position.peakClose > position.buyPrice) {
+    stops.push({ price: position.peakClose * (1 - rules.trailingStop), type: 'trailing-stop' });
+  }
+  return stops.reduce<StopLevel | null>((best, stop) => (!best || stop.price > best.price ? stop : best), null);
+};
+
+/**
+ * Lots whose time limit has run out, sold at the next OPEN
+ */
+export const timeStopDue = (position: Position, rules: ExitRulesConfig): boolean =>
+  rules.enabled && rules.maxHoldingDays > 0 && (position.daysHeld ?? 0) >= rules.maxHoldingDays;
+
+/**
+ * Per-lot exits due on this bar, in the order they fill
+ * Time stops sell at the OPEN; a stop fills like any resting order the
+ * price falls to, so a gap under it follows gapFill.
+ */
+export const dueExits = (positions: Position[], bar: PriceBar, rules: ExitRulesConfig, gapFill: GapFillMode): DueExit[] => {
+  if (!rules.enabled) return [];
+  const exits: DueExit[] = [];
+
+  for (const position of positions) {
+    if (position.buyDate === bar.date) continue;
+
+    if (timeStopDue(position, rules)) {
+      exits.push({
+        position,
+        type: 'time-stop',
+        fill: { price: bar.open, reason: 'open' },
+        reason: `Lot bought at ${rupees(position.buyPrice)} held ${position.daysHeld} trading days (limit ${rules.maxHoldingDays}): sold at the OPEN`
+      });
+      continue;
+    }
+
+    const stop = stopLevel(position, rules);
+    const fill = stop && rangeBuyFill(bar, stop.price, gapFill, true); // Triggers on the way down, like a buy limit
+    if (!stop || !fill) continue;
+    const rule = stop.type === 'stop-loss'
+      ? `${percent(rules.stopLoss)} under the ${rupees(position.buyPrice)} buy`
+      : `${percent(rules.trailingStop)} under the best CLOSE ${rupees(position.peakClose!)}`;
+    exits.push({
+      position,
+      type: stop.type,
+      fill,
+      reason: fill.reason === 'trigger'
+        ? `LOW ${rupees(bar.low)} reached the stop at ${rupees(stop.price)} (${rule})`
+        : `Opened at ${rupees(bar.open)}, under the stop at ${rupees(stop.price)} (${rule})`
+    });
+  }
+
+  return exits;
+};
+
+/**
+ * End-of-day bookkeeping the per-lot rules need
+ */
+export const trackLots = (positions: Position[], close: number) => {
+  for (const position of positions) {
+    position.daysHeld = (position.daysHeld ?? 0) + 1;
+    position.peakClose = Math.max(position.peakClose ?? close, close);
+  }
+};
+
+/**
+ * One-line summary of the rules that are on, for reports
+ */
+export const describeExitRules = (rules: ExitRulesConfig | undefined): string => {
+  if (!rules?.enabled) return 'off';
+  const parts = [
+    rules.stopLoss > 0 && `stop-loss ${percent(rules.stopLoss)}`,
+    rules.trailingStop > 0 && `trailing ${percent(rules.trailingStop)}`,
+    rules.maxHoldingDays > 0 && `${rules.maxHoldingDays} days max`,
+    rules.drawdownCut > 0 && `cut at ₹${rules.drawdownCut.toLocaleString('en-IN')} drawdown`
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'off';
+};
+
+/**
+ * Sells per exit type; sells saved before exit types count as targets
+ */
+export const countExits = (transactions: Transaction[]): Record<ExitType, number> => {
+  const counts = Object.fromEntries(EXIT_TYPES.map(type => [type, 0])) as Record<ExitType, number>;
+  for (const t of transactions) {
+    if (t.type === 'SELL') counts[t.exitType ?? 'target']++;
+  }
+  return counts;
+};
+
+export default dueExits;
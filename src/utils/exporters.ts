@@ -0,0 +1,125 @@
+import Papa from 'papaparse';
+import type {
+  BacktestExport,
+  BacktestResults,
+  CorporateAction,
+  PortfolioConfig,
+  PortfolioResults,
+  Position,
+  StrategyConfig,
+  Transaction
+} from '../types';
+import { ENGINE_VERSION } from './backtestEngineV2';
+import { lotCost } from './costModel';
+
+/**
+ * Result Exporters
+ *
+ * Everything here returns plain strings so the same code serves the
+ * browser download buttons and any script that wants a file on disk.
+ */
+
+export const EXPORT_FORMAT_VERSION = 1;
+export const EXPORT_ENGINE = 'backtestEngineV2';
+
+const round2 = (value: number | undefined) => (value === undefined ? '' : Math.round(value * 100) / 100);
+
+export const transactionsToCSV = (transactions: Transaction[]): string =>
+  Papa.unparse({
+    fields: [
+      'Date', 'Symbol', 'Type', 'Exit', 'Price', 'Trigger Price', 'Fill', 'Shares', 'Sizing', 'Gross Amount', 'Fees', 'Net Amount',
+      'Bought At', 'Buy Date', 'Threshold', 'Profit'
+    ],
+    data: transactions.map(t => [
+      t.date,
+      t.symbol ?? '',
+      t.type,
+      t.exitType ?? '',
+      round2(t.price),
+      round2(t.triggerPrice),
+      t.fillReason ?? '',
+      t.shares,
+      t.sizingRule ?? '',
+      round2(t.grossAmount ?? t.amount),
+      round2(t.fees?.total),
+      round2(t.netAmount),
+      round2(t.boughtAt),
+      t.buyDate ?? '',
+      t.threshold ?? '',
+      round2(t.profit)
+    ])
+  });
+
+/**
+ * Open lots marked at each symbol's last close
+ * Portfolio runs pass a price per symbol, single runs one price for all
+ */
+export const positionsToCSV = (
+  positions: Position[],
+  currentPrice: number | ((position: Position) => number),
+  baseThreshold: number
+): string =>
+  Papa.unparse({
+    fields: [
+      'Buy Date', 'Symbol', 'Buy Price', 'Target Sell', 'Shares', 'Sizing', 'Invested', 'Last Close', 'Current Value', 'Unrealized P/L'
+    ],
+    data: positions.map(p => {
+      const price = typeof currentPrice === 'function' ? currentPrice(p) : currentPrice;
+      const invested = lotCost(p);
+      return [
+        p.buyDate ?? p.date,
+        p.symbol ?? '',
+        round2(p.buyPrice),
+        round2(p.buyPrice * (1 + (p.threshold || baseThreshold))),
+        p.shares,
+        p.sizingRule ?? '',
+        round2(invested),
+        round2(price),
+        round2(p.shares * price),
+        round2(p.shares * price - invested)
+      ];
+    })
+  });
+
+export const buildRunExport = (
+  results: BacktestResults,
+  config: StrategyConfig,
+  symbols: string[],
+  portfolio?: { config: PortfolioConfig; results: PortfolioResults },
+  corporateActions: CorporateAction[] = []
+): BacktestExport => {
+  const run: BacktestExport = {
+    format: 'stock-backtest-run',
+    version: EXPORT_FORMAT_VERSION,
+    engine: EXPORT_ENGINE,
+    engineVersion: ENGINE_VERSION,
+    exportedAt: new Date().toISOString(),
+    symbols,
+    config,
+    results
+  };
+
+  if (corporateActions.length > 0) run.corporateActions = corporateActions;
+  if (portfolio) {
+    // combined is already in results; keep the per-symbol detail
+    const { symbols: perSymbol, initialCapital, finalCash, minCash, rejectedBuys } = portfolio.results;
+    run.portfolioConfig = portfolio.config;
+    run.portfolio = { symbols: perSymbol, initialCapital, finalCash, minCash, rejectedBuys };
+  }
+  return run;
+};
+
+export const runToJSON = (run: BacktestExport): string => JSON.stringify(run, null, 2);
+
+/**
+ * Browser download of an in-memory file
+ */
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0); // Some browsers start the download after click() returns
+};
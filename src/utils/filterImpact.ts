@@ -0,0 +1,64 @@
+import type {
+  BacktestOptions,
+  BacktestResults,
+  FilterImpact,
+  FilterRule,
+  PortfolioConfig,
+  StrategyConfig,
+  SymbolDataset
+} from '../types';
+import { runBacktest } from './backtestEngineV2';
+import { runPortfolioBacktest } from './portfolioEngine';
+import { actionsForSymbol } from './corporateActions';
+import { describeRule } from './signalFilters';
+
+/**
+ * Filter Impact
+ *
+ * What each enabled filter rule cost or saved: the run as configured
+ * against the same run with only that rule turned off, and a last row
+ * without any of them. A rule's effect depends on the others, so the rows
+ * need not add up to the last one.
+ */
+export const compareFilters = (
+  datasets: SymbolDataset[],
+  config: StrategyConfig,
+  portfolioConfig: PortfolioConfig,
+  options: Pick<BacktestOptions, 'corporateActions'> = {}
+): FilterImpact[] => {
+  const run = (filters: FilterRule[]): BacktestResults => {
+    const filtered = { ...config, filters };
+    return datasets.length === 1
+      ? runBacktest(datasets[0].data, filtered, {
+          corporateActions: actionsForSymbol(options.corporateActions ?? [], datasets[0].symbol),
+          intraday: datasets[0].intraday
+        })
+      : runPortfolioBacktest(datasets, filtered, portfolioConfig, options).combined;
+  };
+
+  const active = config.filters.filter(rule => rule.enabled);
+  if (active.length === 0) return [];
+  const withFilters = run(config.filters);
+  const heldCount = (ruleId: string | null) =>
+    (withFilters.events ?? []).filter(e => e.ruleId !== undefined && (ruleId === null || e.ruleId === ruleId)).length;
+
+  const impact = (ruleId: string | null, label: string, without: BacktestResults): FilterImpact => ({
+    ruleId,
+    label,
+    blocked: heldCount(ruleId),
+    totalProfit: withFilters.totalProfit,
+    profitWithout: without.totalProfit,
+    totalTrades: withFilters.totalTrades,
+    tradesWithout: without.totalTrades,
+    maxDrawdown: withFilters.maxDrawdown ?? 0,
+    maxDrawdownWithout: without.maxDrawdown ?? 0
+  });
+
+  const rows = active.map(rule =>
+    impact(rule.id, `${rule.id}: ${describeRule(rule)}`, run(config.filters.map(r => (r.id === rule.id ? { ...r, enabled: false } : r))))
+  );
+  if (active.length > 1) rows.push(impact(null, 'All filters', run([])));
+  return rows;
+};
+
+export default compareFilters;
@@ -0,0 +1,250 @@
+import type { CorporateAction, IndicatorId, IndicatorRef, PriceBar } from '../types';
+import { shareFactor } from './corporateActions';
+import { rupees } from './decisionLog';
+
+/**
+ * Technical Indicators
+ *
+ * Each series lines up with the bars it was computed from, one value per
+ * bar as of that bar's CLOSE, and is NaN until enough bars are in. Missing
+ * volume or 52-week columns give NaN too, so a rule reading them never
+ * decides anything.
+ *
+ * Price files are raw, so bars before a split or bonus are first scaled
+ * by its factor; otherwise the split reads as a crash below every average.
+ */
+
+export const INDICATOR_LABELS: Record<IndicatorId, string> = {
+  'close': 'Close',
+  'sma': 'SMA',
+  'ema': 'EMA',
+  'rsi': 'RSI',
+  'atr': 'ATR',
+  'bollinger-upper': 'Upper Bollinger',
+  'bollinger-lower': 'Lower Bollinger',
+  'range-52w': '52W range position',
+  'volume-ratio': 'Volume ÷ avg',
+  'vwap': 'VWAP'
+};
+
+export const INDICATOR_IDS = Object.keys(INDICATOR_LABELS) as IndicatorId[];
+
+// Lookback a new reference starts with; indicators missing here take no period
+export const DEFAULT_PERIODS: Partial<Record<IndicatorId, number>> = {
+  'sma': 200,
+  'ema': 50,
+  'rsi': 14,
+  'atr': 14,
+  'bollinger-upper': 20,
+  'bollinger-lower': 20,
+  'volume-ratio': 20
+};
+
+export const YEAR_BARS = 252; // Trading days in the 52 weeks range-52w looks back over without exchange columns
+const BOLLINGER_WIDTH = 2; // Standard deviations either side of the SMA
+
+export const hasPeriod = (indicator: IndicatorId): boolean => DEFAULT_PERIODS[indicator] !== undefined;
+
+const lookback = (period: number) => Math.max(1, Math.floor(period));
+
+/**
+ * Key a value is stored under: "sma:200", "close"
+ */
+export const indicatorKey = (ref: IndicatorRef): string =>
+  hasPeriod(ref.indicator) ? `${ref.indicator}:${lookback(ref.period)}` : ref.indicator;
+
+/**
+ * "SMA(200)", "Close"
+ */
+export const describeIndicator = (ref: IndicatorRef): string =>
+  hasPeriod(ref.indicator) ? `${INDICATOR_LABELS[ref.indicator]}(${lookback(ref.period)})` : INDICATOR_LABELS[ref.indicator];
+
+/**
+ * A value in the indicator's own unit, for the decision log
+ */
+export const formatIndicatorValue = (indicator: IndicatorId, value: number): string => {
+  if (!Number.isFinite(value)) return 'n/a';
+  switch (indicator) {
+    case 'rsi':
+      return value.toFixed(1);
+    case 'range-52w':
+      return `${(value * 100).toFixed(1)}%`;
+    case 'volume-ratio':
+      return `${value.toFixed(2)}×`;
+    default:
+      return rupees(value);
+  }
+};
+
+/**
+ * Bars as if every later split and bonus had always been in the prices
+ * actions are grouped by the bar they take effect on, see actionsByBar
+ */
+export const adjustForActions = (bars: PriceBar[], actions: Map<number, CorporateAction[]>): PriceBar[] => {
+  let factor = 1;
+  const adjusted = new Array<PriceBar>(bars.length);
+  for (let i = bars.length - 1; i >= 0; i--) {
+    const bar = bars[i];
+    const scale = (value: number | undefined) => (value === undefined ? undefined : value / factor);
+    adjusted[i] = factor === 1 ? bar : {
+      ...bar,
+      open: bar.open / factor,
+      high: bar.high / factor,
+      low: bar.low / factor,
+      close: bar.close / factor,
+      volume: bar.volume === undefined ? undefined : bar.volume * factor,
+      vwap: scale(bar.vwap),
+      high52: scale(bar.high52),
+      low52: scale(bar.low52)
+    };
+    for (const action of actions.get(bar.time) ?? []) factor *= shareFactor(action);
+  }
+  return adjusted;
+};
+
+// NaN wherever the window holds a missing value, and fine again once it has passed
+export const sma = (values: number[], period: number): number[] => {
+  const n = lookback(period);
+  let sum = 0;
+  let missing = 0;
+  return values.map((value, i) => {
+    if (Number.isFinite(value)) sum += value;
+    else missing++;
+    if (i >= n) {
+      if (Number.isFinite(values[i - n])) sum -= values[i - n];
+      else missing--;
+    }
+    return i >= n - 1 && missing === 0 ? sum / n : NaN;
+  });
+};
+
+// Seeded with the SMA of the first period values
+export const ema = (values: number[], period: number): number[] => {
+  const n = lookback(period);
+  const alpha = 2 / (n + 1);
+  const seed = sma(values, n);
+  let previous = NaN;
+  return values.map((value, i) => {
+    previous = i === n - 1 ? seed[i] : previous + alpha * (value - previous);
+    return previous;
+  });
+};
+
+// Wilder's RSI over the close-to-close changes
+export const rsi = (closes: number[], period: number): number[] => {
+  const n = lookback(period);
+  let gain = 0;
+  let loss = 0;
+  return closes.map((close, i) => {
+    if (i === 0) return NaN;
+    const change = close - closes[i - 1];
+    const up = Math.max(change, 0);
+    const down = Math.max(-change, 0);
+    if (i <= n) {
+      gain += up / n;
+      loss += down / n;
+      if (i < n) return NaN;
+    } else {
+      gain = (gain * (n - 1) + up) / n;
+      loss = (loss * (n - 1) + down) / n;
+    }
+    return loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  });
+};
+
+// Wilder's average true range, seeded with the mean of the first period ranges
+export const atr = (bars: PriceBar[], period: number): number[] => {
+  const n = lookback(period);
+  let average = 0;
+  return bars.map((bar, i) => {
+    const previous = bars[i - 1]?.close;
+    const trueRange = previous === undefined
+      ? bar.high - bar.low
+      : Math.max(bar.high - bar.low, Math.abs(bar.high - previous), Math.abs(bar.low - previous));
+    if (i < n) {
+      average += trueRange / n;
+      return i === n - 1 ? average : NaN;
+    }
+    average = (average * (n - 1) + trueRange) / n;
+    return average;
+  });
+};
+
+export const bollinger = (closes: number[], period: number, side: 1 | -1): number[] => {
+  const n = lookback(period);
+  return sma(closes, n).map((mean, i) => {
+    if (Number.isNaN(mean)) return NaN;
+    let variance = 0;
+    for (let k = i - n + 1; k <= i; k++) variance += (closes[k] - mean) ** 2 / n;
+    return mean + side * BOLLINGER_WIDTH * Math.sqrt(variance);
+  });
+};
+
+/**
+ * Where the CLOSE sits in the 52-week range: 0 at the low, 1 at the high
+ * Uses the exchange's 52W H / 52W L columns when the file has them,
+ * otherwise the HIGH and LOW of the last YEAR_BARS bars
+ */
+export const range52w = (bars: PriceBar[]): number[] =>
+  bars.map((bar, i) => {
+    let high = bar.high52;
+    let low = bar.low52;
+    if (high === undefined || low === undefined) {
+      if (i < YEAR_BARS - 1) return NaN;
+      high = -Infinity;
+      low = Infinity;
+      for (let k = i - YEAR_BARS + 1; k <= i; k++) {
+        high = Math.max(high, bars[k].high);
+        low = Math.min(low, bars[k].low);
+      }
+    }
+    return high > low ? (bar.close - low) / (high - low) : NaN;
+  });
+
+// The day's volume over the average of the period days before it
+export const volumeRatio = (bars: PriceBar[], period: number): number[] => {
+  const n = lookback(period);
+  const volumes = bars.map(bar => bar.volume ?? NaN);
+  const average = sma(volumes, n);
+  return volumes.map((volume, i) => (i >= n && average[i - 1] > 0 ? volume / average[i - 1] : NaN));
+};
+
+export const indicatorSeries = (bars: PriceBar[], ref: IndicatorRef): number[] => {
+  const closes = bars.map(bar => bar.close);
+  switch (ref.indicator) {
+    case 'sma':
+      return sma(closes, ref.period);
+    case 'ema':
+      return ema(closes, ref.period);
+    case 'rsi':
+      return rsi(closes, ref.period);
+    case 'atr':
+      return atr(bars, ref.period);
+    case 'bollinger-upper':
+      return bollinger(closes, ref.period, 1);
+    case 'bollinger-lower':
+      return bollinger(closes, ref.period, -1);
+    case 'range-52w':
+      return range52w(bars);
+    case 'volume-ratio':
+      return volumeRatio(bars, ref.period);
+    case 'vwap':
+      return bars.map(bar => bar.vwap ?? NaN);
+    default:
+      return closes;
+  }
+};
+
+/**
+ * Every series the references need, once each, by indicatorKey
+ */
+export const computeIndicators = (bars: PriceBar[], refs: IndicatorRef[]): Map<string, number[]> => {
+  const series = new Map<string, number[]>();
+  for (const ref of refs) {
+    const key = indicatorKey(ref);
+    if (!series.has(key)) series.set(key, indicatorSeries(bars, ref));
+  }
+  return series;
+};
+
+export default computeIndicators;
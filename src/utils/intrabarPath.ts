@@ -0,0 +1,120 @@
+import type { DateOrder, ImportIssue, IntrabarModel, IntradayPaths, PriceBar, RawCsv } from '../types';
+import { detectDateOrder, detectFormat, normalizeHeader, parseDate, parseNumber } from './csvFormats';
+import { symbolFromFileName } from './csvParser';
+
+/**
+ * Intrabar Price Paths
+ *
+ * A daily bar only says where the price opened, closed and how far it
+ * went each way. The path models below fill in the order, so the engine
+ * can walk the day and trade each level as the price reaches it.
+ */
+
+export const INTRABAR_MODEL_LABELS: Record<IntrabarModel, string> = {
+  range: 'Range (original: anything between LOW and HIGH trades)',
+  olhc: 'Open → Low → High → Close',
+  ohlc: 'Open → High → Low → Close',
+  nearest: 'Nearest extreme first',
+  intraday: 'Intraday data (nearest extreme on days without)'
+};
+
+export const PATH_MODELS: IntrabarModel[] = ['range', 'olhc', 'ohlc', 'nearest', 'intraday'];
+
+/**
+ * Drop repeated prices so flat stretches are not walked as segments
+ */
+const compact = (prices: number[]): number[] => prices.filter((price, i) => i === 0 || price !== prices[i - 1]);
+
+/**
+ * OHLC in the order the nearest-extreme rule visits them
+ * Ties go to the LOW first
+ */
+const nearestFirst = ({ open, high, low, close }: Pick<PriceBar, 'open' | 'high' | 'low' | 'close'>): number[] =>
+  high - open < open - low ? [open, high, low, close] : [open, low, high, close];
+
+/**
+ * Price path for one daily bar under a path model
+ * 'intraday' falls back to nearest; the engine swaps in the minute path when it has one.
+ * 'range' has no path and is handled by the original action loop.
+ */
+export const barPath = (bar: PriceBar, model: Exclude<IntrabarModel, 'range'>): number[] => {
+  const { open, high, low, close } = bar;
+  switch (model) {
+    case 'olhc':
+      return compact([open, low, high, close]);
+    case 'ohlc':
+      return compact([open, high, low, close]);
+    default:
+      return compact(nearestFirst(bar));
+  }
+};
+
+const TIME_OF_DAY = /(\d{1,2}):(\d{2})(?::(\d{2}))?/;
+
+/**
+ * Seconds since midnight from "09:15", "9:15:30" or a timestamp containing one
+ */
+const secondsOfDay = (text: string): number | null => {
+  const match = TIME_OF_DAY.exec(text);
+  return match ? +match[1] * 3600 + +match[2] * 60 + +(match[3] ?? 0) : null;
+};
+
+/**
+ * Minute (or any intraday) bars from a CSV, as one price path per day
+ *
+ * The date column may carry the time ("2024-01-05 09:15:00") or a
+ * separate Time column may. Each minute bar is expanded with the
+ * nearest-extreme rule; minutes are joined in time order. Files with a
+ * symbol column come back per symbol, others under the file name.
+ */
+export const parseIntradayCSV = (
+  raw: RawCsv,
+  dateOrder?: DateOrder
+): { paths: Map<string, IntradayPaths>; issues: ImportIssue[] } => {
+  const issues: ImportIssue[] = [];
+  const paths = new Map<string, IntradayPaths>();
+  const detected = detectFormat(raw.headers);
+  if (!detected) {
+    issues.push({ row: null, severity: 'error', message: 'Intraday CSV needs date/time, OPEN, HIGH, LOW and CLOSE columns' });
+    return { paths, issues };
+  }
+
+  const { mapping } = detected;
+  const timeColumn = raw.headers.find(h => normalizeHeader(h) === 'TIME' && h !== mapping.date);
+  const order = dateOrder ?? detectDateOrder(raw.rows.slice(0, 200).map(row => (row[mapping.date] ?? '').split(/[T\s]/)[0]));
+  const fallbackSymbol = symbolFromFileName(raw.fileName);
+  const minutes = new Map<string, Map<number, { at: number; prices: number[] }[]>>(); // symbol → day → minutes
+
+  raw.rows.forEach((row, idx) => {
+    const line = idx + 2; // Header is line 1
+    const stamp = row[mapping.date] ?? '';
+    const day = parseDate(stamp.replace(/[T\s]+\d{1,2}:\d{2}.*$/, ''), order);
+    const at = secondsOfDay(timeColumn ? row[timeColumn] ?? '' : stamp);
+    if (day === null || at === null) {
+      issues.push({ row: line, severity: 'error', message: `Unrecognized timestamp '${stamp}${timeColumn ? ' ' + (row[timeColumn] ?? '') : ''}'` });
+      return;
+    }
+
+    const [open, high, low, close] = (['open', 'high', 'low', 'close'] as const).map(f => parseNumber(row[mapping[f]]));
+    if (![open, high, low, close].every(p => Number.isFinite(p) && p > 0) || high < low) {
+      issues.push({ row: line, severity: 'error', message: 'Prices must be positive with HIGH ≥ LOW' });
+      return;
+    }
+
+    const symbol = (mapping.symbol && row[mapping.symbol]?.trim()) || fallbackSymbol;
+    const days = minutes.get(symbol) ?? new Map<number, { at: number; prices: number[] }[]>();
+    const list = days.get(day) ?? [];
+    list.push({ at, prices: nearestFirst({ open, high, low, close }) });
+    days.set(day, list);
+    minutes.set(symbol, days);
+  });
+
+  for (const [symbol, days] of minutes) {
+    const symbolPaths: IntradayPaths = new Map();
+    for (const [day, bars] of days) {
+      symbolPaths.set(day, compact(bars.sort((a, b) => a.at - b.at).flatMap(b => b.prices)));
+    }
+    paths.set(symbol, symbolPaths);
+  }
+  return { paths, issues };
+};
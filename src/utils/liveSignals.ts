@@ -0,0 +1,225 @@
+import type {
+  BacktestOptions,
+  EngineState,
+  IndicatorValues,
+  ManualSession,
+  PendingOrder,
+  PriceBar,
+  SessionPlan,
+  Strategy,
+  StrategyConfig
+} from '../types';
+import { createEngineState, processDay } from './backtestEngineV2';
+import { actionsByBar } from './corporateActions';
+import { getLadderThreshold } from './referenceStrategy';
+import { createStrategy } from './strategies';
+import { rupees } from './decisionLog';
+import { EXIT_TYPE_LABELS, stopLevel, timeStopDue } from './exitRules';
+import { sizeLot } from './positionSizing';
+import { describeRule, heldBy, indicatorsByBar, latestIndicators } from './signalFilters';
+
+/**
+ * Live Signals
+ *
+ * Turns the state a backtest ends in into the orders to place for the
+ * next session, and rolls that state forward with the fills that actually
+ * happened. The loaded history is replayed without treating its last bar
+ * as the end of the data (buy and hold would sell out there), then every
+ * session entered by hand trades only the fills given for it, at the
+ * prices given. Fees still apply; slippage does not, the price entered is
+ * the fill.
+ */
+
+type LiveOptions = Pick<BacktestOptions, 'corporateActions' | 'intraday'>;
+
+export interface LiveState {
+  state: EngineState;
+  plan: SessionPlan;
+}
+
+const STORAGE_PREFIX = 'stock-backtest:sessions:';
+
+// A session entered by hand only has its CLOSE
+const sessionBar = ({ date, time, close }: ManualSession): PriceBar => ({ date, time, open: close, high: close, low: close, close });
+
+/**
+ * Sells the exit rules have resting for the next session
+ */
+const exitOrders = (state: EngineState, config: StrategyConfig): PendingOrder[] =>
+  state.positions.flatMap((lot): PendingOrder[] => {
+    if (timeStopDue(lot, config.exits)) {
+      return [{
+        side: 'SELL',
+        price: state.lastClose,
+        shares: lot.shares,
+        threshold: lot.threshold ?? 0,
+        lot,
+        exit: 'time-stop',
+        note: `Held ${lot.daysHeld} trading days: sell at the OPEN, whatever it is (value shown at the last close)`
+      }];
+    }
+    const stop = stopLevel(lot, config.exits);
+    if (!stop) return [];
+    return [{
+      side: 'SELL',
+      price: stop.price,
+      shares: lot.shares,
+      threshold: lot.threshold ?? 0,
+      lot,
+      exit: stop.type,
+      note: `${EXIT_TYPE_LABELS[stop.type]}: opens below it, sells at the ${config.gapFill === 'close' ? 'CLOSE unless the day comes back to it' : 'OPEN'}`
+    }];
+  });
+
+/**
+ * Orders for the session after the last one processed
+ * indicators are the values at the last CLOSE, which the filter rules
+ * read next session; a rule that would hold the orders is noted
+ */
+export const planNextSession = (state: EngineState, config: StrategyConfig, asOf: string, indicators: IndicatorValues = {}): SessionPlan => {
+  const lotShares = (price: number, openPositions: number) => sizeLot(state, config, {}, openPositions).shares(price);
+  const planned = state.strategy.planSession?.(state.positions, state.lastClose, lotShares)
+    ?? { orders: [], notes: ['This strategy does not publish resting orders'] };
+  const orders = [...exitOrders(state, config), ...planned.orders];
+  const notes = [...planned.notes];
+  if (config.exits.enabled && config.exits.drawdownCut > 0) {
+    notes.push(`Drawdown cut: sell every lot at the CLOSE if P/L falls below ${rupees(state.cutPeakEquity - config.exits.drawdownCut)}`);
+  }
+  for (const side of ['BUY', 'SELL'] as const) {
+    const held = heldBy(config.filters, side, indicators);
+    if (held) notes.push(`${held.rule.id} holds ${side === 'BUY' ? 'buys' : 'target sells'} next session (${describeRule(held.rule)}): ${held.detail}`);
+  }
+  return {
+    orders,
+    notes,
+    asOf,
+    lastClose: state.lastClose,
+    reference: state.strategy.getState().reference,
+    openLots: state.positions.length,
+    maxPositions: config.maxPositions
+  };
+};
+
+/**
+ * Trade one session entered by hand
+ * Sells name their lot by its index before any of the day's fills, so a
+ * buy earlier in the list does not shift them. The strategy sees every
+ * fill as usual; its own rules do not run, so a reference move it would
+ * have made at the CLOSE has to be entered as session.reference.
+ */
+export const applyManualSession = (state: EngineState, config: StrategyConfig, session: ManualSession, actions?: LiveOptions['corporateActions']) => {
+  const lots = session.fills.map((fill, i) => {
+    if (fill.side === 'BUY') return undefined;
+    const lot = state.positions[fill.lotIndex ?? -1];
+    if (!lot) throw new Error(`${session.date}: fill ${i + 1} sells a lot that is not open`);
+    return lot;
+  });
+
+  const strategy = state.strategy;
+  const manual: Strategy = {
+    ...strategy,
+    onBar: (_bar, ctx) => {
+      session.fills.forEach((fill, i) => {
+        const lot = lots[i];
+        if (lot) {
+          ctx.sell(lot, fill.price, {
+            reason: `Sold by hand at ${rupees(fill.price)}: lot bought at ${rupees(lot.buyPrice)} on ${lot.buyDate}`,
+            fill: 'manual',
+            exit: 'manual'
+          });
+          return;
+        }
+        ctx.buy(fill.price, {
+          threshold: fill.threshold ?? getLadderThreshold(config, ctx.positions.length),
+          shares: fill.shares,
+          fill: 'manual',
+          reason: `Bought by hand: ${fill.shares} shares at ${rupees(fill.price)}`
+        });
+      });
+    }
+  };
+
+  const { close, date } = session;
+  // Exit rules and filters do not act on their own either: a stop that filled is entered as a sell
+  const manualConfig = { ...config, costs: { ...config.costs, slippageValue: 0 }, exits: { ...config.exits, enabled: false }, filters: [] };
+  state.strategy = manual;
+  try {
+    processDay(state, sessionBar(session), manualConfig, { actions });
+  } finally {
+    state.strategy = strategy;
+  }
+
+  if (session.reference !== undefined) {
+    const { referenceEventId } = strategy.getState();
+    const id = state.events.length;
+    state.events.push({
+      id,
+      date,
+      type: 'reference-update',
+      price: close,
+      reference: session.reference,
+      causeId: referenceEventId,
+      reason: `Reference set by hand to ${rupees(session.reference)}`
+    });
+    state.strategy = createStrategy(config, { reference: session.reference, referenceEventId: id });
+    const today = state.dailySeries[state.dailySeries.length - 1];
+    if (today?.date === date) today.reference = state.strategy.getState().reference ?? 0;
+  }
+};
+
+/**
+ * Replay the history, then the sessions entered since, and plan the next
+ */
+export const rollForward = (
+  data: PriceBar[],
+  config: StrategyConfig,
+  sessions: ManualSession[] = [],
+  options: LiveOptions = {}
+): LiveState => {
+  const bars = [...data].sort((a, b) => a.time - b.time);
+  if (bars.length === 0) throw new Error('Load price data to plan the next session');
+  const last = bars[bars.length - 1];
+  const manual = [...sessions].sort((a, b) => a.time - b.time);
+  if (manual.length > 0 && manual[0].time <= last.time) {
+    throw new Error(`Sessions entered by hand must come after the last loaded bar (${last.date})`);
+  }
+
+  const state = createEngineState(config);
+  const sessionBars = [...bars, ...manual.map(sessionBar)];
+  const actions = actionsByBar(sessionBars, options.corporateActions ?? []);
+  const indicators = indicatorsByBar(bars, config.filters, actions);
+  for (const bar of bars) {
+    processDay(state, bar, config, {
+      actions: actions.get(bar.time),
+      path: options.intraday?.get(bar.time),
+      indicators: indicators.get(bar.time)
+    });
+  }
+  for (const session of manual) {
+    applyManualSession(state, config, session, actions.get(session.time));
+  }
+
+  const asOf = manual[manual.length - 1]?.date ?? last.date;
+  return { state, plan: planNextSession(state, config, asOf, latestIndicators(sessionBars, config.filters, actions)) };
+};
+
+/**
+ * Sessions entered by hand, kept per symbol in the browser
+ */
+export const loadManualSessions = (symbol: string): ManualSession[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_PREFIX + symbol) ?? '[]') as ManualSession[];
+  } catch {
+    return [];
+  }
+};
+
+export const saveManualSessions = (symbol: string, sessions: ManualSession[]) => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + symbol, JSON.stringify(sessions));
+  } catch {
+    // Storage full or disabled: the sessions last until the page is closed
+  }
+};
+
+export default rollForward;
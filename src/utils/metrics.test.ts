@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_COST_MODEL } from './costModel';
+import { computeMetrics, tradeCashFlows } from './metrics';
+import { type bars, runDays, testConfig } from '../test/bars';
+
+/**
+ * Metrics
+ *
+ * XIRR over a short reference-strategy run with and without costs: the
+ * lot bought at 100 sells at its 105 target, so fees are the only
+ * difference between the two runs.
+ */
+
+const ROUND_TRIP: Parameters<typeof bars> = [
+  [100, 101, 99, 100],
+  [104, 106, 103, 105],
+  [105, 105, 104, 104.5]
+];
+
+describe('metrics', () => {
+  it('takes fees out of the XIRR cash flows', () => {
+    const free = runDays(testConfig(), ...ROUND_TRIP).results;
+    const costed = runDays(testConfig({ costs: { ...DEFAULT_COST_MODEL, enabled: true } }), ...ROUND_TRIP).results;
+
+    const [buy, sell] = costed.transactions;
+    const flows = tradeCashFlows(costed.transactions, costed.endDate, costed.currentValue);
+    expect(flows.slice(0, 2).map(flow => flow.amount)).toEqual([-buy.netAmount!, sell.netAmount!]);
+    expect(buy.netAmount).toBeGreaterThan(buy.amount);
+    expect(sell.netAmount).toBeLessThan(sell.amount);
+
+    const withoutFees = computeMetrics(free).xirr!;
+    const withFees = computeMetrics(costed).xirr!;
+    expect(withFees).toBeLessThan(withoutFees);
+    expect(withFees).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,182 @@
+import type { BacktestResults, CorporateActionEvent, DailySnapshot, PerformanceMetrics, Transaction } from '../types';
+
+/**
+ * Risk & Performance Metrics
+ *
+ * All return figures are measured on the peak capital deployed, which is
+ * the most money the strategy ever needed at once. Equity means realized
+ * plus unrealized P/L, so open lots sitting at a loss count against the
+ * result (unlike totalProfit, which is realized only).
+ */
+
+const TRADING_DAYS_PER_YEAR = 252;
+const MS_PER_DAY = 1000 * 3600 * 24;
+
+const daysBetween = (from: string, to: string): number =>
+  Math.abs(new Date(to).getTime() - new Date(from).getTime()) / MS_PER_DAY;
+
+/**
+ * XIRR: annual rate at which the dated cash flows net to zero
+ * Newton's method with a bisection fallback; null when there is no sign change
+ */
+export const computeXIRR = (flows: { date: string; amount: number }[]): number | null => {
+  if (flows.length < 2) return null;
+  if (!flows.some(f => f.amount > 0) || !flows.some(f => f.amount < 0)) return null;
+
+  const start = new Date(flows[0].date).getTime();
+  const years = flows.map(f => (new Date(f.date).getTime() - start) / MS_PER_DAY / 365);
+
+  const npv = (rate: number) =>
+    flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+  const dNpv = (rate: number) =>
+    flows.reduce((sum, f, i) => sum - (years[i] * f.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const slope = dNpv(rate);
+    if (Math.abs(value) < 1e-6) return rate;
+    if (slope === 0 || !isFinite(slope)) break;
+    const next = rate - value / slope;
+    if (!isFinite(next) || next <= -0.9999) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  // Bisection fallback
+  let low = -0.9999;
+  let high = 10;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (npv(low) * npv(mid) <= 0) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Cash flows as the trader sees them: buys out, sells and dividends in,
+ * open lots valued at the final close on the last date
+ * Fees come out of each flow; runs saved before costs only have the gross amount
+ */
+export const tradeCashFlows = (
+  transactions: Transaction[],
+  endDate: string | undefined,
+  currentValue: number,
+  corporateActions: CorporateActionEvent[] = []
+): { date: string; amount: number }[] => {
+  const flows = transactions.map(t => ({
+    date: t.date,
+    amount: t.type === 'BUY' ? -(t.netAmount ?? t.amount) : t.netAmount ?? t.amount
+  }));
+  for (const action of corporateActions) {
+    if (action.dividend) flows.push({ date: action.date, amount: action.dividend });
+  }
+  if (endDate && currentValue > 0) {
+    flows.push({ date: endDate, amount: currentValue });
+  }
+  return flows;
+};
+
+/**
+ * Annualized mean / deviation of daily returns
+ * Sortino only counts downside deviation below the daily risk-free rate
+ */
+const ratioStats = (returns: number[], riskFreeRate: number) => {
+  if (returns.length < 2) return { sharpe: 0, sortino: 0 };
+
+  const dailyRf = riskFreeRate / TRADING_DAYS_PER_YEAR;
+  const excess = returns.map(r => r - dailyRf);
+  const mean = excess.reduce((s, r) => s + r, 0) / excess.length;
+  const variance = excess.reduce((s, r) => s + (r - mean) ** 2, 0) / (excess.length - 1);
+  const downside = excess.reduce((s, r) => s + Math.min(0, r) ** 2, 0) / excess.length;
+
+  const annualize = Math.sqrt(TRADING_DAYS_PER_YEAR);
+  return {
+    sharpe: variance > 0 ? (mean / Math.sqrt(variance)) * annualize : 0,
+    sortino: downside > 0 ? (mean / Math.sqrt(downside)) * annualize : 0
+  };
+};
+
+/**
+ * Longest drawdown in ₹ and the longest time spent under water
+ */
+const drawdownStats = (series: DailySnapshot[], capitalBase: number) => {
+  let peak = 0;
+  let peakIndex = 0;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+  let maxDrawdownDays = 0;
+  let drawdownStart: string | undefined;
+  let drawdownEnd: string | undefined;
+
+  series.forEach((day, idx) => {
+    if (day.equity >= peak) {
+      peak = day.equity;
+      peakIndex = idx;
+    }
+
+    const drawdown = peak - day.equity;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPercent = capitalBase + peak > 0 ? drawdown / (capitalBase + peak) : 0;
+    }
+
+    const underWater = idx - peakIndex;
+    if (underWater > maxDrawdownDays) {
+      maxDrawdownDays = underWater;
+      drawdownStart = series[peakIndex].date;
+      drawdownEnd = day.date;
+    }
+  });
+
+  return { maxDrawdown, maxDrawdownPercent, maxDrawdownDays, drawdownStart, drawdownEnd };
+};
+
+export const computeMetrics = (results: BacktestResults, riskFreeRate = 0): PerformanceMetrics => {
+  const series = results.dailySeries ?? [];
+  const capitalBase = results.peakCapitalDeployed ?? 0;
+  const finalEquity = series.length > 0 ? series[series.length - 1].equity : results.totalProfit;
+
+  // CAGR on peak deployed capital
+  const years = results.startDate && results.endDate ? daysBetween(results.startDate, results.endDate) / 365 : 0;
+  const growth = capitalBase > 0 ? (capitalBase + finalEquity) / capitalBase : 1;
+  const cagr = years > 0 && growth > 0 ? Math.pow(growth, 1 / years) - 1 : 0;
+
+  // Daily returns of capital base + equity
+  const returns: number[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const previous = capitalBase + series[i - 1].equity;
+    if (previous > 0) {
+      returns.push((series[i].equity - series[i - 1].equity) / previous);
+    }
+  }
+
+  const sells = results.transactions.filter(t => t.type === 'SELL');
+  const wins = sells.filter(t => (t.profit ?? 0) > 0).length;
+  const holdingDays = sells
+    .filter(t => t.buyDate)
+    .map(t => daysBetween(t.buyDate as string, t.date));
+
+  const exposedDays = series.filter(day => day.openPositions > 0).length;
+
+  return {
+    capitalBase,
+    finalEquity,
+    cagr,
+    xirr: computeXIRR(tradeCashFlows(results.transactions, results.endDate, results.currentValue, results.corporateActions)),
+    ...drawdownStats(series, capitalBase),
+    ...ratioStats(returns, riskFreeRate),
+    winRate: sells.length > 0 ? wins / sells.length : 0,
+    closedLots: sells.length,
+    avgHoldingDays: holdingDays.length > 0 ? holdingDays.reduce((s, d) => s + d, 0) / holdingDays.length : 0,
+    exposure: series.length > 0 ? exposedDays / series.length : 0,
+    riskFreeRate
+  };
+};
+
+export default computeMetrics;
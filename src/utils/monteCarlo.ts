@@ -0,0 +1,210 @@
+import type {
+  CorporateAction,
+  EquityBand,
+  MonteCarloConfig,
+  MonteCarloMetric,
+  MonteCarloPathResult,
+  MonteCarloRequest,
+  MonteCarloResult,
+  PercentileSummary,
+  PriceBar
+} from '../types';
+import { runBacktest } from './backtestEngineV2';
+import { actionsByBar, shareFactor } from './corporateActions';
+import { formatBarDate } from './csvFormats';
+import { createRng, randomInt } from './random';
+
+/**
+ * Monte Carlo Robustness
+ *
+ * Builds synthetic price histories from the loaded bars and runs the
+ * strategy on each, to see how much of a result is the one path history
+ * happened to take. Each day is stored as its OPEN, HIGH, LOW and CLOSE
+ * relative to the previous CLOSE; paths are stitched from random blocks
+ * of consecutive days (block bootstrap), so quiet and volatile spells
+ * stay together. Everything random comes from one seeded generator.
+ */
+
+export const DEFAULT_MONTE_CARLO: MonteCarloConfig = {
+  paths: 200,
+  blockSize: 20,   // About a month of trading days
+  pathBars: 0,     // 0 = as long as the loaded data
+  randomStart: true,
+  noise: 0,
+  seed: 42
+};
+
+export const MONTE_CARLO_METRIC_LABELS: Record<MonteCarloMetric, string> = {
+  totalProfit: 'Realized Profit',
+  finalEquity: 'Final Equity (MTM)',
+  maxDrawdown: 'Max Drawdown',
+  peakCapitalDeployed: 'Peak Capital Deployed',
+  openPositions: 'Open Lots at End'
+};
+
+const MAX_BANDS = 200; // Points on the equity band chart
+const MS_PER_DAY = 1000 * 3600 * 24;
+
+interface DayRatios {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * Each day relative to the previous CLOSE
+ * Split and bonus gaps are scaled back out; they are not market moves
+ * and would otherwise be resampled as crashes.
+ */
+export const dailyRatios = (bars: PriceBar[], corporateActions: CorporateAction[] = []): DayRatios[] => {
+  const actions = actionsByBar(bars, corporateActions);
+  const ratios: DayRatios[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    const factor = (actions.get(bars[i].time) ?? []).reduce((f, action) => f * shareFactor(action), 1);
+    const base = bars[i - 1].close / factor;
+    ratios.push({
+      open: bars[i].open / base,
+      high: bars[i].high / base,
+      low: bars[i].low / base,
+      close: bars[i].close / base
+    });
+  }
+  return ratios;
+};
+
+/**
+ * Standard normal draw (Box-Muller)
+ */
+const gaussian = (rng: () => number): number => {
+  const u = 1 - rng(); // (0, 1], keeps log finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+};
+
+/**
+ * Next Monday-to-Friday date; synthetic days have no exchange holidays
+ */
+const nextWeekday = (time: number): number => {
+  let next = time + MS_PER_DAY;
+  while ([0, 6].includes(new Date(next).getUTCDay())) next += MS_PER_DAY;
+  return next;
+};
+
+/**
+ * One synthetic history: a real first bar, then resampled blocks of days
+ */
+export const generatePath = (
+  bars: PriceBar[],
+  ratios: DayRatios[],
+  config: MonteCarloConfig,
+  rng: () => number
+): PriceBar[] => {
+  const length = config.pathBars > 0 ? config.pathBars : bars.length;
+  const blockSize = Math.max(1, Math.min(config.blockSize, ratios.length));
+  const first = bars[config.randomStart ? randomInt(rng, bars.length - 1) : 0];
+  const jitter = (ratio: number) => (config.noise > 0 ? ratio * Math.exp(config.noise * gaussian(rng)) : ratio);
+
+  const path: PriceBar[] = [{ ...first, volume: undefined, vwap: undefined, high52: undefined, low52: undefined }];
+  let { close: previous, time } = first;
+  while (path.length < length) {
+    const blockStart = randomInt(rng, ratios.length - blockSize + 1);
+    for (let k = 0; k < blockSize && path.length < length; k++) {
+      const day = ratios[blockStart + k];
+      const open = previous * jitter(day.open);
+      const close = previous * jitter(day.close);
+      const high = Math.max(previous * jitter(day.high), open, close);
+      const low = Math.min(previous * jitter(day.low), open, close);
+      time = nextWeekday(time);
+      path.push({ date: formatBarDate(time), time, open, high, low, close });
+      previous = close;
+    }
+  }
+  return path;
+};
+
+/**
+ * Linear-interpolated percentile of sorted values, p in [0, 1]
+ */
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const summarize = (values: number[]): PercentileSummary => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    mean: sorted.reduce((sum, v) => sum + v, 0) / (sorted.length || 1),
+    p5: percentile(sorted, 0.05),
+    p25: percentile(sorted, 0.25),
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p95: percentile(sorted, 0.95),
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0
+  };
+};
+
+/**
+ * Run the strategy on every synthetic path and summarize the spread
+ * onProgress is called after every path
+ */
+export const runMonteCarlo = (
+  data: PriceBar[],
+  request: MonteCarloRequest,
+  onProgress?: (completed: number, total: number) => void
+): MonteCarloResult => {
+  const bars = [...data].sort((a, b) => a.time - b.time);
+  if (bars.length < 3) throw new Error('Monte Carlo needs at least 3 bars of data');
+  if (request.paths < 1) throw new Error('Run at least one path');
+
+  const ratios = dailyRatios(bars, request.corporateActions);
+  const rng = createRng(request.seed);
+  const length = request.pathBars > 0 ? request.pathBars : bars.length;
+
+  const paths: MonteCarloPathResult[] = [];
+  const equities: number[][] = []; // Per path, equity on each day
+  for (let index = 0; index < request.paths; index++) {
+    const path = generatePath(bars, ratios, request, rng);
+    const results = runBacktest(path, request.config);
+
+    const byDate = new Map((results.dailySeries ?? []).map(day => [day.date, day.equity]));
+    let carried = 0;
+    const equity = path.map(bar => (carried = byDate.get(bar.date) ?? carried));
+    equities.push(equity);
+
+    paths.push({
+      index,
+      startDate: path[0].date,
+      totalProfit: results.totalProfit,
+      finalEquity: equity[equity.length - 1],
+      annualizedROI: results.annualizedROI ?? 0,
+      maxDrawdown: results.maxDrawdown ?? 0,
+      peakCapitalDeployed: results.peakCapitalDeployed ?? 0,
+      openPositions: results.remainingPositions.length,
+      finalPrice: path[path.length - 1].close / path[0].open
+    });
+    onProgress?.(index + 1, request.paths);
+  }
+
+  const step = Math.max(1, Math.ceil(length / MAX_BANDS));
+  const equityBands: EquityBand[] = [];
+  for (let bar = 0; bar < length; bar += step) {
+    const { p5, p25, p50, p75, p95 } = summarize(equities.map(equity => equity[bar]));
+    equityBands.push({ bar, p5, p25, p50, p75, p95 });
+  }
+
+  const metrics = Object.keys(MONTE_CARLO_METRIC_LABELS) as MonteCarloMetric[];
+  return {
+    request,
+    paths,
+    summary: Object.fromEntries(metrics.map(metric => [metric, summarize(paths.map(p => p[metric]))])) as Record<MonteCarloMetric, PercentileSummary>,
+    lossProbability: paths.filter(p => p.finalEquity < 0).length / paths.length,
+    stuckProbability: paths.filter(p => p.openPositions >= request.config.maxPositions).length / paths.length,
+    equityBands
+  };
+};
+
+export default runMonteCarlo;
@@ -0,0 +1,231 @@
+import type {
+  PriceBar,
+  StrategyConfig,
+  OptimizerParam,
+  OptimizerObjective,
+  OptimizerRequest,
+  OptimizerResult,
+  ParameterRange,
+  BacktestOptions
+} from '../types';
+import { runBacktest } from './backtestEngineV2';
+import { createRng, randomInt } from './random';
+
+/**
+ * Parameter Sweep Optimizer
+ *
+ * Runs the backtest engine across a grid (or a random sample of the grid)
+ * of strategy parameters and ranks the runs by a chosen objective.
+ *
+ * Each parameter range expands to min, min + step, ... max. The grid is the
+ * cartesian product of all ranges; combinations are addressed by index so
+ * random mode can sample huge grids without materializing them.
+ */
+
+// Above this many combinations grid mode refuses to run, use random mode instead
+export const MAX_GRID_COMBINATIONS = 5000;
+
+export const PARAM_LABELS: Record<OptimizerParam, string> = {
+  threshold: 'Buy/Sell Threshold (%)',
+  ladderStep1: 'Ladder Step 1 (%)',
+  ladderStep2: 'Ladder Step 2 (%)',
+  maxPositions: 'Max Positions',
+  lotSize: 'Lot Size (₹)',
+  fallingStockReset: 'Falling Stock Reset (%)'
+};
+
+export const OBJECTIVE_LABELS: Record<OptimizerObjective, string> = {
+  totalProfit: 'Total Realized Profit',
+  annualizedROI: 'Annualized ROI',
+  maxDrawdown: 'Max Drawdown (lower is better)',
+  profitPerPeakCapital: 'Profit per ₹ of Peak Capital'
+};
+
+// Parameters stored as fractions in StrategyConfig but entered as percentages
+export const PERCENT_PARAMS: OptimizerParam[] = ['threshold', 'ladderStep1', 'ladderStep2', 'fallingStockReset'];
+
+/**
+ * Display a swept parameter value the way it is entered in the UI
+ */
+export const formatParamValue = (param: OptimizerParam, value: number | undefined): string => {
+  if (value === undefined) return '-';
+  if (PERCENT_PARAMS.includes(param)) return `${+(value * 100).toFixed(2)}%`;
+  if (param === 'lotSize') return `₹${value.toLocaleString('en-IN')}`;
+  return String(value);
+};
+
+/**
+ * Expand a range into its discrete values
+ * Rounds away floating point drift so 0.05 + 0.01 steps stay readable
+ */
+export const expandRange = (range: ParameterRange): number[] => {
+  if (range.step <= 0 || range.max < range.min) return [range.min];
+
+  const values: number[] = [];
+  const count = Math.floor((range.max - range.min) / range.step + 1e-9);
+  for (let i = 0; i <= count; i++) {
+    values.push(+(range.min + i * range.step).toFixed(10));
+  }
+  return values;
+};
+
+/**
+ * Build a strategy config from the base config with swept parameters applied
+ * Ladder steps refer to the base config's ladder by position; missing steps are ignored
+ */
+export const applyParams = (
+  base: StrategyConfig,
+  params: Partial<Record<OptimizerParam, number>>
+): StrategyConfig => {
+  const config: StrategyConfig = {
+    ...base,
+    thresholdLadder: base.thresholdLadder.map(step => ({ ...step }))
+  };
+
+  for (const [param, value] of Object.entries(params) as [OptimizerParam, number][]) {
+    switch (param) {
+      case 'ladderStep1':
+        if (config.thresholdLadder[0]) config.thresholdLadder[0].threshold = value;
+        break;
+      case 'ladderStep2':
+        if (config.thresholdLadder[1]) config.thresholdLadder[1].threshold = value;
+        break;
+      case 'maxPositions':
+        config.maxPositions = Math.max(1, Math.round(value));
+        break;
+      default:
+        config[param] = value;
+    }
+  }
+
+  return config;
+};
+
+/**
+ * Decode a combination index into one value per range (mixed radix)
+ */
+const decodeCombination = (
+  index: number,
+  ranges: ParameterRange[],
+  values: number[][]
+): Partial<Record<OptimizerParam, number>> => {
+  const params: Partial<Record<OptimizerParam, number>> = {};
+  let remainder = index;
+
+  for (let i = ranges.length - 1; i >= 0; i--) {
+    const size = values[i].length;
+    params[ranges[i].param] = values[i][remainder % size];
+    remainder = Math.floor(remainder / size);
+  }
+
+  return params;
+};
+
+/**
+ * Total number of combinations in the grid
+ */
+export const countCombinations = (ranges: ParameterRange[]): number => {
+  return ranges.reduce((total, range) => total * expandRange(range).length, 1);
+};
+
+/**
+ * List the parameter combinations a request will evaluate
+ */
+export const generateCombinations = (request: OptimizerRequest): Partial<Record<OptimizerParam, number>>[] => {
+  const values = request.ranges.map(expandRange);
+  const total = countCombinations(request.ranges);
+
+  let indices: number[];
+  if (request.mode === 'grid') {
+    if (total > MAX_GRID_COMBINATIONS) {
+      throw new Error(
+        `Grid has ${total.toLocaleString('en-IN')} combinations (limit ${MAX_GRID_COMBINATIONS.toLocaleString('en-IN')}). Narrow the ranges or use random search.`
+      );
+    }
+    indices = Array.from({ length: total }, (_, i) => i);
+  } else {
+    // Sample distinct combinations without replacement
+    const rng = createRng(request.seed);
+    const target = Math.min(request.samples, total);
+    const picked = new Set<number>();
+    while (picked.size < target) {
+      picked.add(randomInt(rng, total));
+    }
+    indices = [...picked];
+  }
+
+  return indices.map(index => decodeCombination(index, request.ranges, values));
+};
+
+/**
+ * Objective value oriented so that higher is always better
+ */
+export const scoreResult = (
+  result: Omit<OptimizerResult, 'score'>,
+  objective: OptimizerObjective
+): number => {
+  switch (objective) {
+    case 'totalProfit':
+      return result.totalProfit;
+    case 'annualizedROI':
+      return result.annualizedROI;
+    case 'maxDrawdown':
+      return -result.maxDrawdown;
+    case 'profitPerPeakCapital':
+      return result.profitPerPeakCapital;
+  }
+};
+
+/**
+ * Run a single combination and summarize it
+ */
+export const evaluateConfig = (
+  data: PriceBar[],
+  params: Partial<Record<OptimizerParam, number>>,
+  config: StrategyConfig,
+  objective: OptimizerObjective,
+  options: Pick<BacktestOptions, 'corporateActions' | 'intraday'> = {}
+): OptimizerResult => {
+  const results = runBacktest(data, config, options);
+  const peakCapitalDeployed = results.peakCapitalDeployed ?? 0;
+
+  const summary = {
+    params,
+    config,
+    totalProfit: results.totalProfit,
+    annualizedROI: results.annualizedROI ?? 0,
+    maxDrawdown: results.maxDrawdown ?? 0,
+    peakCapitalDeployed,
+    profitPerPeakCapital: peakCapitalDeployed > 0 ? results.totalProfit / peakCapitalDeployed : 0,
+    totalTrades: results.totalTrades,
+    openPositions: results.remainingPositions.length
+  };
+
+  return { ...summary, score: scoreResult(summary, objective) };
+};
+
+/**
+ * Run the whole sweep and return results ranked best first
+ * onProgress is called after every evaluated combination
+ */
+export const runOptimization = (
+  data: PriceBar[],
+  request: OptimizerRequest,
+  onProgress?: (completed: number, total: number) => void
+): OptimizerResult[] => {
+  const combinations = generateCombinations(request);
+  const results: OptimizerResult[] = [];
+
+  combinations.forEach((params, idx) => {
+    const config = applyParams(request.baseConfig, params);
+    results.push(evaluateConfig(data, params, config, request.objective, {
+      corporateActions: request.corporateActions,
+      intraday: request.intraday
+    }));
+    onProgress?.(idx + 1, combinations.length);
+  });
+
+  return results.sort((a, b) => b.score - a.score);
+};
+
+export default runOptimization;
@@ -0,0 +1,72 @@
+import type { FillReason, GapFillMode, PriceBar } from '../types';
+
+/**
+ * Order Fills
+ *
+ * Every strategy level is treated as a limit order: a sell at its target
+ * and above, a buy at its trigger and below. When the day trades through
+ * the level the order fills there. When the OPEN is already through it,
+ * GapFillMode decides: a resting order fills at the OPEN, the better
+ * price; the end-of-day fallback fills at the CLOSE unless the day came
+ * back to the level.
+ */
+
+export const GAP_FILL_LABELS: Record<GapFillMode, string> = {
+  open: 'At the OPEN (resting limit orders)',
+  close: 'At the CLOSE unless the day trades back to the level'
+};
+
+export const GAP_FILL_MODES = Object.keys(GAP_FILL_LABELS) as GapFillMode[];
+
+export const FILL_REASON_LABELS: Record<FillReason, string> = {
+  'trigger': 'At level',
+  'gap-open': 'Gap: OPEN',
+  'gap-close': 'Gap: CLOSE',
+  'open': 'At OPEN',
+  'close': 'At CLOSE',
+  'manual': 'Manual'
+};
+
+/**
+ * What happens to a next-session order if the market opens through it
+ */
+export const gapNote = (side: 'BUY' | 'SELL', mode: GapFillMode): string => {
+  const level = side === 'SELL' ? 'above the target' : 'below the trigger';
+  const verb = side === 'SELL' ? 'sells' : 'buys';
+  return mode === 'close'
+    ? `Opens ${level}: ${verb} at the level if the day comes back to it, otherwise at the CLOSE`
+    : `Opens ${level}: ${verb} at the OPEN`;
+};
+
+export interface Fill {
+  price: number;
+  reason: FillReason;
+}
+
+/**
+ * Sell limit at target on a daily bar without a price path
+ * null when the HIGH never reached it
+ */
+export const rangeSellFill = (bar: PriceBar, target: number, mode: GapFillMode): Fill | null => {
+  if (bar.high < target) return null;
+  if (bar.open > target) {
+    if (mode === 'open') return { price: bar.open, reason: 'gap-open' };
+    if (bar.low > target) return { price: bar.close, reason: 'gap-close' };
+  }
+  return { price: target, reason: 'trigger' };
+};
+
+/**
+ * Buy limit at trigger on a daily bar without a price path
+ * Only an order resting before the open can fill at the OPEN; one placed
+ * during the day that the whole day stayed below fills at the CLOSE.
+ * null when the LOW never reached it.
+ */
+export const rangeBuyFill = (bar: PriceBar, trigger: number, mode: GapFillMode, resting: boolean): Fill | null => {
+  if (bar.low > trigger) return null;
+  if (bar.open < trigger && resting && mode === 'open') return { price: bar.open, reason: 'gap-open' };
+  if (bar.high < trigger) return { price: bar.close, reason: 'gap-close' };
+  return { price: trigger, reason: 'trigger' };
+};
+
+export default rangeBuyFill;
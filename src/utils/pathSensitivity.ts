@@ -0,0 +1,50 @@
+import type {
+  BacktestOptions,
+  IntrabarModel,
+  PathModelResult,
+  PortfolioConfig,
+  StrategyConfig,
+  SymbolDataset
+} from '../types';
+import { runBacktest } from './backtestEngineV2';
+import { runPortfolioBacktest } from './portfolioEngine';
+import { PATH_MODELS } from './intrabarPath';
+import { actionsForSymbol } from './corporateActions';
+
+/**
+ * Intrabar Path Sensitivity
+ *
+ * Re-runs the same data and settings under every path model, to show how
+ * much of a result depends on the assumed order of prices inside a bar.
+ * The intraday model is only included when some symbol has minute data.
+ */
+export const comparePathModels = (
+  datasets: SymbolDataset[],
+  config: StrategyConfig,
+  portfolioConfig: PortfolioConfig,
+  options: Pick<BacktestOptions, 'corporateActions'> = {}
+): PathModelResult[] => {
+  const hasIntraday = datasets.some(d => d.intraday && d.intraday.size > 0);
+  const models = PATH_MODELS.filter(model => model !== 'intraday' || hasIntraday);
+
+  return models.map((model: IntrabarModel) => {
+    const modelConfig = { ...config, intrabarModel: model };
+    const results = datasets.length === 1
+      ? runBacktest(datasets[0].data, modelConfig, {
+          corporateActions: actionsForSymbol(options.corporateActions ?? [], datasets[0].symbol),
+          intraday: datasets[0].intraday
+        })
+      : runPortfolioBacktest(datasets, modelConfig, portfolioConfig, options).combined;
+
+    return {
+      model,
+      totalProfit: results.totalProfit,
+      annualizedROI: results.annualizedROI ?? 0,
+      maxDrawdown: results.maxDrawdown ?? 0,
+      totalTrades: results.totalTrades,
+      openPositions: results.remainingPositions.length
+    };
+  });
+};
+
+export default comparePathModels;
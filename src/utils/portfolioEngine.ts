@@ -0,0 +1,283 @@
+import type {
+  PriceBar,
+  CorporateAction,
+  IndicatorValues,
+  IntradayPaths,
+  StrategyConfig,
+  BacktestOptions,
+  BacktestResults,
+  DailySnapshot,
+  EngineState,
+  PortfolioConfig,
+  PortfolioResults,
+  SymbolDataset
+} from '../types';
+import {
+  DEFAULT_STRATEGY_CONFIG,
+  createEngineState,
+  processDay,
+  cutAllLots,
+  buildResults,
+  annualizeROI
+} from './backtestEngineV2';
+import { lotCost } from './costModel';
+import { actionsByBar, actionsForSymbol } from './corporateActions';
+import { rupees } from './decisionLog';
+import { indicatorsByBar } from './signalFilters';
+
+export const DEFAULT_PORTFOLIO_CONFIG: PortfolioConfig = {
+  initialCapital: 1000000, // ₹10,00,000 shared across the basket
+  maxPositionsPerSymbol: 5,
+  cashShortfall: 'reject'
+};
+
+interface SymbolRun {
+  symbol: string;
+  rows: PriceBar[]; // Oldest first
+  byDate: Map<number, PriceBar>;
+  intraday?: IntradayPaths;
+  actions: Map<number, CorporateAction[]>; // By the bar they take effect on
+  indicators: Map<number, IndicatorValues>; // What the filter rules read on each bar
+  state: EngineState;
+}
+
+const dateKey = (date: string) => new Date(date).getTime();
+
+/**
+ * Multi-Symbol Portfolio Backtest
+ *
+ * Runs the threshold strategy on every symbol against one cash pool.
+ *
+ * Each calendar date present in any file is processed once; on that date
+ * every symbol with a row runs its normal day through processDay. A buy
+ * only goes through if the pool has enough cash for the full lot, sells
+ * return cash to the pool immediately. Dividends are paid into the pool
+ * on their ex-date.
+ *
+ * Cash shortfall policies:
+ * - reject: the buy is skipped. Symbols are always processed in upload
+ *   order, so earlier files get first call on cash every day.
+ * - queue: a symbol whose buy was rejected jumps to the front of the
+ *   processing order and stays there while its signal keeps firing, so
+ *   freed cash goes to the longest-waiting buy first.
+ *
+ * The drawdown cut exit rule watches the whole basket's P/L instead of
+ * each symbol's, and sells every symbol's lots at its last CLOSE.
+ */
+export const runPortfolioBacktest = (
+  datasets: SymbolDataset[],
+  config: StrategyConfig = DEFAULT_STRATEGY_CONFIG,
+  portfolioConfig: PortfolioConfig = DEFAULT_PORTFOLIO_CONFIG,
+  options: BacktestOptions = {}
+): PortfolioResults => {
+  // Per-symbol cap can only tighten the strategy's own limit
+  const symbolConfig: StrategyConfig = {
+    ...config,
+    maxPositions: Math.min(config.maxPositions, portfolioConfig.maxPositionsPerSymbol),
+    exits: { ...config.exits, drawdownCut: 0 }
+  };
+  const drawdownCut = config.exits.enabled ? config.exits.drawdownCut : 0;
+
+  const runs: SymbolRun[] = datasets.map(({ symbol, data, intraday }) => {
+    const rows = [...data].sort((a, b) => a.time - b.time);
+    const actions = actionsByBar(rows, actionsForSymbol(options.corporateActions ?? [], symbol));
+    return {
+      symbol,
+      rows,
+      byDate: new Map(rows.map(row => [row.time, row])),
+      intraday,
+      actions,
+      indicators: indicatorsByBar(rows, config.filters, actions),
+      state: createEngineState(symbolConfig)
+    };
+  });
+
+  // Union of all trading dates across the basket
+  const dateLabels = new Map<number, string>();
+  for (const run of runs) {
+    for (const row of run.rows) dateLabels.set(row.time, row.date);
+  }
+  const allDates = [...dateLabels.keys()].sort((a, b) => a - b);
+
+  const cashAvailable = () =>
+    runs.reduce(
+      (cash, run) => cash - run.state.totalInvested + run.state.totalRealized + run.state.dividendIncome,
+      portfolioConfig.initialCapital
+    );
+  const canBuy = (amount: number) => cashAvailable() >= amount;
+
+  let queue: string[] = []; // Symbols waiting on cash, oldest first
+  let minCash = portfolioConfig.initialCapital;
+  let peakCapitalDeployed = 0;
+  let peakEquity = 0;
+  let maxDrawdown = 0;
+  let cutPeakEquity = 0;
+  const dailySeries: DailySnapshot[] = []; // Basket-level curve, see markBasket
+
+  for (const key of allDates) {
+    const order = portfolioConfig.cashShortfall === 'queue'
+      ? [
+          ...queue.map(symbol => runs.find(run => run.symbol === symbol)!),
+          ...runs.filter(run => !queue.includes(run.symbol))
+        ]
+      : runs;
+
+    for (const run of order) {
+      const row = run.byDate.get(key);
+      if (!row) continue;
+
+      const rejectedBefore = run.state.rejectedBuys;
+      processDay(run.state, row, symbolConfig, {
+        logger: options.logger,
+        canBuy,
+        cash: cashAvailable,
+        actions: run.actions.get(key),
+        path: run.intraday?.get(key),
+        lastBar: row === run.rows[run.rows.length - 1],
+        indicators: run.indicators.get(key)
+      });
+
+      // Keep the symbol queued only while its buy signal keeps getting refused
+      const starved = run.state.rejectedBuys > rejectedBefore;
+      if (starved && !queue.includes(run.symbol)) {
+        queue.push(run.symbol);
+      } else if (!starved) {
+        queue = queue.filter(symbol => symbol !== run.symbol);
+      }
+    }
+
+    /**
+     * END OF DAY MARK (whole basket)
+     * Symbols without a row today are marked at their last CLOSE
+     */
+    const date = dateLabels.get(key)!;
+    let mark = markBasket(runs, date);
+    peakCapitalDeployed = Math.max(peakCapitalDeployed, mark.capitalDeployed);
+    peakEquity = Math.max(peakEquity, mark.equity);
+    maxDrawdown = Math.max(maxDrawdown, peakEquity - mark.equity);
+
+    cutPeakEquity = Math.max(cutPeakEquity, mark.equity);
+    if (drawdownCut > 0 && mark.openPositions > 0 && cutPeakEquity - mark.equity > drawdownCut) {
+      const reason = `Basket P/L ${rupees(mark.equity)} is ${rupees(cutPeakEquity - mark.equity)} under its peak ${rupees(cutPeakEquity)} (cut at ${rupees(drawdownCut)}): sold at the CLOSE`;
+      for (const run of runs) {
+        if (run.state.positions.length > 0) {
+          cutAllLots(run.state, symbolConfig, { logger: options.logger }, date, run.state.lastClose, reason);
+        }
+      }
+      mark = markBasket(runs, date);
+      maxDrawdown = Math.max(maxDrawdown, peakEquity - mark.equity);
+      cutPeakEquity = mark.equity;
+    }
+
+    minCash = Math.min(minCash, cashAvailable());
+    dailySeries.push(mark);
+  }
+
+  // Event ids restart for every symbol; shift them so they stay unique across the basket
+  let eventOffset = 0;
+  const symbols = runs.map(run => {
+    const results = buildResults(run.state, run.rows[0].date, run.rows[run.rows.length - 1].date);
+    const offset = eventOffset;
+    const shift = (id?: number) => (id === undefined ? undefined : id + offset);
+    eventOffset += run.state.events.length;
+    return {
+      symbol: run.symbol,
+      results: {
+        ...results,
+        transactions: results.transactions.map(t => ({ ...t, symbol: run.symbol, eventId: shift(t.eventId) })),
+        remainingPositions: results.remainingPositions.map(p => ({ ...p, symbol: run.symbol, buyEventId: shift(p.buyEventId) })),
+        corporateActions: results.corporateActions?.map(a => ({ ...a, symbol: run.symbol })),
+        events: results.events?.map(e => ({ ...e, symbol: run.symbol, id: e.id + offset, causeId: shift(e.causeId) }))
+      },
+      rejectedBuys: run.state.rejectedBuys
+    };
+  });
+
+  const combined = combineResults(
+    symbols.map(s => s.results),
+    dateLabels.get(allDates[0]),
+    dateLabels.get(allDates[allDates.length - 1]),
+    portfolioConfig.initialCapital
+  );
+  combined.peakCapitalDeployed = peakCapitalDeployed;
+  combined.maxDrawdown = maxDrawdown;
+  combined.dailySeries = dailySeries;
+
+  const rejectedBuys = symbols.reduce((sum, s) => sum + s.rejectedBuys, 0);
+  const finalCash = cashAvailable();
+
+  return {
+    combined,
+    symbols,
+    initialCapital: portfolioConfig.initialCapital,
+    finalCash,
+    minCash,
+    rejectedBuys
+  };
+};
+
+/**
+ * Basket-level snapshot; close/reference are per-symbol and left at 0
+ */
+const markBasket = (runs: SymbolRun[], date: string): DailySnapshot => {
+  let capitalDeployed = 0;
+  let equity = 0;
+  let realized = 0;
+  let openPositions = 0;
+  for (const { state } of runs) {
+    equity += state.realizedProfit + state.dividendIncome;
+    realized += state.realizedProfit;
+    openPositions += state.positions.length;
+    for (const pos of state.positions) {
+      capitalDeployed += lotCost(pos);
+      equity += pos.shares * state.lastClose - lotCost(pos);
+    }
+  }
+  return { date, close: 0, reference: 0, openPositions, capitalDeployed, cumulativeRealizedPL: realized, equity };
+};
+
+/**
+ * Merge per-symbol results into one BacktestResults-style summary
+ * currentPrice has no meaning across symbols and is left at 0
+ */
+const combineResults = (
+  parts: BacktestResults[],
+  startDate: string | undefined,
+  endDate: string | undefined,
+  roiBase: number
+): BacktestResults => {
+  const sum = (pick: (r: BacktestResults) => number) => parts.reduce((total, r) => total + pick(r), 0);
+
+  const transactions = parts
+    .flatMap(r => r.transactions)
+    .sort((a, b) => dateKey(a.date) - dateKey(b.date)); // Stable sort keeps same-day order per symbol
+
+  const totalInvested = sum(r => r.totalInvested);
+  const totalProfit = sum(r => r.totalProfit);
+
+  return {
+    totalInvested,
+    totalRealized: sum(r => r.totalRealized),
+    currentValue: sum(r => r.currentValue),
+    totalValue: sum(r => r.totalValue),
+    totalProfit,
+    profitPercentage: totalInvested > 0 ? (totalProfit / totalInvested) * 100 : 0,
+    transactions,
+    remainingPositions: parts.flatMap(r => r.remainingPositions),
+    dividendIncome: sum(r => r.dividendIncome ?? 0),
+    corporateActions: parts
+      .flatMap(r => r.corporateActions ?? [])
+      .sort((a, b) => dateKey(a.date) - dateKey(b.date)),
+    events: parts
+      .flatMap(r => r.events ?? [])
+      .sort((a, b) => dateKey(a.date) - dateKey(b.date)),
+    totalTrades: transactions.length,
+    currentPrice: 0,
+    annualizedROI: startDate && endDate && roiBase > 0 ? annualizeROI(totalProfit, startDate, endDate, roiBase) : 0,
+    roiBase,
+    startDate,
+    endDate
+  };
+};
+
+export default runPortfolioBacktest;
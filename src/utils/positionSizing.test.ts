@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { SizingConfig, StrategyConfig } from '../types';
+import { rollForward } from './liveSignals';
+import { DEFAULT_SIZING } from './positionSizing';
+import { bars, runDays, testConfig } from '../test/bars';
+
+/**
+ * Position Sizing
+ *
+ * Share counts for each sizing mode on the reference strategy, range
+ * model and no costs, so lots buy at the strategy's levels: 100, then
+ * 95, 90.25 and 81.23 on the ladder sequence below.
+ */
+
+const config = (sizing: Partial<SizingConfig>, overrides: Partial<StrategyConfig> = {}): StrategyConfig =>
+  testConfig({ sizing: { ...DEFAULT_SIZING, ...sizing }, ...overrides });
+
+const LADDER: Parameters<typeof bars> = [
+  [100, 101, 99, 100],
+  [96, 96, 94, 95],   // 2nd lot: 5% under 100
+  [91, 91, 90, 90.5], // 3rd lot: 5% under 95
+  [88, 88, 81, 82]    // 4th lot: 10% under 90.25
+];
+
+const buys = (strategyConfig: StrategyConfig, ...days: Parameters<typeof bars>) =>
+  runDays(strategyConfig, ...days).results.transactions
+    .filter(t => t.type === 'BUY')
+    .map(t => [t.shares, t.sizingRule]);
+
+describe('position sizing', () => {
+  it('buys lotSize ₹ lots by default', () => {
+    expect(buys(config({}), ...LADDER)).toEqual([
+      [1000, 'fixed-amount'],
+      [1052, 'fixed-amount'],
+      [1108, 'fixed-amount'],
+      [1231, 'fixed-amount']
+    ]);
+  });
+
+  it('rounds down to the market lot', () => {
+    expect(buys(config({ lotMultiple: 25 }), ...LADDER).map(([shares]) => shares)).toEqual([1000, 1050, 1100, 1225]);
+  });
+
+  it('buys a fixed share count', () => {
+    expect(buys(config({ mode: 'fixed-shares', shares: 150 }), ...LADDER)).toEqual([
+      [150, 'fixed-shares'],
+      [150, 'fixed-shares'],
+      [150, 'fixed-shares'],
+      [150, 'fixed-shares']
+    ]);
+  });
+
+  it('invests a share of the capital left', () => {
+    const made = buys(config({ mode: 'capital-percent', capital: 500000, capitalPercent: 0.2 }), ...LADDER.slice(0, 2));
+    expect(made).toEqual([
+      [1000, 'capital-percent'], // 20% of ₹5,00,000 at 100
+      [842, 'capital-percent']   // 20% of the ₹4,00,000 left at 95
+    ]);
+  });
+
+  it('multiplies the lot by the ladder step', () => {
+    const ladder = [
+      { minPositions: 2, threshold: 0.05, multiplier: 1.5 },
+      { minPositions: 3, threshold: 0.10, multiplier: 2 }
+    ];
+    expect(buys(config({ mode: 'ladder' }, { thresholdLadder: ladder }), ...LADDER)).toEqual([
+      [1000, 'ladder'],
+      [1052, 'ladder'],
+      [1662, 'ladder'], // ₹1,50,000 at 90.25
+      [2462, 'ladder']  // ₹2,00,000 at 81.225
+    ]);
+  });
+
+  it('scales lots to the ATR once it has enough bars', () => {
+    const made = buys(
+      config({ mode: 'atr', atrPeriod: 2, atrRisk: 5000 }),
+      [100, 101, 99, 100], // Opening lot: no ATR yet
+      [99, 100, 98, 99],   // True ranges 2 and 2: ATR 2
+      [96, 96, 94, 95]
+    );
+    expect(made).toEqual([
+      [1000, 'fixed-amount'],
+      [2500, 'atr'] // ₹5,000 ÷ ATR 2
+    ]);
+  });
+
+  it('skips a buy smaller than one market lot', () => {
+    const { results } = runDays(config({ mode: 'fixed-shares', shares: 10, lotMultiple: 25 }), ...LADDER.slice(0, 1));
+    expect(results.transactions).toHaveLength(0);
+    expect(results.events?.some(e => e.type === 'buy-skipped-size')).toBe(true);
+  });
+
+  it('sizes the next session plan the same way', () => {
+    const { plan } = rollForward(bars(...LADDER.slice(0, 1)), config({ mode: 'fixed-shares', shares: 150 }));
+    expect(plan.orders.filter(order => order.side === 'BUY').map(order => order.shares)).toEqual([150, 150, 150, 150]);
+  });
+});
@@ -0,0 +1,158 @@
+import type { EngineDayContext, EngineState, PriceBar, SizingConfig, SizingMode, StrategyConfig } from '../types';
+import { lotCost } from './costModel';
+import { rupees } from './decisionLog';
+
+/**
+ * Position Sizing
+ *
+ * Share count for each buy a strategy makes without naming one. The
+ * benchmark's single lot and fills entered by hand bring their own size.
+ * Every rule rounds down to the exchange market lot; a rule that comes
+ * to less than one market lot skips the buy.
+ *
+ * ATR is Wilder's average true range, measured up to the previous CLOSE
+ * so a buy never sizes on the day's own range. Until atrPeriod bars are
+ * in, atr sizing falls back to a lotSize ₹ lot.
+ */
+
+export const DEFAULT_SIZING: SizingConfig = {
+  mode: 'fixed-amount',
+  shares: 100,
+  capitalPercent: 0.2,   // A fifth of the cash still free
+  capital: 500000,       // Five default lots
+  atrPeriod: 14,
+  atrRisk: 5000,         // ₹5,000 per ATR, about a 5% move on a ₹1,00,000 lot
+  lotMultiple: 1
+};
+
+export const SIZING_MODE_LABELS: Record<SizingMode, string> = {
+  'fixed-amount': 'Fixed ₹ per buy',
+  'fixed-shares': 'Fixed shares per buy',
+  'capital-percent': '% of available capital',
+  'ladder': 'Ladder multipliers (pyramid)',
+  'atr': 'Volatility-scaled (ATR)'
+};
+
+export const SIZING_MODES = Object.keys(SIZING_MODE_LABELS) as SizingMode[];
+
+export interface LotSizing {
+  rule: SizingMode; // The rule actually applied (atr falls back to fixed-amount)
+  shares: (fillPrice: number) => number;
+  basis: string; // How the size was reached, for the decision log
+}
+
+/**
+ * Round a share count down to the market lot
+ */
+export const roundToLot = (shares: number, lotMultiple: number): number => {
+  const multiple = Math.max(1, Math.floor(lotMultiple));
+  return Math.floor(shares / multiple) * multiple;
+};
+
+/**
+ * Lot size multiple of the deepest ladder step reached, 1 below the first
+ */
+export const getLadderMultiplier = (config: StrategyConfig, openPositions: number): number => {
+  let multiplier = 1;
+  let matched = -1;
+  for (const step of config.thresholdLadder) {
+    if (openPositions >= step.minPositions && step.minPositions > matched) {
+      multiplier = step.multiplier ?? 1;
+      matched = step.minPositions;
+    }
+  }
+  return multiplier;
+};
+
+/**
+ * Capital not tied up in open lots
+ * A portfolio asks its pool; one symbol starts from sizing.capital
+ */
+export const availableCapital = (state: EngineState, config: StrategyConfig, context: Pick<EngineDayContext, 'cash'> = {}): number =>
+  context.cash?.()
+    ?? config.sizing.capital + state.realizedProfit + state.dividendIncome - state.positions.reduce((sum, pos) => sum + lotCost(pos), 0);
+
+/**
+ * Size of the next strategy lot
+ * openPositions sets the ladder step, for orders planned past the next lot
+ */
+export const sizeLot = (
+  state: EngineState,
+  config: StrategyConfig,
+  context: Pick<EngineDayContext, 'cash'> = {},
+  openPositions = state.positions.length
+): LotSizing => {
+  const { sizing } = config;
+  const byAmount = (amount: number) => (fillPrice: number) => roundToLot(Math.floor(amount / fillPrice), sizing.lotMultiple);
+
+  switch (sizing.mode) {
+    case 'fixed-shares':
+      return { rule: 'fixed-shares', shares: () => roundToLot(sizing.shares, sizing.lotMultiple), basis: `${sizing.shares} shares` };
+    case 'capital-percent': {
+      const available = Math.max(0, availableCapital(state, config, context));
+      const amount = available * sizing.capitalPercent;
+      return {
+        rule: 'capital-percent',
+        shares: byAmount(amount),
+        basis: `${+(sizing.capitalPercent * 100).toFixed(2)}% of ${rupees(available)} available = ${rupees(amount)}`
+      };
+    }
+    case 'ladder': {
+      const multiplier = getLadderMultiplier(config, openPositions);
+      return {
+        rule: 'ladder',
+        shares: byAmount(config.lotSize * multiplier),
+        basis: `${multiplier}× the ${rupees(config.lotSize)} lot at ${openPositions} open`
+      };
+    }
+    case 'atr':
+      if (state.atrBars >= sizing.atrPeriod && state.atr > 0) {
+        return {
+          rule: 'atr',
+          shares: () => roundToLot(Math.floor(sizing.atrRisk / state.atr), sizing.lotMultiple),
+          basis: `${rupees(sizing.atrRisk)} ÷ ATR ${rupees(state.atr)}`
+        };
+      }
+      return { rule: 'fixed-amount', shares: byAmount(config.lotSize), basis: `ATR not ready, ${rupees(config.lotSize)} lot` };
+    default:
+      return { rule: 'fixed-amount', shares: byAmount(config.lotSize), basis: `${rupees(config.lotSize)} lot` };
+  }
+};
+
+/**
+ * One-line summary of the sizing rule, for reports
+ * Runs saved before sizing modes bought fixed ₹ lots
+ */
+export const describeSizing = (config: StrategyConfig): string => {
+  const sizing = config.sizing ?? DEFAULT_SIZING;
+  const lot = sizing.lotMultiple > 1 ? `, market lot ${sizing.lotMultiple}` : '';
+  switch (sizing.mode) {
+    case 'fixed-shares':
+      return `${sizing.shares} shares per buy${lot}`;
+    case 'capital-percent':
+      return `${+(sizing.capitalPercent * 100).toFixed(2)}% of available capital${lot}`;
+    case 'ladder':
+      return `Ladder: 1×${config.thresholdLadder.map(step => `, ${step.multiplier ?? 1}× at ≥${step.minPositions}`).join('')}${lot}`;
+    case 'atr':
+      return `${rupees(sizing.atrRisk)} per ${sizing.atrPeriod}-bar ATR${lot}`;
+    default:
+      return `${SIZING_MODE_LABELS['fixed-amount']}${lot}`;
+  }
+};
+
+/**
+ * Fold one day's bar into the running ATR
+ * Runs every day, before the first buy too, so the ATR is ready early
+ */
+export const updateAtr = (state: EngineState, bar: PriceBar, period: number) => {
+  const trueRange = state.lastClose > 0
+    ? Math.max(bar.high - bar.low, Math.abs(bar.high - state.lastClose), Math.abs(bar.low - state.lastClose))
+    : bar.high - bar.low;
+  const n = Math.max(1, Math.floor(period));
+  state.atrBars++;
+  state.atr = state.atrBars <= n
+    ? state.atr + (trueRange - state.atr) / state.atrBars // Simple mean while warming up
+    : (state.atr * (n - 1) + trueRange) / n;
+};
+
+export default sizeLot;
@@ -0,0 +1,25 @@
+/**
+ * Seeded pseudo-random number generator (mulberry32)
+ *
+ * Math.random() cannot be seeded, so anything that samples randomly
+ * (optimizer random search, simulations) uses this to stay reproducible.
+ * Returns a function yielding floats in [0, 1).
+ */
+export const createRng = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Random integer in [0, max)
+ */
+export const randomInt = (rng: () => number, max: number): number => Math.floor(rng() * max);
+
+export default createRng;
@@ -0,0 +1,248 @@
+import type {
+  BacktestResults,
+  BrokerTrade,
+  CorporateAction,
+  DateOrder,
+  ImportIssue,
+  RawCsv,
+  ReconciledTrade,
+  ReconciliationConfig,
+  ReconciliationReport
+} from '../types';
+import { detectDateOrder, formatBarDate, normalizeHeader, parseDate, parseNumber } from './csvFormats';
+import { shareFactor } from './corporateActions';
+
+/**
+ * Tradebook Reconciliation
+ *
+ * Lines the trades actually executed at the broker up against the
+ * transactions the backtest made over the same period, to tell whether a
+ * gap in live results comes from the strategy or from how it was
+ * followed. Each simulated trade is paired with at most one actual trade
+ * of the same side, nearest day first and then nearest price; what is
+ * left over is a missed signal or an extra, discretionary trade.
+ *
+ * P/L impacts are measured the same way for every trade: cash in or out
+ * at the fill, plus the shares still held valued at the period's last
+ * close. That makes them add up: actual P/L − simulated P/L is exactly
+ * the sum of the impacts. Fees are left out, tradebooks rarely carry them.
+ */
+
+export const DEFAULT_RECONCILIATION: ReconciliationConfig = {
+  dayWindow: 3,        // Covers a signal on Friday filled on Monday
+  priceTolerance: 0.03 // Further off than this it was a different decision
+};
+
+const DAY_MS = 1000 * 3600 * 24;
+
+const SIDES: Record<string, BrokerTrade['side']> = { BUY: 'BUY', B: 'BUY', SELL: 'SELL', S: 'SELL' };
+
+const findColumn = (headers: string[], accepted: string[]): string | undefined =>
+  headers.find(h => accepted.includes(normalizeHeader(h)));
+
+/**
+ * Tradebook symbols are written "RELIANCE", "RELIANCE-EQ" or "NSE:RELIANCE"
+ */
+export const normalizeSymbol = (symbol: string): string =>
+  symbol.trim().toUpperCase().replace(/^(NSE|BSE):/, '').replace(/-(EQ|BE)$/, '');
+
+/**
+ * Executed trades from a broker tradebook CSV
+ *
+ * Understands the Zerodha Console tradebook (trade_date, symbol,
+ * trade_type, quantity, price, order_id) and the Upstox trade report
+ * (Date, Company, Side, Quantity, Price), and plain sheets with similar
+ * headers. Partial fills of one order are merged into a single trade at
+ * their volume-weighted price when the file has an order id column.
+ */
+export const parseTradebook = (
+  raw: RawCsv,
+  dateOrder?: DateOrder
+): { trades: BrokerTrade[]; issues: ImportIssue[] } => {
+  const { headers, rows } = raw;
+  const dateColumn = findColumn(headers, ['TRADE_DATE', 'TRADE DATE', 'DATE', 'ORDER_EXECUTION_TIME', 'EXECUTION TIME']);
+  const symbolColumn = findColumn(headers, ['SYMBOL', 'TRADINGSYMBOL', 'TRADING SYMBOL', 'SCRIP', 'SCRIP NAME', 'COMPANY', 'INSTRUMENT']);
+  const sideColumn = findColumn(headers, ['TRADE_TYPE', 'TRADE TYPE', 'SIDE', 'BUY/SELL', 'TRANSACTION TYPE', 'TRANSACTION_TYPE', 'TYPE', 'ACTION']);
+  const quantityColumn = findColumn(headers, ['QUANTITY', 'QTY', 'TRADED QTY', 'FILLED QTY']);
+  const priceColumn = findColumn(headers, ['PRICE', 'TRADE PRICE', 'TRADE_PRICE', 'AVERAGE PRICE', 'AVG PRICE', 'RATE']);
+  const orderColumn = findColumn(headers, ['ORDER_ID', 'ORDER ID', 'ORDER NO', 'ORDER NUMBER']);
+
+  const trades: BrokerTrade[] = [];
+  const issues: ImportIssue[] = [];
+
+  if (!dateColumn || !symbolColumn || !sideColumn || !quantityColumn || !priceColumn) {
+    issues.push({ row: null, severity: 'error', message: 'Need date, symbol, side (buy/sell), quantity and price columns' });
+    return { trades, issues };
+  }
+
+  const order = dateOrder ?? detectDateOrder(rows.map(row => row[dateColumn] ?? ''));
+  const byOrder = new Map<string, BrokerTrade>();
+
+  rows.forEach((row, idx) => {
+    const line = idx + 2; // Header is line 1
+    const dateText = row[dateColumn] ?? '';
+    const time = parseDate(dateText, order);
+    if (time === null) {
+      issues.push({ row: line, severity: 'error', message: `Unrecognized trade date '${dateText}'` });
+      return;
+    }
+    const date = formatBarDate(time);
+
+    const sideText = row[sideColumn]?.trim().toUpperCase() ?? '';
+    const side = SIDES[sideText];
+    if (!side) {
+      issues.push({ row: line, date, severity: 'error', message: `Side '${sideText}' is neither buy nor sell` });
+      return;
+    }
+
+    const shares = parseNumber(row[quantityColumn]);
+    const price = parseNumber(row[priceColumn]);
+    if (!(shares > 0) || !(price > 0)) {
+      issues.push({ row: line, date, severity: 'error', message: 'Quantity and price must be positive numbers' });
+      return;
+    }
+
+    const symbol = normalizeSymbol(row[symbolColumn] ?? '');
+    const orderId = (orderColumn && row[orderColumn]?.trim()) || undefined;
+    const key = orderId && `${orderId}|${symbol}|${side}|${time}`;
+    const partOf = key ? byOrder.get(key) : undefined;
+    if (partOf) {
+      partOf.price = (partOf.price * partOf.shares + price * shares) / (partOf.shares + shares);
+      partOf.shares += shares;
+      return;
+    }
+
+    const trade: BrokerTrade = { row: line, date, time, symbol, side, shares, price, orderId };
+    trades.push(trade);
+    if (key) byOrder.set(key, trade);
+  });
+
+  return { trades: trades.sort((a, b) => a.time - b.time || a.row - b.row), issues };
+};
+
+/**
+ * Pair simulated and actual trades and price every deviation
+ *
+ * The period runs from the first actual trade to the end of the backtest.
+ * corporateActions must already be this symbol's; splits and bonuses after
+ * a trade scale its shares before they are valued at the last close.
+ */
+export const reconcileTrades = (
+  symbol: string,
+  results: BacktestResults,
+  actualTrades: BrokerTrade[],
+  corporateActions: CorporateAction[] = [],
+  config: ReconciliationConfig = DEFAULT_RECONCILIATION
+): ReconciliationReport => {
+  const endDate = results.endDate ?? '';
+  const endTime = parseDate(endDate);
+  if (endTime === null) throw new Error('The backtest has no end date to reconcile up to');
+  const actual = actualTrades.filter(trade => trade.time <= endTime);
+  if (actual.length === 0) throw new Error(`No trades for ${symbol} in the tradebook up to ${endDate}`);
+  const startTime = actual[0].time;
+
+  const simulated = results.transactions
+    .map(transaction => ({ transaction, time: parseDate(transaction.date) ?? NaN }))
+    .filter(({ time }) => time >= startTime && time <= endTime);
+
+  const markPrice = results.currentPrice;
+  const factorAfter = (time: number) => corporateActions
+    .filter(action => action.time > time && action.time <= endTime)
+    .reduce((factor, action) => factor * shareFactor(action), 1);
+
+  // Cash from the fill plus the shares valued at the last close
+  const sign = (side: BrokerTrade['side']) => (side === 'SELL' ? 1 : -1);
+  const contribution = (side: BrokerTrade['side'], shares: number, price: number, time: number) =>
+    sign(side) * shares * (price - factorAfter(time) * markPrice);
+  const simulatedContribution = ({ transaction, time }: (typeof simulated)[number]) =>
+    contribution(transaction.type, transaction.shares, transaction.price, time);
+
+  /**
+   * MATCHING
+   * Every admissible pair, closest first; each trade is used once
+   */
+  const candidates: { sim: number; act: number; days: number; gap: number }[] = [];
+  simulated.forEach(({ transaction, time }, sim) => {
+    actual.forEach((trade, act) => {
+      if (trade.side !== transaction.type) return;
+      const days = Math.round((trade.time - time) / DAY_MS);
+      const gap = Math.abs(trade.price - transaction.price) / transaction.price;
+      if (Math.abs(days) <= config.dayWindow && gap <= config.priceTolerance) candidates.push({ sim, act, days, gap });
+    });
+  });
+  candidates.sort((a, b) => Math.abs(a.days) - Math.abs(b.days) || a.gap - b.gap);
+
+  const simMatch = new Map<number, number>();
+  const actMatched = new Set<number>();
+  for (const { sim, act } of candidates) {
+    if (simMatch.has(sim) || actMatched.has(act)) continue;
+    simMatch.set(sim, act);
+    actMatched.add(act);
+  }
+
+  const rows: { time: number; trade: ReconciledTrade }[] = [];
+  simulated.forEach((entry, sim) => {
+    const { transaction, time } = entry;
+    const act = simMatch.get(sim);
+    if (act === undefined) {
+      const impact = -simulatedContribution(entry);
+      rows.push({ time, trade: { status: 'missed', side: transaction.type, date: transaction.date, simulated: transaction, priceImpact: 0, impact } });
+      return;
+    }
+    const trade = actual[act];
+    rows.push({
+      time: trade.time,
+      trade: {
+        status: 'matched',
+        side: trade.side,
+        date: trade.date,
+        simulated: transaction,
+        actual: trade,
+        dayLag: Math.round((trade.time - time) / DAY_MS),
+        priceDifference: trade.price - transaction.price,
+        shareDifference: trade.shares - transaction.shares,
+        priceImpact: sign(trade.side) * trade.shares * (trade.price - transaction.price),
+        impact: contribution(trade.side, trade.shares, trade.price, trade.time) - simulatedContribution(entry)
+      }
+    });
+  });
+  actual.forEach((trade, act) => {
+    if (actMatched.has(act)) return;
+    rows.push({
+      time: trade.time,
+      trade: {
+        status: 'extra',
+        side: trade.side,
+        date: trade.date,
+        actual: trade,
+        priceImpact: 0,
+        impact: contribution(trade.side, trade.shares, trade.price, trade.time)
+      }
+    });
+  });
+  const trades = rows.sort((a, b) => a.time - b.time).map(row => row.trade);
+
+  const total = (status: ReconciledTrade['status'], pick: (row: ReconciledTrade) => number) =>
+    trades.filter(row => row.status === status).reduce((sum, row) => sum + pick(row), 0);
+  const matchedImpact = total('matched', row => row.impact);
+  const priceImpact = total('matched', row => row.priceImpact);
+
+  return {
+    symbol,
+    startDate: actual[0].date,
+    endDate,
+    markPrice,
+    trades,
+    matched: simMatch.size,
+    missed: simulated.length - simMatch.size,
+    extra: actual.length - actMatched.size,
+    simulatedPL: simulated.reduce((sum, entry) => sum + simulatedContribution(entry), 0),
+    actualPL: actual.reduce((sum, trade) => sum + contribution(trade.side, trade.shares, trade.price, trade.time), 0),
+    priceImpact,
+    sizeImpact: matchedImpact - priceImpact,
+    missedImpact: total('missed', row => row.impact),
+    extraImpact: total('extra', row => row.impact)
+  };
+};
+
+export default reconcileTrades;
@@ -0,0 +1,230 @@
+import { describe, expect, it } from 'vitest';
+import type { StrategyConfig } from '../types';
+import { type bars, day, paise, runDays, testConfig } from '../test/bars';
+
+/**
+ * Reference Strategy Rules
+ *
+ * One hand-written price sequence per rule documented at the top of
+ * referenceStrategy.ts, run through the whole engine on the range model
+ * without costs, so prices in the assertions are the strategy's levels.
+ */
+
+const CONFIG = testConfig();
+
+describe('reference strategy', () => {
+  it('follows the Day 1 / Day 2 / Day 3 example flow', () => {
+    const { results, trades: made, reference } = runDays(
+      CONFIG,
+      [100, 101, 99, 100], // Day 1: first buy at OPEN
+      [99, 100, 95, 96],   // Day 2: LOW reaches 5% under the reference
+      [97, 108, 97, 107]   // Day 3: HIGH covers both targets
+    );
+
+    expect(made).toEqual([
+      [day(0), 'BUY', 100],
+      [day(1), 'BUY', 95],
+      [day(2), 'SELL', 99.75],
+      [day(2), 'SELL', 105]
+    ]);
+    expect(results.transactions[2].boughtAt).toBe(95);
+    expect(results.transactions[3].boughtAt).toBe(100);
+    expect(results.transactions[0].shares).toBe(1000);
+    expect(results.transactions[1].shares).toBe(1052);
+    expect(results.remainingPositions).toHaveLength(0);
+    expect(reference).toBe(105);
+  });
+
+  it('does not buy back on a day it sold', () => {
+    const { trades: made, reference } = runDays(
+      CONFIG,
+      [100, 101, 99, 100],
+      [101, 108, 99, 107] // Sells at 105; LOW ≤ 99.75 would otherwise buy
+    );
+
+    expect(made).toEqual([
+      [day(0), 'BUY', 100],
+      [day(1), 'SELL', 105]
+    ]);
+    expect(reference).toBe(105);
+  });
+
+  it('never sells a lot on the day it was bought', () => {
+    const { trades: made, events } = runDays(
+      CONFIG,
+      [100, 110, 100, 108], // Target 105 inside the range, lot bought today
+      [104, 112, 103, 110]
+    );
+
+    expect(made).toEqual([
+      [day(0), 'BUY', 100],
+      [day(1), 'SELL', 105]
+    ]);
+    expect(events.some(e => e.type === 'sell-blocked-same-day' && e.date === day(0))).toBe(true);
+  });
+
+  it('raises the reference to the HIGH in recovery mode', () => {
+    const { trades: made, events } = runDays(
+      CONFIG,
+      [100, 101, 99, 100],
+      [101, 108, 101, 107], // Sold at 105, no lots left
+      [108, 113, 108, 112], // CLOSE > 105 × 1.05: reference = HIGH 113
+      [119, 125, 119, 124], // CLOSE > 113 × 1.05: reference = HIGH 125
+      [122, 123, 118, 119]  // Buy 5% under 125
+    );
+
+    const referenceMoves = events.filter(e => e.type === 'recovery-mode' || e.type === 'reference-update');
+    expect(referenceMoves.map(e => [e.date, e.type, e.reference])).toEqual([
+      [day(2), 'recovery-mode', 113],
+      [day(3), 'reference-update', 125]
+    ]);
+    expect(made.at(-1)).toEqual([day(4), 'BUY', 118.75]);
+  });
+
+  it('resets a falling reference to the CLOSE', () => {
+    const { trades: made, events } = runDays(
+      CONFIG,
+      [100, 100, 100, 100],
+      [78, 79, 76, 77], // CLOSE 77 < 100 × 0.8: reference = 77, trigger 73.15
+      [75, 76, 73, 74]
+    );
+
+    const reset = events.find(e => e.type === 'falling-stock-reset');
+    expect(reset).toMatchObject({ date: day(1), reference: 77 });
+    expect(made).toEqual([
+      [day(0), 'BUY', 100],
+      [day(2), 'BUY', 73.15]
+    ]);
+  });
+
+  it('fills a gap-down buy at the OPEN', () => {
+    const { results, trades: made, events } = runDays(
+      CONFIG,
+      [100, 101, 99, 100],
+      [92, 94, 90, 93] // Trigger 95 is above the whole day
+    );
+
+    expect(made).toEqual([
+      [day(0), 'BUY', 100],
+      [day(1), 'BUY', 92]
+    ]);
+    expect(results.transactions.map(t => t.fillReason)).toEqual(['open', 'gap-open']);
+    expect(results.transactions[1].threshold).toBe(0.05);
+    expect(events.find(e => e.date === day(1) && e.type === 'gap-down-fill')).toBeDefined();
+  });
+
+  it('falls back to the CLOSE for a gap-down buy', () => {
+    const { results, trades: made } = runDays(
+      { ...CONFIG, gapFill: 'close' },
+      [100, 101, 99, 100],
+      [92, 94, 90, 93], // Whole day below the trigger: CLOSE
+      [87, 94, 86, 90]  // Opens under the 88.35 trigger but trades back to it
+    );
+
+    expect(made).toEqual([
+      [day(0), 'BUY', 100],
+      [day(1), 'BUY', 93],
+      [day(2), 'BUY', 88.35]
+    ]);
+    expect(results.transactions.map(t => t.fillReason)).toEqual(['open', 'gap-close', 'trigger']);
+  });
+
+  it('sells at the OPEN on a gap up', () => {
+    const { results, trades: made, events } = runDays(
+      CONFIG,
+      [100, 101, 99, 100],
+      [110, 112, 109, 111] // Target 105 is below the whole day
+    );
+
+    expect(made).toEqual([
+      [day(0), 'BUY', 100],
+      [day(1), 'SELL', 110]
+    ]);
+    expect(results.transactions[1].fillReason).toBe('gap-open');
+    expect(events.find(e => e.date === day(1) && e.type === 'gap-up-fill')).toBeDefined();
+  });
+
+  it('falls back to the CLOSE for a gap-up sell', () => {
+    const config: StrategyConfig = { ...CONFIG, gapFill: 'close' };
+    const stayedAbove = runDays(
+      config,
+      [100, 101, 99, 100],
+      [96, 96, 94, 95],    // Second lot at 95
+      [110, 112, 108, 111] // Both targets below the whole day
+    );
+    const cameBack = runDays(
+      config,
+      [100, 101, 99, 100],
+      [107, 109, 104, 108] // Opens above the 105 target, LOW trades back to it
+    );
+
+    expect(stayedAbove.trades.slice(2)).toEqual([
+      [day(2), 'SELL', 111],
+      [day(2), 'SELL', 111]
+    ]);
+    expect(stayedAbove.results.transactions.slice(2).map(t => t.fillReason)).toEqual(['gap-close', 'gap-close']);
+    expect(cameBack.trades.at(-1)).toEqual([day(1), 'SELL', 105]);
+    expect(cameBack.results.transactions[1].fillReason).toBe('trigger');
+  });
+
+  it('applies the gap fill setting on price paths', () => {
+    const days: Parameters<typeof bars> = [
+      [100, 101, 99, 100],
+      [110, 112, 108, 111] // Open → Low → High → Close never passes the 105 target
+    ];
+    const atOpen = runDays({ ...CONFIG, intrabarModel: 'olhc' }, ...days);
+    const atClose = runDays({ ...CONFIG, intrabarModel: 'olhc', gapFill: 'close' }, ...days);
+
+    expect(atOpen.trades.at(-1)).toEqual([day(1), 'SELL', 110]);
+    expect(atOpen.results.transactions[1].fillReason).toBe('gap-open');
+    expect(atClose.trades.at(-1)).toEqual([day(1), 'SELL', 111]);
+    expect(atClose.results.transactions[1].fillReason).toBe('gap-close');
+  });
+
+  it('only fills buys resting since the open at the OPEN', () => {
+    const { trades: made } = runDays(
+      CONFIG,
+      [100, 100, 100, 100],
+      [78, 79, 76, 77],  // Falling reset to 77 at the CLOSE: trigger 73.15 was not resting
+      [72, 76, 71, 74]   // Opens below the resting 73.15 trigger
+    );
+
+    expect(made).toEqual([
+      [day(0), 'BUY', 100],
+      [day(2), 'BUY', 72]
+    ]);
+  });
+
+  it('stops buying at the max positions cap', () => {
+    const { results, trades: made, events } = runDays(
+      { ...CONFIG, maxPositions: 2 },
+      [100, 101, 99, 100],
+      [96, 96, 94, 95], // Second lot at 95
+      [90, 91, 85, 86]  // Trigger 90.25 reached with 2 lots open
+    );
+
+    expect(made).toEqual([
+      [day(0), 'BUY', 100],
+      [day(1), 'BUY', 95]
+    ]);
+    expect(results.remainingPositions).toHaveLength(2);
+    expect(events.find(e => e.date === day(2) && e.type === 'buy-skipped-max-positions')).toBeDefined();
+  });
+
+  it('widens the buy dip along the threshold ladder', () => {
+    const { results } = runDays(
+      CONFIG,
+      [100, 101, 99, 100],
+      [96, 96, 94, 95],     // 2nd lot: 5% under 100
+      [91, 91, 90, 90.5],   // 3rd lot: 5% under 95
+      [88, 88, 81, 82]      // 4th lot: 10% under 90.25, three lots open
+    );
+
+    expect(results.transactions.map(t => [paise(t.price), t.threshold])).toEqual([
+      [100, 0.05],
+      [95, 0.05],
+      [90.25, 0.05],
+      [81.23, 0.10]
+    ]);
+  });
+});
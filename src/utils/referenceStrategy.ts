@@ -0,0 +1,638 @@
+import type { FillReason, LotShares, PendingOrder, PriceBar, Position, SessionOrders, Strategy, StrategyConfig, StrategyContext, StrategySnapshot, Transaction } from '../types';
+import { barPath } from './intrabarPath';
+import { type Fill, gapNote, rangeBuyFill, rangeSellFill } from './orderFills';
+import { percent, rupees } from './decisionLog';
+
+/**
+ * Threshold required for the next buy given the number of open positions
+ * Uses the deepest ladder step whose minPositions has been reached
+ */
+export const getLadderThreshold = (config: StrategyConfig, openPositions: number): number => {
+  let threshold = config.threshold;
+  let matched = -1;
+
+  for (const step of config.thresholdLadder) {
+    if (openPositions >= step.minPositions && step.minPositions > matched) {
+      threshold = step.threshold;
+      matched = step.minPositions;
+    }
+  }
+
+  return threshold;
+};
+
+
+/**
+ * Reference-Based Strategy (V2)
+ *
+ * Strategy: Dynamic Reference Trading with 5% Threshold
+ * (all thresholds below are defaults, see StrategyConfig)
+ *
+ * Core Concept:
+ * - Maintain a "reference price" which is the last action taken (buy or sell)
+ * - Buy trigger: 5% below reference
+ * - Sell trigger: Each position sells at 5% above its buy price
+ * - After each action, update the reference
+ * - Multiple actions possible per day as reference updates
+ *
+ * Key Rules:
+ * 1. Reference starts as the first buy price
+ * 2. When we buy: new buy price becomes reference
+ * 3. When we sell: sell price becomes reference
+ * 4. When we sell multiple: highest sell becomes reference
+ * 5. After selling, if positions remain: highest position becomes reference
+ * 6. We continuously check for new actions after each reference update
+ *
+ * Example Flow:
+ * Day 1: Buy ₹100 → ref = ₹100
+ * Day 2: HIGH = ₹108
+ *   - Sell ₹100 at ₹105 → ref = ₹105
+ *   - Check buy: 5% below ₹105 = ₹99.75, if LOW ≤ ₹99.75 → buy
+ * Day 3: Positions [₹95, ₹100], ref = ₹95, HIGH = ₹108
+ *   - Sell ₹95 at ₹99.75 → ref = ₹100 (highest remaining position)
+ *   - Sell ₹100 at ₹105 → ref = ₹105
+ *   - Check buy: 5% below ₹105 = ₹99.75, if LOW ≤ ₹99.75 → buy
+ */
+export const createReferenceStrategy = (config: StrategyConfig, resume: StrategySnapshot = {}): Strategy => {
+  // Trading parameters
+  const THRESHOLD = config.threshold; // Base threshold for buy/sell triggers
+  const MAX_POSITIONS = config.maxPositions;
+
+  let reference = resume.reference ?? 0; // Current reference price for buy/sell triggers
+  let referenceEventId = resume.referenceEventId; // Decision that set the reference
+  let started = reference > 0;
+  let recovering = false;         // Reference is chasing the HIGH after a sell-out
+  const sellHistory: number[] = []; // Track ALL sell prices for future buy opportunities
+
+  /**
+   * Every fill becomes the new reference
+   */
+  const onFill = (transaction: Transaction) => {
+    reference = transaction.triggerPrice ?? transaction.price;
+    referenceEventId = transaction.eventId;
+    recovering = false;
+    if (transaction.type === 'SELL') {
+      sellHistory.push(reference);
+      if (sellHistory.length > 3) {
+        sellHistory.shift();
+      }
+    }
+  };
+
+  const onCorporateAction = (factor: number, eventId: number) => {
+    reference = reference / factor;
+    sellHistory.forEach((price, i) => { sellHistory[i] = price / factor; });
+    referenceEventId = eventId;
+  };
+
+  const onBar = (bar: PriceBar, ctx: StrategyContext) => {
+    const { positions } = ctx;
+    const { open, high, low, close, date } = bar;
+
+    /**
+     * INITIAL BUY
+     * Always buy at the OPEN price of the first day
+     * This becomes our initial reference
+     */
+    if (!started) {
+      if (!ctx.buy(open, { threshold: THRESHOLD, fill: 'open', opening: true, reason: `Opening lot bought at the OPEN ${rupees(open)}` })) {
+        return; // No cash for the opening lot yet (or a filter held it), try again at the next OPEN
+      }
+      started = true;
+    }
+
+    /**
+     * DECISIONS THAT DO NOT TRADE
+     * Logged once per day (per lot for blocked sells) by either price model
+     */
+    let capacityNoted = false;
+    const noteCapacity = (lowest: number) => {
+      const trigger = reference * (1 - getLadderThreshold(config, positions.length));
+      if (capacityNoted || lowest > trigger) return;
+      capacityNoted = true;
+      ctx.record({
+        type: 'buy-skipped-max-positions',
+        price: trigger,
+        reference,
+        causeId: referenceEventId,
+        reason: `Price reached the buy trigger ${rupees(trigger)} but all ${MAX_POSITIONS} positions are open`
+      });
+    };
+
+    const blockedToday = new Set<Position>();
+    const noteBlocked = (pos: Position, target: number) => {
+      if (blockedToday.has(pos)) return;
+      blockedToday.add(pos);
+      ctx.record({
+        type: 'sell-blocked-same-day',
+        price: target,
+        causeId: pos.buyEventId,
+        reason: `Lot bought at ${rupees(pos.buyPrice)} today reached its ${percent(pos.threshold || THRESHOLD)} target ${rupees(target)}; lots are not sold the day they are bought`
+      });
+    };
+
+    // Buys measured from this reference were resting orders at the OPEN
+    const openingReference = reference;
+
+    const guardLoop = () => {
+      ctx.record({
+        type: 'loop-guard',
+        reference,
+        reason: `Stopped after ${config.maxActionsPerDay} actions in one day; the rest of the day was not traded`
+      });
+    };
+
+
+    /**
+     * RECOVERY MODE
+     *
+     * When we have no positions (sold everything) and price has risen
+     * recoveryTrigger (default 5%) above last sell:
+     * - Switch to using daily HIGH as reference
+     * - Each day, if CLOSE > previous reference, update reference to today's HIGH
+     * - Buy at 5% below the HIGH
+     * - This allows re-entry during bull markets
+     *
+     * Example:
+     * - Sold at ₹100, positions = 0
+     * - Day 1: CLOSE = ₹112 (>5% above ₹100) → ref = HIGH
+     * - Day 2: CLOSE > ref → update ref to today's HIGH
+     * - Continue until we buy, then resume normal algorithm
+     */
+    if (positions.length === 0) {
+      // We have no positions
+      // Check if we need to enter recovery mode or update reference
+
+      // Get the last sell price (which is current reference)
+      const lastSellPrice = reference;
+
+      // Check if price has risen recoveryTrigger above last sell
+      if (close > lastSellPrice * (1 + config.recoveryTrigger)) {
+        // Enter/continue recovery mode: use HIGH as reference
+        if (close > reference) {
+          // Update reference to today's HIGH
+          const oldRef = reference;
+          reference = high;
+          referenceEventId = ctx.record({
+            type: recovering ? 'reference-update' : 'recovery-mode',
+            price: close,
+            reference,
+            causeId: referenceEventId,
+            reason: recovering
+              ? `Still in recovery: CLOSE ${rupees(close)} > reference ${rupees(oldRef)}, reference moves to HIGH ${rupees(high)}`
+              : `No open lots and CLOSE ${rupees(close)} is ${percent(config.recoveryTrigger)}+ above the last sell ${rupees(oldRef)}; reference moves to HIGH ${rupees(high)}`
+          });
+          recovering = true;
+        }
+      }
+    }
+
+    // ============================================================================
+    // 🆕 ADDED: FALLING STOCK ADJUSTMENT
+    // If we have positions and stock has fallen fallingStockReset (20%) below reference,
+    // adjust reference to current CLOSE to allow re-entry at lower levels
+    // ============================================================================
+    if (positions.length > 0 && close < reference * (1 - config.fallingStockReset)) {
+      const oldRef = reference;
+      reference = close;
+      referenceEventId = ctx.record({
+        type: 'falling-stock-reset',
+        price: close,
+        reference,
+        causeId: referenceEventId,
+        reason: `CLOSE ${rupees(close)} is ${percent(config.fallingStockReset)}+ below reference ${rupees(oldRef)}; reference reset to CLOSE, next buy trigger ${rupees(reference * (1 - getLadderThreshold(config, positions.length)))}`
+      });
+    }
+    // ============================================================================
+
+
+    /**
+     * PATH MODELS
+     *
+     * Walk the modelled price path (see intrabarPath.ts) and trade each
+     * level at the moment the price reaches it. Rising stretches can only
+     * hit sell targets and falling stretches only the buy trigger, so the
+     * order of the day's trades comes from the path itself: a sell moves
+     * the reference up and the next buy needs a real dip after it.
+     *
+     * Fills are at the level the price touched. Orders the day opens
+     * through fill at the OPEN, or with gapFill 'close' wait for the price
+     * to come back and otherwise fill at the CLOSE. Lots bought today are
+     * not sold today.
+     */
+    if (config.intrabarModel !== 'range') {
+      const path = (config.intrabarModel === 'intraday' && ctx.path) || barPath(bar, config.intrabarModel);
+      let actions = 0;
+      let refusedAt = NaN; // Reference at which the cash pool refused a buy; wait for it to move
+      let sellsHeld = false; // A filter held a target sell; it holds the rest too until tomorrow
+
+      const nextSellTarget = (above: number, upTo: number) => {
+        if (sellsHeld) return undefined;
+        let best: { index: number; target: number } | undefined;
+        positions.forEach((pos, index) => {
+          const target = pos.buyPrice * (1 + (pos.threshold || THRESHOLD));
+          if (target <= above || target > upTo) return;
+          if (pos.buyDate === date) {
+            noteBlocked(pos, target);
+            return;
+          }
+          if (!best || target < best.target) best = { index, target };
+        });
+        return best;
+      };
+
+      const buyTrigger = () =>
+        positions.length < MAX_POSITIONS && reference !== refusedAt
+          ? reference * (1 - getLadderThreshold(config, positions.length))
+          : -Infinity;
+
+      // gapFill is the reason for fills away from their level: 'gap-open' at the OPEN, 'gap-close' at the CLOSE
+      const sellAt = (index: number, price: number, gapFill: FillReason): boolean => {
+        const pos = positions[index];
+        const sellThreshold = pos.threshold || THRESHOLD;
+        const target = pos.buyPrice * (1 + sellThreshold);
+        const lot = `the lot bought at ${rupees(pos.buyPrice)} on ${pos.buyDate}`;
+        const sold = price <= target
+          ? ctx.sell(pos, price, { reason: `Price rose to the ${percent(sellThreshold)} target of ${lot}` })
+          : ctx.sell(pos, price, {
+              reason: gapFill === 'gap-open'
+                ? `Opened at ${rupees(price)}, above the ${percent(sellThreshold)} target ${rupees(target)} of ${lot}`
+                : `Opened above the ${percent(sellThreshold)} target ${rupees(target)} of ${lot} and never came back to it; sold at the CLOSE ${rupees(price)}`,
+              fill: gapFill
+            });
+        if (!sold) sellsHeld = true;
+        return !!sold;
+      };
+
+      const buyAt = (price: number, trigger: number, gapFill: FillReason): boolean => {
+        const currentThreshold = getLadderThreshold(config, positions.length);
+        const gap = price < trigger;
+        return !!ctx.buy(price, {
+          threshold: currentThreshold,
+          type: gap ? 'gap-down-fill' : 'buy',
+          fill: gap ? gapFill : 'trigger',
+          reason: !gap
+            ? `Price fell to the ${percent(currentThreshold)} buy trigger under reference ${rupees(reference)}`
+            : gapFill === 'gap-open'
+              ? `Opened at ${rupees(price)}, below the ${percent(currentThreshold)} buy trigger ${rupees(trigger)} under reference ${rupees(reference)}`
+              : `Opened below the ${percent(currentThreshold)} buy trigger ${rupees(trigger)} under reference ${rupees(reference)} and never came back to it; bought at the CLOSE ${rupees(price)}`
+        });
+      };
+
+      // Everything that trades with the price sitting at this level, sells first
+      const settle = (price: number, gapFill: FillReason = 'gap-open') => {
+        while (actions < config.maxActionsPerDay) {
+          const due = nextSellTarget(-Infinity, price);
+          if (due) {
+            if (sellAt(due.index, price, gapFill)) actions++;
+            continue;
+          }
+          const trigger = buyTrigger();
+          if (price <= trigger) {
+            if (buyAt(price, trigger, gapFill)) {
+              actions++;
+              continue;
+            }
+            refusedAt = reference;
+          } else if (positions.length >= MAX_POSITIONS) {
+            noteCapacity(price);
+          }
+          return;
+        }
+      };
+
+      if (config.gapFill !== 'close') settle(path[0]); // Gaps through targets fill at the OPEN
+      for (let i = 1; i < path.length && actions < config.maxActionsPerDay; i++) {
+        let price = path[i - 1];
+        const to = path[i];
+        while (actions < config.maxActionsPerDay) {
+          let next: number | undefined;
+          if (to > price) {
+            next = nextSellTarget(price, to)?.target;
+          } else {
+            const trigger = buyTrigger();
+            next = trigger < price && trigger >= to ? trigger : undefined;
+            if (positions.length >= MAX_POSITIONS) noteCapacity(to);
+          }
+          if (next === undefined) break;
+          price = next;
+          settle(price);
+        }
+      }
+
+      // Orders the day opened through and never came back to
+      if (config.gapFill === 'close' && actions < config.maxActionsPerDay) {
+        settle(path[path.length - 1], 'gap-close');
+      }
+
+      if (actions >= config.maxActionsPerDay) {
+        guardLoop();
+      }
+      return;
+    }
+
+
+    /**
+     * CONTINUOUS ACTION LOOP (range model)
+     * Keep checking for actions until no more actions are possible
+     * This allows multiple buys/sells on the same day as reference updates
+     */
+    let actionTaken = true;
+    let loopCount = 0;
+    let lastSellPriceToday = 0; // Track highest sell price today to prevent buy-sell loops
+    const buyPricesToday = new Set<number>(); // Track all buy prices executed today
+    let sellsHeld = false; // A filter held a target sell; the lot stays and buys are still checked
+
+    while (actionTaken) {
+      actionTaken = false;
+      loopCount++;
+
+      if (loopCount > config.maxActionsPerDay) {
+        guardLoop();
+        break;
+      }
+
+
+      /**
+       * STEP 1: CHECK FOR SELL TRIGGERS
+       *
+       * Positions are sorted by buy price (lowest first) and the lowest lot
+       * not bought today is the only candidate, sold at its own threshold
+       * (a lot bought on a 10% dip sells at 10% profit), or at the OPEN when
+       * the day opened above it (see orderFills.ts). Lots bought today are
+       * never sold today; if every lot was bought today the day ends here.
+       *
+       * After each sell the reference moves and the loop checks again,
+       * which allows cascading sells on the same day
+       */
+      if (positions.length > 0) {
+        positions.sort((a, b) => a.buyPrice - b.buyPrice);
+
+        const pos = positions.find(p => p.buyDate !== date);
+        if (!pos) {
+          break; // All positions were bought today, nothing more to do
+        }
+
+        const sellThreshold = pos.threshold || THRESHOLD;
+        const sellPrice = pos.buyPrice * (1 + sellThreshold);
+        const fill = rangeSellFill(bar, sellPrice, config.gapFill);
+
+        if (fill && !sellsHeld) {
+          // SELL this position; the sell price becomes the reference
+          const lot = `the lot bought at ${rupees(pos.buyPrice)} on ${pos.buyDate}`;
+          const sold = ctx.sell(pos, fill.price, {
+            reason: fill.reason === 'trigger'
+              ? `HIGH ${rupees(high)} reached the ${percent(sellThreshold)} target of ${lot}`
+              : fill.reason === 'gap-open'
+                ? `Opened at ${rupees(open)}, above the ${percent(sellThreshold)} target ${rupees(sellPrice)} of ${lot}`
+                : `Whole day traded above the ${percent(sellThreshold)} target ${rupees(sellPrice)} of ${lot} (LOW ${rupees(low)}); sold at CLOSE`,
+            fill: fill.reason
+          });
+
+          if (sold) {
+            // Track highest sell price today
+            lastSellPriceToday = Math.max(lastSellPriceToday, fill.price);
+
+            actionTaken = true;
+            continue;
+          }
+          sellsHeld = true;
+        }
+      }
+
+
+      /**
+       * STEP 2: CHECK FOR BUY TRIGGERS
+       *
+       * Two sources of buy triggers:
+       * 1. Reference-based: 5% below current reference (last action) - ALWAYS checked
+       * 2. Sell history: 5% below ANY previous sell price - ONLY on first action of day
+       *
+       * If we've already traded today, only use reference to avoid buying at similar prices
+       */
+      const potentialBuys: number[] = [];
+      let buyFill: (Fill & { trigger: number }) | undefined; // How the buy below fills, when it is not at the trigger
+      //const hasTradestoday = buyPricesToday.size > 0 || lastSellPriceToday > 0;
+
+      // Determine dynamic threshold based on number of positions
+      // With the default ladder:
+      // 0-2 positions: 5% drop
+      // 3 positions: 10% drop (for the 4th buy)
+      // 4 positions: 20% drop (for the 5th buy)
+      const currentThreshold = getLadderThreshold(config, positions.length);
+
+      // Check if we have reached the maximum number of positions
+      if (positions.length >= MAX_POSITIONS) {
+        // Skip buy logic if we are at capacity
+        // We still continue the loop to check for sells (which we already did in Step 1)
+        // So we just break the loop if no action was taken in Step 1
+        noteCapacity(low);
+        if (!actionTaken) break;
+      } else {
+        // 1. Check reference-based buy
+        const refBuyPrice = reference * (1 - currentThreshold);
+
+        // Check if reference buy price is reachable (LOW <= BuyPrice)
+        // A GAP DOWN through a trigger resting since the open fills at the
+        // OPEN; one the whole day stayed below (HIGH < trigger) otherwise
+        // fills at the CLOSE (see orderFills.ts)
+        const fill = rangeBuyFill(bar, refBuyPrice, config.gapFill, reference === openingReference);
+        if (fill && !lastSellPriceToday && !buyPricesToday.has(fill.price)) {
+          // Check if we already have a position at this exact price
+          if (!potentialBuys.some(p => Math.abs(p - fill.price) < 0.01)) {
+            potentialBuys.push(fill.price);
+            if (fill.reason !== 'trigger') buyFill = { ...fill, trigger: refBuyPrice };
+          }
+        }
+      }
+
+      /*
+      // 2. Check sell history ONLY if no trades today yet
+      // DISABLED: User requested to disable this to simplify logic and rely only on Reference.
+      if (!hasTradestoday) {
+        for (const sellPrice of sellHistory) {
+          // Use the same dynamic threshold for sell history buys too
+          const targetBuyPrice = sellPrice * (1 - currentThreshold);
+
+          // Check if this buy price is reachable
+          if (low <= targetBuyPrice) {
+            // Check for GAP DOWN (Target > HIGH)
+            let executionPrice = targetBuyPrice;
+
+            if (targetBuyPrice > high) {
+               // GAP DOWN for Sell History
+               // Buy at CLOSE price
+               executionPrice = close;
+            }
+
+            // Prevent buy-sell loops: Don't buy on same day after selling everything
+            // AND don't buy higher than we sold today
+            if (lastSellPriceToday > 0) {
+              if (executionPrice >= lastSellPriceToday) {
+                continue;
+              }
+
+              // We sold everything today, don't buy again today
+              // This prevents infinite cascading loops
+              if (positions.length === 0) {
+                continue;
+              }
+            }
+
+            // IMPORTANT: Only buy LOWER than reference (we buy on dips, not rallies)
+            if (executionPrice >= reference) {
+              continue; // Skip this buy
+            }
+
+            // Check minimum gap from last buy (reference)
+            // If we are in 10% mode, we should ensure the new buy is significantly lower than the last buy
+            // We use currentThreshold - 1% as the minimum gap to allow for slight variations
+            // e.g. if threshold is 10%, we want at least 9% gap from last buy
+            const minGap = currentThreshold - 0.01;
+            const gapFromLastBuy = Math.abs(reference - executionPrice) / reference;
+
+            if (gapFromLastBuy >= minGap) {
+              // Check if we haven't already added this price
+              if (!potentialBuys.some(p => Math.abs(p - executionPrice) < 0.01)) {
+                potentialBuys.push(executionPrice);
+              }
+            }
+          }
+        }
+
+        // If we have multiple potential buys from sell history, only take the LOWEST
+        // This prevents buying at very similar prices (e.g., ₹994.91 and ₹997.40)
+        if (potentialBuys.length > 1) {
+          potentialBuys.sort((a, b) => a - b);
+          // Keep only the lowest one
+          const lowest = potentialBuys[0];
+          potentialBuys.length = 0;
+          potentialBuys.push(lowest);
+        }
+      }
+      */
+
+      // Execute all potential buys (sorted lowest to highest)
+      if (potentialBuys.length > 0) {
+        potentialBuys.sort((a, b) => a - b);
+
+        for (const buyPrice of potentialBuys) {
+          // Check if we already have a position at this price
+          const existingAtLevel = positions.find(p =>
+            Math.abs(p.buyPrice - buyPrice) < 0.01
+          );
+
+          // Check if we already bought at this price today (even if we sold it)
+          const boughtTodayAtLevel = buyPricesToday.has(buyPrice);
+
+          if (!existingAtLevel && !boughtTodayAtLevel) {
+            // BUY at this price; it becomes the new reference
+            const bought = ctx.buy(buyPrice, {
+              threshold: currentThreshold, // Track threshold
+              type: buyFill ? 'gap-down-fill' : 'buy',
+              fill: buyFill?.reason ?? 'trigger',
+              reason: !buyFill
+                ? `LOW ${rupees(low)} reached the ${percent(currentThreshold)} buy trigger under reference ${rupees(reference)}`
+                : buyFill.reason === 'gap-open'
+                  ? `Opened at ${rupees(open)}, below the ${percent(currentThreshold)} buy trigger ${rupees(buyFill.trigger)} under reference ${rupees(reference)}`
+                  : `Whole day traded below the ${percent(currentThreshold)} buy trigger ${rupees(buyFill.trigger)} (HIGH ${rupees(high)}); bought at CLOSE`
+            });
+            if (!bought) continue; // Shared capital pool (portfolio mode) refused it
+
+            // Track that we bought at this price today
+            buyPricesToday.add(buyPrice);
+
+            actionTaken = true; // We took an action, continue loop
+          }
+        }
+
+        // If we executed any buys, continue the loop
+        if (actionTaken) {
+          continue;
+        }
+      }
+
+      // If we reach here, no action was taken, exit the while loop
+    }
+
+    // Lots bought today whose target the range also covered
+    for (const pos of positions) {
+      const target = pos.buyPrice * (1 + (pos.threshold || THRESHOLD));
+      if (pos.buyDate === date && high >= target) noteBlocked(pos, target);
+    }
+  };
+
+  /**
+   * NEXT SESSION
+   * Resting orders implied by the state the last bar left: each lot's
+   * target, then the buy ladder below the reference. Every fill becomes the
+   * reference, so each buy after the first only stands once the one above
+   * it has filled, and a sell moves the ladder up to its target.
+   */
+  const planSession = (positions: Position[], lastClose: number, lotShares: LotShares): SessionOrders => {
+    const pathModel = config.intrabarModel !== 'range';
+    const gapFill = config.gapFill ?? 'open';
+    const orders: PendingOrder[] = [];
+    const notes: string[] = [];
+
+    for (const lot of [...positions].sort((a, b) => a.buyPrice - b.buyPrice)) {
+      const threshold = lot.threshold || THRESHOLD;
+      orders.push({
+        side: 'SELL',
+        price: lot.buyPrice * (1 + threshold),
+        shares: lot.shares,
+        threshold,
+        lot,
+        note: gapNote('SELL', gapFill)
+      });
+    }
+
+    if (!started) {
+      orders.push({
+        side: 'BUY',
+        price: lastClose,
+        shares: lotShares(lastClose, 0),
+        threshold: THRESHOLD,
+        note: 'Opening lot: buy at the OPEN, whatever it is (quantity shown at the last close)'
+      });
+      return { orders, notes };
+    }
+
+    let level = reference;
+    for (let count = positions.length; count < MAX_POSITIONS; count++) {
+      const threshold = getLadderThreshold(config, count);
+      const trigger = level * (1 - threshold);
+      orders.push({
+        side: 'BUY',
+        price: trigger,
+        shares: lotShares(trigger, count),
+        threshold,
+        after: count > positions.length ? orders.length - 1 : undefined,
+        note: pathModel ? gapNote('BUY', gapFill) : `${gapNote('BUY', gapFill)}; no buy on a day with a sell`
+      });
+      level = trigger;
+    }
+
+    if (positions.length >= MAX_POSITIONS) {
+      notes.push(`All ${MAX_POSITIONS} lots are open: no buys until one is sold`);
+    }
+    if (positions.length > 0) {
+      notes.push(`A CLOSE below ${rupees(reference * (1 - config.fallingStockReset))} resets the reference to the CLOSE (falling-stock reset)`);
+    } else {
+      notes.push(`With no lots open, a CLOSE above ${rupees(reference * (1 + config.recoveryTrigger))} moves the reference to the day's HIGH (recovery mode)`);
+    }
+    notes.push('A sell makes its target the new reference: plan again after any fill');
+    return { orders, notes };
+  };
+
+  return {
+    id: 'reference-v2',
+    onBar,
+    onFill,
+    onCorporateAction,
+    getState: () => ({ reference, referenceEventId }),
+    planSession
+  };
+};
+
+export default createReferenceStrategy;
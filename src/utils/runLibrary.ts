@@ -0,0 +1,143 @@
+import type { DatasetFingerprint, SavedRun, SymbolDataset, BacktestExport, StrategyConfig } from '../types';
+import { DEFAULT_STRATEGY_CONFIG } from './backtestEngineV2';
+
+/**
+ * Run Library
+ *
+ * Saved backtests live in the browser's IndexedDB so they survive a
+ * refresh. Each entry keeps the exported run (config, engine, results),
+ * a SHA-256 fingerprint of every input file and the rows themselves.
+ */
+
+const DB_NAME = 'stock-backtest';
+const DB_VERSION = 1;
+const STORE = 'runs';
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser does not support IndexedDB; runs cannot be saved'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Could not open the run library'));
+  });
+
+/**
+ * Run one request in its own transaction and close the connection afterwards
+ */
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = action(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result as T);
+      tx.onerror = () => reject(tx.error ?? new Error('Run library request failed'));
+      tx.onabort = () => reject(tx.error ?? new Error('Run library request was aborted'));
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const hashDataset = async ({ symbol, data }: SymbolDataset): Promise<DatasetFingerprint> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hash = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  return { symbol, hash, rows: data.length };
+};
+
+export const saveRun = async (
+  run: BacktestExport,
+  datasets: SymbolDataset[],
+  name: string,
+  tags: string[] = []
+): Promise<SavedRun> => {
+  const entry: SavedRun = {
+    id: crypto.randomUUID(),
+    name,
+    tags,
+    savedAt: new Date().toISOString(),
+    datasets: await Promise.all(datasets.map(hashDataset)),
+    data: datasets,
+    run
+  };
+  await withStore('readwrite', store => store.put(entry));
+  return entry;
+};
+
+/**
+ * All saved runs, newest first
+ */
+export const listRuns = async (): Promise<SavedRun[]> => {
+  const runs = await withStore<SavedRun[]>('readonly', store => store.getAll());
+  return runs.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const getRun = (id: string): Promise<SavedRun | undefined> =>
+  withStore<SavedRun | undefined>('readonly', store => store.get(id));
+
+export const updateRun = async (id: string, patch: Partial<Pick<SavedRun, 'name' | 'tags'>>): Promise<SavedRun> => {
+  const existing = await getRun(id);
+  if (!existing) throw new Error('Saved run not found');
+  const updated = { ...existing, ...patch };
+  await withStore('readwrite', store => store.put(updated));
+  return updated;
+};
+
+export const deleteRun = (id: string): Promise<void> =>
+  withStore<void>('readwrite', store => store.delete(id));
+
+/**
+ * Engine version a run was made with
+ * Runs saved before the version was recorded are dated by the settings
+ * they have: each engine change added one.
+ */
+export const engineVersionOf = (run: BacktestExport): number => {
+  if (run.engineVersion !== undefined) return run.engineVersion;
+  const { config } = run;
+  if (!config.gapFill) return 1;
+  if (!config.exits) return 2;
+  if (!config.sizing) return 3;
+  if (!config.filters) return 4;
+  return 5; // The engine when versions started being recorded
+};
+
+/**
+ * A saved run's settings with the ones added since filled in
+ * Missing settings take the value closest to the engine the run was made
+ * with: gap fills at the CLOSE before version 2. Exits, sizing and filters
+ * default to off, a lotSize buy and none, which is how older engines ran.
+ */
+export const savedRunConfig = (run: BacktestExport): StrategyConfig => {
+  const saved: Partial<StrategyConfig> = run.config;
+  return {
+    ...DEFAULT_STRATEGY_CONFIG,
+    gapFill: engineVersionOf(run) < 2 ? 'close' : DEFAULT_STRATEGY_CONFIG.gapFill,
+    ...saved,
+    costs: { ...DEFAULT_STRATEGY_CONFIG.costs, ...saved.costs },
+    exits: { ...DEFAULT_STRATEGY_CONFIG.exits, ...saved.exits },
+    sizing: { ...DEFAULT_STRATEGY_CONFIG.sizing, ...saved.sizing }
+  };
+};
+
+/**
+ * Two runs saw the same input when every file fingerprint matches
+ */
+export const sameDatasets = (a: SavedRun, b: SavedRun): boolean =>
+  a.datasets.length === b.datasets.length &&
+  a.datasets.every((d, i) => d.hash === b.datasets[i].hash);
+
+export const parseTags = (text: string): string[] =>
+  [...new Set(text.split(',').map(tag => tag.trim()).filter(Boolean))];
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import type { FilterRule, PriceBar, StrategyConfig } from '../types';
+import { runBacktest } from './backtestEngineV2';
+import { DEFAULT_EXIT_RULES } from './exitRules';
+import { compareFilters } from './filterImpact';
+import { DEFAULT_PORTFOLIO_CONFIG } from './portfolioEngine';
+import { heldBy } from './signalFilters';
+import { adjustForActions, ema, range52w, rsi, sma, volumeRatio } from './indicators';
+import { parseStockCSV } from './csvParser';
+import { bars, day, testConfig } from '../test/bars';
+import sample from '../test/fixtures/nse-sample.csv?raw';
+
+/**
+ * Signal Filters
+ *
+ * The indicator series on short hand-checked inputs, then filter rules
+ * on the reference strategy without costs: a lot bought at 100 has its
+ * target at 105, and the next buy waits for 95.
+ */
+
+const config = (filters: Omit<FilterRule, 'id'>[], overrides: Partial<StrategyConfig> = {}): StrategyConfig =>
+  testConfig({ filters: filters.map((rule, i) => ({ ...rule, id: `F${i + 1}` })), ...overrides });
+
+const ABOVE_SMA: Omit<FilterRule, 'id'> = {
+  enabled: true,
+  side: 'BUY',
+  scope: 'ladder',
+  left: { indicator: 'close', period: 0 },
+  op: 'above',
+  right: { indicator: 'sma', period: 2 },
+  value: 1
+};
+
+const FLAT: Parameters<typeof bars>[number] = [100, 101, 99, 100];
+const DIP: Parameters<typeof bars>[number] = [96, 96, 94, 95]; // Reaches the 95 buy trigger
+
+const withVolume = (data: PriceBar[], volumes: number[]) => data.map((bar, i) => ({ ...bar, volume: volumes[i] }));
+
+const buyDates = (data: PriceBar[], strategyConfig: StrategyConfig) =>
+  runBacktest(data, strategyConfig).transactions.filter(t => t.type === 'BUY').map(t => t.date);
+
+describe('indicators', () => {
+  it('averages, smooths and measures momentum', () => {
+    expect(sma([1, 2, 3, 4], 2)).toEqual([NaN, 1.5, 2.5, 3.5]);
+    expect(ema([1, 2, 3, 4], 2)).toEqual([NaN, 1.5, 2.5, 3.5]);
+    expect(rsi([1, 2, 3, 4], 2)).toEqual([NaN, NaN, 100, 100]);
+    expect(rsi([4, 3, 4, 3], 2)[2]).toBe(50);
+  });
+
+  it('compares volume with the days before it and skips missing volume', () => {
+    const data = withVolume(bars(FLAT, FLAT, FLAT, FLAT, FLAT), [1000, 1000, 500, NaN, 1500]);
+    expect(volumeRatio(data, 2)).toEqual([NaN, NaN, 0.5, NaN, NaN]);
+  });
+
+  it('reads the exchange 52-week columns', async () => {
+    const data = await parseStockCSV(sample, 'SAMPLE.csv');
+    expect(data[0].high52).toBeGreaterThan(data[0].low52!);
+    expect(range52w(data).every(Number.isFinite)).toBe(true);
+  });
+
+  it('scales bars before a split', () => {
+    const data = bars(FLAT, FLAT, [50, 51, 49, 50]);
+    const split = { exDate: day(2), time: data[2].time, type: 'split' as const, ratio: [1, 2] as [number, number] };
+    expect(adjustForActions(data, new Map([[data[2].time, [split]]])).map(bar => bar.close)).toEqual([50, 50, 50]);
+  });
+});
+
+describe('signal filters', () => {
+  it('holds a ladder buy below the moving average and logs it', () => {
+    const data = bars(FLAT, FLAT, DIP);
+    expect(buyDates(data, config([]))).toEqual([day(0), day(2)]);
+
+    const results = runBacktest(data, config([ABOVE_SMA])); // Close 100 is not above its 2-day SMA 100
+    expect(results.transactions.map(t => t.date)).toEqual([day(0)]);
+    expect(results.events?.filter(e => e.type === 'buy-filtered')).toMatchObject([{ date: day(2), price: 95, ruleId: 'F1' }]);
+  });
+
+  it('lets the opening lot through a ladder rule', () => {
+    const [rule] = config([ABOVE_SMA]).filters;
+    const values = { 'close': 100, 'sma:2': 101 };
+    expect(heldBy([rule], 'BUY', values, true)).toBeUndefined();
+    expect(heldBy([{ ...rule, scope: 'all' }], 'BUY', values, true)?.rule.id).toBe('F1');
+    expect(heldBy([rule], 'BUY', values)?.detail).toBe('Close ₹100.00 is not above SMA(2) ₹101.00');
+  });
+
+  it('skips buys the day after thin volume', () => {
+    const rule: Omit<FilterRule, 'id'> = {
+      enabled: true,
+      side: 'BUY',
+      scope: 'all',
+      left: { indicator: 'volume-ratio', period: 2 },
+      op: 'above',
+      right: null,
+      value: 0.5
+    };
+    const data = bars(FLAT, FLAT, FLAT, FLAT, DIP);
+    expect(buyDates(withVolume(data, [1000, 1000, 1000, 1000, 1000]), config([rule]))).toEqual([day(0), day(4)]);
+    expect(buyDates(withVolume(data, [1000, 1000, 1000, 200, 1000]), config([rule]))).toEqual([day(0)]);
+  });
+
+  it.each([
+    ['reference-v2', 'range'],
+    ['reference-v2', 'olhc'],
+    ['lifo-stack', 'olhc'],
+    ['fixed-grid', 'olhc']
+  ] as const)('holds %s target sells on the %s path without looping', (strategy, intrabarModel) => {
+    const rule: Omit<FilterRule, 'id'> = {
+      enabled: true,
+      side: 'SELL',
+      scope: 'all',
+      left: { indicator: 'close', period: 0 },
+      op: 'above',
+      right: null,
+      value: 110
+    };
+    const results = runBacktest(
+      bars(FLAT, [104, 106, 103, 105], [105, 106, 104, 105]),
+      config([rule], { strategy, intrabarModel })
+    );
+
+    expect(results.transactions.filter(t => t.type === 'SELL')).toHaveLength(0);
+    expect(results.events?.filter(e => e.type === 'sell-filtered').map(e => e.date)).toEqual([day(1), day(2)]);
+    expect(results.events?.some(e => e.type === 'loop-guard')).toBe(false);
+  });
+
+  it('never holds an exit-rule sell', () => {
+    const rule: Omit<FilterRule, 'id'> = {
+      enabled: true,
+      side: 'SELL',
+      scope: 'all',
+      left: { indicator: 'close', period: 0 },
+      op: 'above',
+      right: null,
+      value: 1000
+    };
+    const results = runBacktest(bars(FLAT, [90, 91, 70, 72]), config([rule], {
+      strategy: 'buy-and-hold',
+      maxPositions: 1,
+      exits: { ...DEFAULT_EXIT_RULES, enabled: true, stopLoss: 0.25, trailingStop: 0, maxHoldingDays: 0 }
+    }));
+    expect(results.transactions.map(t => [t.type, t.exitType])).toEqual([['BUY', undefined], ['SELL', 'stop-loss']]);
+  });
+
+  it('reports what each filter changed', () => {
+    const [impact] = compareFilters([{ symbol: 'TEST', data: bars(FLAT, FLAT, DIP) }], config([ABOVE_SMA]), DEFAULT_PORTFOLIO_CONFIG);
+    expect(impact).toMatchObject({ ruleId: 'F1', blocked: 1, totalTrades: 1, tradesWithout: 2 });
+  });
+});
@@ -0,0 +1,151 @@
+import type { CorporateAction, FilterRule, IndicatorRef, IndicatorValues, PriceBar } from '../types';
+import { DEFAULT_PERIODS, adjustForActions, computeIndicators, describeIndicator, formatIndicatorValue, indicatorKey } from './indicators';
+
+/**
+ * Signal Filters
+ *
+ * Rules a strategy's buys and target sells must pass before the engine
+ * fills them. The strategies still decide where to trade; a filter only
+ * holds the order and records why, so a run shows every signal it let go.
+ *
+ * Rules read the indicators as of the previous CLOSE, the last values
+ * known before the day's orders rest, so a rule holds or passes for the
+ * whole day. An indicator still warming up passes the signal. Exit-rule
+ * sells, the benchmark's closing sale and fills entered by hand are
+ * never held.
+ */
+
+export const FILTER_OP_LABELS: Record<FilterRule['op'], string> = {
+  above: 'above',
+  below: 'below'
+};
+
+/**
+ * Starting points for the rule builder
+ * trend: ladder buys only above the 200-day SMA
+ * volume: no buys on a day after volume was under half its 20-day average
+ */
+export const FILTER_PRESETS: Record<'trend' | 'volume', Omit<FilterRule, 'id'>> = {
+  trend: {
+    enabled: true,
+    side: 'BUY',
+    scope: 'ladder',
+    left: { indicator: 'close', period: 0 },
+    op: 'above',
+    right: { indicator: 'sma', period: DEFAULT_PERIODS.sma! },
+    value: 1
+  },
+  volume: {
+    enabled: true,
+    side: 'BUY',
+    scope: 'all',
+    left: { indicator: 'volume-ratio', period: DEFAULT_PERIODS['volume-ratio']! },
+    op: 'above',
+    right: null,
+    value: 0.5
+  }
+};
+
+/**
+ * First free id: F1, F2, ...
+ */
+export const nextFilterId = (rules: FilterRule[]): string => {
+  const taken = new Set(rules.map(rule => rule.id));
+  let n = 1;
+  while (taken.has(`F${n}`)) n++;
+  return `F${n}`;
+};
+
+// Right side of a rule as written: "SMA(200)", "0.5 × SMA(200)", or the bare level
+const describeRight = (rule: FilterRule): string => {
+  if (!rule.right) return formatIndicatorValue(rule.left.indicator, rule.value);
+  return rule.value === 1 ? describeIndicator(rule.right) : `${rule.value} × ${describeIndicator(rule.right)}`;
+};
+
+/**
+ * "Ladder buys only when Close is above SMA(200)"
+ */
+export const describeRule = (rule: FilterRule): string => {
+  const signals = rule.side === 'SELL' ? 'Target sells' : rule.scope === 'ladder' ? 'Ladder buys' : 'Buys';
+  return `${signals} only when ${describeIndicator(rule.left)} is ${FILTER_OP_LABELS[rule.op]} ${describeRight(rule)}`;
+};
+
+/**
+ * The enabled rules in one line, for reports
+ * Runs saved before filters had none
+ */
+export const describeFilters = (rules: FilterRule[] | undefined): string => {
+  const active = (rules ?? []).filter(rule => rule.enabled);
+  return active.length > 0 ? active.map(rule => `${rule.id}: ${describeRule(rule)}`).join('; ') : 'none';
+};
+
+/**
+ * Indicators the enabled rules read
+ */
+export const filterIndicators = (rules: FilterRule[]): IndicatorRef[] =>
+  rules.filter(rule => rule.enabled).flatMap(rule => (rule.right ? [rule.left, rule.right] : [rule.left]));
+
+/**
+ * Indicator values each bar's filters read, by the bar's time
+ * That is the previous bar's values, so the first bar has none. Empty
+ * without enabled rules; actions are grouped as by actionsByBar.
+ */
+export const indicatorsByBar = (
+  bars: PriceBar[],
+  rules: FilterRule[],
+  actions: Map<number, CorporateAction[]> = new Map()
+): Map<number, IndicatorValues> => {
+  const byBar = new Map<number, IndicatorValues>();
+  const refs = filterIndicators(rules);
+  if (refs.length === 0) return byBar;
+
+  const series = computeIndicators(adjustForActions(bars, actions), refs);
+  for (let i = 1; i < bars.length; i++) {
+    const values: IndicatorValues = {};
+    for (const [key, line] of series) values[key] = line[i - 1];
+    byBar.set(bars[i].time, values);
+  }
+  return byBar;
+};
+
+/**
+ * Values the next session's filters read: those at the last bar
+ */
+export const latestIndicators = (bars: PriceBar[], rules: FilterRule[], actions: Map<number, CorporateAction[]> = new Map()): IndicatorValues => {
+  const values: IndicatorValues = {};
+  for (const [key, series] of computeIndicators(adjustForActions(bars, actions), filterIndicators(rules))) {
+    values[key] = series[series.length - 1];
+  }
+  return values;
+};
+
+/**
+ * First enabled rule of this side that holds the signal, with the values
+ * it compared; undefined when every rule passes
+ * opening: the strategy's first lot, which ladder-scoped rules let through
+ */
+export const heldBy = (
+  rules: FilterRule[],
+  side: FilterRule['side'],
+  values: IndicatorValues,
+  opening = false
+): { rule: FilterRule; detail: string } | undefined => {
+  for (const rule of rules) {
+    if (!rule.enabled || rule.side !== side) continue;
+    if (side === 'BUY' && rule.scope === 'ladder' && opening) continue;
+
+    const left = values[indicatorKey(rule.left)];
+    const level = rule.right ? values[indicatorKey(rule.right)] * rule.value : rule.value;
+    if (!Number.isFinite(left) || !Number.isFinite(level)) continue; // Warming up
+    if (rule.op === 'above' ? left > level : left < level) continue;
+
+    const shown = rule.right ? ` ${formatIndicatorValue(rule.right.indicator, level)}` : '';
+    return {
+      rule,
+      detail: `${describeIndicator(rule.left)} ${formatIndicatorValue(rule.left.indicator, left)} is not ${FILTER_OP_LABELS[rule.op]} ${describeRight(rule)}${shown}`
+    };
+  }
+  return undefined;
+};
+
+export default heldBy;
@@ -0,0 +1,467 @@
+import type { FillReason, GapFillMode, LotShares, PendingOrder, PriceBar, Position, SessionOrders, Strategy, StrategyConfig, StrategyContext, StrategyId, StrategySnapshot, Transaction } from '../types';
+import { barPath } from './intrabarPath';
+import { gapNote } from './orderFills';
+import { percent, rupees } from './decisionLog';
+import { createReferenceStrategy, getLadderThreshold } from './referenceStrategy';
+
+/**
+ * Strategies
+ *
+ * Every strategy runs on the same simulation core (processDay in
+ * backtestEngineV2.ts), which does the fills, fees, accounting, corporate
+ * actions and decision log. A strategy only decides what to trade, so
+ * older variants stay runnable side by side instead of living in
+ * commented-out engines.
+ */
+
+export const STRATEGY_LABELS: Record<StrategyId, string> = {
+  'reference-v2': 'Reference-based (V2)',
+  'lifo-stack': 'LIFO stack',
+  'fixed-grid': 'Fixed grid',
+  'buy-and-hold': 'Buy and hold (benchmark)'
+};
+
+export const STRATEGY_DESCRIPTIONS: Record<StrategyId, string> = {
+  'reference-v2': 'Buys a threshold below the last trade, sells each lot a threshold above its buy, with the dip ladder, falling-stock reset and recovery mode.',
+  'lifo-stack': 'Lots form a stack: a new lot is bought a threshold below the newest one, and only the newest lot can be sold. Uses the dip ladder.',
+  'fixed-grid': 'Price levels a threshold apart, anchored at the first OPEN. One lot per level is bought on the way down and sold one level up.',
+  'buy-and-hold': 'Invests lot size × max positions at the first OPEN and sells at the last CLOSE, as a yardstick for the others.'
+};
+
+export const STRATEGY_IDS = Object.keys(STRATEGY_LABELS) as StrategyId[];
+
+/**
+ * Price path the simpler strategies walk each day
+ * They have no range loop of their own, so 'range' walks nearest extreme first
+ */
+const dayPath = (bar: PriceBar, config: StrategyConfig, ctx: StrategyContext): number[] =>
+  (config.intrabarModel === 'intraday' && ctx.path) ||
+  barPath(bar, config.intrabarModel === 'range' ? 'nearest' : config.intrabarModel);
+
+interface PathTrader {
+  sellLevel: (above: number, upTo: number) => number | undefined; // Lowest sell level in (above, upTo]
+  buyLevel: (below: number, downTo: number) => number | undefined; // Highest buy level in [downTo, below)
+  // Trades due with the price at this level, having come from `from`; gapFill tags fills away from their level
+  settle: (price: number, from: number, gapFill: FillReason) => number;
+}
+
+/**
+ * Walk a day's price path: settle at the OPEN, then at every level the
+ * price crosses on its way. With gapFill 'close' the OPEN is not settled;
+ * orders it was through fill if the price comes back to them, and
+ * whatever is still due is settled at the CLOSE. Returns true when
+ * maxActions cut the day short.
+ */
+const walkPath = (path: number[], from: number, trader: PathTrader, maxActions: number, gapFill: GapFillMode = 'open'): boolean => {
+  let actions = gapFill === 'close' ? 0 : trader.settle(path[0], from, 'gap-open');
+  for (let i = 1; i < path.length && actions < maxActions; i++) {
+    let price = path[i - 1];
+    const to = path[i];
+    while (actions < maxActions) {
+      const next = to > price ? trader.sellLevel(price, to) : trader.buyLevel(price, to);
+      if (next === undefined) break;
+      actions += trader.settle(next, price, 'trigger');
+      price = next;
+    }
+  }
+  if (gapFill === 'close' && actions < maxActions) actions += trader.settle(path[path.length - 1], from, 'gap-close');
+  return actions >= maxActions;
+};
+
+const loopGuardReason = (config: StrategyConfig) =>
+  `Stopped after ${config.maxActionsPerDay} actions in one day; the rest of the day was not traded`;
+
+const lotTarget = (pos: Position) => pos.buyPrice * (1 + (pos.threshold ?? 0));
+
+const openingOrder = (shares: number, lastClose: number, threshold: number): PendingOrder => ({
+  side: 'BUY',
+  price: lastClose,
+  shares,
+  threshold,
+  note: 'Opening lot: buy at the OPEN, whatever it is (quantity shown at the last close)'
+});
+
+
+/**
+ * LIFO Stack Strategy
+ *
+ * The newest lot is the reference: the next buy waits for a ladder
+ * threshold dip below it, and it is the only lot that can be sold, at its
+ * own threshold above. Older lots wait until everything bought after
+ * them has been sold. With the stack empty the reference is the last
+ * exit, which follows the HIGH once the CLOSE is recoveryTrigger above it.
+ */
+const createLifoStrategy = (config: StrategyConfig, resume: StrategySnapshot = {}): Strategy => {
+  let lots: Position[] = [];
+  let lastExit = resume.reference ?? 0; // Only read once the stack is empty, by then a sell has replaced it
+  let exitEventId = resume.referenceEventId;
+
+  const top = () => lots[lots.length - 1] as Position | undefined;
+  const reference = () => top()?.buyPrice ?? lastExit;
+
+  const onBar = (bar: PriceBar, ctx: StrategyContext) => {
+    lots = ctx.positions;
+    const { date, close, high } = bar;
+
+    if (lots.length === 0 && lastExit === 0) {
+      if (!ctx.buy(bar.open, { threshold: config.threshold, fill: 'open', opening: true, reason: `Opening lot bought at the OPEN ${rupees(bar.open)}` })) return;
+    }
+
+    let refusedAt = NaN; // Reference at which the cash pool refused a buy
+    let sellsHeld = false; // A filter held the newest lot at its target
+    const trigger = () =>
+      lots.length < config.maxPositions && reference() !== refusedAt
+        ? reference() * (1 - getLadderThreshold(config, lots.length))
+        : -Infinity;
+    const sellable = () => {
+      const lot = top();
+      return lot && lot.buyDate !== date && !sellsHeld ? lot : undefined;
+    };
+
+    const settle = (price: number, _from: number, gapFill: FillReason) => {
+      const where = gapFill === 'gap-open' ? 'the OPEN' : 'the CLOSE';
+      let trades = 0;
+      for (;;) {
+        const lot = sellable();
+        if (lot && lotTarget(lot) <= price) {
+          const gap = price > lotTarget(lot);
+          const sold = ctx.sell(lot, price, {
+            reason: gap
+              ? `Newest lot (bought at ${rupees(lot.buyPrice)} on ${lot.buyDate}) was above its ${percent(lot.threshold ?? 0)} target at ${where} ${rupees(price)}`
+              : `Newest lot (bought at ${rupees(lot.buyPrice)} on ${lot.buyDate}) reached its ${percent(lot.threshold ?? 0)} target`,
+            fill: gap ? gapFill : 'trigger'
+          });
+          if (sold) trades++;
+          else sellsHeld = true;
+          continue;
+        }
+        const level = trigger();
+        if (price <= level) {
+          const threshold = getLadderThreshold(config, lots.length);
+          const gap = price < level;
+          const bought = ctx.buy(price, {
+            threshold,
+            type: gap ? 'gap-down-fill' : 'buy',
+            fill: gap ? gapFill : 'trigger',
+            reason: gap
+              ? `Below the ${percent(threshold)} trigger ${rupees(level)} under the newest lot at ${where} ${rupees(price)}`
+              : `Price fell ${percent(threshold)} below ${lots.length > 0 ? 'the newest lot' : 'the last exit'} at ${rupees(reference())}`
+          });
+          if (bought) {
+            trades++;
+            continue;
+          }
+          refusedAt = reference();
+        }
+        return trades;
+      }
+    };
+
+    const guardHit = walkPath(dayPath(bar, config, ctx), bar.open, {
+      sellLevel: (above, upTo) => {
+        const lot = sellable();
+        const target = lot && lotTarget(lot);
+        return target !== undefined && target > above && target <= upTo ? target : undefined;
+      },
+      buyLevel: (below, downTo) => {
+        const level = trigger();
+        return level < below && level >= downTo ? level : undefined;
+      },
+      settle
+    }, config.maxActionsPerDay, config.gapFill);
+    if (guardHit) ctx.record({ type: 'loop-guard', reference: reference(), reason: loopGuardReason(config) });
+
+    // Empty stack after a rally: let the reference follow the HIGH
+    if (lots.length === 0 && lastExit > 0 && close > lastExit * (1 + config.recoveryTrigger)) {
+      const oldExit = lastExit;
+      lastExit = high;
+      exitEventId = ctx.record({
+        type: 'reference-update',
+        price: close,
+        reference: high,
+        causeId: exitEventId,
+        reason: `No open lots and CLOSE ${rupees(close)} is ${percent(config.recoveryTrigger)}+ above ${rupees(oldExit)}; reference moves to HIGH ${rupees(high)}`
+      });
+    }
+  };
+
+  const onFill = (transaction: Transaction) => {
+    if (transaction.type === 'SELL' && lots.length === 0) {
+      lastExit = transaction.triggerPrice ?? transaction.price;
+      exitEventId = transaction.eventId;
+    }
+  };
+
+  /**
+   * Next session: the newest lot's target, and the ladder below it
+   * Each buy stacks a new newest lot, so the next one waits for it.
+   */
+  const planSession = (positions: Position[], lastClose: number, lotShares: LotShares): SessionOrders => {
+    lots = positions;
+    const lot = top();
+    if (!lot && lastExit === 0) return { orders: [openingOrder(lotShares(lastClose, 0), lastClose, config.threshold)], notes: [] };
+
+    const orders: PendingOrder[] = [];
+    if (lot) {
+      orders.push({ side: 'SELL', price: lotTarget(lot), shares: lot.shares, threshold: lot.threshold ?? 0, lot, note: gapNote('SELL', config.gapFill) });
+    }
+    let level = reference();
+    for (let count = lots.length; count < config.maxPositions; count++) {
+      const threshold = getLadderThreshold(config, count);
+      const trigger = level * (1 - threshold);
+      orders.push({
+        side: 'BUY',
+        price: trigger,
+        shares: lotShares(trigger, count),
+        threshold,
+        after: count > lots.length ? orders.length - 1 : undefined,
+        note: gapNote('BUY', config.gapFill)
+      });
+      level = trigger;
+    }
+
+    const notes = [lot
+      ? `Only the newest lot can be sold; older lots wait below it`
+      : `With no lots open, a CLOSE above ${rupees(lastExit * (1 + config.recoveryTrigger))} moves the reference to the day's HIGH`];
+    if (lots.length >= config.maxPositions) notes.push(`All ${config.maxPositions} lots are open: no buys until one is sold`);
+    return { orders, notes };
+  };
+
+  return {
+    id: 'lifo-stack',
+    onBar,
+    onFill,
+    onCorporateAction: (factor, eventId) => {
+      lastExit = lastExit / factor;
+      if (lots.length === 0) exitEventId = eventId;
+    },
+    getState: () => ({ reference: reference(), referenceEventId: top()?.buyEventId ?? exitEventId }),
+    planSession
+  };
+};
+
+
+/**
+ * Fixed Grid Strategy
+ *
+ * Levels sit at anchor × (1 + threshold)^k, anchored at the first OPEN.
+ * Each level holds at most one lot: it is bought when the price falls to
+ * the level and sold when the price reaches the next level up. The grid
+ * never moves, so unlike the reference strategy a long fall leaves lots
+ * waiting far above the price. A gap down through several free levels
+ * fills one lot per level at the OPEN.
+ */
+const createGridStrategy = (config: StrategyConfig, resume: StrategySnapshot = {}): Strategy => {
+  const step = Math.log(1 + config.threshold);
+  let anchor = resume.reference ?? 0;
+  let anchorEventId = resume.referenceEventId;
+  let lastClose = 0;
+  const levelOf = new Map<Position, number>();
+
+  const levelPrice = (k: number) => anchor * Math.exp(k * step);
+  const levelAtOrBelow = (price: number) => Math.floor(Math.log(price / anchor) / step + 1e-9);
+
+  const onBar = (bar: PriceBar, ctx: StrategyContext) => {
+    const { positions } = ctx;
+    const { date } = bar;
+    const occupied = () => new Set(positions.map(pos => levelOf.get(pos)));
+
+    // Lots carried over from an earlier run sit on the nearest level of this grid
+    for (const pos of positions) {
+      if (!levelOf.has(pos)) levelOf.set(pos, Math.round(Math.log(pos.buyPrice / anchor) / step));
+    }
+
+    const buyLevelAt = (k: number, price: number, fill: FillReason, opening = false): boolean => {
+      const target = levelPrice(k + 1);
+      const position = ctx.buy(price, {
+        threshold: target / price - 1,
+        type: fill === 'gap-open' || fill === 'gap-close' ? 'gap-down-fill' : 'buy',
+        fill,
+        opening,
+        reason: `Grid level ${k} (${rupees(levelPrice(k))}) reached; sells at level ${k + 1} (${rupees(target)})`
+      });
+      if (position) levelOf.set(position, k);
+      return !!position;
+    };
+
+    if (anchor === 0) {
+      anchor = bar.open;
+      if (!buyLevelAt(0, bar.open, 'open', true)) {
+        anchor = 0; // No cash yet (or a filter held it); anchor at the OPEN the first lot is bought
+        return;
+      }
+      anchorEventId = positions[positions.length - 1].buyEventId;
+    }
+
+    // Free levels in [downTo, below), highest first
+    const freeLevels = (below: number, downTo: number): number[] => {
+      const taken = occupied();
+      const levels: number[] = [];
+      for (let k = levelAtOrBelow(below); levelPrice(k) >= downTo - 1e-9 && positions.length + levels.length < config.maxPositions; k--) {
+        if (levelPrice(k) < below - 1e-9 && !taken.has(k)) levels.push(k);
+      }
+      return levels;
+    };
+
+    let sellsHeld = false; // A filter held a lot at its level; the rest wait until tomorrow too
+
+    const settle = (price: number, from: number, gapFill: FillReason) => {
+      let trades = 0;
+      for (const pos of [...positions]) {
+        if (!sellsHeld && pos.buyDate !== date && lotTarget(pos) <= price + 1e-9) {
+          const gap = price > lotTarget(pos) + 1e-9;
+          const sold = ctx.sell(pos, price, {
+            reason: `Grid level ${levelOf.get(pos)} lot (bought at ${rupees(pos.buyPrice)}) reached the next level up`,
+            fill: gap ? gapFill : 'trigger'
+          });
+          if (!sold) {
+            sellsHeld = true;
+            break;
+          }
+          levelOf.delete(pos);
+          trades++;
+        }
+      }
+      for (const k of freeLevels(from, price)) {
+        if (!buyLevelAt(k, price, price < levelPrice(k) - 1e-9 ? gapFill : 'trigger')) break; // Cash pool refused; lower levels would be refused too
+        trades++;
+      }
+      return trades;
+    };
+
+    const guardHit = walkPath(dayPath(bar, config, ctx), lastClose || bar.open, {
+      sellLevel: (above, upTo) => {
+        if (sellsHeld) return undefined;
+        const targets = positions
+          .filter(pos => pos.buyDate !== date)
+          .map(lotTarget)
+          .filter(target => target > above && target <= upTo);
+        return targets.length > 0 ? Math.min(...targets) : undefined;
+      },
+      buyLevel: (below, downTo) => {
+        const [k] = freeLevels(below, downTo);
+        return k === undefined ? undefined : levelPrice(k);
+      },
+      settle
+    }, config.maxActionsPerDay, config.gapFill);
+    if (guardHit) ctx.record({ type: 'loop-guard', reference: anchor, reason: loopGuardReason(config) });
+
+    lastClose = bar.close;
+  };
+
+  /**
+   * Next session: every lot's next level up, and the free levels below the
+   * last close. Levels are fixed, so none of the orders depend on another.
+   */
+  const planSession = (positions: Position[], lastClose: number, lotShares: LotShares): SessionOrders => {
+    if (anchor === 0) return { orders: [openingOrder(lotShares(lastClose, 0), lastClose, config.threshold)], notes: [] };
+
+    const levelFor = (pos: Position) => levelOf.get(pos) ?? Math.round(Math.log(pos.buyPrice / anchor) / step);
+    const orders: PendingOrder[] = [...positions]
+      .sort((a, b) => a.buyPrice - b.buyPrice)
+      .map(lot => ({ side: 'SELL', price: lotTarget(lot), shares: lot.shares, threshold: lot.threshold ?? 0, lot, note: gapNote('SELL', config.gapFill) }));
+
+    const taken = new Set(positions.map(levelFor));
+    let open = positions.length;
+    for (let k = levelAtOrBelow(lastClose); open < config.maxPositions && levelPrice(k) > 0; k--) {
+      if (taken.has(k) || levelPrice(k) >= lastClose - 1e-9) continue;
+      const price = levelPrice(k);
+      orders.push({
+        side: 'BUY',
+        price,
+        shares: lotShares(price, open),
+        threshold: config.threshold,
+        note: config.gapFill === 'close'
+          ? 'Opens below the level: buys at the level if the day comes back to it, otherwise at the CLOSE, one lot per free level'
+          : 'Opens below the level: buys at the OPEN, one lot per free level it gapped through'
+      });
+      open++;
+    }
+
+    const notes = [`Grid anchored at ${rupees(anchor)}, levels ${percent(config.threshold)} apart`];
+    if (positions.length >= config.maxPositions) notes.push(`All ${config.maxPositions} lots are open: no buys until one is sold`);
+    return { orders, notes };
+  };
+
+  return {
+    id: 'fixed-grid',
+    onBar,
+    onCorporateAction: (factor, eventId) => {
+      anchor = anchor / factor;
+      lastClose = lastClose / factor;
+      anchorEventId = eventId;
+    },
+    getState: () => ({ reference: anchor, referenceEventId: anchorEventId }),
+    planSession
+  };
+};
+
+
+/**
+ * Buy and Hold Benchmark
+ *
+ * One lot worth lotSize × maxPositions at the first OPEN, sold at the
+ * CLOSE of the last bar. Profit only counts realized trades, so the
+ * closing sale is what makes the benchmark comparable.
+ */
+const createBuyAndHoldStrategy = (config: StrategyConfig, resume: StrategySnapshot = {}): Strategy => {
+  let entry = resume.reference ?? 0;
+  let entryEventId = resume.referenceEventId;
+
+  const onBar = (bar: PriceBar, ctx: StrategyContext) => {
+    if (entry === 0) {
+      const position = ctx.buy(bar.open, {
+        threshold: 0,
+        amount: config.lotSize * config.maxPositions,
+        fill: 'open',
+        opening: true,
+        reason: `Benchmark entry: lot size × ${config.maxPositions} invested at the OPEN ${rupees(bar.open)}`
+      });
+      if (!position) return;
+      entry = bar.open;
+      entryEventId = position.buyEventId;
+    }
+
+    if (ctx.lastBar) {
+      for (const pos of [...ctx.positions]) {
+        ctx.sell(pos, bar.close, {
+          reason: `End of data: benchmark position closed at the final CLOSE ${rupees(bar.close)}`,
+          fill: 'close',
+          exit: 'end-of-data'
+        });
+      }
+    }
+  };
+
+  return {
+    id: 'buy-and-hold',
+    onBar,
+    onCorporateAction: (factor) => { entry = entry / factor; },
+    getState: () => ({ reference: entry, referenceEventId: entryEventId }),
+    planSession: (_positions, lastClose) => entry === 0
+      ? { orders: [openingOrder(Math.floor(config.lotSize * config.maxPositions / lastClose), lastClose, 0)], notes: [] }
+      : { orders: [], notes: ['Holding: the position is only sold at the end of the data'] }
+  };
+};
+
+
+/**
+ * Fresh strategy instance for one symbol's run
+ * Strategies keep their own state, so every run needs its own. `resume`
+ * picks up where another instance left off, e.g. with new settings for
+ * the next walk-forward window.
+ */
+export const createStrategy = (config: StrategyConfig, resume?: StrategySnapshot): Strategy => {
+  switch (config.strategy) {
+    case 'lifo-stack':
+      return createLifoStrategy(config, resume);
+    case 'fixed-grid':
+      return createGridStrategy(config, resume);
+    case 'buy-and-hold':
+      return createBuyAndHoldStrategy(config, resume);
+    default:
+      return createReferenceStrategy(config, resume);
+  }
+};
+
+export default createStrategy;
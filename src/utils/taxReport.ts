@@ -0,0 +1,298 @@
+import Papa from 'papaparse';
+import type {
+  BacktestResults,
+  Transaction,
+  GainTerm,
+  TaxLot,
+  TaxYearSummary,
+  TaxReport,
+  LossCarryForward
+} from '../types';
+import { annualizeROI } from './backtestEngineV2';
+
+/**
+ * Capital Gains Tax Report (listed equity, STT paid)
+ *
+ * Every SELL closes one lot, so each sell becomes one tax lot:
+ * - Held more than 12 months → LTCG, otherwise STCG
+ * - Lots are grouped by financial year (April–March) of the sell date
+ * - STT is not deductible, so any STT the cost model charged is added back
+ *
+ * Per financial year:
+ * 1. Short-term losses (this year's, then brought forward) are set off
+ *    against STCG, then LTCG. Long-term losses only against LTCG.
+ *    Losses are applied to the highest-taxed gains first.
+ * 2. The LTCG exemption is applied to what is left of LTCG.
+ * 3. Unused losses carry forward for 8 years.
+ * 4. Tax = gains × rate in force on the sell date, plus 4% cess.
+ *
+ * Surcharge, grandfathering of pre-2018 holdings and the 87A rebate are
+ * ignored: this is an estimate to reconcile against, not a filing.
+ * Dividends are taxed at the holder's slab rate, not as capital gains, so
+ * the post-tax figures cover trading profit only.
+ */
+
+interface TaxRule {
+  from: string; // ISO date the rates apply from (sell date)
+  stcgRate: number;
+  ltcgRate: number;
+}
+
+/**
+ * Rates by sell date, newest first
+ * - Before FY 2018-19 LTCG on listed equity was exempt (Section 10(38))
+ * - Budget 2024 raised rates for sales from 23-Jul-2024
+ */
+export const TAX_RULES: TaxRule[] = [
+  { from: '2024-07-23', stcgRate: 0.20, ltcgRate: 0.125 },
+  { from: '2018-04-01', stcgRate: 0.15, ltcgRate: 0.10 },
+  { from: '1900-01-01', stcgRate: 0.15, ltcgRate: 0 }
+];
+
+export const CESS_RATE = 0.04; // Health & education cess on the tax
+const LOSS_CARRY_YEARS = 8;
+
+/**
+ * Annual LTCG exemption by financial year (start year)
+ */
+export const ltcgExemptionFor = (fyStartYear: number): number =>
+  fyStartYear >= 2024 ? 125000 : 100000;
+
+const DAY_MS = 1000 * 3600 * 24;
+
+const fyStartYear = (date: Date) => (date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1);
+
+export const financialYearLabel = (startYear: number) =>
+  `FY ${startYear}-${String(startYear + 1).slice(2)}`;
+
+const rulesOn = (date: Date): TaxRule => {
+  const iso = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  return TAX_RULES.find(rule => iso >= rule.from) ?? TAX_RULES[TAX_RULES.length - 1];
+};
+
+/**
+ * More than 12 months: the sell date falls after the 12-month anniversary of the buy
+ */
+const termOf = (buy: Date, sell: Date): GainTerm => {
+  const anniversary = new Date(buy);
+  anniversary.setFullYear(buy.getFullYear() + 1);
+  return sell.getTime() > anniversary.getTime() ? 'LTCG' : 'STCG';
+};
+
+/**
+ * STT paid on the buy that opened this lot, found by date, strategy price and size
+ * (undoing any split or bonus in between)
+ */
+const buySTT = (sell: Transaction, buys: Transaction[]): number => {
+  const factor = sell.splitFactor ?? 1;
+  const buy = buys.find(b =>
+    b.date === sell.buyDate &&
+    Math.floor(b.shares * factor + 1e-9) === sell.shares &&
+    b.symbol === sell.symbol &&
+    Math.abs((b.triggerPrice ?? b.price) / factor - (sell.boughtAt ?? 0)) < 0.01
+  );
+  return buy?.fees?.stt ?? 0;
+};
+
+export const buildTaxLots = (transactions: Transaction[]): TaxLot[] => {
+  const buys = transactions.filter(t => t.type === 'BUY');
+
+  return transactions
+    .filter(t => t.type === 'SELL' && t.buyDate && t.profit !== undefined)
+    .map(sell => {
+      const sellDate = new Date(sell.date);
+      const buyDate = new Date(sell.buyDate!);
+      const term = termOf(buyDate, sellDate);
+      const rule = rulesOn(sellDate);
+      const sttAddBack = (sell.fees?.stt ?? 0) + buySTT(sell, buys);
+      const profit = sell.profit!;
+
+      return {
+        financialYear: financialYearLabel(fyStartYear(sellDate)),
+        sellDate: sell.date,
+        buyDate: sell.buyDate!,
+        symbol: sell.symbol,
+        shares: sell.shares,
+        buyPrice: sell.boughtAt ?? 0,
+        sellPrice: sell.price,
+        holdingDays: Math.round((sellDate.getTime() - buyDate.getTime()) / DAY_MS),
+        term,
+        profit,
+        sttAddBack,
+        taxableGain: profit + sttAddBack,
+        rate: term === 'LTCG' ? rule.ltcgRate : rule.stcgRate
+      };
+    });
+};
+
+interface GainBucket {
+  rate: number;
+  amount: number;
+}
+
+interface CarriedLoss {
+  fyStart: number;
+  amount: number;
+}
+
+/**
+ * Sum positive gains per rate, highest rate first so losses and the exemption hit them first
+ */
+const gainBuckets = (lots: TaxLot[]): GainBucket[] => {
+  const byRate = new Map<number, number>();
+  for (const lot of lots) {
+    if (lot.taxableGain > 0) byRate.set(lot.rate, (byRate.get(lot.rate) ?? 0) + lot.taxableGain);
+  }
+  return [...byRate.entries()].map(([rate, amount]) => ({ rate, amount })).sort((a, b) => b.rate - a.rate);
+};
+
+/**
+ * Reduce buckets by up to `amount`; returns what could not be absorbed
+ */
+const absorb = (buckets: GainBucket[], amount: number): number => {
+  let left = amount;
+  for (const bucket of buckets) {
+    const used = Math.min(bucket.amount, left);
+    bucket.amount -= used;
+    left -= used;
+  }
+  return left;
+};
+
+/**
+ * Use carried losses oldest first against the buckets, dropping what was used
+ */
+const absorbCarried = (carried: CarriedLoss[], buckets: GainBucket[]): CarriedLoss[] =>
+  carried
+    .map(loss => ({ ...loss, amount: absorb(buckets, loss.amount) }))
+    .filter(loss => loss.amount > 0);
+
+const bucketTotal = (buckets: GainBucket[]) => buckets.reduce((sum, b) => sum + b.amount, 0);
+const lossTotal = (carried: CarriedLoss[]) => carried.reduce((sum, l) => sum + l.amount, 0);
+
+export const computeTaxReport = (results: BacktestResults): TaxReport => {
+  const lots = buildTaxLots(results.transactions);
+
+  const fyStarts = [...new Set(lots.map(lot => fyStartYear(new Date(lot.sellDate))))].sort((a, b) => a - b);
+
+  let carriedShort: CarriedLoss[] = [];
+  let carriedLong: CarriedLoss[] = [];
+  const years: TaxYearSummary[] = [];
+
+  for (const fy of fyStarts) {
+    const label = financialYearLabel(fy);
+    const yearLots = lots.filter(lot => lot.financialYear === label);
+    const shortLots = yearLots.filter(lot => lot.term === 'STCG');
+    const longLots = yearLots.filter(lot => lot.term === 'LTCG');
+
+    // Losses older than 8 years can no longer be set off
+    carriedShort = carriedShort.filter(loss => fy - loss.fyStart <= LOSS_CARRY_YEARS);
+    carriedLong = carriedLong.filter(loss => fy - loss.fyStart <= LOSS_CARRY_YEARS);
+    const lossesBroughtForward: LossCarryForward = {
+      shortTerm: lossTotal(carriedShort),
+      longTerm: lossTotal(carriedLong)
+    };
+
+    const stBuckets = gainBuckets(shortLots);
+    const ltBuckets = gainBuckets(longLots);
+    const stcgGains = bucketTotal(stBuckets);
+    const ltcgGains = bucketTotal(ltBuckets);
+    const stcgLosses = -shortLots.reduce((sum, lot) => sum + Math.min(lot.taxableGain, 0), 0);
+    const ltcgLosses = -longLots.reduce((sum, lot) => sum + Math.min(lot.taxableGain, 0), 0);
+
+    // 1. This year's losses: short-term against STCG then LTCG, long-term against LTCG only
+    const shortLeft = absorb(ltBuckets, absorb(stBuckets, stcgLosses));
+    const longLeft = absorb(ltBuckets, ltcgLosses);
+
+    // 2. Brought-forward losses, oldest first
+    carriedShort = absorbCarried(absorbCarried(carriedShort, stBuckets), ltBuckets);
+    carriedLong = absorbCarried(carriedLong, ltBuckets);
+
+    if (shortLeft > 0) carriedShort.push({ fyStart: fy, amount: shortLeft });
+    if (longLeft > 0) carriedLong.push({ fyStart: fy, amount: longLeft });
+
+    const netStcg = bucketTotal(stBuckets);
+    const netLtcg = bucketTotal(ltBuckets);
+
+    // 3. LTCG exemption, only meaningful where LTCG is taxed at all
+    const exemptionLimit = ltBuckets.some(b => b.rate > 0 && b.amount > 0) ? ltcgExemptionFor(fy) : 0;
+    const ltcgExemption = exemptionLimit - absorb(ltBuckets.filter(b => b.rate > 0), exemptionLimit);
+
+    const stcgTax = stBuckets.reduce((sum, b) => sum + b.amount * b.rate, 0);
+    const ltcgTax = ltBuckets.reduce((sum, b) => sum + b.amount * b.rate, 0);
+    const cess = (stcgTax + ltcgTax) * CESS_RATE;
+
+    years.push({
+      financialYear: label,
+      lots: yearLots.length,
+      stcgGains,
+      stcgLosses,
+      ltcgGains,
+      ltcgLosses,
+      lossesBroughtForward,
+      netStcg,
+      netLtcg,
+      ltcgExemption,
+      taxableLtcg: bucketTotal(ltBuckets),
+      stcgTax,
+      ltcgTax,
+      cess,
+      totalTax: stcgTax + ltcgTax + cess,
+      lossesCarriedForward: {
+        shortTerm: lossTotal(carriedShort),
+        longTerm: lossTotal(carriedLong)
+      }
+    });
+  }
+
+  const realizedProfit = lots.reduce((sum, lot) => sum + lot.profit, 0);
+  const totalTax = years.reduce((sum, y) => sum + y.totalTax, 0);
+  const postTaxProfit = realizedProfit - totalTax;
+  const roiBase = results.roiBase ?? 0;
+
+  return {
+    lots,
+    years,
+    realizedProfit,
+    totalTax,
+    postTaxProfit,
+    postTaxAnnualizedROI: results.startDate && results.endDate && roiBase > 0
+      ? annualizeROI(postTaxProfit, results.startDate, results.endDate, roiBase)
+      : 0
+  };
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Spreadsheet-friendly export: the yearly summary, then every lot
+ */
+export const taxReportToCSV = (report: TaxReport): string => {
+  const summary = Papa.unparse({
+    fields: [
+      'Financial Year', 'Lots', 'STCG Gains', 'STCG Losses', 'LTCG Gains', 'LTCG Losses',
+      'ST Loss b/f', 'LT Loss b/f', 'Net STCG', 'Net LTCG', 'LTCG Exemption', 'Taxable LTCG',
+      'STCG Tax', 'LTCG Tax', 'Cess', 'Total Tax', 'ST Loss c/f', 'LT Loss c/f'
+    ],
+    data: report.years.map(y => [
+      y.financialYear, y.lots, y.stcgGains, y.stcgLosses, y.ltcgGains, y.ltcgLosses,
+      y.lossesBroughtForward.shortTerm, y.lossesBroughtForward.longTerm, y.netStcg, y.netLtcg,
+      y.ltcgExemption, y.taxableLtcg, y.stcgTax, y.ltcgTax, y.cess, y.totalTax,
+      y.lossesCarriedForward.shortTerm, y.lossesCarriedForward.longTerm
+    ].map(v => (typeof v === 'number' ? round2(v) : v)))
+  });
+
+  const lots = Papa.unparse({
+    fields: [
+      'Financial Year', 'Symbol', 'Buy Date', 'Sell Date', 'Holding Days', 'Term', 'Shares',
+      'Buy Price', 'Sell Price', 'Net Profit', 'STT Added Back', 'Taxable Gain', 'Rate'
+    ],
+    data: report.lots.map(lot => [
+      lot.financialYear, lot.symbol ?? '', lot.buyDate, lot.sellDate, lot.holdingDays, lot.term, lot.shares,
+      round2(lot.buyPrice), round2(lot.sellPrice), round2(lot.profit), round2(lot.sttAddBack),
+      round2(lot.taxableGain), lot.rate
+    ])
+  });
+
+  return `${summary}\r\n\r\n${lots}`;
+};
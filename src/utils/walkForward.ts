@@ -0,0 +1,128 @@
+import type {
+  BacktestResults,
+  PriceBar,
+  WalkForwardConfig,
+  WalkForwardRequest,
+  WalkForwardResult,
+  WalkForwardWindow
+} from '../types';
+import { annualizeROI, createEngineState, runBacktest } from './backtestEngineV2';
+import { generateCombinations, runOptimization } from './optimizer';
+
+/**
+ * Walk-Forward Validation
+ *
+ * Tuning parameters on the same bars the results are reported on
+ * overstates them. Walk-forward splits the data into windows: the
+ * optimizer picks parameters on each in-sample window, and they are then
+ * traded on the out-of-sample window that follows, which the sweep never
+ * saw. The out-of-sample windows run back to back on one engine state,
+ * so lots bought in one window are sold under the next window's settings.
+ *
+ * IS = in-sample, OOS = out-of-sample
+ */
+
+export const DEFAULT_WALK_FORWARD: WalkForwardConfig = {
+  mode: 'rolling',
+  inSampleBars: 250,  // About a year of trading days
+  outOfSampleBars: 60 // About a quarter
+};
+
+export const WALK_FORWARD_MODE_LABELS: Record<WalkForwardConfig['mode'], string> = {
+  rolling: 'Rolling (fixed in-sample length)',
+  anchored: 'Anchored (in-sample grows from the start)'
+};
+
+interface WindowBounds {
+  inSample: [number, number]; // Bar indices, end exclusive
+  outOfSample: [number, number];
+}
+
+/**
+ * Bar ranges of every window; the last OOS window may be shorter
+ */
+export const planWindows = (barCount: number, config: WalkForwardConfig): WindowBounds[] => {
+  const { inSampleBars, outOfSampleBars } = config;
+  if (inSampleBars < 2 || outOfSampleBars < 1) {
+    throw new Error('In-sample windows need at least 2 bars and out-of-sample windows at least 1');
+  }
+  if (barCount <= inSampleBars) {
+    throw new Error(`Walk-forward needs more than ${inSampleBars} bars of data; ${barCount} are loaded`);
+  }
+
+  const windows: WindowBounds[] = [];
+  for (let start = inSampleBars; start < barCount; start += outOfSampleBars) {
+    windows.push({
+      inSample: [config.mode === 'anchored' ? 0 : start - inSampleBars, start],
+      outOfSample: [start, Math.min(start + outOfSampleBars, barCount)]
+    });
+  }
+  return windows;
+};
+
+/**
+ * Optimize on each IS window and trade the winner on the next OOS window
+ * onProgress counts backtests across all windows' sweeps
+ */
+export const runWalkForward = (
+  data: PriceBar[],
+  request: WalkForwardRequest,
+  onProgress?: (completed: number, total: number) => void
+): WalkForwardResult => {
+  const sortedData = [...data].sort((a, b) => a.time - b.time);
+  const bounds = planWindows(sortedData.length, request);
+  const { optimizer } = request;
+  const perWindow = generateCombinations(optimizer).length;
+  const total = perWindow * bounds.length;
+  const backtestOptions = { corporateActions: optimizer.corporateActions, intraday: optimizer.intraday };
+
+  const state = createEngineState(optimizer.baseConfig);
+  const windows: WalkForwardWindow[] = [];
+  let stitched: BacktestResults | null = null; // Each OOS run reports everything traded so far
+
+  for (const [index, { inSample, outOfSample }] of bounds.entries()) {
+    const inSampleData = sortedData.slice(inSample[0], inSample[1]);
+    const [best] = runOptimization(inSampleData, optimizer, (completed) => onProgress?.(index * perWindow + completed, total));
+
+    const oosStart = sortedData[outOfSample[0]];
+    const oosEnd = sortedData[outOfSample[1] - 1];
+    const profitBefore = state.realizedProfit + state.dividendIncome;
+    const equityBefore = state.dailySeries[state.dailySeries.length - 1]?.equity ?? 0;
+    const tradesBefore = state.transactions.length;
+
+    stitched = runBacktest(sortedData, best.config, { ...backtestOptions, state, from: oosStart.time, to: oosEnd.time });
+
+    const outOfSampleProfit = state.realizedProfit + state.dividendIncome - profitBefore;
+    windows.push({
+      index,
+      inSampleStart: inSampleData[0].date,
+      inSampleEnd: inSampleData[inSampleData.length - 1].date,
+      outOfSampleStart: oosStart.date,
+      outOfSampleEnd: oosEnd.date,
+      params: best.params,
+      config: best.config,
+      inSample: best,
+      outOfSampleProfit,
+      outOfSampleEquityChange: (state.dailySeries[state.dailySeries.length - 1]?.equity ?? 0) - equityBefore,
+      outOfSampleROI: state.peakCapitalDeployed > 0
+        ? annualizeROI(outOfSampleProfit, oosStart.date, oosEnd.date, state.peakCapitalDeployed)
+        : 0,
+      outOfSampleTrades: state.transactions.length - tradesBefore
+    });
+  }
+
+  if (!stitched) throw new Error('No walk-forward windows to run');
+  const inSampleROI = windows.reduce((sum, w) => sum + w.inSample.annualizedROI, 0) / windows.length;
+  const outOfSampleROI = stitched.annualizedROI ?? 0;
+
+  return {
+    request,
+    windows,
+    results: stitched,
+    inSampleROI,
+    outOfSampleROI,
+    efficiency: inSampleROI > 0 ? outOfSampleROI / inSampleROI : null
+  };
+};
+
+export default runWalkForward;
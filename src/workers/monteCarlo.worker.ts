@@ -0,0 +1,26 @@
+import type { MonteCarloWorkerRequest, MonteCarloWorkerMessage } from '../types';
+import { runMonteCarlo } from '../utils/monteCarlo';
+
+/**
+ * Monte Carlo Web Worker
+ * Runs the synthetic paths off the main thread so the UI stays responsive
+ */
+const post = (message: MonteCarloWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<MonteCarloWorkerRequest>) => {
+  const { data, request } = e.data;
+
+  try {
+    let lastReported = 0;
+    const result = runMonteCarlo(data, request, (completed, total) => {
+      // Throttle progress messages to roughly one per percent
+      if (completed === total || completed - lastReported >= Math.max(1, Math.floor(total / 100))) {
+        lastReported = completed;
+        post({ type: 'progress', completed, total });
+      }
+    });
+    post({ type: 'done', result });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Monte Carlo run failed' });
+  }
+};
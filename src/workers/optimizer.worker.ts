@@ -0,0 +1,26 @@
+import type { OptimizerWorkerRequest, OptimizerWorkerMessage } from '../types';
+import { runOptimization } from '../utils/optimizer';
+
+/**
+ * Optimizer Web Worker
+ * Runs the parameter sweep off the main thread so the UI stays responsive
+ */
+const post = (message: OptimizerWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<OptimizerWorkerRequest>) => {
+  const { data, request } = e.data;
+
+  try {
+    let lastReported = 0;
+    const results = runOptimization(data, request, (completed, total) => {
+      // Throttle progress messages to roughly one per percent
+      if (completed === total || completed - lastReported >= Math.max(1, Math.floor(total / 100))) {
+        lastReported = completed;
+        post({ type: 'progress', completed, total });
+      }
+    });
+    post({ type: 'done', results });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Optimization failed' });
+  }
+};
@@ -0,0 +1,26 @@
+import type { WalkForwardWorkerRequest, WalkForwardWorkerMessage } from '../types';
+import { runWalkForward } from '../utils/walkForward';
+
+/**
+ * Walk-Forward Web Worker
+ * Runs one optimizer sweep per in-sample window off the main thread
+ */
+const post = (message: WalkForwardWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<WalkForwardWorkerRequest>) => {
+  const { data, request } = e.data;
+
+  try {
+    let lastReported = 0;
+    const result = runWalkForward(data, request, (completed, total) => {
+      // Throttle progress messages to roughly one per percent
+      if (completed === total || completed - lastReported >= Math.max(1, Math.floor(total / 100))) {
+        lastReported = completed;
+        post({ type: 'progress', completed, total });
+      }
+    });
+    post({ type: 'done', result });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Walk-forward failed' });
+  }
+};
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite'
+
+// Node build of the command line runner: npm run build:cli
+export default defineConfig({
+  publicDir: false, // The app's static assets have no place in the CLI bundle
+  build: {
+    ssr: 'cli/threshold-backtest.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'threshold-backtest.js',
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  }
+})